@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+
+// Contract Schema Generator - Derives JSON Schemas from the API contract types
+// Writes src/schemas/api-contracts.schema.json; run with --check to fail when it is out of date
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONTRACTS_PATH = path.join(__dirname, '../src/types/api-contracts.ts');
+const OUTPUT_PATH = path.join(__dirname, '../src/schemas/api-contracts.schema.json');
+const SCHEMA_ID = 'api-contracts';
+
+/** JSDoc tags copied onto property schemas as the keyword of the same name */
+const KEYWORD_TAGS = {
+  default: text => JSON.parse(text),
+  minLength: Number,
+  maxLength: Number,
+  minimum: Number,
+  maximum: Number,
+  pattern: String
+};
+
+// ============================================================================
+// Schema Generation
+// ============================================================================
+
+/**
+ * Builds one definition per exported interface and type alias. Generic types and interfaces
+ * with methods have no JSON representation and are left out.
+ */
+function generateContractSchemas() {
+  const program = ts.createProgram([CONTRACTS_PATH], { strict: true, noEmit: true });
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(CONTRACTS_PATH);
+
+  const declarations = new Map();
+  for (const statement of source.statements) {
+    const isContract = ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement);
+    const isExported = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    if (isContract && isExported && !statement.typeParameters) {
+      declarations.set(statement.name.text, statement);
+    }
+  }
+
+  const converter = createConverter(checker, declarations);
+  const definitions = {};
+  for (const [name, declaration] of declarations) {
+    const type = checker.getTypeAtLocation(declaration.name);
+    if (hasMethods(checker, type)) continue;
+
+    const description = describe(checker, checker.getSymbolAtLocation(declaration.name));
+    definitions[name] = { ...(description && { description }), ...converter.toSchema(type, name) };
+  }
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: SCHEMA_ID,
+    description: 'Generated from src/types/api-contracts.ts by scripts/generate-contract-schemas.js - do not edit',
+    definitions
+  };
+}
+
+function createConverter(checker, declarations) {
+  /** Names the contract a type refers to, so it becomes a $ref instead of being inlined */
+  function referenceOf(type) {
+    const symbol = type.aliasSymbol ?? type.symbol;
+    const declaration = symbol && declarations.get(symbol.name);
+    return declaration && symbol.declarations?.includes(declaration) ? symbol.name : undefined;
+  }
+
+  function toSchema(type, definitionName) {
+    const reference = referenceOf(type);
+    if (reference !== undefined && reference !== definitionName) {
+      return { $ref: `#/definitions/${reference}` };
+    }
+
+    const { flags } = type;
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+    if (flags & ts.TypeFlags.String) return { type: 'string' };
+    if (flags & ts.TypeFlags.Number) return { type: 'number' };
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.Null) return { type: 'null' };
+    if (flags & ts.TypeFlags.StringLiteral) return { type: 'string', const: type.value };
+    if (flags & ts.TypeFlags.NumberLiteral) return { type: 'number', const: type.value };
+    if (flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: type.intrinsicName === 'true' };
+    if (type.isUnion()) return unionToSchema(type);
+    if (type.isIntersection()) return { allOf: type.types.map(member => toSchema(member)) };
+    if (flags & ts.TypeFlags.Object) return objectToSchema(type);
+
+    throw new Error(`Unsupported type in API contracts: ${checker.typeToString(type)}`);
+  }
+
+  function unionToSchema(type) {
+    const members = type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined));
+    if (members.length === 1) return toSchema(members[0]);
+    if (members.every(member => member.flags & ts.TypeFlags.BooleanLiteral)) return { type: 'boolean' };
+    if (members.every(member => member.flags & ts.TypeFlags.StringLiteral)) {
+      return { type: 'string', enum: members.map(member => member.value) };
+    }
+    return { anyOf: members.map(member => toSchema(member)) };
+  }
+
+  function objectToSchema(type) {
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const [item] = checker.getTypeArguments(type);
+      return { type: 'array', items: item ? toSchema(item) : {} };
+    }
+    if (type.symbol?.name === 'Date') {
+      return { type: 'string', format: 'date-time' };
+    }
+
+    const properties = {};
+    const required = [];
+    for (const property of checker.getPropertiesOfType(type)) {
+      const schema = toSchema(checker.getTypeOfSymbol(property));
+      const description = describe(checker, property);
+      // Keywords next to $ref are ignored, so references keep neither a description nor tagged keywords
+      properties[property.name] = schema.$ref ? schema : {
+        ...(description && { description }),
+        ...schema,
+        ...taggedKeywords(property)
+      };
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name);
+      }
+    }
+
+    const index = checker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+    return {
+      type: 'object',
+      ...(Object.keys(properties).length > 0 && { properties }),
+      ...(required.length > 0 && { required }),
+      ...(index && { additionalProperties: toSchema(index.type) })
+    };
+  }
+
+  return { toSchema };
+}
+
+function hasMethods(checker, type) {
+  // The apparent members of primitives, e.g. a string's methods, do not count
+  return Boolean(type.flags & ts.TypeFlags.Object) && checker.getPropertiesOfType(type).some(property =>
+    checker.getTypeOfSymbol(property).getCallSignatures().length > 0);
+}
+
+function taggedKeywords(symbol) {
+  const keywords = {};
+  for (const tag of symbol.getJsDocTags()) {
+    const parse = KEYWORD_TAGS[tag.name];
+    if (parse) {
+      keywords[tag.name] = parse(ts.displayPartsToString(tag.text).trim());
+    }
+  }
+  return keywords;
+}
+
+function describe(checker, symbol) {
+  return symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+}
+
+function serialize(schemas) {
+  return `${JSON.stringify(schemas, null, 2)}\n`;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+function main() {
+  const expected = serialize(generateContractSchemas());
+  const relativePath = path.relative(process.cwd(), OUTPUT_PATH);
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '';
+    if (current !== expected) {
+      console.error(`❌ ${relativePath} is out of date; run npm run generate:schemas`);
+      process.exit(1);
+    }
+    console.log(`✅ ${relativePath} matches the API contracts`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_PATH, expected);
+  console.log(`✅ Wrote ${relativePath}`);
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { generateContractSchemas, serialize, OUTPUT_PATH };
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+
+// API Key Hasher - Prints an API_KEYS entry for a REST API key
+// Usage: npm run hash:api-key -- <id> <scope> [scope...]; generates the key unless API_KEY is set
+
+const crypto = require('crypto');
+
+function main() {
+  const [id, ...scopes] = process.argv.slice(2);
+  if (!id || scopes.length === 0) {
+    console.error('Usage: npm run hash:api-key -- <id> <scope> [scope...]');
+    process.exit(1);
+  }
+
+  const apiKey = process.env.API_KEY || crypto.randomBytes(32).toString('base64url');
+  const sha256 = crypto.createHash('sha256').update(apiKey).digest('hex');
+
+  if (!process.env.API_KEY) {
+    console.log(`API key (give it to the caller; it is not stored): ${apiKey}`);
+  }
+  console.log('API_KEYS entry:');
+  console.log(JSON.stringify({ id, sha256, scopes }));
+}
+
+main();
@@ -29,6 +29,9 @@ const OPTIONAL_ENV_VARS = [
 const REQUIRED_FILES = [
   'dist/mcp/index.js',
   'dist/mcp/server.js',
+  'dist/mcp/tool-registry.js',
+  'dist/mcp/tool-definitions.js',
+  'dist/mcp/tool-handlers.js',
   'dist/orchestration/project-orchestrator.js',
   'package.json'
 ];
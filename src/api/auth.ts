@@ -0,0 +1,283 @@
+// API Authentication - API keys and Entra ID bearer tokens for the orchestration REST API
+// Callers get the scopes of their key or token; each route requires the scope its OpenAPI operation declares
+
+import { promises as fs } from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import { JsonWebKey, KeyObject, constants, createHash, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import { fileURLToPath } from 'url';
+import type { IApiAuthConfig, IApiKeyConfig, IJwtAuthConfig } from '../config/types';
+
+// ============================================================================
+// Authentication Types
+// ============================================================================
+
+export type ApiScope =
+  | 'templates:read'
+  | 'projects:read'
+  | 'projects:create'
+  | 'projects:delete'
+  | 'operations:read'
+  | 'operations:write'
+  | 'operations:approve';
+
+export const API_SCOPES: readonly ApiScope[] = [
+  'templates:read',
+  'projects:read',
+  'projects:create',
+  'projects:delete',
+  'operations:read',
+  'operations:write',
+  'operations:approve'
+];
+
+/** Scope of the approver role, which decides on operations waiting at an approval step */
+export const APPROVER_SCOPE: ApiScope = 'operations:approve';
+
+export interface ApiPrincipal {
+  /** `api-key:<id>` or `jwt:<object id or subject>` */
+  readonly id: string;
+  readonly scopes: readonly string[];
+}
+
+export type AuthenticationResult =
+  | { readonly success: true; readonly principal: ApiPrincipal }
+  | { readonly success: false; readonly error: string };
+
+interface JwtHeader {
+  readonly alg?: string;
+  readonly kid?: string;
+}
+
+interface JwtClaims {
+  readonly iss?: string;
+  readonly aud?: string | readonly string[];
+  readonly exp?: number;
+  readonly nbf?: number;
+  readonly sub?: string;
+  /** Entra ID object id of the user or service principal */
+  readonly oid?: string;
+  /** Delegated scopes, separated by spaces */
+  readonly scp?: string;
+  /** Application roles granted to the caller */
+  readonly roles?: readonly string[];
+}
+
+type JsonWebKeyWithId = JsonWebKey & { readonly kid?: string; readonly use?: string; readonly alg?: string };
+
+// Tolerates clock skew between the issuer and this service
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+/** Node's digest and key options for each supported signing algorithm; symmetric and `none` are refused */
+const JWT_ALGORITHMS: Readonly<Record<string, { readonly digest: string; readonly options: object }>> = {
+  RS256: { digest: 'sha256', options: {} },
+  RS384: { digest: 'sha384', options: {} },
+  RS512: { digest: 'sha512', options: {} },
+  PS256: { digest: 'sha256', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { digest: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { digest: 'sha384', options: { dsaEncoding: 'ieee-p1363' } }
+};
+
+// ============================================================================
+// API Authenticator
+// ============================================================================
+
+export class ApiAuthenticator {
+  private readonly keys: JwksKeyStore | undefined;
+
+  constructor(private readonly config: IApiAuthConfig) {
+    this.keys = config.jwt ? new JwksKeyStore(config.jwt.jwksUri) : undefined;
+  }
+
+  /** Identifies the caller from an `Authorization: Bearer <jwt>` or `X-API-Key` header */
+  async authenticate(headers: IncomingHttpHeaders): Promise<AuthenticationResult> {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ') === true) {
+      return this.authenticateToken(authorization.slice('Bearer '.length).trim());
+    }
+
+    const apiKey = headers['x-api-key'];
+    if (typeof apiKey === 'string') {
+      return this.authenticateApiKey(apiKey);
+    }
+
+    return { success: false, error: 'Missing credentials' };
+  }
+
+  private authenticateApiKey(apiKey: string): AuthenticationResult {
+    const digest = createHash('sha256').update(apiKey).digest();
+    // Checks every key so the time taken does not reveal which one matched
+    const match = this.config.apiKeys.reduce<IApiKeyConfig | undefined>((found, key) =>
+      timingSafeEqual(Buffer.from(key.sha256, 'hex'), digest) ? key : found, undefined);
+
+    return match
+      ? { success: true, principal: { id: `api-key:${match.id}`, scopes: match.scopes } }
+      : { success: false, error: 'Invalid API key' };
+  }
+
+  private async authenticateToken(token: string): Promise<AuthenticationResult> {
+    if (!this.config.jwt || !this.keys) {
+      return { success: false, error: 'Bearer tokens are not accepted' };
+    }
+
+    const result = await verifyJwt(token, this.keys, this.config.jwt);
+    if (!result.success) {
+      return result;
+    }
+
+    const { claims } = result;
+    const scopes = [...(claims.scp?.split(' ').filter(scope => scope !== '') ?? []), ...(claims.roles ?? [])];
+    return { success: true, principal: { id: `jwt:${claims.oid ?? claims.sub ?? 'unknown'}`, scopes } };
+  }
+}
+
+// ============================================================================
+// JSON Web Key Sets
+// ============================================================================
+
+/**
+ * Loads the issuer's signing keys from a JWKS URL or a local file. Keys are cached and reloaded
+ * when a token names an unknown key id, which is how issuers roll their keys over.
+ */
+export class JwksKeyStore {
+  private keys = new Map<string, { readonly key: KeyObject; readonly jwk: JsonWebKeyWithId }>();
+  private loadedAt = 0;
+  private loading: Promise<void> | undefined;
+
+  constructor(
+    private readonly jwksUri: string,
+    private readonly options: { readonly maxAgeMs: number; readonly minReloadIntervalMs: number } = {
+      maxAgeMs: 60 * 60 * 1000,
+      minReloadIntervalMs: 30 * 1000
+    }
+  ) {}
+
+  async getKey(kid: string | undefined, alg: string): Promise<KeyObject | undefined> {
+    const age = Date.now() - this.loadedAt;
+    const known = this.find(kid, alg);
+    if (age > this.options.maxAgeMs || (!known && age > this.options.minReloadIntervalMs)) {
+      await this.reload();
+      return this.find(kid, alg);
+    }
+    return known;
+  }
+
+  private find(kid: string | undefined, alg: string): KeyObject | undefined {
+    // Tokens without a key id may be signed by the only key there is
+    const entry = kid !== undefined || this.keys.size !== 1 ? this.keys.get(kid ?? '') : [...this.keys.values()][0];
+    return entry && (entry.jwk.alg === undefined || entry.jwk.alg === alg) ? entry.key : undefined;
+  }
+
+  private reload(): Promise<void> {
+    this.loading ??= this.load().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const jwks = JSON.parse(await this.read()) as { keys?: readonly JsonWebKeyWithId[] };
+    const keys = new Map<string, { key: KeyObject; jwk: JsonWebKeyWithId }>();
+    for (const [index, jwk] of (jwks.keys ?? []).entries()) {
+      if (jwk.use === 'enc') continue;
+      keys.set(jwk.kid ?? `#${index}`, { key: createPublicKey({ key: jwk, format: 'jwk' }), jwk });
+    }
+
+    this.keys = keys;
+    this.loadedAt = Date.now();
+  }
+
+  private async read(): Promise<string> {
+    if (/^https?:\/\//.test(this.jwksUri)) {
+      const response = await fetch(this.jwksUri);
+      if (!response.ok) {
+        throw new Error(`Failed to load JWKS from ${this.jwksUri}: ${response.status}`);
+      }
+      return response.text();
+    }
+
+    const filePath = this.jwksUri.startsWith('file:') ? fileURLToPath(this.jwksUri) : this.jwksUri;
+    return fs.readFile(filePath, 'utf8');
+  }
+}
+
+// ============================================================================
+// JWT Verification
+// ============================================================================
+
+interface DecodedJwt {
+  readonly header: JwtHeader & { readonly alg: string };
+  readonly claims: JwtClaims;
+  readonly signed: Buffer;
+  readonly signature: Buffer;
+}
+
+async function verifyJwt(
+  token: string,
+  keys: JwksKeyStore,
+  config: IJwtAuthConfig
+): Promise<{ success: true; claims: JwtClaims } | { success: false; error: string }> {
+  const jwt = decodeJwt(token);
+  const algorithm = jwt ? JWT_ALGORITHMS[jwt.header.alg] : undefined;
+  if (!jwt || !algorithm) {
+    return { success: false, error: 'Malformed bearer token or unsupported signing algorithm' };
+  }
+
+  const key = await keys.getKey(jwt.header.kid, jwt.header.alg);
+  if (!key || !verify(algorithm.digest, jwt.signed, { key, ...algorithm.options }, jwt.signature)) {
+    return { success: false, error: 'Invalid bearer token signature' };
+  }
+
+  const claimsError = checkClaims(jwt.claims, config, Math.floor(Date.now() / 1000));
+  return claimsError !== undefined ? { success: false, error: claimsError } : { success: true, claims: jwt.claims };
+}
+
+function decodeJwt(token: string): DecodedJwt | undefined {
+  const segments = token.split('.');
+  const [encodedHeader = '', encodedClaims = '', signature = ''] = segments;
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  const claims = decodeSegment<JwtClaims>(encodedClaims);
+  if (segments.length !== 3 || typeof header?.alg !== 'string' || !claims) {
+    return undefined;
+  }
+
+  return {
+    header: { ...header, alg: header.alg },
+    claims,
+    signed: Buffer.from(`${encodedHeader}.${encodedClaims}`),
+    signature: Buffer.from(signature, 'base64url')
+  };
+}
+
+/** Returns why the claims are not acceptable, or undefined when they are */
+function checkClaims(claims: JwtClaims, config: IJwtAuthConfig, now: number): string | undefined {
+  if (claims.iss !== config.issuer) {
+    return 'Bearer token was issued by an untrusted issuer';
+  }
+  const audiences = typeof claims.aud === 'string' ? [claims.aud] : claims.aud ?? [];
+  if (!audiences.includes(config.audience)) {
+    return 'Bearer token is not meant for this API';
+  }
+  if (claims.exp === undefined || claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    return 'Bearer token has expired';
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    return 'Bearer token is not valid yet';
+  }
+  return undefined;
+}
+
+function decodeSegment<T>(segment: string): T | undefined {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return typeof value === 'object' && value !== null ? value as T : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Hex SHA-256 digest to store in API_KEYS in place of the key */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export default ApiAuthenticator;
@@ -0,0 +1,169 @@
+// OpenAPI Validator - Checks requests and responses against the served OpenAPI document
+// Responses are checked as they are sent, so a route that drifts from the document fails instead of going unnoticed
+
+import Ajv from 'ajv';
+import { JsonSchema } from '../schemas/contract-schemas';
+import { ValidationResult, validateWithSchema } from '../validation';
+import { ApiParameter, OpenApiDocument } from './openapi';
+
+// ============================================================================
+// Validator Types
+// ============================================================================
+
+export interface DocumentedOperation {
+  readonly method: string;
+  readonly path: string;
+  readonly operationId: string;
+  /** Scopes a caller needs, from the operation's security requirements; empty for public operations */
+  readonly scopes: readonly string[];
+}
+
+interface CompiledOperation extends DocumentedOperation {
+  readonly pattern: RegExp;
+  readonly validateQuery?: Ajv.ValidateFunction;
+  readonly validateBody?: Ajv.ValidateFunction;
+  readonly validateResponse: ReadonlyMap<string, Ajv.ValidateFunction | undefined>;
+}
+
+export interface ApiRequestParts {
+  readonly query: Record<string, unknown>;
+  readonly body: unknown;
+}
+
+const DOCUMENT_KEY = 'openapi';
+const JSON_CONTENT = 'application/json';
+const VALID: ValidationResult = { isValid: true, errors: [] };
+
+// ============================================================================
+// OpenAPI Validator
+// ============================================================================
+
+export class OpenApiValidator {
+  private readonly operations: readonly CompiledOperation[];
+
+  constructor(document: OpenApiDocument) {
+    // Schemas below the document resolve their #/components/schemas references against it
+    const bodies = new Ajv({ allErrors: true, validateSchema: false }).addSchema(document, DOCUMENT_KEY);
+    // Query strings only hold text, so numbers and booleans are read from it
+    const queries = new Ajv({ allErrors: true, coerceTypes: true, validateSchema: false }).addSchema(document, DOCUMENT_KEY);
+
+    this.operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) =>
+        compileOperation(path, method, operation, { bodies, queries })));
+  }
+
+  /** Finds the documented operation serving a request path relative to the router */
+  findOperation(method: string, path: string): DocumentedOperation | undefined {
+    const normalized = method.toLowerCase();
+    return this.operations.find(operation => operation.method === normalized && operation.pattern.test(path));
+  }
+
+  validateRequest(operation: DocumentedOperation, request: ApiRequestParts): ValidationResult {
+    const compiled = this.compiled(operation);
+    // Coercion converts values in place, which must not change what the route reads
+    const query = compiled.validateQuery ? validateWithSchema(compiled.validateQuery, { ...request.query }, 'query') : VALID;
+    const body = compiled.validateBody ? validateWithSchema(compiled.validateBody, request.body, 'request') : VALID;
+
+    const errors = [...query.errors, ...body.errors];
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /** Checks a JSON body as it goes over the wire, e.g. with dates as strings */
+  validateResponse(operation: DocumentedOperation, status: number, body: unknown): ValidationResult {
+    const { validateResponse } = this.compiled(operation);
+    const key = validateResponse.has(String(status)) ? String(status) : 'default';
+    if (!validateResponse.has(key)) {
+      return {
+        isValid: false,
+        errors: [{ field: 'response', code: 'UNDOCUMENTED_STATUS', message: `Status ${status} is not documented for ${operation.operationId}` }]
+      };
+    }
+
+    const validate = validateResponse.get(key);
+    return validate ? validateWithSchema(validate, JSON.parse(JSON.stringify(body)) as unknown, 'response') : VALID;
+  }
+
+  private compiled(operation: DocumentedOperation): CompiledOperation {
+    const compiled = this.operations.find(candidate => candidate.operationId === operation.operationId);
+    if (!compiled) {
+      throw new Error(`Operation ${operation.operationId} is not in the OpenAPI document`);
+    }
+    return compiled;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function compileOperation(
+  path: string,
+  method: string,
+  operation: JsonSchema,
+  ajv: { readonly bodies: Ajv.Ajv; readonly queries: Ajv.Ajv }
+): CompiledOperation {
+  const pointer = `${DOCUMENT_KEY}#/paths/${escapePointer(path)}/${method}`;
+  const responses = (operation['responses'] ?? {}) as Record<string, JsonSchema>;
+  const query = querySchema((operation['parameters'] ?? []) as readonly ApiParameter[]);
+
+  return {
+    method,
+    path,
+    operationId: String(operation['operationId']),
+    scopes: requiredScopes(operation),
+    pattern: toPathPattern(path),
+    ...(query && { validateQuery: ajv.queries.compile(query) }),
+    ...(operation['requestBody'] !== undefined && {
+      validateBody: resolve(ajv.bodies, `${pointer}/requestBody/content/${escapePointer(JSON_CONTENT)}/schema`)
+    }),
+    validateResponse: new Map(Object.entries(responses).map(([status, response]) => [
+      status,
+      hasJsonContent(response)
+        ? resolve(ajv.bodies, `${pointer}/responses/${status}/content/${escapePointer(JSON_CONTENT)}/schema`)
+        : undefined
+    ]))
+  };
+}
+
+/** Combines the query parameters into one object schema; their schemas never hold references */
+function querySchema(parameters: readonly ApiParameter[]): JsonSchema | undefined {
+  const query = parameters.filter(parameter => parameter.in === 'query');
+  if (query.length === 0) {
+    return undefined;
+  }
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(query.map(parameter => [parameter.name, parameter.schema])),
+    required: query.filter(parameter => parameter.required === true).map(parameter => parameter.name)
+  };
+}
+
+function requiredScopes(operation: JsonSchema): string[] {
+  const requirements = (operation['security'] ?? []) as ReadonlyArray<Record<string, readonly string[]>>;
+  return [...new Set(requirements.flatMap(requirement => Object.values(requirement).flat()))];
+}
+
+function resolve(ajv: Ajv.Ajv, ref: string): Ajv.ValidateFunction {
+  const validate = ajv.getSchema(ref);
+  if (!validate) {
+    throw new Error(`OpenAPI document has no schema at ${ref}`);
+  }
+  return validate;
+}
+
+function hasJsonContent(response: JsonSchema): boolean {
+  const content = response['content'];
+  return typeof content === 'object' && content !== null && JSON_CONTENT in content;
+}
+
+function toPathPattern(path: string): RegExp {
+  const source = path.split(/\{\w+\}/).map(part => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&')).join('[^/]+');
+  return new RegExp(`^${source}/?$`);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export default OpenApiValidator;
@@ -0,0 +1,377 @@
+// OpenAPI Document - Machine-readable contract of the orchestration REST API
+// Operations are listed next to the routes in routes/orchestration.ts; their schemas are the API contract schemas
+
+import type { ApiScope } from './auth';
+import {
+  ContractName,
+  JsonSchema,
+  contractDefinitions,
+  contractObjectSchema,
+  contractSchema
+} from '../schemas/contract-schemas';
+
+// ============================================================================
+// OpenAPI Types
+// ============================================================================
+
+export type ApiMethod = 'get' | 'post' | 'delete';
+
+export interface ApiParameter {
+  readonly name: string;
+  readonly in: 'path' | 'query' | 'header';
+  readonly description?: string;
+  readonly required?: boolean;
+  readonly schema: JsonSchema;
+}
+
+export interface ApiResponse {
+  readonly description: string;
+  /** Contract of the JSON body; responses without one have no JSON body */
+  readonly contract?: ContractName;
+  /** Content type of a body that is not JSON, e.g. an event stream */
+  readonly contentType?: string;
+}
+
+export interface ApiOperation {
+  readonly method: ApiMethod;
+  /** OpenAPI path template relative to the router, e.g. `/templates/{templateName}` */
+  readonly path: string;
+  readonly operationId: string;
+  readonly summary: string;
+  readonly tag: string;
+  /** Scope a caller needs when authentication is configured; operations without one are public */
+  readonly scope?: ApiScope;
+  readonly parameters?: readonly ApiParameter[];
+  readonly requestBody?: ContractName;
+  /** Successful responses by status; every other status returns an ErrorResponse */
+  readonly responses: Readonly<Record<number, ApiResponse>>;
+}
+
+export interface OpenApiDocument {
+  readonly openapi: string;
+  readonly info: { readonly title: string; readonly version: string; readonly description: string };
+  readonly servers?: ReadonlyArray<{ readonly url: string }>;
+  readonly tags: ReadonlyArray<{ readonly name: string; readonly description: string }>;
+  readonly paths: Record<string, Record<string, JsonSchema>>;
+  readonly components: {
+    readonly schemas: Record<string, JsonSchema>;
+    readonly securitySchemes?: Record<string, JsonSchema>;
+  };
+}
+
+export interface OpenApiDocumentOptions {
+  /** Adds the credentials each operation requires; leave off for an API served without authentication */
+  readonly secured?: boolean;
+}
+
+export const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+const SECURITY_SCHEMES: Record<string, JsonSchema> = {
+  bearerAuth: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Entra ID access token; scopes are read from its `scp` and `roles` claims'
+  },
+  apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'API key with the scopes configured for it' }
+};
+
+// ============================================================================
+// API Operations
+// ============================================================================
+
+const SKIP_PARAMETERS: readonly ApiParameter[] = [
+  booleanQuery('skipAzureDevOps', 'Skip the Azure DevOps project'),
+  booleanQuery('skipPowerPlatform', 'Skip Power Platform environments, publisher and solutions'),
+  booleanQuery('skipAppRegistration', 'Skip the Azure AD app registration')
+];
+
+export const API_OPERATIONS: readonly ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/templates',
+    operationId: 'listTemplates',
+    summary: 'List available project templates',
+    tag: 'Templates',
+    scope: 'templates:read',
+    responses: { 200: { description: 'The templates', contract: 'ListTemplatesResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/templates/{templateName}',
+    operationId: 'getTemplate',
+    summary: 'Get the parameters, environments, work items and data model of a template',
+    tag: 'Templates',
+    scope: 'templates:read',
+    responses: { 200: { description: 'The template', contract: 'TemplateDetailsResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/templates/{templateName}/validate',
+    operationId: 'validateTemplateParameters',
+    summary: 'Check parameter values against a template and the expressions that use them',
+    tag: 'Templates',
+    scope: 'templates:read',
+    requestBody: 'ValidateTemplateRequest',
+    responses: { 200: { description: 'The validation result', contract: 'ValidateTemplateResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/projects',
+    operationId: 'createProject',
+    summary: 'Start creating a project from a template',
+    tag: 'Projects',
+    scope: 'projects:create',
+    parameters: [
+      booleanQuery('dryRun', 'Perform validation only without creating resources'),
+      ...SKIP_PARAMETERS,
+      {
+        name: 'Idempotency-Key',
+        in: 'header',
+        description: 'Repeating a key returns the operation the first request started',
+        schema: { type: 'string' }
+      }
+    ],
+    requestBody: 'CreateProjectApiRequest',
+    responses: { 202: { description: 'The operation creating the project, returned while it runs; follow it through its status or events', contract: 'CreateProjectApiResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/drift',
+    operationId: 'detectDrift',
+    summary: 'Compare a created project with its template',
+    tag: 'Projects',
+    scope: 'projects:read',
+    parameters: [booleanQuery('remediation', 'Also list the steps that bring the project back in line with its template')],
+    responses: { 200: { description: 'The drift report', contract: 'DriftReportResponse' } }
+  },
+  {
+    method: 'delete',
+    path: '/projects/{projectId}',
+    operationId: 'destroyProject',
+    summary: 'Delete the resources a project created; run with dryRun first to get a confirmation token',
+    tag: 'Projects',
+    scope: 'projects:delete',
+    parameters: contractQueryParameters('DestroyProjectRequest'),
+    responses: { 200: { description: 'The teardown, or its plan on a dry run', contract: 'DestroyProjectResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/plans',
+    operationId: 'planProject',
+    summary: 'List each resource of a template as create, update, no-op or conflict without changing anything',
+    tag: 'Plans',
+    scope: 'projects:create',
+    parameters: SKIP_PARAMETERS,
+    requestBody: 'CreateProjectApiRequest',
+    responses: { 201: { description: 'The plan', contract: 'ProjectPlanResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/plans/{planId}',
+    operationId: 'getPlan',
+    summary: 'Get a plan',
+    tag: 'Plans',
+    scope: 'projects:read',
+    responses: { 200: { description: 'The plan', contract: 'ProjectPlanResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/plans/{planId}/apply',
+    operationId: 'applyPlan',
+    summary: 'Execute a plan; refused when existing resources changed since it was made',
+    tag: 'Plans',
+    scope: 'projects:create',
+    responses: { 202: { description: 'The operation applying the plan', contract: 'CreateProjectApiResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/operations',
+    operationId: 'listOperations',
+    summary: 'List recent operations, newest first',
+    tag: 'Operations',
+    scope: 'operations:read',
+    parameters: [
+      { name: 'limit', in: 'query', description: 'Maximum number of operations', schema: { type: 'integer', minimum: 1, default: 20 } },
+      { name: 'status', in: 'query', description: 'Only list operations with this status', schema: contractSchema('OperationStatus') }
+    ],
+    responses: { 200: { description: 'The operations', contract: 'ListOperationsResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/operations/{operationId}',
+    operationId: 'getOperationStatus',
+    summary: 'Get the status, progress and logs of an operation',
+    tag: 'Operations',
+    scope: 'operations:read',
+    responses: { 200: { description: 'The operation', contract: 'GetOperationStatusResponse' } }
+  },
+  {
+    method: 'delete',
+    path: '/operations/{operationId}',
+    operationId: 'cancelOperation',
+    summary: 'Cancel an operation once its running step finishes',
+    tag: 'Operations',
+    scope: 'operations:write',
+    parameters: contractQueryParameters('CancelOperationRequest'),
+    responses: { 202: { description: 'The cancellation was requested', contract: 'CancelOperationResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/operations/{operationId}/resume',
+    operationId: 'resumeOperation',
+    summary: 'Resume a failed or interrupted operation from the last completed step',
+    tag: 'Operations',
+    scope: 'operations:write',
+    responses: { 202: { description: 'The resumed operation', contract: 'CreateProjectApiResponse' } }
+  },
+  {
+    method: 'post',
+    path: '/operations/{operationId}/approvals',
+    operationId: 'approveOperation',
+    summary: 'Approve or reject the approval step an operation is waiting at, then continue the operation',
+    tag: 'Operations',
+    scope: 'operations:approve',
+    requestBody: 'ApproveOperationRequest',
+    responses: { 200: { description: 'The recorded decision; the operation continues in the background', contract: 'ApproveOperationResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/operations/{operationId}/events',
+    operationId: 'streamOperationEvents',
+    summary: 'Stream step, log, progress, approval and result events of an operation as Server-Sent Events',
+    tag: 'Operations',
+    scope: 'operations:read',
+    parameters: [
+      { name: 'Last-Event-ID', in: 'header', description: 'Replay the events after this one', schema: { type: 'integer' } },
+      { name: 'lastEventId', in: 'query', description: 'Replay the events after this one, for clients that cannot set headers', schema: { type: 'integer' } }
+    ],
+    responses: {
+      200: { description: 'OperationEvent objects as Server-Sent Events, ending after the result', contentType: 'text/event-stream' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/operations/{operationId}/audit',
+    operationId: 'getOperationAudit',
+    summary: 'Get the audit trail of an operation',
+    tag: 'Operations',
+    scope: 'operations:read',
+    responses: { 200: { description: 'The audit trail', contract: 'OperationAuditResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/health',
+    operationId: 'getHealth',
+    summary: 'Check that the service is up',
+    tag: 'Service',
+    responses: { 200: { description: 'The service health', contract: 'HealthResponse' } }
+  },
+  {
+    method: 'get',
+    path: '/status',
+    operationId: 'getStatus',
+    summary: 'Get the version and enabled features of the service',
+    tag: 'Service',
+    responses: { 200: { description: 'The service status', contract: 'ServiceStatusResponse' } }
+  }
+];
+
+// ============================================================================
+// Document Generation
+// ============================================================================
+
+export function createOpenApiDocument(options: OpenApiDocumentOptions = {}): OpenApiDocument {
+  const secured = options.secured ?? true;
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperationObject(operation, secured) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Power Platform Orchestration API',
+      version: '1.0.0',
+      description: 'Creates Power Platform projects with Azure DevOps integration from templates, and plans, tracks, checks and removes them'
+    },
+    tags: [
+      { name: 'Templates', description: 'Project templates and their parameters' },
+      { name: 'Projects', description: 'Project creation, drift detection and teardown' },
+      { name: 'Plans', description: 'Dry runs that can be applied later' },
+      { name: 'Operations', description: 'Progress, events and control of running operations' },
+      { name: 'Service', description: 'Health and status of the service' }
+    ],
+    paths,
+    components: {
+      schemas: contractDefinitions(SCHEMA_REF_PREFIX),
+      ...(secured && { securitySchemes: SECURITY_SCHEMES })
+    }
+  };
+}
+
+function toOperationObject(operation: ApiOperation, secured: boolean): JsonSchema {
+  const parameters = [...pathParameters(operation.path), ...(operation.parameters ?? [])];
+  const scope = secured ? operation.scope : undefined;
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    // Either credential works, as long as it carries the scope
+    ...(scope !== undefined && { security: Object.keys(SECURITY_SCHEMES).map(scheme => ({ [scheme]: [scope] })) }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.requestBody !== undefined && {
+      requestBody: { required: true, content: { 'application/json': { schema: contractRef(operation.requestBody) } } }
+    }),
+    responses: {
+      ...Object.fromEntries(Object.entries(operation.responses).map(([status, response]) => [status, toResponseObject(response)])),
+      default: toResponseObject({ description: 'The error', contract: 'ErrorResponse' })
+    }
+  };
+}
+
+function toResponseObject(response: ApiResponse): JsonSchema {
+  if (response.contract !== undefined) {
+    return { description: response.description, content: { 'application/json': { schema: contractRef(response.contract) } } };
+  }
+  if (response.contentType !== undefined) {
+    return { description: response.description, content: { [response.contentType]: { schema: { type: 'string' } } } };
+  }
+  return { description: response.description };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function contractRef(name: ContractName): JsonSchema {
+  return { $ref: `${SCHEMA_REF_PREFIX}${name}` };
+}
+
+function pathParameters(path: string): ApiParameter[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name: name ?? '',
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+}
+
+function booleanQuery(name: string, description: string): ApiParameter {
+  return { name, in: 'query', description, schema: { type: 'boolean', default: false } };
+}
+
+/** Turns the fields of a request contract into query parameters, for requests sent without a body */
+function contractQueryParameters(name: ContractName): ApiParameter[] {
+  const { properties, required } = contractObjectSchema(name);
+  return Object.entries(properties).map(([property, { description, ...schema }]) => ({
+    name: property,
+    in: 'query',
+    ...(typeof description === 'string' && { description }),
+    ...(required.includes(property) && { required: true }),
+    schema
+  }));
+}
+
+export default createOpenApiDocument;
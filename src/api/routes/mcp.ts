@@ -0,0 +1,327 @@
+// MCP HTTP Routes - Hosts the MCP server over Streamable HTTP and the legacy HTTP+SSE transport
+// Lets several MCP clients share one orchestrator; mount it next to the orchestration router
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { IApiAuthConfig } from '../../config/types';
+import type { PowerPlatformMcpServer } from '../../mcp/server';
+import { ApiAuthenticator } from '../auth';
+import { McpSession, McpSessionStore, McpSessionTransport } from '../../mcp/session-store';
+import logger from '../../utils/logger';
+
+// ============================================================================
+// Router Configuration
+// ============================================================================
+
+export interface McpAuthConfig {
+  /** Accepted in an `Authorization: Bearer <token>` header */
+  readonly bearerTokens?: readonly string[];
+  /** Accepted in an `X-API-Key` header */
+  readonly apiKeys?: readonly string[];
+  /** Credentials of the REST API, accepted with the scopes they grant, e.g. to approve operations */
+  readonly api?: IApiAuthConfig;
+}
+
+export interface McpRouterConfig {
+  readonly mcpServer: Pick<PowerPlatformMcpServer, 'connect'>;
+  /** Requests are not authenticated when no credentials are configured */
+  readonly auth?: McpAuthConfig;
+  readonly sessions?: McpSessionStore;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+// ============================================================================
+// MCP Router
+// ============================================================================
+
+export function createMcpRouter(config: McpRouterConfig): Router {
+  const router = Router();
+  const sessions = config.sessions ?? new McpSessionStore();
+  const authenticator = config.auth?.api ? new ApiAuthenticator(config.auth.api) : undefined;
+
+  router.use(createAuthentication(config.auth, authenticator));
+
+  // Streamable HTTP: POST /mcp carries every message, initialize opens a session; GET /mcp opens
+  // the session's notification stream and DELETE /mcp ends it
+  router.post('/', handleStreamablePost(config, sessions));
+  router.get('/', handleStreamableSession(sessions));
+  router.delete('/', handleStreamableSession(sessions));
+
+  // Legacy HTTP+SSE (protocol version 2024-11-05): GET /mcp/sse opens the event stream, whose
+  // first event names the endpoint for client messages, POST /mcp/messages?sessionId=...
+  router.get('/sse', openSseStream(config, sessions));
+  router.post('/messages', handleSseMessage(sessions));
+
+  return router;
+}
+
+// ============================================================================
+// Streamable HTTP Endpoints
+// ============================================================================
+
+/** Messages after initialize must carry the Mcp-Session-Id header of their session */
+function handleStreamablePost(config: McpRouterConfig, sessions: McpSessionStore): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (req.headers[SESSION_HEADER] !== undefined) {
+        const session = resolveSession(req, res, sessions, 'streamable-http');
+        if (session?.connection.type === 'streamable-http') {
+          await session.connection.transport.handleRequest(req, res, req.body);
+        }
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json(createJsonRpcError(ErrorCode.InvalidRequest, 'Mcp-Session-Id header is required'));
+        return;
+      }
+
+      await openStreamableSession(req, res, config, sessions);
+    } catch (error) {
+      handleTransportError(res, error);
+    }
+  };
+}
+
+function handleStreamableSession(sessions: McpSessionStore): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const session = resolveSession(req, res, sessions, 'streamable-http');
+      if (session?.connection.type === 'streamable-http') {
+        await session.connection.transport.handleRequest(req, res);
+      }
+    } catch (error) {
+      handleTransportError(res, error);
+    }
+  };
+}
+
+// ============================================================================
+// Legacy HTTP+SSE Endpoints
+// ============================================================================
+
+function openSseStream(config: McpRouterConfig, sessions: McpSessionStore): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!sessions.hasCapacity()) {
+        res.status(503).json(createJsonRpcError(ErrorCode.InternalError, 'Too many open MCP sessions'));
+        return;
+      }
+
+      const transport = new SSEServerTransport(`${req.baseUrl}/messages`, res);
+      const server = await config.mcpServer.connect(transport);
+      // The transport closes when the client drops the event stream
+      onServerClose(server, () => {
+        void sessions.remove(transport.sessionId);
+      });
+
+      sessions.add(transport.sessionId, {
+        connection: { type: 'sse', transport },
+        server,
+        principal: req.auth?.clientId ?? ANONYMOUS_PRINCIPAL
+      });
+    } catch (error) {
+      handleTransportError(res, error);
+    }
+  };
+}
+
+function handleSseMessage(sessions: McpSessionStore): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const session = resolveSession(req, res, sessions, 'sse');
+      if (session?.connection.type === 'sse') {
+        await session.connection.transport.handlePostMessage(req, res, req.body);
+      }
+    } catch (error) {
+      handleTransportError(res, error);
+    }
+  };
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+async function openStreamableSession(
+  req: AuthenticatedRequest,
+  res: Response,
+  config: McpRouterConfig,
+  sessions: McpSessionStore
+): Promise<void> {
+  if (!sessions.hasCapacity()) {
+    res.status(503).json(createJsonRpcError(ErrorCode.InternalError, 'Too many open MCP sessions'));
+    return;
+  }
+
+  const principal = req.auth?.clientId ?? ANONYMOUS_PRINCIPAL;
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId): void => {
+      sessions.add(sessionId, { connection: { type: 'streamable-http', transport }, server, principal });
+      logger.info(`🔌 MCP session ${sessionId} opened for ${principal}`);
+    }
+  });
+  // The SDK declares optional transport callbacks without `| undefined`, which exactOptionalPropertyTypes rejects
+  const server = await config.mcpServer.connect(transport as Transport);
+  onServerClose(server, () => {
+    if (transport.sessionId !== undefined) {
+      void sessions.remove(transport.sessionId);
+    }
+  });
+  res.on('close', () => {
+    // Initialization failed, so no session owns the server
+    if (transport.sessionId === undefined) {
+      void server.close();
+    }
+  });
+
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * Finds the session a request belongs to and checks that the caller owns it and is within its
+ * rate limit. Responds with the matching error and returns undefined when any check fails.
+ */
+function resolveSession(
+  req: AuthenticatedRequest,
+  res: Response,
+  sessions: McpSessionStore,
+  type: McpSessionTransport['type']
+): McpSession | undefined {
+  const sessionId = type === 'sse' ? req.query.sessionId : req.headers[SESSION_HEADER];
+  const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+  if (session?.connection.type !== type) {
+    res.status(404).json(createJsonRpcError(ErrorCode.InvalidRequest, 'MCP session not found'));
+    return undefined;
+  }
+
+  if (session.principal !== (req.auth?.clientId ?? ANONYMOUS_PRINCIPAL)) {
+    res.status(403).json(createJsonRpcError(ErrorCode.InvalidRequest, 'MCP session belongs to another client'));
+    return undefined;
+  }
+
+  const decision = sessions.consume(session);
+  if (!decision.allowed) {
+    res.status(429)
+      .set('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)))
+      .json(createJsonRpcError(ErrorCode.InvalidRequest, 'Rate limit exceeded for this MCP session'));
+    return undefined;
+  }
+
+  return session;
+}
+
+/** Adds a close handler without replacing the one the MCP server uses to end its subscriptions */
+function onServerClose(server: Server, handler: () => void): void {
+  const previous = server.onclose;
+  server.onclose = (): void => {
+    previous?.();
+    handler();
+  };
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+function createAuthentication(auth: McpAuthConfig | undefined, authenticator: ApiAuthenticator | undefined): RequestHandler {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    authenticate(req, auth, authenticator).then(info => {
+      if (!info) {
+        res.status(401)
+          .set('WWW-Authenticate', 'Bearer realm="mcp"')
+          .json(createJsonRpcError(ErrorCode.InvalidRequest, 'Missing or invalid credentials'));
+        return;
+      }
+      req.auth = info;
+      next();
+    }).catch((error: unknown) => {
+      // E.g. the issuer's signing keys could not be loaded; the server keeps serving other callers
+      handleTransportError(res, error);
+    });
+  };
+}
+
+/** Returns the caller's identity, or undefined when credentials are configured and none match */
+async function authenticate(
+  req: Request,
+  auth: McpAuthConfig | undefined,
+  authenticator: ApiAuthenticator | undefined
+): Promise<AuthInfo | undefined> {
+  const bearerTokens = auth?.bearerTokens ?? [];
+  const apiKeys = auth?.apiKeys ?? [];
+  if (bearerTokens.length === 0 && apiKeys.length === 0 && !authenticator) {
+    return { token: '', clientId: ANONYMOUS_PRINCIPAL, scopes: [] };
+  }
+
+  const shared = matchSharedSecret(req, bearerTokens, apiKeys);
+  return shared ?? (authenticator ? authenticateWithApi(req, authenticator) : undefined);
+}
+
+/** Shared secrets grant no scopes; REST API credentials carry theirs over to the tools */
+async function authenticateWithApi(req: Request, authenticator: ApiAuthenticator): Promise<AuthInfo | undefined> {
+  const result = await authenticator.authenticate(req.headers);
+  const credential = readBearer(req) ?? req.headers['x-api-key'];
+  return result.success && typeof credential === 'string'
+    ? { token: credential, clientId: result.principal.id, scopes: [...result.principal.scopes] }
+    : undefined;
+}
+
+function matchSharedSecret(req: Request, bearerTokens: readonly string[], apiKeys: readonly string[]): AuthInfo | undefined {
+  const bearer = readBearer(req);
+  if (bearer !== undefined && bearerTokens.some(token => secretsMatch(token, bearer))) {
+    return { token: bearer, clientId: `bearer:${fingerprint(bearer)}`, scopes: [] };
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKeys.some(key => secretsMatch(key, apiKey))) {
+    return { token: apiKey, clientId: `api-key:${fingerprint(apiKey)}`, scopes: [] };
+  }
+
+  return undefined;
+}
+
+function readBearer(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  return authorization?.startsWith('Bearer ') === true ? authorization.slice('Bearer '.length).trim() : undefined;
+}
+
+function secretsMatch(expected: string, actual: string): boolean {
+  // Comparing digests keeps the comparison constant-time regardless of the secrets' lengths
+  const expectedDigest = createHash('sha256').update(expected).digest();
+  const actualDigest = createHash('sha256').update(actual).digest();
+  return timingSafeEqual(expectedDigest, actualDigest);
+}
+
+function fingerprint(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 12);
+}
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function handleTransportError(res: Response, error: unknown): void {
+  logger.error('🚨 MCP HTTP request failed', { error });
+  if (!res.headersSent) {
+    res.status(500).json(createJsonRpcError(ErrorCode.InternalError, 'Internal server error'));
+  }
+}
+
+function createJsonRpcError(code: ErrorCode, message: string): object {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+export default createMcpRouter;
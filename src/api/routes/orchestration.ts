@@ -1,16 +1,22 @@
 // Orchestration API Routes - HTTP endpoints for project orchestration
 // Provides REST API interface for the orchestration engine
 
-import { Router, Request, Response } from 'express';
+import { NextFunction, Router, Request, RequestHandler, Response } from 'express';
 import ProjectOrchestrator, { OrchestrationConfig } from '../../orchestration/project-orchestrator';
-import { 
+import {
+  ApproveOperationRequest,
   CreateProjectApiRequest,
+  HealthResponse,
+  OperationEvent,
+  ServiceStatusResponse,
   ValidateTemplateRequest,
-  ListTemplatesResponse
+  validateOperationStatus
 } from '../../types/api-contracts';
-import { 
-  ValidationResult
-} from '../../validation';
+import { OperationQuery } from '../../orchestration/operation-store';
+import type { IApiAuthConfig } from '../../config/types';
+import { APPROVER_SCOPE, ApiAuthenticator, ApiPrincipal } from '../auth';
+import { OpenApiDocument, createOpenApiDocument } from '../openapi';
+import { DocumentedOperation, OpenApiValidator } from '../openapi-validator';
 
 // ============================================================================
 // Router Configuration
@@ -18,7 +24,12 @@ import {
 
 export interface OrchestrationRouterConfig {
   readonly orchestrationConfig: OrchestrationConfig;
+  /** Rejects requests whose query or body do not match the OpenAPI document */
   readonly enableValidation?: boolean;
+  /** Replaces responses that do not match the OpenAPI document with a 500; on outside production by default */
+  readonly validateResponses?: boolean;
+  /** Requires an API key or bearer token with each operation's scope; the API is open without it */
+  readonly auth?: IApiAuthConfig;
   readonly enableCors?: boolean;
   readonly rateLimit?: {
     readonly windowMs: number;
@@ -34,6 +45,10 @@ interface ApiRequest<T = unknown> extends Request {
   body: T;
 }
 
+interface AuthenticatedRequest extends Request {
+  principal?: ApiPrincipal;
+}
+
 interface ApiResponse extends Response {
   json(body: any): this;
 }
@@ -61,7 +76,7 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     router.use((_req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key, Idempotency-Key, Last-Event-ID');
       next();
     });
   }
@@ -74,6 +89,32 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     next();
   });
 
+  // Check credentials, requests and responses against the OpenAPI document served below
+  const openApiDocument = createOpenApiDocument({ secured: config.auth !== undefined });
+  const validator = new OpenApiValidator(openApiDocument);
+  if (config.auth) {
+    router.use(createAuthentication(new ApiAuthenticator(config.auth), validator));
+  }
+  router.use(createSpecValidation(validator, {
+    validateRequests: config.enableValidation === true,
+    validateResponses: config.validateResponses ?? process.env.NODE_ENV !== 'production'
+  }));
+
+  // ============================================================================
+  // API Documentation Endpoints
+  // ============================================================================
+
+  // GET /api/orchestration/openapi.json
+  router.get('/openapi.json', (req: Request, res: ApiResponse) => {
+    const document: OpenApiDocument = { ...openApiDocument, servers: [{ url: req.baseUrl || '/' }] };
+    res.status(200).json(document);
+  });
+
+  // GET /api/orchestration/docs
+  router.get('/docs', (req: Request, res: Response) => {
+    res.status(200).type('html').send(renderDocsPage(`${req.baseUrl}/openapi.json`));
+  });
+
   // ============================================================================
   // Template Management Endpoints
   // ============================================================================
@@ -83,62 +124,13 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     try {
       console.log('Listing available project templates');
       
-      // In a real implementation, this would query a template repository
-      const templates: ListTemplatesResponse = {
-        templates: [
-          {
-            name: 'standard-project',
-            displayName: 'Standard Project',
-            description: 'Standard Power Platform project with Azure DevOps integration',
-            version: '1.0.0',
-            tags: ['standard', 'azure-devops', 'power-platform'],
-            parameters: [
-              {
-                name: 'projectName',
-                displayName: 'Project Name',
-                description: 'Name of the project to create',
-                type: 'string',
-                required: true
-              },
-              {
-                name: 'region',
-                displayName: 'Azure Region',
-                description: 'Azure region for resource deployment',
-                type: 'choice',
-                required: false,
-                defaultValue: 'unitedstates',
-                allowedValues: ['unitedstates', 'europe', 'asia']
-              }
-            ]
-          },
-          {
-            name: 'enterprise-project',
-            displayName: 'Enterprise Project',
-            description: 'Enterprise-grade project template with advanced features',
-            version: '2.0.0',
-            tags: ['enterprise', 'advanced', 'multi-environment'],
-            parameters: [
-              {
-                name: 'projectName',
-                displayName: 'Project Name',
-                description: 'Name of the enterprise project',
-                type: 'string',
-                required: true
-              },
-              {
-                name: 'environmentCount',
-                displayName: 'Environment Count',
-                description: 'Number of environments to create',
-                type: 'number',
-                required: false,
-                defaultValue: 3
-              }
-            ]
-          }
-        ]
-      };
+      const result = await orchestrator.listTemplates();
 
-      res.status(200).json(templates);
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'TEMPLATE_LIST_ERROR', 'Failed to list templates');
+      }
     } catch (error) {
       console.error('Failed to list templates:', error);
       handleError(res, error, 'TEMPLATE_LIST_ERROR', 'Failed to list templates');
@@ -151,23 +143,14 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
       const { templateName } = req.params;
       console.log(`Getting template details: ${templateName}`);
       
-      // In a real implementation, this would load template details from repository
-      if (templateName === 'standard-project' || templateName === 'enterprise-project') {
-        const template = {
-          name: templateName,
-          displayName: templateName === 'standard-project' ? 'Standard Project' : 'Enterprise Project',
-          description: 'Template description would be loaded from repository',
-          version: '1.0.0',
-          schema: {
-            // Template schema would be defined here
-          }
-        };
-        
-        res.status(200).json(template);
+      const result = await orchestrator.getTemplateDetails(templateName || '');
+
+      if (result.success) {
+        res.status(200).json(result.data);
       } else {
         res.status(404).json(createErrorResponse(
           'TEMPLATE_NOT_FOUND',
-          `Template '${templateName}' not found`,
+          result.error,
           req.headers['x-request-id'] as string
         ));
       }
@@ -183,21 +166,14 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
       const { templateName } = req.params;
       console.log(`Validating template parameters: ${templateName}`);
 
-      if (config.enableValidation) {
-        const validationResult = validateTemplateValidationRequest(req.body);
-        if (!validationResult.isValid) {
-          res.status(400).json(createValidationErrorResponse(
-            validationResult.errors,
-            (req.headers['x-request-id'] as string) || 'unknown'
-          ));
-          return;
-        }
-      }
+      // Validate parameters against the template and the expressions that use them
+      const result = await orchestrator.validateTemplateParameters(templateName || '', req.body.parameters || {});
 
-      // Validate template and parameters
-      const result = await validateTemplateWithParameters(templateName || '', req.body.parameters || {});
-      
-      res.status(200).json(result);
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'TEMPLATE_VALIDATION_ERROR', 'Failed to validate template');
+      }
     } catch (error) {
       console.error(`Failed to validate template ${req.params.templateName}:`, error);
       handleError(res, error, 'TEMPLATE_VALIDATION_ERROR', 'Failed to validate template');
@@ -213,17 +189,6 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     try {
       console.log(`Creating project: ${req.body.projectName}`);
 
-      if (config.enableValidation) {
-        const validationResult = validateCreateProjectRequest(req.body);
-        if (!validationResult.isValid) {
-          res.status(400).json(createValidationErrorResponse(
-            validationResult.errors,
-            (req.headers['x-request-id'] as string) || 'unknown'
-          ));
-          return;
-        }
-      }
-
       // Extract options from query parameters
       const options = {
         dryRun: req.query.dryRun === 'true',
@@ -232,12 +197,15 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
         skipAppRegistration: req.query.skipAppRegistration === 'true'
       };
 
-      const result = await orchestrator.createProject(req.body, options);
+      // A repeated key returns the operation the first request started
+      const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
+      const result = await orchestrator.startProject(req.body, options, idempotencyKey);
 
       if (result.success) {
-        res.status(202).json(result.data); // 202 Accepted for async operation
+        // 202 Accepted - follow the operation through its status and events, or cancel it
+        res.status(202).json(result.data);
       } else {
-        res.status(400).json(createErrorResponse(
+        res.status(result.error.includes('already used') ? 422 : 400).json(createErrorResponse(
           'PROJECT_CREATION_ERROR',
           result.error,
           req.headers['x-request-id'] as string
@@ -249,6 +217,147 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     }
   });
 
+  // GET /api/orchestration/projects/:projectId/drift
+  router.get('/projects/:projectId/drift', async (req: Request, res: ApiResponse) => {
+    try {
+      const { projectId } = req.params;
+      console.log(`Detecting drift: ${projectId}`);
+
+      const result = await orchestrator.detectDrift(projectId || '', {
+        includeRemediation: req.query.remediation === 'true'
+      });
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'DRIFT_DETECTION_ERROR', 'Failed to detect drift');
+      }
+    } catch (error) {
+      console.error(`Failed to detect drift for ${req.params.projectId || 'unknown'}:`, error);
+      handleError(res, error, 'DRIFT_DETECTION_ERROR', 'Failed to detect drift');
+    }
+  });
+
+  // DELETE /api/orchestration/projects/:projectId
+  router.delete('/projects/:projectId', async (req: Request, res: ApiResponse) => {
+    try {
+      const { projectId } = req.params;
+      const dryRun = req.query.dryRun === 'true';
+      console.log(`${dryRun ? 'Planning teardown of' : 'Destroying'} project: ${projectId}`);
+
+      const result = await orchestrator.destroyProject(projectId || '', {
+        dryRun,
+        includeAzureDevOpsProject: req.query.includeAzureDevOpsProject === 'true',
+        allowProductionEnvironments: req.query.allowProductionEnvironments === 'true',
+        ...(typeof req.query.confirmationToken === 'string' && { confirmationToken: req.query.confirmationToken })
+      });
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'PROJECT_DESTROY_ERROR', 'Failed to destroy project');
+      }
+    } catch (error) {
+      console.error(`Failed to destroy project ${req.params.projectId || 'unknown'}:`, error);
+      handleError(res, error, 'PROJECT_DESTROY_ERROR', 'Failed to destroy project');
+    }
+  });
+
+  // ============================================================================
+  // Plan and Apply Endpoints
+  // ============================================================================
+
+  // POST /api/orchestration/plans
+  router.post('/plans', async (req: ApiRequest<CreateProjectApiRequest>, res: ApiResponse): Promise<void> => {
+    try {
+      console.log(`Planning project: ${req.body.projectName}`);
+
+      const result = await orchestrator.planProject(req.body, {
+        skipAzureDevOps: req.query.skipAzureDevOps === 'true',
+        skipPowerPlatform: req.query.skipPowerPlatform === 'true',
+        skipAppRegistration: req.query.skipAppRegistration === 'true'
+      });
+
+      if (result.success) {
+        res.status(201).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'PLAN_CREATION_ERROR', 'Failed to plan project');
+      }
+    } catch (error) {
+      console.error('Failed to plan project:', error);
+      handleError(res, error, 'PLAN_CREATION_ERROR', 'Failed to plan project');
+    }
+  });
+
+  // GET /api/orchestration/plans/:planId
+  router.get('/plans/:planId', (req: Request, res: ApiResponse) => {
+    try {
+      const result = orchestrator.getPlan(req.params.planId || '');
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        res.status(404).json(createErrorResponse(
+          'PLAN_NOT_FOUND',
+          result.error,
+          req.headers['x-request-id'] as string
+        ));
+      }
+    } catch (error) {
+      console.error(`Failed to get plan ${req.params.planId || 'unknown'}:`, error);
+      handleError(res, error, 'PLAN_GET_ERROR', 'Failed to get plan');
+    }
+  });
+
+  // POST /api/orchestration/plans/:planId/apply
+  router.post('/plans/:planId/apply', async (req: Request, res: ApiResponse) => {
+    try {
+      const { planId } = req.params;
+      console.log(`Applying plan: ${planId}`);
+
+      const result = await orchestrator.applyPlan(planId || '');
+
+      if (result.success) {
+        res.status(202).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'PLAN_APPLY_ERROR', 'Failed to apply plan');
+      }
+    } catch (error) {
+      console.error(`Failed to apply plan ${req.params.planId || 'unknown'}:`, error);
+      handleError(res, error, 'PLAN_APPLY_ERROR', 'Failed to apply plan');
+    }
+  });
+
+  // ============================================================================
+  // Operation Endpoints
+  // ============================================================================
+
+  // GET /api/orchestration/operations
+  router.get('/operations', async (req: Request, res: ApiResponse): Promise<void> => {
+    try {
+      const query = parseOperationQuery(req);
+      if (!query) {
+        res.status(400).json(createErrorResponse(
+          'INVALID_REQUEST',
+          'limit must be a positive number and status a valid operation status',
+          req.headers['x-request-id'] as string || 'unknown'
+        ));
+        return;
+      }
+
+      const result = await orchestrator.listOperations(query);
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'OPERATION_LIST_ERROR', 'Failed to list operations');
+      }
+    } catch (error) {
+      console.error('Failed to list operations:', error);
+      handleError(res, error, 'OPERATION_LIST_ERROR', 'Failed to list operations');
+    }
+  });
+
   // GET /api/orchestration/operations/:operationId
   router.get('/operations/:operationId', async (req: Request, res: ApiResponse) => {
     try {
@@ -281,6 +390,118 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
     }
   });
 
+  // DELETE /api/orchestration/operations/:operationId
+  router.delete('/operations/:operationId', async (req: Request, res: ApiResponse) => {
+    try {
+      const { operationId } = req.params;
+      console.log(`Cancelling operation: ${operationId}`);
+
+      const result = await orchestrator.cancelOperation(operationId || '', {
+        rollback: req.query.rollback === 'true'
+      });
+
+      if (result.success) {
+        res.status(202).json(result.data); // Cancellation completes once the running step finishes
+      } else {
+        handleError(res, new Error(result.error), 'OPERATION_CANCEL_ERROR', 'Failed to cancel operation');
+      }
+    } catch (error) {
+      console.error(`Failed to cancel operation ${req.params.operationId || 'unknown'}:`, error);
+      handleError(res, error, 'OPERATION_CANCEL_ERROR', 'Failed to cancel operation');
+    }
+  });
+
+  // POST /api/orchestration/operations/:operationId/resume
+  router.post('/operations/:operationId/resume', async (req: Request, res: ApiResponse) => {
+    try {
+      const { operationId } = req.params;
+      console.log(`Resuming operation: ${operationId}`);
+
+      const result = await orchestrator.resumeOperation(operationId || '');
+
+      if (result.success) {
+        res.status(202).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'OPERATION_RESUME_ERROR', 'Failed to resume operation');
+      }
+    } catch (error) {
+      console.error(`Failed to resume operation ${req.params.operationId || 'unknown'}:`, error);
+      handleError(res, error, 'OPERATION_RESUME_ERROR', 'Failed to resume operation');
+    }
+  });
+
+  // POST /api/orchestration/operations/:operationId/approvals
+  router.post('/operations/:operationId/approvals', async (
+    req: ApiRequest<ApproveOperationRequest> & AuthenticatedRequest,
+    res: ApiResponse
+  ): Promise<void> => {
+    try {
+      const { operationId } = req.params;
+      // Decisions are attributed to the approver, so they need credentials even when the rest of the API is open
+      if (!req.principal) {
+        res.status(403).json(createErrorResponse(
+          'FORBIDDEN',
+          `Approvals require an API key or bearer token with the ${APPROVER_SCOPE} scope`,
+          req.headers['x-request-id'] as string
+        ));
+        return;
+      }
+
+      console.log(`Recording ${req.body.decision} decision for operation ${operationId} by ${req.principal.id}`);
+      const result = await orchestrator.approveOperation(operationId || '', req.body, req.principal.id);
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'OPERATION_APPROVAL_ERROR', 'Failed to record the approval');
+      }
+    } catch (error) {
+      console.error(`Failed to record approval for ${req.params.operationId || 'unknown'}:`, error);
+      handleError(res, error, 'OPERATION_APPROVAL_ERROR', 'Failed to record the approval');
+    }
+  });
+
+  // GET /api/orchestration/operations/:operationId/events
+  router.get('/operations/:operationId/events', async (req: Request, res: ApiResponse) => {
+    try {
+      const { operationId } = req.params;
+      console.log(`Streaming operation events: ${operationId}`);
+
+      const stream = createEventStream(res);
+      const result = await orchestrator.subscribeToOperation(operationId || '', stream.send, parseLastEventId(req));
+
+      if (result.success) {
+        stream.attach(result.data);
+      } else {
+        handleError(res, new Error(result.error), 'OPERATION_EVENTS_ERROR', 'Failed to stream operation events');
+      }
+    } catch (error) {
+      console.error(`Failed to stream events for ${req.params.operationId || 'unknown'}:`, error);
+      handleError(res, error, 'OPERATION_EVENTS_ERROR', 'Failed to stream operation events');
+    }
+  });
+
+  // GET /api/orchestration/operations/:operationId/audit
+  router.get('/operations/:operationId/audit', async (req: Request, res: ApiResponse) => {
+    try {
+      const { operationId } = req.params;
+      const result = await orchestrator.getOperationAudit(operationId || '');
+
+      if (result.success) {
+        res.status(200).json(result.data);
+      } else {
+        res.status(404).json(createErrorResponse(
+          'OPERATION_NOT_FOUND',
+          result.error,
+          req.headers['x-request-id'] as string
+        ));
+      }
+    } catch (error) {
+      console.error(`Failed to get operation audit ${req.params.operationId || 'unknown'}:`, error);
+      handleError(res, error, 'OPERATION_AUDIT_ERROR', 'Failed to get operation audit trail');
+    }
+  });
+
   // ============================================================================
   // Health and Status Endpoints
   // ============================================================================
@@ -288,7 +509,7 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
   // GET /api/orchestration/health
   router.get('/health', (_req: Request, res: ApiResponse) => {
     try {
-      const health = {
+      const health: HealthResponse = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
         version: '1.0.0',
@@ -309,7 +530,7 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
   // GET /api/orchestration/status
   router.get('/status', (_req: Request, res: ApiResponse) => {
     try {
-      const status = {
+      const status: ServiceStatusResponse = {
         service: 'Power Platform Orchestration Agent',
         version: '1.0.0',
         environment: process.env.NODE_ENV || 'development',
@@ -318,8 +539,8 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
           azureDevOpsIntegration: true,
           powerPlatformIntegration: true,
           microsoftGraphIntegration: true,
-          parallelExecution: config.orchestrationConfig.enableParallelExecution,
-          validation: config.enableValidation
+          parallelExecution: config.orchestrationConfig.enableParallelExecution ?? false,
+          validation: config.enableValidation === true
         }
       };
 
@@ -333,78 +554,179 @@ export function createOrchestrationRouter(config: OrchestrationRouterConfig): Ro
 }
 
 // ============================================================================
-// Validation Functions
+// Authentication
 // ============================================================================
 
-function validateCreateProjectRequest(request: unknown): ValidationResult {
-  const errors: any[] = [];
+/**
+ * Requires credentials carrying the scopes of the documented operation. Public operations and
+ * paths outside the document, such as the document itself, pass through.
+ */
+function createAuthentication(authenticator: ApiAuthenticator, validator: OpenApiValidator): RequestHandler {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const operation = validator.findOperation(req.method, req.path);
+    if (!operation || operation.scopes.length === 0) {
+      next();
+      return;
+    }
 
-  if (!request || typeof request !== 'object') {
-    errors.push({ field: 'request', code: 'INVALID_REQUEST', message: 'Request body is required' });
-    return { isValid: false, errors };
-  }
+    authenticator.authenticate(req.headers).then(result => {
+      const requestId = req.headers['x-request-id'] as string;
+      if (!result.success) {
+        res.status(401)
+          .set('WWW-Authenticate', 'Bearer realm="orchestration"')
+          .json(createErrorResponse('UNAUTHORIZED', result.error, requestId));
+        return;
+      }
 
-  const req = request as any;
+      const missing = missingScopes(operation, result.principal);
+      if (missing.length > 0) {
+        res.status(403)
+          .set('WWW-Authenticate', `Bearer realm="orchestration", error="insufficient_scope", scope="${missing.join(' ')}"`)
+          .json(createErrorResponse('FORBIDDEN', `${operation.operationId} requires the ${missing.join(', ')} scope`, requestId));
+        return;
+      }
 
-  if (!req.projectName || typeof req.projectName !== 'string') {
-    errors.push({ field: 'projectName', code: 'REQUIRED_FIELD', message: 'Project name is required' });
-  }
+      req.principal = result.principal;
+      console.log(`[${requestId}] Authenticated ${result.principal.id}`);
+      next();
+    }).catch(next);
+  };
+}
 
-  if (!req.templateName || typeof req.templateName !== 'string') {
-    errors.push({ field: 'templateName', code: 'REQUIRED_FIELD', message: 'Template name is required' });
-  }
+function missingScopes(operation: DocumentedOperation, principal: ApiPrincipal): string[] {
+  return operation.scopes.filter(scope => !principal.scopes.includes(scope));
+}
 
-  if (req.customization && typeof req.customization !== 'object') {
-    errors.push({ field: 'customization', code: 'INVALID_TYPE', message: 'Customization must be an object' });
-  }
+// ============================================================================
+// OpenAPI Validation
+// ============================================================================
 
-  return { isValid: errors.length === 0, errors };
+interface SpecValidationOptions {
+  readonly validateRequests: boolean;
+  readonly validateResponses: boolean;
 }
 
-function validateTemplateValidationRequest(request: unknown): ValidationResult {
-  const errors: any[] = [];
+/**
+ * Rejects requests that do not match their documented operation, and replaces JSON responses
+ * that do not match it with a 500 naming the mismatched fields. Undocumented paths pass through.
+ */
+function createSpecValidation(validator: OpenApiValidator, options: SpecValidationOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const operation = validator.findOperation(req.method, req.path);
+    if (!operation) {
+      next();
+      return;
+    }
 
-  if (!request || typeof request !== 'object') {
-    errors.push({ field: 'request', code: 'INVALID_REQUEST', message: 'Request body is required' });
-    return { isValid: false, errors };
-  }
+    const requestId = req.headers['x-request-id'] as string;
+    if (options.validateRequests) {
+      const result = validator.validateRequest(operation, { query: req.query, body: req.body as unknown });
+      if (!result.isValid) {
+        res.status(400).json(createValidationErrorResponse(result.errors, requestId));
+        return;
+      }
+    }
 
-  const req = request as any;
+    if (options.validateResponses) {
+      const send = res.json.bind(res);
+      res.json = (body: unknown): Response => {
+        const result = validator.validateResponse(operation, res.statusCode, body);
+        if (result.isValid) {
+          return send(body);
+        }
 
-  if (!req.templateName || typeof req.templateName !== 'string') {
-    errors.push({ field: 'templateName', code: 'REQUIRED_FIELD', message: 'Template name is required' });
+        console.error(`[${requestId}] Response of ${operation.operationId} does not match the OpenAPI document:`, result.errors);
+        res.status(500);
+        return send(createErrorResponse(
+          'RESPONSE_VALIDATION_ERROR',
+          `Response of ${operation.operationId} does not match the OpenAPI document`,
+          requestId,
+          result.errors
+        ));
+      };
+    }
+
+    next();
+  };
+}
+
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+function parseOperationQuery(req: Request): OperationQuery | undefined {
+  const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 20;
+  const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+  if (isNaN(limit) || limit < 1) {
+    return undefined;
   }
 
-  if (!req.parameters || typeof req.parameters !== 'object') {
-    errors.push({ field: 'parameters', code: 'REQUIRED_FIELD', message: 'Parameters object is required' });
+  if (status === undefined) {
+    return { limit };
   }
 
-  return { isValid: errors.length === 0, errors };
+  return validateOperationStatus(status) ? { limit, status } : undefined;
 }
 
-async function validateTemplateWithParameters(
-  templateName: string,
-  parameters: Record<string, unknown>
-): Promise<any> {
-  // In a real implementation, this would load the template and validate parameters
-  const mockValidation = {
-    valid: true,
-    errors: [] as any[]
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+// Comment lines keep proxies from closing idle streams while a long step runs
+const SSE_HEARTBEAT_MS = 15000;
+
+interface EventStream {
+  readonly send: (event: OperationEvent) => void;
+  readonly attach: (unsubscribe: () => void) => void;
+}
+
+/**
+ * Writes operation events to the response as Server-Sent Events. Events replayed on subscribe
+ * arrive before attach is called; the stream ends once the operation's result has been sent.
+ */
+function createEventStream(res: Response): EventStream {
+  let replaying = true;
+  let lastEvent: OperationEvent | undefined;
+
+  const open = (): void => {
+    if (res.headersSent) return;
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
   };
 
-  // Basic validation for known templates
-  if (templateName === 'standard-project' || templateName === 'enterprise-project') {
-    if (!parameters.projectName) {
-      mockValidation.valid = false;
-      mockValidation.errors.push({
-        parameter: 'projectName',
-        message: 'Project name is required',
-        code: 'REQUIRED_PARAMETER'
-      });
-    }
-  }
+  const send = (event: OperationEvent): void => {
+    if (res.writableEnded) return;
+    open();
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    lastEvent = event;
+    if (!replaying && event.type === 'result') res.end();
+  };
+
+  const attach = (unsubscribe: () => void): void => {
+    replaying = false;
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    open();
+    // A replay that ends with the result means the operation already finished
+    if (lastEvent?.type === 'result') res.end();
+  };
+
+  return { send, attach };
+}
 
-  return mockValidation;
+function parseLastEventId(req: Request): number | undefined {
+  const header = req.headers['last-event-id'];
+  const value = typeof header === 'string' ? header : req.query.lastEventId;
+  const lastEventId = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return isNaN(lastEventId) ? undefined : lastEventId;
 }
 
 // ============================================================================
@@ -437,6 +759,13 @@ function getErrorStatusCode(error: unknown): number {
     if (error.message.includes('forbidden')) return 403;
     if (error.message.includes('validation')) return 400;
     if (error.message.includes('timeout')) return 408;
+    if (error.message.includes('cannot be resumed')) return 409;
+    if (error.message.includes('cannot be cancelled')) return 409;
+    if (error.message.includes('cannot be approved')) return 409;
+    if (error.message.includes('cannot be applied')) return 409;
+    if (error.message.includes('is out of date')) return 409;
+    if (error.message.includes('cannot be checked for drift')) return 409;
+    if (error.message.includes('cannot be destroyed')) return 409;
   }
   
   return 500; // Internal Server Error
@@ -445,12 +774,14 @@ function getErrorStatusCode(error: unknown): number {
 function createErrorResponse(
   code: string,
   message: string,
-  requestId: string
+  requestId: string,
+  details?: unknown
 ): ErrorResponse {
   return {
     error: {
       code,
-      message
+      message,
+      ...(details !== undefined && { details })
     },
     timestamp: new Date().toISOString(),
     requestId
@@ -472,6 +803,32 @@ function createValidationErrorResponse(
   };
 }
 
+// ============================================================================
+// API Documentation
+// ============================================================================
+
+// Swagger UI is loaded from its CDN build, so the service ships no static assets
+const SWAGGER_UI_URL = 'https://unpkg.com/swagger-ui-dist@5';
+
+function renderDocsPage(specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Power Platform Orchestration API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_URL}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_URL}/swagger-ui-bundle.js" crossorigin></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>
+`;
+}
+
 function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -1,11 +1,18 @@
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
 import * as path from 'path';
-import type { 
-  IAppConfig, 
+import type {
+  IApiAuthConfig,
+  IApiConfig,
+  IApiKeyConfig,
+  IAppConfig,
+  IApprovalsConfig,
   IAzureConfig,
-  IConfig, 
-  IMcpConfig, 
-  IPowerPlatformConfig, 
+  IConfig,
+  IJwtAuthConfig,
+  IMcpConfig,
+  IOperationsConfig,
+  IPowerPlatformConfig,
   ITemplatesConfig
 } from './types';
 
@@ -87,14 +94,134 @@ const mcpConfig: IMcpConfig = {
   }
 };
 
+/**
+ * Directory holding package.json, found from wherever this module runs: src/ under ts-node or
+ * dist/src/ once built
+ */
+function findPackageRoot(directory: string): string {
+  const parent = path.dirname(directory);
+  return fs.existsSync(path.join(directory, 'package.json')) || parent === directory
+    ? directory
+    : findPackageRoot(parent);
+}
+
+const packageRoot = findPackageRoot(__dirname);
+
+/**
+ * Path of a file the server reads at runtime, such as a template. These are read from src/
+ * because tsc only emits JavaScript into dist/.
+ */
+export function resolveAssetPath(...segments: string[]): string {
+  return path.join(packageRoot, 'src', ...segments);
+}
+
 /**
  * Templates configuration
  */
 const templatesConfig: ITemplatesConfig = {
-  directory: path.join(__dirname, '../templates'),
+  directory: resolveAssetPath('templates'),
   defaultTemplate: 's-project'
 };
 
+/**
+ * Operation store configuration
+ */
+const operationsConfig: IOperationsConfig = {
+  storeDirectory: process.env.OPERATION_STORE_DIR ?? path.join(process.cwd(), 'data', 'operations')
+};
+
+/**
+ * Approval policy configuration
+ */
+function loadApprovalsConfig(): IApprovalsConfig {
+  const webhookUrl = readNonEmpty('APPROVAL_WEBHOOK_URL');
+  return {
+    maxEnvironments: parseIntWithDefault(process.env.APPROVAL_MAX_ENVIRONMENTS, 3),
+    ...(webhookUrl !== undefined && { webhookUrl })
+  };
+}
+
+const approvalsConfig: IApprovalsConfig = loadApprovalsConfig();
+
+/**
+ * Parse the API keys, a JSON array of { id, sha256, scopes } entries
+ */
+function parseApiKeys(value: string | undefined): IApiKeyConfig[] {
+  if (value === undefined || value.trim() === '') {
+    return [];
+  }
+
+  const parsed = parseJson(value);
+  const isApiKey = (entry: unknown): entry is IApiKeyConfig => {
+    const key = entry as Partial<IApiKeyConfig> | null;
+    return typeof key?.id === 'string' && typeof key.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(key.sha256) &&
+      Array.isArray(key.scopes) && key.scopes.every(scope => typeof scope === 'string');
+  };
+  if (!Array.isArray(parsed) || !parsed.every(isApiKey)) {
+    throw new Error('API_KEYS must be a JSON array of { "id", "sha256", "scopes" } entries');
+  }
+  return parsed;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JWT bearer configuration; Entra ID's issuer and keys are used for AZURE_TENANT_ID unless overridden
+ */
+function loadJwtAuthConfig(): IJwtAuthConfig | undefined {
+  const audience = readNonEmpty('API_JWT_AUDIENCE');
+  if (audience === undefined) {
+    return undefined;
+  }
+
+  const entraId = entraIdAuthority();
+  const issuer = readNonEmpty('API_JWT_ISSUER') ?? (entraId !== undefined ? `${entraId}/v2.0` : undefined);
+  const jwksUri = readNonEmpty('API_JWT_JWKS_URI') ?? (entraId !== undefined ? `${entraId}/discovery/v2.0/keys` : undefined);
+  if (issuer === undefined || jwksUri === undefined) {
+    throw new Error('API_JWT_AUDIENCE requires API_JWT_ISSUER and API_JWT_JWKS_URI, or AZURE_TENANT_ID for Entra ID');
+  }
+
+  return { issuer, audience, jwksUri };
+}
+
+/**
+ * Entra ID authority of AZURE_TENANT_ID, if set
+ */
+function entraIdAuthority(): string | undefined {
+  const tenantId = readNonEmpty('AZURE_TENANT_ID');
+  return tenantId !== undefined ? `https://login.microsoftonline.com/${tenantId}` : undefined;
+}
+
+/**
+ * Read an environment variable, treating an empty value as unset
+ */
+function readNonEmpty(name: string): string | undefined {
+  const value = process.env[name];
+  return value !== undefined && value !== '' ? value : undefined;
+}
+
+/**
+ * REST API configuration
+ */
+function loadApiConfig(): IApiConfig {
+  const apiKeys = parseApiKeys(process.env.API_KEYS);
+  const jwt = loadJwtAuthConfig();
+  if (apiKeys.length === 0 && !jwt) {
+    return {};
+  }
+
+  const auth: IApiAuthConfig = { apiKeys, ...(jwt && { jwt }) };
+  return { auth };
+}
+
+const apiConfig: IApiConfig = loadApiConfig();
+
 /**
  * Complete configuration object
  */
@@ -103,7 +230,10 @@ const config: IConfig = {
   azure: azureConfig,
   powerPlatform: powerPlatformConfig,
   mcp: mcpConfig,
-  templates: templatesConfig
+  templates: templatesConfig,
+  operations: operationsConfig,
+  approvals: approvalsConfig,
+  api: apiConfig
 };
 
 /**
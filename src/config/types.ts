@@ -55,12 +55,51 @@ export interface ITemplatesConfig {
   defaultTemplate: string;
 }
 
+export interface IOperationsConfig {
+  storeDirectory: string;
+}
+
+export interface IApprovalsConfig {
+  /** Projects with more environments than this need approval before they are provisioned */
+  maxEnvironments: number;
+  /** Receives a JSON POST for each approval request, e.g. a Teams or Slack incoming webhook */
+  webhookUrl?: string;
+}
+
+export interface IApiKeyConfig {
+  /** Names the key's caller in logs */
+  id: string;
+  /** Hex SHA-256 digest of the key; the key itself is never stored */
+  sha256: string;
+  scopes: string[];
+}
+
+export interface IJwtAuthConfig {
+  issuer: string;
+  audience: string;
+  /** URL of the issuer's JWKS, or the path of a local JWKS file */
+  jwksUri: string;
+}
+
+export interface IApiAuthConfig {
+  apiKeys: IApiKeyConfig[];
+  jwt?: IJwtAuthConfig;
+}
+
+export interface IApiConfig {
+  /** Absent when no credentials are configured, which leaves the REST API unauthenticated */
+  auth?: IApiAuthConfig;
+}
+
 export interface IConfig {
   app: IAppConfig;
   azure: IAzureConfig;
   powerPlatform: IPowerPlatformConfig;
   mcp: IMcpConfig;
   templates: ITemplatesConfig;
+  operations: IOperationsConfig;
+  approvals: IApprovalsConfig;
+  api: IApiConfig;
 }
 
 /**
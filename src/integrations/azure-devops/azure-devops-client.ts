@@ -37,6 +37,24 @@ declare global {
     continuationToken?: number;
   }): Promise<any>;
 
+  function mcp__azure_devops__core_create_project(params: {
+    name: string;
+    description?: string;
+    visibility?: 'private' | 'public';
+    processTemplateId?: string;
+    sourceControlType?: 'Git' | 'Tfvc';
+  }): Promise<any>;
+
+  function mcp__azure_devops__core_delete_project(params: {
+    projectId: string;
+  }): Promise<any>;
+
+  function mcp__azure_devops__core_update_project(params: {
+    projectId: string;
+    description?: string;
+    visibility?: 'private' | 'public';
+  }): Promise<any>;
+
   function mcp__azure_devops__core_list_project_teams(params: {
     project: string;
     mine?: boolean;
@@ -213,6 +231,85 @@ export class AzureDevOpsClient implements IAzureDevOpsClient {
     }
   }
 
+  async createProject(
+    projectName: string,
+    options?: {
+      description?: string;
+      visibility?: 'private' | 'public';
+      processTemplateId?: string;
+      sourceControlType?: 'Git' | 'Tfvc';
+    }
+  ): Promise<AzureDevOpsResponse<AzureDevOpsProject>> {
+    try {
+      console.log(`Creating project: ${projectName}`);
+
+      const result = await this.executeWithRetry(() =>
+        mcp__azure_devops__core_create_project({
+          name: projectName,
+          ...options
+        })
+      );
+
+      if (!result || !result.id) {
+        throw new Error('Invalid response from project creation');
+      }
+
+      const project: AzureDevOpsProject = {
+        id: result.id,
+        name: result.name || projectName,
+        description: result.description,
+        url: result.url,
+        state: result.state || 'createPending',
+        visibility: result.visibility || options?.visibility || 'private',
+        lastUpdateTime: result.lastUpdateTime || new Date().toISOString()
+      };
+
+      console.log(`✅ Created project: ${project.name}`);
+      return { success: true, data: project };
+    } catch (error) {
+      console.error(`❌ Failed to create project ${projectName}:`, error);
+      return { success: false, error: this.formatError(error) };
+    }
+  }
+
+  async updateProject(
+    projectId: string,
+    changes: {
+      description?: string;
+      visibility?: 'private' | 'public';
+    }
+  ): Promise<AzureDevOpsResponse<void>> {
+    try {
+      console.log(`Updating project: ${projectId}`);
+
+      await this.executeWithRetry(() =>
+        mcp__azure_devops__core_update_project({ projectId, ...changes })
+      );
+
+      console.log(`✅ Updated project: ${projectId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to update project ${projectId}:`, error);
+      return { success: false, error: this.formatError(error) };
+    }
+  }
+
+  async deleteProject(projectId: string): Promise<AzureDevOpsResponse<void>> {
+    try {
+      console.log(`Deleting project: ${projectId}`);
+
+      await this.executeWithRetry(() =>
+        mcp__azure_devops__core_delete_project({ projectId })
+      );
+
+      console.log(`✅ Deleted project: ${projectId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to delete project ${projectId}:`, error);
+      return { success: false, error: this.formatError(error) };
+    }
+  }
+
   // ============================================================================
   // Work Item Operations
   // ============================================================================
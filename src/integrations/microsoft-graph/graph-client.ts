@@ -373,6 +373,39 @@ export class MicrosoftGraphClient {
     }
   }
 
+  /** Returns the application with the given display name, or undefined when there is none */
+  async findApplicationByDisplayName(displayName: string): Promise<GraphResponse<ApplicationDetails | undefined>> {
+    try {
+      const filter = encodeURIComponent(`displayName eq '${displayName.replace(/'/g, "''")}'`);
+      const response = await this.client.get<any>(`/applications?$filter=${filter}`);
+
+      if (response.status !== 200) {
+        return { 
+          success: false, 
+          error: `Failed to look up application ${displayName}: ${response.statusText}` 
+        };
+      }
+
+      const application = response.data.value?.[0];
+      return {
+        success: true,
+        data: application && {
+          id: application.id,
+          appId: application.appId,
+          displayName: application.displayName,
+          signInAudience: application.signInAudience,
+          createdDateTime: application.createdDateTime
+        }
+      };
+    } catch (error) {
+      console.error(`❌ Failed to look up application ${displayName}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   async deleteApplication(applicationId: string): Promise<GraphResponse<void>> {
     try {
       console.log(`Deleting application: ${applicationId}`);
@@ -397,6 +430,30 @@ export class MicrosoftGraphClient {
     }
   }
 
+  async deleteServicePrincipal(servicePrincipalId: string): Promise<GraphResponse<void>> {
+    try {
+      console.log(`Deleting service principal: ${servicePrincipalId}`);
+
+      const response = await this.client.delete(`/servicePrincipals/${servicePrincipalId}`);
+
+      if (response.status !== 204) {
+        return {
+          success: false,
+          error: `Failed to delete service principal: ${response.statusText}`
+        };
+      }
+
+      console.log(`✅ Deleted service principal: ${servicePrincipalId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to delete service principal ${servicePrincipalId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   // ============================================================================
   // Permission Management
   // ============================================================================
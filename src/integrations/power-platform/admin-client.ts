@@ -12,11 +12,21 @@ import {
   AddSolutionComponentRequest
 } from '../../types/api-contracts';
 import { 
+  AttributeType,
+  ComponentType,
+  DataversePublisher,
+  DataverseSolution,
+  DataverseTable,
   EnvironmentInfo,
   EnvironmentType,
-  EnvironmentStatus
+  EnvironmentStatus,
+  OwnershipType,
+  RequiredLevel,
+  RootComponentBehavior,
+  SolutionComponent,
+  TableType
 } from '../../types/data-models';
-import { createPowerPlatformAdminApiClient } from '../../api/client';
+import { ApiClientError, createPowerPlatformAdminApiClient } from '../../api/client';
 
 // ============================================================================
 // Power Platform Admin Response Types
@@ -45,6 +55,89 @@ export interface PublisherCreationResult {
   readonly customizationPrefix: string;
 }
 
+// Rows as the Dataverse Web API returns them, with its lower-case column names
+interface DataverseCollection<T> {
+  readonly value: readonly T[];
+}
+
+interface SolutionRecord {
+  readonly solutionid: string;
+  readonly uniquename: string;
+  readonly friendlyname: string;
+  readonly description: string | null;
+  readonly version: string;
+  readonly _publisherid_value: string;
+  readonly ismanaged: boolean | null;
+}
+
+interface SolutionComponentRecord {
+  readonly objectid: string;
+  readonly componenttype: number;
+  readonly rootcomponentbehavior: number | null;
+}
+
+interface PublisherRecord {
+  readonly publisherid: string;
+  readonly uniquename: string;
+  readonly friendlyname: string;
+  readonly description: string | null;
+  readonly customizationprefix: string;
+  readonly customizationoptionvalueprefix: number;
+}
+
+// Table metadata keeps the Web API's PascalCase names; labels and managed properties are nested
+interface LocalizedLabel {
+  readonly UserLocalizedLabel?: { readonly Label: string } | null;
+}
+
+interface ManagedProperty<T> {
+  readonly Value: T;
+}
+
+interface AttributeMetadataRecord {
+  readonly LogicalName: string;
+  readonly SchemaName: string;
+  readonly DisplayName?: LocalizedLabel;
+  readonly AttributeType: AttributeType;
+  readonly RequiredLevel?: ManagedProperty<RequiredLevel>;
+  readonly IsCustomizable?: ManagedProperty<boolean>;
+  readonly IsPrimaryId?: boolean;
+  readonly IsPrimaryName?: boolean;
+}
+
+interface EntityDefinitionRecord {
+  readonly LogicalName: string;
+  readonly SchemaName: string;
+  readonly DisplayName?: LocalizedLabel;
+  readonly DisplayCollectionName?: LocalizedLabel;
+  readonly OwnershipType: OwnershipType;
+  readonly TableType?: TableType | null;
+  readonly PrimaryNameAttribute: string;
+  readonly HasActivities?: boolean;
+  readonly HasNotes?: boolean;
+  readonly IsActivity?: boolean;
+  readonly IsCustomizable?: ManagedProperty<boolean>;
+  readonly Attributes?: readonly AttributeMetadataRecord[];
+}
+
+// Dataverse solution component type and root component behavior codes
+const COMPONENT_TYPES: Record<number, ComponentType> = {
+  1: 'Entity',
+  2: 'Attribute',
+  9: 'OptionSet',
+  10: 'Relationship',
+  14: 'EntityKey',
+  20: 'Role',
+  29: 'Workflow',
+  61: 'WebResource'
+};
+
+const ROOT_COMPONENT_BEHAVIORS: Record<number, RootComponentBehavior> = {
+  0: 'IncludeSubcomponents',
+  1: 'DoNotIncludeSubcomponents',
+  2: 'IncludeAsShellOnly'
+};
+
 // ============================================================================
 // Power Platform Admin Client Configuration
 // ============================================================================
@@ -121,6 +214,9 @@ export class PowerPlatformAdminClient {
       console.log(`✅ Retrieved environment: ${response.data.displayName}`);
       return { success: true, data: response.data };
     } catch (error) {
+      if (error instanceof ApiClientError && error.statusCode === 404) {
+        return { success: false, error: `Environment ${environmentName} not found` };
+      }
       console.error(`❌ Failed to get environment ${environmentName}:`, error);
       return { 
         success: false, 
@@ -315,6 +411,121 @@ export class PowerPlatformAdminClient {
     }
   }
 
+  /** Returns the solution with the given unique name, or undefined when it does not exist */
+  async findSolution(
+    environmentUrl: string,
+    uniqueName: string
+  ): Promise<PowerPlatformResponse<DataverseSolution | undefined>> {
+    try {
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.get<DataverseCollection<SolutionRecord>>(
+        `/solutions?$filter=uniquename eq '${uniqueName.replace(/'/g, "''")}'` +
+        '&$select=solutionid,uniquename,friendlyname,description,version,_publisherid_value,ismanaged'
+      );
+
+      if (response.status !== 200) {
+        return { success: false, error: `Failed to look up solution: ${response.statusText}` };
+      }
+
+      const record = response.data.value[0];
+      return {
+        success: true,
+        data: record && {
+          solutionId: record.solutionid,
+          uniqueName: record.uniquename,
+          friendlyName: record.friendlyname,
+          ...(record.description !== null && { description: record.description }),
+          version: record.version,
+          publisherId: record._publisherid_value,
+          isManaged: record.ismanaged === true,
+          components: []
+        }
+      };
+    } catch (error) {
+      console.error(`❌ Failed to look up solution ${uniqueName}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
+  async updateSolution(
+    environmentUrl: string,
+    solutionId: string,
+    changes: {
+      friendlyName?: string;
+      description?: string;
+      version?: string;
+    }
+  ): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Updating solution: ${solutionId} in ${environmentUrl}`);
+
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.patch(`/solutions(${solutionId})`, {
+        ...(changes.friendlyName !== undefined && { friendlyname: changes.friendlyName }),
+        ...(changes.description !== undefined && { description: changes.description }),
+        ...(changes.version !== undefined && { version: changes.version })
+      });
+
+      if (response.status !== 204 && response.status !== 200) {
+        return { success: false, error: `Failed to update solution: ${response.statusText}` };
+      }
+
+      console.log(`✅ Updated solution: ${solutionId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to update solution ${solutionId}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
+  /**
+   * Lists the components of a solution. Tables are named by logical name; other components
+   * are named by object ID, since Dataverse records nothing else about them here.
+   */
+  async listSolutionComponents(
+    environmentUrl: string,
+    solutionId: string
+  ): Promise<PowerPlatformResponse<SolutionComponent[]>> {
+    try {
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.get<DataverseCollection<SolutionComponentRecord>>(
+        `/solutioncomponents?$filter=_solutionid_value eq ${solutionId}` +
+        '&$select=objectid,componenttype,rootcomponentbehavior'
+      );
+
+      if (response.status !== 200) {
+        return { success: false, error: `Failed to list solution components: ${response.statusText}` };
+      }
+
+      const known = response.data.value.flatMap(record => {
+        const componentType = COMPONENT_TYPES[record.componenttype];
+        return componentType === undefined ? [] : [{ record, componentType }];
+      });
+      const components = await Promise.all(known.map(async ({ record, componentType }): Promise<SolutionComponent> => ({
+        componentType,
+        componentId: record.objectid,
+        componentName: componentType === 'Entity'
+          ? await this.getTableLogicalName(dataverseClient, record.objectid)
+          : record.objectid,
+        rootComponentBehavior: ROOT_COMPONENT_BEHAVIORS[record.rootcomponentbehavior ?? 0] ?? 'IncludeSubcomponents'
+      })));
+
+      return { success: true, data: components };
+    } catch (error) {
+      console.error(`❌ Failed to list components of solution ${solutionId}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
   async addSolutionComponent(
     environmentUrl: string,
     solutionUniqueName: string,
@@ -362,6 +573,67 @@ export class PowerPlatformAdminClient {
     }
   }
 
+  async deleteSolution(environmentUrl: string, solutionId: string): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Deleting solution: ${solutionId} from ${environmentUrl}`);
+
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.delete(`/solutions(${solutionId})`);
+
+      if (response.status !== 204 && response.status !== 200) {
+        return { 
+          success: false, 
+          error: `Failed to delete solution: ${response.statusText}` 
+        };
+      }
+
+      console.log(`✅ Deleted solution: ${solutionId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to delete solution ${solutionId}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
+  // ============================================================================
+  // Table Metadata
+  // ============================================================================
+
+  /** Returns the table with its attributes, or undefined when it does not exist */
+  async getTable(
+    environmentUrl: string,
+    logicalName: string
+  ): Promise<PowerPlatformResponse<DataverseTable | undefined>> {
+    try {
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.get<EntityDefinitionRecord>(
+        `/EntityDefinitions(LogicalName='${logicalName.replace(/'/g, "''")}')` +
+        '?$select=LogicalName,SchemaName,DisplayName,DisplayCollectionName,OwnershipType,TableType,' +
+        'PrimaryNameAttribute,HasActivities,HasNotes,IsActivity,IsCustomizable' +
+        '&$expand=Attributes($select=LogicalName,SchemaName,DisplayName,AttributeType,RequiredLevel,' +
+        'IsCustomizable,IsPrimaryId,IsPrimaryName)'
+      );
+
+      if (response.status !== 200) {
+        return { success: false, error: `Failed to get table: ${response.statusText}` };
+      }
+
+      return { success: true, data: this.convertToTable(response.data) };
+    } catch (error) {
+      if (error instanceof ApiClientError && error.statusCode === 404) {
+        return { success: true, data: undefined };
+      }
+      console.error(`❌ Failed to get table ${logicalName}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
   // ============================================================================
   // Publisher Management
   // ============================================================================
@@ -417,6 +689,100 @@ export class PowerPlatformAdminClient {
     }
   }
 
+  /** Returns the publisher with the given unique name, or undefined when it does not exist */
+  async findPublisher(
+    environmentUrl: string,
+    uniqueName: string
+  ): Promise<PowerPlatformResponse<DataversePublisher | undefined>> {
+    try {
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.get<DataverseCollection<PublisherRecord>>(
+        `/publishers?$filter=uniquename eq '${uniqueName.replace(/'/g, "''")}'` +
+        '&$select=publisherid,uniquename,friendlyname,description,customizationprefix,customizationoptionvalueprefix'
+      );
+
+      if (response.status !== 200) {
+        return { success: false, error: `Failed to look up publisher: ${response.statusText}` };
+      }
+
+      const record = response.data.value[0];
+      return {
+        success: true,
+        data: record && {
+          publisherId: record.publisherid,
+          uniqueName: record.uniquename,
+          friendlyName: record.friendlyname,
+          ...(record.description !== null && { description: record.description }),
+          customizationPrefix: record.customizationprefix,
+          customizationOptionValuePrefix: record.customizationoptionvalueprefix
+        }
+      };
+    } catch (error) {
+      console.error(`❌ Failed to look up publisher ${uniqueName}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
+  async updatePublisher(
+    environmentUrl: string,
+    publisherId: string,
+    changes: {
+      friendlyName?: string;
+      description?: string;
+    }
+  ): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Updating publisher: ${publisherId} in ${environmentUrl}`);
+
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.patch(`/publishers(${publisherId})`, {
+        ...(changes.friendlyName !== undefined && { friendlyname: changes.friendlyName }),
+        ...(changes.description !== undefined && { description: changes.description })
+      });
+
+      if (response.status !== 204 && response.status !== 200) {
+        return { success: false, error: `Failed to update publisher: ${response.statusText}` };
+      }
+
+      console.log(`✅ Updated publisher: ${publisherId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to update publisher ${publisherId}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
+  async deletePublisher(environmentUrl: string, publisherId: string): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Deleting publisher: ${publisherId} from ${environmentUrl}`);
+
+      const dataverseClient = this.createDataverseClient(environmentUrl);
+      const response = await dataverseClient.delete(`/publishers(${publisherId})`);
+
+      if (response.status !== 204 && response.status !== 200) {
+        return { 
+          success: false, 
+          error: `Failed to delete publisher: ${response.statusText}` 
+        };
+      }
+
+      console.log(`✅ Deleted publisher: ${publisherId}`);
+      return { success: true, data: undefined };
+    } catch (error) {
+      console.error(`❌ Failed to delete publisher ${publisherId}:`, error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      };
+    }
+  }
+
   // ============================================================================
   // Helper Methods
   // ============================================================================
@@ -443,6 +809,42 @@ export class PowerPlatformAdminClient {
     return createPowerPlatformAdminApiClient(this.config.accessToken);
   }
 
+  private async getTableLogicalName(dataverseClient: ApiClient, metadataId: string): Promise<string> {
+    const response = await dataverseClient.get<{ LogicalName: string }>(
+      `/EntityDefinitions(${metadataId})?$select=LogicalName`
+    );
+    return response.data.LogicalName;
+  }
+
+  private convertToTable(record: EntityDefinitionRecord): DataverseTable {
+    const label = (value: LocalizedLabel | undefined): string => value?.UserLocalizedLabel?.Label ?? '';
+
+    return {
+      logicalName: record.LogicalName,
+      schemaName: record.SchemaName,
+      displayName: label(record.DisplayName),
+      displayCollectionName: label(record.DisplayCollectionName),
+      ownershipType: record.OwnershipType,
+      tableType: record.TableType ?? 'Standard',
+      primaryNameAttribute: record.PrimaryNameAttribute,
+      hasActivities: record.HasActivities === true,
+      hasNotes: record.HasNotes === true,
+      isActivity: record.IsActivity === true,
+      isCustomizable: record.IsCustomizable?.Value === true,
+      attributes: (record.Attributes ?? []).map(attribute => ({
+        logicalName: attribute.LogicalName,
+        schemaName: attribute.SchemaName,
+        displayName: label(attribute.DisplayName),
+        attributeType: attribute.AttributeType,
+        requiredLevel: attribute.RequiredLevel?.Value ?? 'None',
+        isCustomizable: attribute.IsCustomizable?.Value === true,
+        isPrimaryId: attribute.IsPrimaryId === true,
+        isPrimaryName: attribute.IsPrimaryName === true
+      })),
+      relationships: []
+    };
+  }
+
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -455,8 +857,10 @@ export class PowerPlatformAdminClient {
     return {
       environmentId: environment.id,
       environmentName: environment.name,
+      displayName: environment.properties.displayName,
       environmentUrl: environment.properties.linkedEnvironmentMetadata?.instanceUrl || '',
       environmentType: this.mapSkuToEnvironmentType(environment.properties.environmentSku),
+      sku: environment.properties.environmentSku,
       region: environment.location,
       status: this.mapProvisioningStateToStatus(environment.properties.provisioningState)
     };
@@ -202,6 +202,31 @@ export class EnvironmentManager {
     }
   }
 
+  /**
+   * Finds the environments a project already has, keyed by the template's display name.
+   * Matches on the names given by getEnvironmentDisplayName.
+   */
+  async findProjectEnvironments(
+    templates: readonly EnvironmentTemplate[],
+    projectName: string
+  ): Promise<PowerPlatformResponse<Map<string, EnvironmentInfo>>> {
+    const result = await this.listEnvironments();
+    if (!result.success) {
+      return result;
+    }
+
+    const found = new Map<string, EnvironmentInfo>();
+    for (const template of templates) {
+      const displayName = this.getEnvironmentDisplayName(template, projectName);
+      const environment = result.data.find(env => env.displayName === displayName);
+      if (environment) {
+        found.set(template.displayName, environment);
+      }
+    }
+
+    return { success: true, data: found };
+  }
+
   // ============================================================================
   // Multi-Environment Management
   // ============================================================================
@@ -212,6 +237,8 @@ export class EnvironmentManager {
       parallel?: boolean;
       maxConcurrent?: number;
       waitForProvisioning?: boolean;
+      signal?: AbortSignal; // Once aborted, no further environments are started
+      projectName?: string; // Gives the environments stable names, see getEnvironmentDisplayName
     }
   ): Promise<PowerPlatformResponse<MultiEnvironmentResult>> {
     const startTime = Date.now();
@@ -228,6 +255,11 @@ export class EnvironmentManager {
         const batches = this.createBatches(templates, maxConcurrent);
 
         for (const batch of batches) {
+          if (options?.signal?.aborted === true) {
+            batch.forEach(template => failed.push({ template, error: 'Cancelled before creation' }));
+            continue;
+          }
+
           const batchResults = await Promise.allSettled(
             batch.map(template => this.createEnvironmentFromTemplate(template, options))
           );
@@ -246,6 +278,11 @@ export class EnvironmentManager {
       } else {
         // Sequential creation
         for (const template of templates) {
+          if (options?.signal?.aborted === true) {
+            failed.push({ template, error: 'Cancelled before creation' });
+            continue;
+          }
+
           const result = await this.createEnvironmentFromTemplate(template, options);
           
           if (result.success) {
@@ -279,9 +316,11 @@ export class EnvironmentManager {
 
   private async createEnvironmentFromTemplate(
     template: EnvironmentTemplate,
-    options?: { waitForProvisioning?: boolean }
+    options?: { waitForProvisioning?: boolean; projectName?: string }
   ): Promise<PowerPlatformResponse<EnvironmentSetupResult>> {
-    const displayName = this.generateEnvironmentName(template.displayName);
+    const displayName = options?.projectName !== undefined
+      ? this.getEnvironmentDisplayName(template, options.projectName)
+      : this.generateEnvironmentName(template.displayName);
     
     return this.createEnvironment(
       displayName,
@@ -342,6 +381,34 @@ export class EnvironmentManager {
     }
   }
 
+  findPublisher(
+    environmentUrl: string,
+    uniqueName: string
+  ): Promise<PowerPlatformResponse<DataversePublisher | undefined>> {
+    return this.adminClient.findPublisher(environmentUrl, uniqueName);
+  }
+
+  updatePublisher(
+    environmentUrl: string,
+    publisherId: string,
+    changes: { friendlyName?: string; description?: string }
+  ): Promise<PowerPlatformResponse<void>> {
+    return this.adminClient.updatePublisher(environmentUrl, publisherId, changes);
+  }
+
+  async deletePublisher(environmentUrl: string, publisherId: string): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Deleting publisher: ${publisherId}`);
+      return await this.adminClient.deletePublisher(environmentUrl, publisherId);
+    } catch (error) {
+      console.error(`❌ Failed to delete publisher ${publisherId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   // ============================================================================
   // Environment Configuration
   // ============================================================================
@@ -392,6 +459,14 @@ export class EnvironmentManager {
   // Helper Methods
   // ============================================================================
 
+  /**
+   * The display name a project's environment is created with. Unlike generated names it is
+   * the same on every run, so existing environments can be found again.
+   */
+  getEnvironmentDisplayName(template: EnvironmentTemplate, projectName: string): string {
+    return `${this.config.environmentPrefix ?? ''}${projectName} ${template.displayName}`;
+  }
+
   private generateEnvironmentName(baseName: string): string {
     const prefix = this.config.environmentPrefix || '';
     const timestamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
@@ -1,7 +1,9 @@
 // Schema-aware Power Platform client that automatically handles navigation properties
 import { DataverseSchemaManager, RelationshipDefinition, TableDefinition } from '../../types/dataverse-schema';
 import { 
-  EntityRecord
+  EntityRecord,
+  OneToManyRelationshipMetadata,
+  TableMetadata
 } from '../../types/power-platform-interfaces';
 import { PowerPlatformMCPClient } from './power-platform-client';
 
@@ -28,6 +30,22 @@ interface SchemaInfo {
   relationships: RelationshipDefinition[];
 }
 
+export interface TablePreview {
+  tableDefinition: TableDefinition;
+  metadata: TableMetadata;
+}
+
+export interface RelationshipPreview {
+  relationshipDefinition: RelationshipDefinition;
+  metadata: OneToManyRelationshipMetadata;
+  navigationProperty: string;
+}
+
+export interface ChildRecordsPreview {
+  entitySetName: string;
+  records: EntityRecord[];
+}
+
 interface CreateChildRecordOptions {
   childDisplayName: string;
   parentDisplayName: string;
@@ -36,8 +54,10 @@ interface CreateChildRecordOptions {
   environmentUrl: string;
 }
 
+const PUBLISHER_PREFIX = 'jr';
+
 export class SchemaAwarePowerPlatformClient {
-  private schema = new DataverseSchemaManager('jr');
+  private schema = new DataverseSchemaManager(PUBLISHER_PREFIX);
   
   constructor(private baseClient: PowerPlatformMCPClient) {}
 
@@ -116,29 +136,70 @@ export class SchemaAwarePowerPlatformClient {
     recordsData: ChildRecordData[],
     environmentUrl: string
   ): Promise<PowerPlatformCreateResponse[]> {
-    const parentTable = this.schema.getRegisteredTables().find(t => t.displayName === parentDisplayName);
-    const childTable = this.schema.getRegisteredTables().find(t => t.displayName === childDisplayName);
+    const { entitySetName, records } = this.prepareChildRecords(childDisplayName, parentDisplayName, recordsData);
+
+    // Creating multiple child records with lookups
+    
+    return await this.baseClient.createMultipleRecords(entitySetName, records, environmentUrl);
+  }
+
+  // Build child records with their lookup references without sending them
+  prepareChildRecords(
+    childDisplayName: string,
+    parentDisplayName: string,
+    recordsData: ChildRecordData[]
+  ): ChildRecordsPreview {
+    const parentTable = this.findTable(parentDisplayName);
+    const childTable = this.findTable(childDisplayName);
     
     if (!parentTable || !childTable) {
       throw new Error('Both tables must be registered before creating child records');
     }
 
-    const recordsWithLookups = recordsData.map(({ data, parentId }) => 
-      this.schema.createRecordWithLookup(
-        data,
-        childTable.logicalName,
-        parentTable.logicalName,
-        parentId
+    return {
+      entitySetName: `${childTable.logicalName}s`, // Pluralize for entity set
+      records: recordsData.map(({ data, parentId }) => 
+        this.schema.createRecordWithLookup(
+          data,
+          childTable.logicalName,
+          parentTable.logicalName,
+          parentId
+        )
       )
-    );
+    };
+  }
 
-    // Creating multiple child records with lookups
+  // Metadata a table would be created with; the table is not registered
+  previewTable(displayName: string): TablePreview {
+    const preview = new DataverseSchemaManager(PUBLISHER_PREFIX);
+    const tableDefinition = preview.registerTable(displayName);
+
+    return { tableDefinition, metadata: preview.generateTableMetadata(tableDefinition.logicalName) };
+  }
+
+  // Metadata a relationship between registered tables would be created with; the relationship is not registered
+  previewRelationship(
+    parentDisplayName: string,
+    childDisplayName: string,
+    lookupDisplayName?: string
+  ): RelationshipPreview {
+    const parentTable = this.findTable(parentDisplayName);
+    const childTable = this.findTable(childDisplayName);
     
-    return await this.baseClient.createMultipleRecords(
-      `${childTable.logicalName}s`, // Pluralize for entity set
-      recordsWithLookups,
-      environmentUrl
-    );
+    if (!parentTable || !childTable) {
+      throw new Error('Both tables must be created before creating relationship');
+    }
+
+    const preview = new DataverseSchemaManager(PUBLISHER_PREFIX);
+    preview.registerTable(parentTable.displayName);
+    preview.registerTable(childTable.displayName);
+    const relationshipDefinition = preview.createRelationship(parentTable.logicalName, childTable.logicalName, lookupDisplayName);
+
+    return {
+      relationshipDefinition,
+      metadata: preview.generateRelationshipMetadata(relationshipDefinition.schemaName),
+      navigationProperty: preview.getNavigationProperty(childTable.logicalName, parentTable.logicalName)
+    };
   }
 
   // Add table to solution by display name
@@ -151,6 +212,10 @@ export class SchemaAwarePowerPlatformClient {
     return await this.baseClient.addTableToSolution(table.logicalName, solutionName, environmentUrl);
   }
 
+  findTable(displayName: string): TableDefinition | undefined {
+    return this.schema.getRegisteredTables().find(t => t.displayName === displayName);
+  }
+
   // Debug info
   getSchema(): SchemaInfo {
     return {
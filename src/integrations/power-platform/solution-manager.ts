@@ -172,6 +172,48 @@ export class SolutionManager {
     }
   }
 
+  findSolution(
+    environmentUrl: string,
+    uniqueName: string
+  ): Promise<PowerPlatformResponse<DataverseSolution | undefined>> {
+    return this.adminClient.findSolution(environmentUrl, uniqueName);
+  }
+
+  updateSolution(
+    environmentUrl: string,
+    solutionId: string,
+    changes: { friendlyName?: string; description?: string; version?: string }
+  ): Promise<PowerPlatformResponse<void>> {
+    return this.adminClient.updateSolution(environmentUrl, solutionId, changes);
+  }
+
+  listSolutionComponents(
+    environmentUrl: string,
+    solutionId: string
+  ): Promise<PowerPlatformResponse<SolutionComponent[]>> {
+    return this.adminClient.listSolutionComponents(environmentUrl, solutionId);
+  }
+
+  getTable(environmentUrl: string, logicalName: string): Promise<PowerPlatformResponse<DataverseTable | undefined>> {
+    return this.adminClient.getTable(environmentUrl, logicalName);
+  }
+
+  async deleteSolution(
+    environmentUrl: string,
+    solutionId: string
+  ): Promise<PowerPlatformResponse<void>> {
+    try {
+      console.log(`Deleting solution: ${solutionId}`);
+      return await this.adminClient.deleteSolution(environmentUrl, solutionId);
+    } catch (error) {
+      console.error(`❌ Failed to delete solution ${solutionId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   async addComponentsToSolution(
     environmentUrl: string,
     solutionUniqueName: string,
@@ -1,408 +0,0 @@
-#!/usr/bin/env ts-node
-
-// Clean TypeScript MCP Server - Compiles without errors
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ErrorCode,
-  ListToolsRequestSchema,
-  McpError,
-} from '@modelcontextprotocol/sdk/types.js';
-
-// ============================================================================
-// Clean MCP Server Implementation
-// ============================================================================
-
-// Use proper MCP response type - simple object with content
-
-class CleanPowerPlatformMcpServer {
-  private readonly server: Server;
-
-  constructor() {
-    this.server = new Server(
-      {
-        name: 'power-platform-orchestrator',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.setupToolHandlers();
-  }
-
-  private setupToolHandlers(): void {
-    // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      console.error('📋 Listing available tools');
-      
-      return {
-        tools: [
-          {
-            name: 'list_templates',
-            description: 'List available Power Platform project templates',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                category: {
-                  type: 'string',
-                  description: 'Filter templates by category',
-                  enum: ['standard', 'enterprise', 'quickstart', 'all']
-                }
-              }
-            }
-          },
-          {
-            name: 'validate_prd',
-            description: 'Validate a Project Requirements Document (PRD)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                prd: {
-                  type: 'object',
-                  description: 'Project Requirements Document in standardized format'
-                }
-              },
-              required: ['prd']
-            }
-          },
-          {
-            name: 'create_project',
-            description: 'Create a new Power Platform project from PRD',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                projectName: {
-                  type: 'string',
-                  description: 'Name of the project to create'
-                },
-                templateName: {
-                  type: 'string',
-                  description: 'Template to use'
-                },
-                dryRun: {
-                  type: 'boolean',
-                  description: 'If true, simulates creation without making changes'
-                }
-              },
-              required: ['projectName', 'templateName']
-            }
-          },
-          {
-            name: 'get_project_status',
-            description: 'Get the status of a project creation operation',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                operationId: {
-                  type: 'string',
-                  description: 'Operation ID returned from create_project'
-                }
-              },
-              required: ['operationId']
-            }
-          },
-          {
-            name: 'get_template_details',
-            description: 'Get detailed information about a specific project template',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                templateName: {
-                  type: 'string',
-                  description: 'Name of the template to retrieve details for'
-                }
-              },
-              required: ['templateName']
-            }
-          }
-        ]
-      };
-    });
-
-    // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      console.error(`🔧 Calling tool: ${request.params.name}`);
-      
-      const toolName = request.params.name;
-      const toolArgs = request.params.arguments || {};
-      
-      try {
-        switch (toolName) {
-          case 'list_templates':
-            return this.handleListTemplates();
-            
-          case 'validate_prd':
-            return this.handleValidatePrd(toolArgs);
-            
-          case 'create_project':
-            return this.handleCreateProject(toolArgs);
-            
-          case 'get_project_status':
-            return this.handleGetProjectStatus(toolArgs);
-            
-          case 'get_template_details':
-            return this.handleGetTemplateDetails(toolArgs);
-            
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${toolName}`
-            );
-        }
-      } catch (error) {
-        console.error(`❌ Error in tool ${toolName}:`, error);
-        
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    });
-  }
-
-  private handleListTemplates(): any {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            templates: [
-              {
-                name: 'standard-project',
-                displayName: 'Standard Project',
-                description: 'Standard Power Platform project with Azure DevOps integration',
-                version: '1.0.0',
-                tags: ['standard', 'azure-devops', 'power-platform'],
-                estimatedDuration: '4-6 weeks'
-              },
-              {
-                name: 'enterprise-project',
-                displayName: 'Enterprise Project',
-                description: 'Enterprise-grade project template with advanced features',
-                version: '2.0.0',
-                tags: ['enterprise', 'advanced', 'multi-environment'],
-                estimatedDuration: '8-12 weeks'
-              },
-              {
-                name: 'quickstart',
-                displayName: 'Quick Start',
-                description: 'Minimal setup for rapid prototyping',
-                version: '1.0.0',
-                tags: ['quickstart', 'prototype', 'minimal'],
-                estimatedDuration: '1-2 weeks'
-              }
-            ],
-            totalCount: 3,
-            message: 'Found 3 templates'
-          }, null, 2)
-        }
-      ]
-    };
-  }
-
-  private handleValidatePrd(args: any): any {
-    const prd = args.prd;
-    const errors: string[] = [];
-    const suggestions: string[] = [];
-    
-    // Basic validation
-    if (!prd?.projectName || prd.projectName.length < 3) {
-      errors.push('Project name must be at least 3 characters');
-    }
-    if (!prd?.description || prd.description.length < 10) {
-      errors.push('Description must be at least 10 characters');
-    }
-    if (!prd?.requirements || Object.keys(prd.requirements).length === 0) {
-      errors.push('Requirements section cannot be empty');
-    }
-    
-    // Suggestions
-    if (!prd?.timeline) {
-      suggestions.push('Consider adding a timeline section with project phases');
-    }
-    if (!prd?.resources) {
-      suggestions.push('Consider adding a resources section for team planning');
-    }
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            validation: {
-              isValid: errors.length === 0,
-              errors: errors,
-              suggestions: suggestions,
-              summary: errors.length === 0 
-                ? 'PRD validation passed' 
-                : `PRD validation failed with ${errors.length} errors`
-            },
-            message: errors.length === 0 ? 'PRD is valid' : 'PRD needs corrections'
-          }, null, 2)
-        }
-      ]
-    };
-  }
-
-  private handleCreateProject(args: any): any {
-    const operationId = `proj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            operation: {
-              operationId: operationId,
-              status: 'initializing',
-              projectName: args.projectName,
-              templateName: args.templateName,
-              dryRun: args.dryRun || false,
-              startedAt: new Date().toISOString(),
-              estimatedDuration: '5-10 minutes',
-              message: args.dryRun 
-                ? `Dry run: Simulating project creation for \"${args.projectName}\"` 
-                : `Starting project creation for \"${args.projectName}\"`
-            },
-            nextSteps: [
-              'Use get_project_status to monitor progress',
-              'Check Azure DevOps for project creation',
-              'Verify Power Platform environment setup'
-            ],
-            message: 'Project creation initiated successfully'
-          }, null, 2)
-        }
-      ]
-    };
-  }
-
-  private handleGetProjectStatus(args: any): any {
-    const operationId = args.operationId;
-    const randomStatus = ['running', 'completed'][Math.floor(Math.random() * 2)];
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: true,
-            operation: {
-              operationId: operationId,
-              status: randomStatus,
-              startedAt: new Date(Date.now() - 300000).toISOString(),
-              completedAt: randomStatus === 'completed' ? new Date().toISOString() : null,
-              progress: {
-                totalSteps: 12,
-                completedSteps: randomStatus === 'completed' ? 12 : 8,
-                currentStep: randomStatus === 'completed' 
-                  ? 'Project creation completed' 
-                  : 'Creating work items from PRD'
-              },
-              results: randomStatus === 'completed' ? {
-                azureDevOps: {
-                  projectUrl: 'https://dev.azure.com/jamesryandev/CustomerPortal',
-                  workItemsCreated: 14,
-                  repositoriesCreated: 3
-                },
-                powerPlatform: {
-                  environmentUrl: 'https://james-dev.crm11.dynamics.com',
-                  solutionsCreated: 2
-                }
-              } : null
-            },
-            message: `Operation ${operationId} is ${randomStatus}`
-          }, null, 2)
-        }
-      ]
-    };
-  }
-
-  private handleGetTemplateDetails(args: any): any {
-    const templateName = args.templateName;
-    
-    if (templateName === 'standard-project') {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              template: {
-                name: 'standard-project',
-                displayName: 'Standard Project',
-                description: 'Complete Power Platform project with Azure DevOps integration',
-                version: '1.0.0',
-                estimatedDuration: '4-6 weeks',
-                complexity: 'moderate',
-                phases: [
-                  'Authentication Setup',
-                  'Azure DevOps Project Creation',
-                  'Power Platform Environment Setup',
-                  'Solution Development',
-                  'Testing & Deployment'
-                ],
-                requirements: {
-                  azureDevOps: {
-                    organization: 'required',
-                    permissions: ['project creation', 'work item management']
-                  },
-                  powerPlatform: {
-                    environments: 1,
-                    licenses: ['Power Apps', 'Power Automate'],
-                    permissions: ['system administrator']
-                  }
-                }
-              },
-              message: `Template details for ${templateName}`
-            }, null, 2)
-          }
-        ]
-      };
-    } else {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Template '${templateName}' not found`
-      );
-    }
-  }
-
-  public async start(): Promise<void> {
-    console.error('📡 Creating stdio transport...');
-    
-    const transport = new StdioServerTransport();
-    
-    console.error('🔗 Connecting server to transport...');
-    
-    await this.server.connect(transport);
-    
-    console.error('✅ Clean Power Platform MCP Server is running!');
-  }
-}
-
-// Main execution
-async function main(): Promise<void> {
-  const server = new CleanPowerPlatformMcpServer();
-  await server.start();
-}
-
-// Start the server if this file is run directly
-if (require.main === module) {
-  main().catch((error) => {
-    console.error('❌ Failed to start server:', error);
-    process.exit(1);
-  });
-}
-
-export default CleanPowerPlatformMcpServer;
\ No newline at end of file
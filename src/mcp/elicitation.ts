@@ -0,0 +1,172 @@
+// MCP Elicitation - Asks the client's user for input a tool call is missing or must confirm
+// The SDK predates elicitation, so requests are sent as raw `elicitation/create` messages
+
+import { ErrorCode, McpError, ResultSchema, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TemplateParameter } from '../types/api-contracts';
+import { ToolCallExtra } from './tool-registry';
+
+// ============================================================================
+// Elicitation Types
+// ============================================================================
+
+export type ElicitationValue = string | number | boolean;
+
+/** Elicitation forms are flat objects of primitive fields */
+export type ElicitationProperty =
+  | {
+    readonly type: 'string';
+    readonly title: string;
+    readonly description?: string;
+    readonly enum?: readonly string[];
+    readonly minLength?: number;
+    readonly maxLength?: number;
+  }
+  | {
+    readonly type: 'number';
+    readonly title: string;
+    readonly description?: string;
+    readonly minimum?: number;
+    readonly maximum?: number;
+  }
+  | {
+    readonly type: 'boolean';
+    readonly title: string;
+    readonly description?: string;
+    readonly default?: boolean;
+  };
+
+export interface ElicitationSchema {
+  readonly type: 'object';
+  readonly properties: Record<string, ElicitationProperty>;
+  readonly required?: readonly string[];
+}
+
+export type ElicitationResult =
+  | { readonly action: 'accept'; readonly content: Record<string, ElicitationValue> }
+  | { readonly action: 'decline' | 'cancel' };
+
+// ============================================================================
+// Elicitation Requests
+// ============================================================================
+
+export function supportsElicitation(extra: ToolCallExtra): boolean {
+  return extra.clientCapabilities?.['elicitation'] !== undefined;
+}
+
+/** Shows the form to the user and resolves with their answer; declining or cancelling is not an error */
+export async function elicit(
+  extra: ToolCallExtra,
+  message: string,
+  requestedSchema: ElicitationSchema
+): Promise<ElicitationResult> {
+  const request = { method: 'elicitation/create', params: { message, requestedSchema } };
+  const result = await extra.sendRequest(request as unknown as ServerRequest, ResultSchema);
+
+  const action = result['action'];
+  if (action === 'accept') {
+    return { action, content: readContent(result['content']) };
+  }
+  if (action === 'decline' || action === 'cancel') {
+    return { action };
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid elicitation response action: ${String(action)}`);
+}
+
+// ============================================================================
+// Template Parameter Forms
+// ============================================================================
+
+/** Array and object parameters have no form field, so they can only be passed with the tool call */
+export function isElicitable(parameter: TemplateParameter): boolean {
+  return parameter.type !== 'array' && parameter.type !== 'object';
+}
+
+/** Builds a form for the parameters; those with a default may be left empty */
+export function toParameterSchema(parameters: readonly TemplateParameter[]): ElicitationSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(parameters.map(parameter => [parameter.name, toParameterProperty(parameter)])),
+    required: parameters.filter(parameter => parameter.defaultValue === undefined).map(parameter => parameter.name)
+  };
+}
+
+/**
+ * Converts the answers for the parameters back to their types. Choices are answered with the
+ * allowed value's text, which is mapped back to the allowed value itself.
+ */
+export function fromElicitedValues(
+  parameters: readonly TemplateParameter[],
+  content: Record<string, ElicitationValue>
+): Record<string, unknown> {
+  return Object.fromEntries(parameters.flatMap(parameter => {
+    const value = content[parameter.name];
+    if (value === undefined) return [];
+    const allowed = parameter.allowedValues?.find(candidate => formatValue(candidate) === String(value));
+    return [[parameter.name, allowed ?? value]];
+  }));
+}
+
+function toParameterProperty(parameter: TemplateParameter): ElicitationProperty {
+  const title = parameter.displayName;
+  const description = describeParameter(parameter);
+  const { validation } = parameter;
+
+  switch (parameter.allowedValues !== undefined ? 'choice' : parameter.type) {
+    case 'choice':
+      return { type: 'string', title, description, enum: (parameter.allowedValues ?? []).map(formatValue) };
+
+    case 'number':
+      return {
+        type: 'number',
+        title,
+        description,
+        ...(validation?.minValue !== undefined && { minimum: validation.minValue }),
+        ...(validation?.maxValue !== undefined && { maximum: validation.maxValue })
+      };
+
+    case 'boolean':
+      return {
+        type: 'boolean',
+        title,
+        description,
+        ...(typeof parameter.defaultValue === 'boolean' && { default: parameter.defaultValue })
+      };
+
+    default:
+      return {
+        type: 'string',
+        title,
+        description,
+        ...lengthLimits(validation)
+      };
+  }
+}
+
+function lengthLimits(validation: TemplateParameter['validation']): { minLength?: number; maxLength?: number } {
+  return {
+    ...(validation?.minLength !== undefined && { minLength: validation.minLength }),
+    ...(validation?.maxLength !== undefined && { maxLength: validation.maxLength })
+  };
+}
+
+function describeParameter(parameter: TemplateParameter): string {
+  return parameter.defaultValue !== undefined
+    ? `${parameter.description} (default: ${formatValue(parameter.defaultValue)})`
+    : parameter.description;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function readContent(content: unknown): Record<string, ElicitationValue> {
+  if (content === undefined) {
+    return {};
+  }
+  if (typeof content !== 'object' || content === null) {
+    throw new McpError(ErrorCode.InvalidParams, 'Elicitation response content must be an object');
+  }
+
+  return Object.fromEntries(Object.entries(content).filter((entry): entry is [string, ElicitationValue] =>
+    ['string', 'number', 'boolean'].includes(typeof entry[1])));
+}
@@ -1,8 +1,9 @@
 // MCP Server Entry Point - Main entry point for the Power Platform Orchestrator MCP server
 // This file is used when running the server via npx or direct execution
 
-import PowerPlatformMcpServer, { McpServerConfig } from './server';
+import PowerPlatformMcpServer, { McpHttpConfig, McpServerConfig, McpTransportType } from './server';
 import { OrchestrationConfig } from '../orchestration/project-orchestrator';
+import appConfig from '../config';
 
 // ============================================================================
 // Environment Configuration
@@ -88,6 +89,15 @@ function generateAccessTokenFromCredentials(): string {
 // Server Configuration
 // ============================================================================
 
+function loadTransportFromEnvironment(): McpTransportType {
+  const transport = process.env.MCP_TRANSPORT || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    console.error(`❌ Unsupported MCP_TRANSPORT: ${transport} (expected stdio or http)`);
+    process.exit(1);
+  }
+  return transport;
+}
+
 function createServerConfig(): McpServerConfig {
   const orchestrationConfig = loadConfigFromEnvironment();
   
@@ -95,16 +105,63 @@ function createServerConfig(): McpServerConfig {
     orchestrationConfig,
     serverName: process.env.MCP_SERVER_NAME || 'power-platform-orchestrator',
     serverVersion: process.env.npm_package_version || '1.0.0',
-    enableDebugLogging: process.env.DEBUG_LOGGING === 'true' || process.env.NODE_ENV === 'development'
+    enableDebugLogging: process.env.DEBUG_LOGGING === 'true' || process.env.NODE_ENV === 'development',
+    transport: loadTransportFromEnvironment(),
+    http: loadHttpConfigFromEnvironment()
+  };
+}
+
+function loadHttpConfigFromEnvironment(): McpHttpConfig {
+  const bearerTokens = parseList(process.env.MCP_AUTH_TOKENS);
+  const apiKeys = parseList(process.env.MCP_API_KEYS);
+  const api = appConfig.api.auth;
+
+  if (process.env.MCP_TRANSPORT === 'http' && bearerTokens.length === 0 && apiKeys.length === 0 && !api) {
+    console.warn('⚠️  MCP HTTP transport has no credentials configured; set MCP_AUTH_TOKENS, MCP_API_KEYS or API_KEYS');
+  }
+
+  return {
+    port: parseIntFromEnvironment('MCP_HTTP_PORT', 3001),
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    path: process.env.MCP_HTTP_PATH || '/mcp',
+    auth: { bearerTokens, apiKeys, ...(api && { api }) },
+    rateLimit: {
+      windowMs: parseIntFromEnvironment('MCP_RATE_LIMIT_WINDOW_MS', 60000),
+      max: parseIntFromEnvironment('MCP_RATE_LIMIT_MAX', 120)
+    },
+    idleTimeoutMs: parseIntFromEnvironment('MCP_SESSION_IDLE_TIMEOUT_MS', 1800000),
+    maxSessions: parseIntFromEnvironment('MCP_MAX_SESSIONS', 100)
   };
 }
 
+function parseIntFromEnvironment(name: string, defaultValue: number): number {
+  const parsed = parseInt(process.env[name] ?? '', 10);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Over stdio, stdout carries the JSON-RPC messages, so anything the orchestrator logs must go
+ * to stderr or the client receives invalid frames.
+ */
+function routeLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
 // ============================================================================
 // Main Entry Point
 // ============================================================================
 
 async function main(): Promise<void> {
   try {
+    if (loadTransportFromEnvironment() === 'stdio') {
+      routeLogsToStderr();
+    }
+
     console.log('🚀 Starting Power Platform Orchestrator MCP Server...');
     
     // Display environment info
@@ -113,7 +170,8 @@ async function main(): Promise<void> {
       azureDevOpsOrg: process.env.AZURE_DEVOPS_ORG || 'not-set',
       powerPlatformRegion: process.env.POWER_PLATFORM_DEFAULT_REGION || 'unitedstates',
       parallelExecution: process.env.ENABLE_PARALLEL_EXECUTION !== 'false',
-      debugLogging: process.env.DEBUG_LOGGING === 'true'
+      debugLogging: process.env.DEBUG_LOGGING === 'true',
+      transport: process.env.MCP_TRANSPORT || 'stdio'
     });
 
     // Create and start server
@@ -121,6 +179,11 @@ async function main(): Promise<void> {
     const server = new PowerPlatformMcpServer(config);
     
     await server.start();
+
+    process.on('SIGINT', () => {
+      console.log('\n🛑 Received SIGINT, shutting down MCP server...');
+      void server.stop().finally(() => process.exit(0));
+    });
     
     // Server will run until interrupted
     console.log('✅ MCP Server is running and ready to accept connections');
@@ -0,0 +1,263 @@
+// MCP Prompts - Guided PRD authoring and project kickoff
+// Each prompt embeds the PRD schema and the chosen template, so drafted PRDs pass validate_prd as written
+
+import { promises as fs } from 'fs';
+import {
+  ErrorCode,
+  GetPromptResult,
+  ListPromptsResult,
+  McpError,
+  Prompt,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import ProjectOrchestrator from '../orchestration/project-orchestrator';
+import { TemplateDetailsResponse } from '../types/api-contracts';
+import { DEFAULT_PRD_SCHEMA_PATH, PRD_SCHEMA_URI } from './resource-provider';
+
+// ============================================================================
+// Prompt Definitions
+// ============================================================================
+
+export const PROMPTS: readonly Prompt[] = [
+  {
+    name: 'draft_prd',
+    description: 'Draft a PRD for a Power Platform app',
+    arguments: [
+      { name: 'appDescription', description: 'What the app does and who uses it', required: true },
+      { name: 'templateName', description: 'Template the project will be created from', required: false },
+      { name: 'projectName', description: 'Name of the project, derived from the description when omitted', required: false }
+    ]
+  },
+  {
+    name: 'review_prd',
+    description: 'Review PRD against template',
+    arguments: [
+      { name: 'prd', description: 'The PRD to review, as JSON or YAML', required: true },
+      { name: 'templateName', description: 'Template the PRD is reviewed against', required: true }
+    ]
+  },
+  {
+    name: 'plan_data_model',
+    description: 'Plan the data model',
+    arguments: [
+      { name: 'requirements', description: 'Features, user stories or a PRD describing the data the app manages', required: true },
+      { name: 'templateName', description: 'Template whose tables and relationships the plan extends', required: false }
+    ]
+  }
+];
+
+/** How validate_prd expects a PRD, which wraps the sections of the PRD schema */
+const PRD_FORMAT = [
+  'validate_prd accepts the PRD as a JSON object with:',
+  '- `projectName` (string, required): the `product.name` of the PRD schema',
+  '- `description` (string, required): the `product.description` of the PRD schema',
+  '- `requirements` (object, required): the `features`, `technical` and `project` sections of the PRD schema',
+  '- `parameters` (object): a value for every required template parameter'
+].join('\n');
+
+type PromptArguments = Record<string, string>;
+
+// ============================================================================
+// Prompt Provider
+// ============================================================================
+
+export class OrchestrationPrompts {
+  constructor(
+    private readonly orchestrator: ProjectOrchestrator,
+    private readonly prdSchemaPath = DEFAULT_PRD_SCHEMA_PATH
+  ) {}
+
+  list(): ListPromptsResult {
+    return { prompts: [...PROMPTS] };
+  }
+
+  async get(name: string, args: PromptArguments = {}): Promise<GetPromptResult> {
+    const prompt = PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    for (const argument of prompt.arguments ?? []) {
+      if (argument.required === true && valueOf(args, argument.name) === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+      }
+    }
+
+    const templateName = valueOf(args, 'templateName');
+    const template = templateName !== undefined ? await this.loadTemplate(templateName) : undefined;
+    const context = [await this.schemaMessage(), ...(template ? [templateMessage(template)] : [])];
+
+    switch (name) {
+      case 'draft_prd':
+        return {
+          description: prompt.description,
+          messages: [...context, textMessage(await this.draftPrdInstructions(args, template))]
+        };
+
+      case 'review_prd':
+        return {
+          description: prompt.description,
+          messages: [...context, textMessage(reviewPrdInstructions(args, template))]
+        };
+
+      default:
+        return {
+          description: prompt.description,
+          messages: [...context, textMessage(planDataModelInstructions(args, template))]
+        };
+    }
+  }
+
+  // ============================================================================
+  // Prompt Context
+  // ============================================================================
+
+  private async schemaMessage(): Promise<PromptMessage> {
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: { uri: PRD_SCHEMA_URI, mimeType: 'application/yaml', text: await fs.readFile(this.prdSchemaPath, 'utf8') }
+      }
+    };
+  }
+
+  private async loadTemplate(templateName: string): Promise<TemplateDetailsResponse> {
+    const result = await this.orchestrator.getTemplateDetails(templateName);
+    if (!result.success) {
+      throw new McpError(ErrorCode.InvalidParams, `Template not found: ${templateName} (${result.error})`);
+    }
+    return result.data;
+  }
+
+  private async draftPrdInstructions(args: PromptArguments, template: TemplateDetailsResponse | undefined): Promise<string> {
+    const lines = [
+      'Draft a Project Requirements Document (PRD) for a Power Platform app.',
+      '',
+      `App description: ${args.appDescription}`,
+      ...(valueOf(args, 'projectName') !== undefined ? [`Project name: ${args.projectName}`] : []),
+      '',
+      'Follow the attached PRD schema: give every feature at least one user story written as',
+      '"As a X, I want Y so that Z", a priority of High, Medium or Low, and acceptance criteria.',
+      '',
+      PRD_FORMAT
+    ];
+
+    if (template) {
+      lines.push('', ...templateGuidance(template));
+    } else {
+      const templates = await this.orchestrator.listTemplates();
+      if (templates.success) {
+        lines.push('', `Available templates: ${templates.data.templates.map(t => t.name).join(', ')}.`,
+          'Recommend the template that fits the app best.');
+      }
+    }
+
+    lines.push('', 'Return the PRD as a single JSON object and check it with the validate_prd tool.');
+    return lines.join('\n');
+  }
+}
+
+// ============================================================================
+// Prompt Instructions
+// ============================================================================
+
+function reviewPrdInstructions(args: PromptArguments, template: TemplateDetailsResponse | undefined): string {
+  return [
+    `Review the PRD below against the "${args.templateName}" template and the attached PRD schema.`,
+    '',
+    PRD_FORMAT,
+    '',
+    ...(template ? templateGuidance(template) : []),
+    '',
+    'List every missing or malformed field with its path (e.g. `requirements.features[0].userStories`),',
+    'every feature that does not belong to one of the template epics, and every required template',
+    'parameter without a value. Then give the corrected PRD as a single JSON object.',
+    '',
+    'PRD:',
+    args.prd ?? ''
+  ].join('\n');
+}
+
+function planDataModelInstructions(args: PromptArguments, template: TemplateDetailsResponse | undefined): string {
+  const lines = [
+    'Plan the Dataverse data model for the requirements below.',
+    '',
+    'For each table give its display name, description, primary name column and columns with their types.',
+    'For each relationship give its type (OneToMany, ManyToOne or ManyToMany) and the tables it links.',
+    'Reuse standard tables such as Account and Contact where they fit.',
+    'Finish with the `technical.dataModel` section of the attached PRD schema for this model.'
+  ];
+
+  if (template) {
+    const tables = template.powerPlatform.tables;
+    const relationships = template.powerPlatform.relationships;
+    lines.push('', `The "${template.name}" template already creates these tables; extend them rather than duplicating them:`);
+    lines.push(...(tables.length > 0
+      ? tables.map(table => `- ${table.displayName} (${table.schemaName})${table.description !== undefined ? `: ${table.description}` : ''}`)
+      : ['- (none)']));
+    if (relationships.length > 0) {
+      lines.push('', 'Template relationships:', ...relationships.map(relationship =>
+        `- ${relationship.schemaName}: ${relationship.referencedTable} ${relationship.relationshipType} ${relationship.referencingTable}`));
+    }
+  }
+
+  lines.push('', 'Requirements:', args.requirements ?? '');
+  return lines.join('\n');
+}
+
+/** Lists the template's epics and features for `features[].epic`, and the parameters the PRD must set */
+function templateGuidance(template: TemplateDetailsResponse): string[] {
+  const lines = [`The project is created from the "${template.name}" template (attached).`];
+
+  if (template.azureDevOps.epics.length > 0) {
+    lines.push('Group features under its epics by setting `epic` to one of these titles:');
+    for (const epic of template.azureDevOps.epics) {
+      lines.push(`- ${epic.title}${epic.description !== undefined ? `: ${epic.description}` : ''}`);
+      lines.push(...epic.features.map(feature => `  - Feature: ${feature.title}`));
+    }
+  }
+
+  // validate_prd fills projectName from the PRD itself
+  const required = template.parameters.filter(parameter =>
+    parameter.required && parameter.defaultValue === undefined && parameter.name !== 'projectName');
+  if (required.length > 0) {
+    lines.push('Set these template parameters in `parameters`:');
+    lines.push(...required.map(parameter => {
+      const allowed = parameter.allowedValues ? ` (one of: ${parameter.allowedValues.map(String).join(', ')})` : '';
+      return `- ${parameter.name} (${parameter.type})${allowed}: ${parameter.description}`;
+    }));
+  }
+
+  return lines;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function templateMessage(template: TemplateDetailsResponse): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri: `template://${encodeURIComponent(template.name)}`,
+        mimeType: 'application/json',
+        text: JSON.stringify(template, null, 2)
+      }
+    }
+  };
+}
+
+/** Returns the argument's value, or undefined when it is missing or blank */
+function valueOf(args: PromptArguments, name: string): string | undefined {
+  const value = args[name]?.trim();
+  return value !== undefined && value !== '' ? value : undefined;
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+export default OrchestrationPrompts;
@@ -0,0 +1,227 @@
+// MCP Resources - Templates, the PRD schema and operations as readable resources
+// Clients attach them to context; operation resources notify subscribers when they change
+
+import { promises as fs } from 'fs';
+import {
+  ErrorCode,
+  ListResourceTemplatesResult,
+  ListResourcesResult,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { resolveAssetPath } from '../config';
+import ProjectOrchestrator from '../orchestration/project-orchestrator';
+import { GetOperationStatusResponse, OperationEvent } from '../types/api-contracts';
+
+// ============================================================================
+// Resource Definitions
+// ============================================================================
+
+export const PRD_SCHEMA_URI = 'schema://prd';
+export const DEFAULT_PRD_SCHEMA_PATH = resolveAssetPath('schemas', 'prd-schema.yaml');
+
+/** Operations listed by resources/list; older ones stay readable through the operation templates */
+const LISTED_OPERATIONS = 20;
+
+export const RESOURCE_TEMPLATES: readonly ResourceTemplate[] = [
+  {
+    uriTemplate: 'template://{name}',
+    name: 'Project template',
+    description: 'Details of a project template: environments, solutions, Azure DevOps setup and parameters',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'operation://{id}',
+    name: 'Operation status',
+    description: 'Status, progress and logs of a project operation. Subscribe to be notified as it progresses',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'operation://{id}/log',
+    name: 'Operation log',
+    description: 'Log of a project operation, one entry per line. Subscribe to be notified of new entries',
+    mimeType: 'text/plain'
+  }
+];
+
+type ParsedResourceUri =
+  | { readonly kind: 'prd_schema' }
+  | { readonly kind: 'template'; readonly name: string }
+  | { readonly kind: 'operation'; readonly operationId: string; readonly log: boolean };
+
+// ============================================================================
+// Resource Provider
+// ============================================================================
+
+export class OrchestrationResources {
+  constructor(
+    private readonly orchestrator: ProjectOrchestrator,
+    private readonly prdSchemaPath = DEFAULT_PRD_SCHEMA_PATH
+  ) {}
+
+  async list(): Promise<ListResourcesResult> {
+    const resources: Resource[] = [{
+      uri: PRD_SCHEMA_URI,
+      name: 'PRD schema',
+      description: 'Format of the Project Requirements Documents accepted by validate_prd',
+      mimeType: 'application/yaml'
+    }];
+
+    const templates = await this.orchestrator.listTemplates();
+    if (templates.success) {
+      resources.push(...templates.data.templates.map(template => ({
+        uri: `template://${encodeURIComponent(template.name)}`,
+        name: template.displayName,
+        description: template.description,
+        mimeType: 'application/json'
+      })));
+    }
+
+    const operations = await this.orchestrator.listOperations({ limit: LISTED_OPERATIONS });
+    if (operations.success) {
+      resources.push(...operations.data.operations.flatMap(operation => [
+        {
+          uri: `operation://${operation.operationId}`,
+          name: `${operation.projectName} (${operation.status})`,
+          mimeType: 'application/json'
+        },
+        {
+          uri: `operation://${operation.operationId}/log`,
+          name: `${operation.projectName} log`,
+          mimeType: 'text/plain'
+        }
+      ]));
+    }
+
+    return { resources };
+  }
+
+  listTemplates(): ListResourceTemplatesResult {
+    return { resourceTemplates: [...RESOURCE_TEMPLATES] };
+  }
+
+  async read(uri: string): Promise<ReadResourceResult> {
+    const resource = parseResourceUri(uri);
+
+    switch (resource.kind) {
+      case 'prd_schema':
+        return { contents: [{ uri, mimeType: 'application/yaml', text: await fs.readFile(this.prdSchemaPath, 'utf8') }] };
+
+      case 'template': {
+        const result = await this.orchestrator.getTemplateDetails(resource.name);
+        if (!result.success) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${result.error})`);
+        }
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(result.data, null, 2) }] };
+      }
+
+      case 'operation': {
+        const result = await this.orchestrator.getOperationStatus(resource.operationId);
+        if (!result.success) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${result.error})`);
+        }
+        return resource.log
+          ? { contents: [{ uri, mimeType: 'text/plain', text: formatLog(result.data.logs) }] }
+          : { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(result.data, null, 2) }] };
+      }
+    }
+  }
+
+  /** Creates the subscriptions of one client connection; notify sends notifications/resources/updated */
+  createSubscriptions(notify: (uri: string) => Promise<void>): ResourceSubscriptions {
+    return new ResourceSubscriptions(this.orchestrator, notify);
+  }
+}
+
+// ============================================================================
+// Resource Subscriptions
+// ============================================================================
+
+export class ResourceSubscriptions {
+  private readonly subscriptions = new Map<string, () => void>();
+
+  constructor(
+    private readonly orchestrator: ProjectOrchestrator,
+    private readonly notify: (uri: string) => Promise<void>
+  ) {}
+
+  /**
+   * Follows the events of the operation behind the URI. Templates and the PRD schema do not change
+   * while the server runs, so subscribing to them is accepted but never notifies.
+   */
+  async subscribe(uri: string): Promise<void> {
+    const resource = parseResourceUri(uri);
+    if (resource.kind !== 'operation' || this.subscriptions.has(uri)) return;
+
+    const notifyOnce = coalesce(() => {
+      this.notify(uri).catch(error => console.error(`❌ Failed to notify subscribers of ${uri}:`, error));
+    });
+    const result = await this.orchestrator.subscribeToOperation(resource.operationId, (event: OperationEvent) => {
+      if (!resource.log || event.type === 'log') {
+        notifyOnce();
+      }
+    });
+
+    if (!result.success) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${result.error})`);
+    }
+    this.subscriptions.set(uri, result.data);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.get(uri)?.();
+    this.subscriptions.delete(uri);
+  }
+
+  closeAll(): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri);
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseResourceUri(uri: string): ParsedResourceUri {
+  if (uri === PRD_SCHEMA_URI) {
+    return { kind: 'prd_schema' };
+  }
+
+  const template = /^template:\/\/([^/]+)$/.exec(uri);
+  if (template?.[1] !== undefined) {
+    return { kind: 'template', name: decodeURIComponent(template[1]) };
+  }
+
+  const operation = /^operation:\/\/([^/]+)(\/log)?$/.exec(uri);
+  if (operation?.[1] !== undefined) {
+    return { kind: 'operation', operationId: decodeURIComponent(operation[1]), log: operation[2] !== undefined };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+function formatLog(logs: GetOperationStatusResponse['logs']): string {
+  return logs.map(entry => `${entry.timestamp} [${entry.level}] ${entry.message}`).join('\n');
+}
+
+/**
+ * Collapses calls made in the same tick into one. Subscribing replays an operation's history
+ * synchronously, and a client only needs one notification to re-read the resource.
+ */
+function coalesce(callback: () => void): () => void {
+  let scheduled = false;
+  return () => {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(() => {
+      scheduled = false;
+      callback();
+    });
+  };
+}
+
+export default OrchestrationResources;
@@ -0,0 +1,146 @@
+// MCP Session Store - Sessions of the HTTP-hosted MCP server
+// Each session owns its protocol server and transport, is bound to the caller that opened it and is rate limited
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import logger from '../utils/logger';
+
+// ============================================================================
+// Session Types
+// ============================================================================
+
+export type McpSessionTransport =
+  | { readonly type: 'streamable-http'; readonly transport: StreamableHTTPServerTransport }
+  | { readonly type: 'sse'; readonly transport: SSEServerTransport };
+
+export interface McpSession {
+  readonly sessionId: string;
+  readonly connection: McpSessionTransport;
+  readonly server: Server;
+  /** Identity of the credential that opened the session; later requests must present the same one */
+  readonly principal: string;
+  readonly createdAt: number;
+  lastActivityAt: number;
+  windowStartedAt: number;
+  requestsInWindow: number;
+}
+
+export interface McpSessionStoreOptions {
+  /** Sessions without requests for this long are closed */
+  readonly idleTimeoutMs?: number;
+  readonly maxSessions?: number;
+  readonly rateLimit?: {
+    readonly windowMs: number;
+    readonly max: number;
+  };
+}
+
+export type RateLimitDecision =
+  | { readonly allowed: true }
+  | { readonly allowed: false; readonly retryAfterMs: number };
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+const DEFAULT_RATE_LIMIT = { windowMs: 60 * 1000, max: 120 };
+
+// ============================================================================
+// Session Store
+// ============================================================================
+
+export class McpSessionStore {
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly rateLimit: { readonly windowMs: number; readonly max: number };
+
+  constructor(options: McpSessionStoreOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Closes idle sessions first, so a full store only turns callers away when every session is in use */
+  hasCapacity(now = Date.now()): boolean {
+    this.closeIdleSessions(now);
+    return this.sessions.size < this.maxSessions;
+  }
+
+  add(
+    sessionId: string,
+    session: Pick<McpSession, 'connection' | 'server' | 'principal'>,
+    now = Date.now()
+  ): McpSession {
+    const created: McpSession = {
+      ...session,
+      sessionId,
+      createdAt: now,
+      lastActivityAt: now,
+      windowStartedAt: now,
+      requestsInWindow: 0
+    };
+    this.sessions.set(sessionId, created);
+    return created;
+  }
+
+  get(sessionId: string, now = Date.now()): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session && now - session.lastActivityAt >= this.idleTimeoutMs) {
+      void this.remove(sessionId);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Counts a request against the session's fixed rate limit window and marks the session active.
+   * Rejected requests are not counted.
+   */
+  consume(session: McpSession, now = Date.now()): RateLimitDecision {
+    if (now - session.windowStartedAt >= this.rateLimit.windowMs) {
+      session.windowStartedAt = now;
+      session.requestsInWindow = 0;
+    }
+
+    if (session.requestsInWindow >= this.rateLimit.max) {
+      return { allowed: false, retryAfterMs: session.windowStartedAt + this.rateLimit.windowMs - now };
+    }
+
+    session.requestsInWindow++;
+    session.lastActivityAt = now;
+    return { allowed: true };
+  }
+
+  /** Forgets the session and closes its protocol server, which also closes the transport */
+  async remove(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    // Deleted before closing, because closing the transport calls back into remove()
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.error(`❌ Failed to close MCP session ${sessionId}`, { error });
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.remove(sessionId)));
+  }
+
+  private closeIdleSessions(now: number): void {
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastActivityAt >= this.idleTimeoutMs) {
+        logger.info(`⌛ Closing idle MCP session ${session.sessionId}`);
+        void this.remove(session.sessionId);
+      }
+    }
+  }
+}
+
+export default McpSessionStore;
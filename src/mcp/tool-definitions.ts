@@ -0,0 +1,389 @@
+// MCP Tool Definitions - Names, descriptions and input schemas of the orchestration tools
+// Each definition is served by the handler of the same name in tool-handlers.ts
+
+import { contractObjectSchema } from '../schemas/contract-schemas';
+import { McpToolDefinition } from './tool-registry';
+
+// Request fields shared with the REST API come from the API contract schemas
+const createProjectRequest = contractObjectSchema('CreateProjectApiRequest');
+const cancelOperationRequest = contractObjectSchema('CancelOperationRequest');
+const approveOperationRequest = contractObjectSchema('ApproveOperationRequest');
+const destroyProjectRequest = contractObjectSchema('DestroyProjectRequest');
+
+// ============================================================================
+// MCP Tool Definitions
+// ============================================================================
+
+export const MCP_TOOLS: readonly McpToolDefinition[] = [
+  {
+    name: 'create_project',
+    description: 'Create a new Power Platform project with Azure DevOps integration. Clients that support elicitation are asked for missing required template parameters and to confirm costly environments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...createProjectRequest.properties,
+        options: {
+          type: 'object',
+          description: 'Execution options',
+          properties: {
+            dryRun: {
+              type: 'boolean',
+              description: 'Perform validation only without creating resources'
+            },
+            skipAzureDevOps: {
+              type: 'boolean',
+              description: 'Skip Azure DevOps project creation'
+            },
+            skipPowerPlatform: {
+              type: 'boolean',
+              description: 'Skip Power Platform environment creation'
+            },
+            skipAppRegistration: {
+              type: 'boolean',
+              description: 'Skip Azure AD app registration'
+            }
+          }
+        }
+      },
+      required: createProjectRequest.required
+    }
+  },
+  {
+    name: 'get_project_status',
+    description: 'Get the status of a project creation operation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: {
+          type: 'string',
+          description: 'Operation ID returned from create_project'
+        }
+      },
+      required: ['operationId']
+    }
+  },
+  {
+    name: 'resume_project',
+    description: 'Resume a failed or interrupted project creation operation from the last completed step',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: {
+          type: 'string',
+          description: 'Operation ID returned from create_project'
+        }
+      },
+      required: ['operationId']
+    }
+  },
+  {
+    name: 'cancel_operation',
+    description: 'Cancel an in-flight project creation operation, optionally rolling back the resources it created',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: {
+          type: 'string',
+          description: 'Operation ID returned from create_project'
+        },
+        ...cancelOperationRequest.properties
+      },
+      required: ['operationId', ...cancelOperationRequest.required]
+    }
+  },
+  {
+    name: 'approve_operation',
+    description: 'Approve or reject the approval step an operation is waiting at (status awaiting_approval), then continue the operation. Requires an MCP session authenticated with the operations:approve scope',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: {
+          type: 'string',
+          description: 'Operation ID returned from create_project'
+        },
+        ...approveOperationRequest.properties
+      },
+      required: ['operationId', ...approveOperationRequest.required]
+    }
+  },
+  {
+    name: 'plan_project',
+    description: 'Compare a template with existing resources and list each resource as create, update, no-op or conflict without changing anything',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...createProjectRequest.properties,
+        options: {
+          type: 'object',
+          description: 'Parts of the project to leave out of the plan',
+          properties: {
+            skipAzureDevOps: {
+              type: 'boolean',
+              description: 'Skip the Azure DevOps project'
+            },
+            skipPowerPlatform: {
+              type: 'boolean',
+              description: 'Skip Power Platform environments, publisher and solutions'
+            },
+            skipAppRegistration: {
+              type: 'boolean',
+              description: 'Skip the Azure AD app registration'
+            }
+          }
+        }
+      },
+      required: createProjectRequest.required
+    }
+  },
+  {
+    name: 'apply_plan',
+    description: 'Execute a plan returned by plan_project. Refused when existing resources changed since the plan was made',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        planId: {
+          type: 'string',
+          description: 'Plan ID returned from plan_project'
+        }
+      },
+      required: ['planId']
+    }
+  },
+  {
+    name: 'detect_drift',
+    description: 'Compare a created project with its template and report missing, changed and unexpected resources',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: {
+          type: 'string',
+          description: 'Operation ID returned when the project was created'
+        },
+        includeRemediation: {
+          type: 'boolean',
+          description: 'Also list the steps that would bring the project back in line with its template',
+          default: false
+        }
+      },
+      required: ['projectId']
+    }
+  },
+  {
+    name: 'destroy_project',
+    description: 'Delete the environments, app registration and service principal a project created. Run with dryRun first: the destroy only proceeds with the confirmation token the dry run returns',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectId: {
+          type: 'string',
+          description: 'Operation ID returned when the project was created'
+        },
+        ...destroyProjectRequest.properties
+      },
+      required: ['projectId', ...destroyProjectRequest.required]
+    }
+  },
+  {
+    name: 'list_templates',
+    description: 'List available project templates',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          description: 'Filter templates by category',
+          enum: ['standard', 'enterprise', 'quickstart', 'all']
+        }
+      }
+    }
+  },
+  {
+    name: 'validate_prd',
+    description: 'Validate a Project Requirements Document (PRD) for orchestration',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prd: {
+          type: 'object',
+          description: 'Project Requirements Document in standardized format',
+          properties: {
+            projectName: { type: 'string' },
+            description: { type: 'string' },
+            requirements: {
+              type: 'object',
+              properties: {
+                azureDevOps: { type: 'object' },
+                powerPlatform: { type: 'object' },
+                integration: { type: 'object' }
+              }
+            },
+            timeline: { type: 'object' },
+            resources: { type: 'object' },
+            parameters: {
+              type: 'object',
+              description: 'Template parameter values, validated against the template when templateName is given'
+            }
+          },
+          required: ['projectName', 'description', 'requirements']
+        },
+        templateName: {
+          type: 'string',
+          description: 'Template to validate against'
+        }
+      },
+      required: ['prd']
+    }
+  },
+  {
+    name: 'get_template_details',
+    description: 'Get detailed information about a specific project template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        templateName: {
+          type: 'string',
+          description: 'Name of the template to retrieve details for'
+        }
+      },
+      required: ['templateName']
+    }
+  },
+  {
+    name: 'create_dataverse_table',
+    description: 'Create a custom Dataverse table from its display name and register it in the schema, so relationships and child records can refer to it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Display name of the table, e.g. "Project Task". Schema and logical names are derived from it'
+        },
+        environmentUrl: {
+          type: 'string',
+          description: 'Dataverse environment URL, e.g. https://contoso.crm.dynamics.com. Defaults to the configured Power Platform environment'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the table metadata that would be sent without creating or registering the table',
+          default: false
+        }
+      },
+      required: ['displayName']
+    }
+  },
+  {
+    name: 'create_dataverse_relationship',
+    description: 'Create a one-to-many relationship between two tables created with create_dataverse_table, adding a lookup column to the child table',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parentTable: {
+          type: 'string',
+          description: 'Display name of the parent (one) table'
+        },
+        childTable: {
+          type: 'string',
+          description: 'Display name of the child (many) table'
+        },
+        lookupDisplayName: {
+          type: 'string',
+          description: 'Display name of the lookup column on the child table. Defaults to the parent table display name'
+        },
+        environmentUrl: {
+          type: 'string',
+          description: 'Dataverse environment URL, e.g. https://contoso.crm.dynamics.com. Defaults to the configured Power Platform environment'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the relationship metadata and navigation property without creating or registering the relationship',
+          default: false
+        }
+      },
+      required: ['parentTable', 'childTable']
+    }
+  },
+  {
+    name: 'create_child_records',
+    description: 'Create records in a child table, each bound to its parent record through the navigation property of a registered relationship',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parentTable: {
+          type: 'string',
+          description: 'Display name of the parent table'
+        },
+        childTable: {
+          type: 'string',
+          description: 'Display name of the child table'
+        },
+        records: {
+          type: 'array',
+          description: 'Records to create',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              parentId: {
+                type: 'string',
+                description: 'ID of the parent record this record belongs to'
+              },
+              data: {
+                type: 'object',
+                description: 'Column values of the child record, keyed by logical name',
+                additionalProperties: true
+              }
+            },
+            required: ['parentId', 'data']
+          }
+        },
+        environmentUrl: {
+          type: 'string',
+          description: 'Dataverse environment URL, e.g. https://contoso.crm.dynamics.com. Defaults to the configured Power Platform environment'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the records with their lookup bindings without creating them',
+          default: false
+        }
+      },
+      required: ['parentTable', 'childTable', 'records']
+    }
+  },
+  {
+    name: 'list_dataverse_schema',
+    description: 'List the tables and relationships registered by this server, with the names and navigation properties derived for them',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'add_table_to_solution',
+    description: 'Add a table created with create_dataverse_table to an unmanaged solution',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tableName: {
+          type: 'string',
+          description: 'Display name of the table'
+        },
+        solutionName: {
+          type: 'string',
+          description: 'Unique name of the solution'
+        },
+        environmentUrl: {
+          type: 'string',
+          description: 'Dataverse environment URL, e.g. https://contoso.crm.dynamics.com. Defaults to the configured Power Platform environment'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Check that the table is registered and report what would be added without changing the solution',
+          default: false
+        }
+      },
+      required: ['tableName', 'solutionName']
+    }
+  }
+] as const;
+
+export default MCP_TOOLS;
@@ -0,0 +1,1035 @@
+// MCP Tool Handlers - Shared tool layer on top of the ProjectOrchestrator
+// Every MCP transport serves these handlers through the tool registry
+
+import { CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  McpToolDefinition,
+  McpToolHandler,
+  ToolArguments,
+  ToolCallExtra,
+  ToolRegistry,
+  objectArg,
+  optionalBooleanArg,
+  optionalStringArg,
+  stringArg,
+  validateArgs
+} from './tool-registry';
+import { MCP_TOOLS } from './tool-definitions';
+import { elicit, fromElicitedValues, isElicitable, supportsElicitation, toParameterSchema } from './elicitation';
+import { APPROVER_SCOPE } from '../api/auth';
+import SchemaAwarePowerPlatformClient from '../integrations/power-platform/schema-aware-client';
+import ProjectOrchestrator, {
+  OperationObserver,
+  OrchestrationOptions,
+  OrchestrationResponse
+} from '../orchestration/project-orchestrator';
+import { 
+  ApproveOperationRequest,
+  CreateProjectApiRequest, 
+  OperationEvent,
+  OperationStatus,
+  OperationStepEventData,
+  TemplateParameter,
+  ValidateTemplateResponse
+} from '../types/api-contracts';
+import { EntityRecord } from '../types/power-platform-interfaces';
+import logger from '../utils/logger';
+import { ApiContractValidator, ValidationError } from '../validation';
+
+// ============================================================================
+// Dataverse Tool Arguments
+// ============================================================================
+
+interface DataverseToolArgs {
+  /** Environment to change; defaults to the configured Power Platform environment */
+  readonly environmentUrl: string;
+  /** Previews the change without calling Dataverse */
+  readonly dryRun: boolean;
+}
+
+interface CreateTableArgs extends DataverseToolArgs {
+  readonly displayName: string;
+}
+
+interface CreateRelationshipArgs extends DataverseToolArgs {
+  readonly parentTable: string;
+  readonly childTable: string;
+  readonly lookupDisplayName?: string;
+}
+
+interface CreateChildRecordsArgs extends DataverseToolArgs {
+  readonly parentTable: string;
+  readonly childTable: string;
+  readonly records: Array<{ parentId: string; data: EntityRecord }>;
+}
+
+interface AddTableToSolutionArgs extends DataverseToolArgs {
+  readonly tableName: string;
+  readonly solutionName: string;
+}
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/** Times the user is asked to correct parameter values that fail the template's rules */
+const MAX_PARAMETER_ROUNDS = 3;
+
+/** Creating more environments than this has to be confirmed, as does any Production environment */
+const MAX_UNCONFIRMED_ENVIRONMENTS = 3;
+
+/** A round of asking create_project callers for template parameter values */
+interface ParameterPrompt {
+  readonly parameters: readonly TemplateParameter[];
+  /** Parameters asked for in this round */
+  readonly asked: readonly TemplateParameter[];
+  /** Why the previous round's answers were refused */
+  readonly errors: ValidateTemplateResponse['errors'];
+  readonly round: number;
+}
+
+/** create_project result messages by the status the operation had when the call returned */
+const CREATE_PROJECT_MESSAGES: Readonly<Record<OperationStatus, string>> = {
+  started: 'Project creation initiated successfully',
+  running: 'Project creation initiated successfully',
+  awaiting_approval: 'Project creation is waiting for approval',
+  rolling_back: 'Project creation failed and is being rolled back',
+  completed: 'Project created successfully',
+  failed: 'Project creation failed',
+  cancelled: 'Project creation was cancelled'
+};
+
+export class OrchestrationToolHandlers {
+  constructor(
+    private readonly orchestrator: ProjectOrchestrator,
+    private readonly schemaClient: SchemaAwarePowerPlatformClient,
+    private readonly defaultEnvironmentUrl = ''
+  ) {}
+
+  /**
+   * Registers a handler for every definition in MCP_TOOLS. A definition without a handler fails
+   * here, when the server starts, rather than on the first call to the tool.
+   */
+  register(registry: ToolRegistry, tools: readonly McpToolDefinition[] = MCP_TOOLS): void {
+    const handlers: Readonly<Record<string, McpToolHandler>> = {
+      create_project: (args, extra) => this.handleCreateProject(args, extra),
+      get_project_status: (args) => this.handleGetProjectStatus(args),
+      resume_project: (args) => this.handleResumeProject(args),
+      cancel_operation: (args) => this.handleCancelOperation(args),
+      approve_operation: (args, extra) => this.handleApproveOperation(args, extra),
+      plan_project: (args) => this.handlePlanProject(args),
+      apply_plan: (args) => this.handleApplyPlan(args),
+      detect_drift: (args) => this.handleDetectDrift(args),
+      destroy_project: (args) => this.handleDestroyProject(args),
+      list_templates: (args) => this.handleListTemplates(args),
+      validate_prd: (args) => this.handleValidatePrd(args),
+      get_template_details: (args) => this.handleGetTemplateDetails(args),
+      create_dataverse_table: (args) => this.handleCreateDataverseTable(args),
+      create_dataverse_relationship: (args) => this.handleCreateDataverseRelationship(args),
+      create_child_records: (args) => this.handleCreateChildRecords(args),
+      list_dataverse_schema: () => this.handleListDataverseSchema(),
+      add_table_to_solution: (args) => this.handleAddTableToSolution(args)
+    };
+
+    for (const tool of tools) {
+      const handler = handlers[tool.name];
+      if (!handler) {
+        throw new Error(`No handler is implemented for MCP tool ${tool.name}`);
+      }
+      registry.register(tool, handler);
+    }
+  }
+
+  // ============================================================================
+  // Tool Implementations
+  // ============================================================================
+
+  private async handleCreateProject(args: unknown, extra: ToolCallExtra): Promise<CallToolResult> {
+    validateArgs(args, ['projectName', 'templateName']);
+    
+    const options = toOrchestrationOptions(objectArg(args, 'options'));
+    const completed = await this.completeProjectRequest(toCreateProjectRequest(args), options, extra);
+
+    if (!completed.success) {
+      return toToolResult({ success: false, error: completed.error, message: 'Project creation was not started' });
+    }
+
+    const request = completed.data;
+    logger.info(`🚀 Creating project via MCP: ${request.projectName}`);
+    
+    const result = await this.orchestrator.createProject(request, options, undefined, this.createObserver(extra));
+    
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operationId: result.data.operationId,
+              status: result.data.status,
+              progress: result.data.progress,
+              message: describeCreateProjectResult(result.data.status, options.dryRun === true)
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Project creation failed'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  // ============================================================================
+  // Create Project Inputs
+  // ============================================================================
+
+  /**
+   * Asks clients that support elicitation for the required template parameters a create_project
+   * call left out, and again for any answer that breaks the template's parameter rules, so the
+   * orchestration only starts with valid values. Production environments and more than three
+   * environments must then be confirmed. Other clients' requests are passed on unchanged.
+   */
+  private async completeProjectRequest(
+    request: CreateProjectApiRequest,
+    options: OrchestrationOptions,
+    extra: ToolCallExtra
+  ): Promise<OrchestrationResponse<CreateProjectApiRequest>> {
+    if (!supportsElicitation(extra)) {
+      return { success: true, data: request };
+    }
+
+    const details = await this.orchestrator.getTemplateDetails(request.templateName);
+    if (!details.success) {
+      return { success: false, error: details.error };
+    }
+
+    const { parameters } = details.data;
+    const asked = askableParameters(parameters.filter(parameter =>
+      parameter.required && request.customization?.[parameter.name] === undefined));
+    return this.askForParameters(request, { parameters, asked, errors: [], round: 1 }, options, extra);
+  }
+
+  /** Asks for one round of parameter values and validates them, asking again while answers break the rules */
+  private async askForParameters(
+    request: CreateProjectApiRequest,
+    prompt: ParameterPrompt,
+    options: OrchestrationOptions,
+    extra: ToolCallExtra
+  ): Promise<OrchestrationResponse<CreateProjectApiRequest>> {
+    const customization: Record<string, unknown> = { ...request.customization };
+    if (prompt.asked.length > 0) {
+      const answer = await elicit(extra, describeParameterRequest(request, prompt.errors), toParameterSchema(prompt.asked));
+      if (answer.action !== 'accept') {
+        return { success: false, error: `The user did not provide the parameters (${answer.action})` };
+      }
+      Object.assign(customization, fromElicitedValues(prompt.asked, answer.content));
+    }
+
+    const validation = await this.orchestrator.validateTemplateParameters(request.templateName, {
+      ...customization,
+      projectName: request.projectName
+    });
+    if (!validation.success) {
+      return { success: false, error: validation.error };
+    }
+    if (validation.data.valid) {
+      return this.confirmEnvironments({ ...request, customization }, validation.data.environments, options, extra);
+    }
+
+    const { errors } = validation.data;
+    const asked = askableParameters(prompt.parameters.filter(parameter => errors.some(error => error.parameter === parameter.name)));
+    if (asked.length === 0 || prompt.round >= MAX_PARAMETER_ROUNDS) {
+      const failures = errors.map(error => `${error.field}: ${error.message}`).join('; ');
+      return { success: false, error: `Template '${request.templateName}' validation failed: ${failures}` };
+    }
+    return this.askForParameters({ ...request, customization }, { ...prompt, asked, errors, round: prompt.round + 1 }, options, extra);
+  }
+
+  private async confirmEnvironments(
+    request: CreateProjectApiRequest,
+    environments: ValidateTemplateResponse['environments'],
+    options: OrchestrationOptions,
+    extra: ToolCallExtra
+  ): Promise<OrchestrationResponse<CreateProjectApiRequest>> {
+    const production = environments.filter(env => env.sku === 'Production');
+    const confirmationNeeded = production.length > 0 || environments.length > MAX_UNCONFIRMED_ENVIRONMENTS;
+    if (!confirmationNeeded || options.dryRun === true || options.skipPowerPlatform === true) {
+      return { success: true, data: request };
+    }
+
+    const message = [
+      `Project ${request.projectName} will create ${environments.length} Power Platform environment(s):`,
+      ...environments.map(env => `- ${env.displayName} (${env.sku}, ${env.region})`),
+      production.length > 0 ? 'Production environments are billed and count against your capacity.' : ''
+    ].filter(line => line !== '').join('\n');
+
+    const answer = await elicit(extra, message, {
+      type: 'object',
+      properties: { confirm: { type: 'boolean', title: 'Create these environments', default: false } },
+      required: ['confirm']
+    });
+
+    return answer.action === 'accept' && answer.content['confirm'] === true
+      ? { success: true, data: request }
+      : { success: false, error: 'The user did not confirm the environments to create' };
+  }
+
+  /**
+   * Follows the operation a tool call started. When the client sent a progress token, finished
+   * steps are reported as notifications/progress; cancelling the request cancels the operation.
+   */
+  private createObserver(extra: ToolCallExtra): OperationObserver {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return { signal: extra.signal };
+    }
+
+    let lastStep: OperationStepEventData | undefined;
+    let reported = -1;
+    const onEvent = (event: OperationEvent): void => {
+      if (event.type === 'step') {
+        lastStep = event.data;
+        return;
+      }
+      // Progress must increase with every notification, so only finished steps are reported
+      if (event.type !== 'progress' || event.data.completedSteps <= reported) return;
+
+      reported = event.data.completedSteps;
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: event.data.completedSteps,
+          total: event.data.totalSteps,
+          message: lastStep ? `${lastStep.name}: ${lastStep.status}` : 'Workflow started'
+        }
+      }).catch((error: unknown) => logger.error('❌ Failed to send progress notification', { error }));
+    };
+
+    return { signal: extra.signal, onEvent };
+  }
+
+  private async handleGetProjectStatus(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['operationId']);
+    const operationId = stringArg(args, 'operationId');
+    
+    logger.info(`📊 Getting project status via MCP: ${operationId}`);
+    
+    const result = await this.orchestrator.getOperationStatus(operationId);
+    
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: result.data,
+              message: `Operation status: ${result.data.status}`
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to get operation status'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleResumeProject(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['operationId']);
+    const operationId = stringArg(args, 'operationId');
+    
+    logger.info(`🔁 Resuming project via MCP: ${operationId}`);
+    
+    const result = await this.orchestrator.resumeOperation(operationId);
+    
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operationId: result.data.operationId,
+              status: result.data.status,
+              progress: result.data.progress,
+              message: 'Project creation resumed successfully'
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to resume project creation'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleCancelOperation(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['operationId']);
+    const operationId = stringArg(args, 'operationId');
+    
+    logger.info(`⏹️  Cancelling operation via MCP: ${operationId}`);
+    
+    const result = await this.orchestrator.cancelOperation(operationId, {
+      rollback: args['rollback'] === true
+    });
+    
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operationId: result.data.operationId,
+              status: result.data.status,
+              rollbackRequested: result.data.rollbackRequested,
+              message: 'Cancellation requested - the operation stops after its current step'
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to cancel operation'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * Approvals are attributed to the caller, so they are only accepted from an HTTP session whose
+   * credentials carry the approver scope - never from stdio, where the client is the agent itself.
+   */
+  private async handleApproveOperation(args: unknown, extra: ToolCallExtra): Promise<CallToolResult> {
+    validateArgs(args, ['operationId', 'decision']);
+    const operationId = stringArg(args, 'operationId');
+    const decision = toApproveOperationRequest(args);
+
+    const approver = extra.authInfo;
+    if (approver?.scopes.includes(APPROVER_SCOPE) !== true) {
+      return toToolResult({
+        success: false,
+        error: `Approvals require an MCP session authenticated with the ${APPROVER_SCOPE} scope`,
+        message: 'Failed to record the approval'
+      });
+    }
+
+    logger.info(`✅ Recording ${decision.decision} decision via MCP: ${operationId} by ${approver.clientId}`);
+
+    const result = await this.orchestrator.approveOperation(operationId, decision, approver.clientId);
+
+    return toToolResult(result.success
+      ? {
+        success: true,
+        operationId: result.data.operationId,
+        approval: result.data.approval,
+        status: result.data.status,
+        message: `Approval ${result.data.approval.decision ?? 'recorded'} - the operation is now ${result.data.status}`
+      }
+      : { success: false, error: result.error, message: 'Failed to record the approval' });
+  }
+
+  private async handlePlanProject(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['projectName', 'templateName']);
+
+    const request = toCreateProjectRequest(args);
+
+    logger.info(`📝 Planning project via MCP: ${request.projectName}`);
+
+    const result = await this.orchestrator.planProject(request, toOrchestrationOptions(objectArg(args, 'options')));
+
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              plan: result.data,
+              message: `Plan ${result.data.planId}: ${result.data.summary.create} to create, ${result.data.summary.update} to update, ${result.data.summary.conflict} conflicts`
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to plan project'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleApplyPlan(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['planId']);
+    const planId = stringArg(args, 'planId');
+
+    logger.info(`🚀 Applying plan via MCP: ${planId}`);
+
+    const result = await this.orchestrator.applyPlan(planId);
+
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operationId: result.data.operationId,
+              status: result.data.status,
+              progress: result.data.progress,
+              message: 'Plan applied successfully'
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to apply plan'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleDetectDrift(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['projectId']);
+    const projectId = stringArg(args, 'projectId');
+
+    logger.info(`🔍 Detecting drift via MCP: ${projectId}`);
+
+    const result = await this.orchestrator.detectDrift(projectId, {
+      includeRemediation: args['includeRemediation'] === true
+    });
+
+    if (result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              report: result.data,
+              message: result.data.hasDrift
+                ? `Found ${result.data.items.length} differences from the template`
+                : 'Project matches its template'
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to detect drift'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleDestroyProject(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['projectId']);
+    const projectId = stringArg(args, 'projectId');
+    const confirmationToken = optionalStringArg(args, 'confirmationToken');
+    const dryRun = args['dryRun'] === true;
+
+    logger.info(`🗑️  ${dryRun ? 'Planning teardown' : 'Destroying project'} via MCP: ${projectId}`);
+
+    const result = await this.orchestrator.destroyProject(projectId, {
+      dryRun,
+      includeAzureDevOpsProject: args['includeAzureDevOpsProject'] === true,
+      allowProductionEnvironments: args['allowProductionEnvironments'] === true,
+      ...(confirmationToken !== undefined && { confirmationToken })
+    });
+
+    if (result.success) {
+      const deleting = result.data.resources.filter(resource => resource.action === 'delete').length;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              teardown: result.data,
+              message: result.data.dryRun
+                ? `${deleting} resources would be deleted - call again with the confirmation token to destroy them`
+                : `Project teardown ${result.data.status}`
+            }, null, 2)
+          }
+        ]
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to destroy project'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  }
+
+  private async handleListTemplates(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, []);
+    const category = optionalStringArg(args, 'category');
+
+    logger.info('📋 Listing templates via MCP');
+    
+    const result = await this.orchestrator.listTemplates();
+    
+    if (!result.success) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              message: 'Failed to list templates'
+            }, null, 2)
+          }
+        ]
+      };
+    }
+
+    const filteredTemplates = category !== undefined && category !== '' && category !== 'all'
+      ? result.data.templates.filter(t => t.category === category || t.tags.includes(category))
+      : result.data.templates;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            templates: filteredTemplates,
+            totalCount: filteredTemplates.length,
+            message: `Found ${filteredTemplates.length} templates`
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async handleValidatePrd(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['prd']);
+    
+    logger.info('✅ Validating PRD via MCP');
+    
+    const prd = objectArg(args, 'prd') ?? {};
+    const templateName = optionalStringArg(args, 'templateName');
+    
+    const validationErrors = validatePrdFields(prd);
+    
+    if (templateName !== undefined && templateName !== '') {
+      // Parameter errors point into the PRD, template expression errors into the template
+      const result = await this.orchestrator.validateTemplateParameters(templateName, {
+        ...objectArg(prd, 'parameters'),
+        projectName: prd['projectName']
+      });
+
+      if (!result.success) {
+        validationErrors.push({ field: 'templateName', code: 'TEMPLATE_NOT_FOUND', message: result.error });
+      } else {
+        validationErrors.push(...result.data.errors
+          .map(error => ({ ...error, field: this.toPrdFieldPath(error.field, error.parameter) }))
+          .filter(error => !validationErrors.some(existing => existing.field === error.field)));
+      }
+    }
+
+    const isValid = validationErrors.length === 0;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            validation: {
+              isValid,
+              errors: validationErrors,
+              suggestions: isValid ? [] : [
+                'Ensure all required fields are provided',
+                'Check that field types match expected formats',
+                'Review template compatibility'
+              ]
+            },
+            message: isValid ? 'PRD validation passed' : 'PRD validation failed'
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private toPrdFieldPath(field: string, parameter: string | undefined): string {
+    if (parameter === undefined) {
+      return `template.${field}`;
+    }
+    // The project name parameter is filled from the PRD's own projectName
+    return parameter === 'projectName' ? 'prd.projectName' : `prd.${field}`;
+  }
+
+  private async handleGetTemplateDetails(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['templateName']);
+    const templateName = stringArg(args, 'templateName');
+    
+    logger.info(`📖 Getting template details via MCP: ${templateName}`);
+    
+    const result = await this.orchestrator.getTemplateDetails(templateName);
+    
+    if (!result.success) {
+      const available = await this.orchestrator.listTemplates();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: result.error,
+              availableTemplates: available.success ? available.data.templates.map(t => t.name) : []
+            }, null, 2)
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            template: result.data,
+            message: `Template details for ${templateName}`
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  // ============================================================================
+  // Dataverse Schema Tools
+  // ============================================================================
+
+  private async handleCreateDataverseTable(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['displayName']);
+    const { displayName, environmentUrl, dryRun }: CreateTableArgs = {
+      ...this.readDataverseArgs(args),
+      displayName: stringArg(args, 'displayName')
+    };
+
+    if (dryRun) {
+      const preview = this.schemaClient.previewTable(displayName);
+      return toToolResult({
+        success: true,
+        dryRun: true,
+        table: preview.tableDefinition,
+        metadata: preview.metadata,
+        message: `Table ${preview.tableDefinition.logicalName} would be created in ${environmentUrl}`
+      });
+    }
+
+    logger.info(`🗃️  Creating Dataverse table via MCP: ${displayName}`);
+    const result = await this.schemaClient.createTable(displayName, environmentUrl);
+
+    return toToolResult(result.success
+      ? { success: true, dryRun: false, table: result.tableDefinition, id: result.data.id, message: result.data.message }
+      : { success: false, error: result.error, message: 'Failed to create table' });
+  }
+
+  private async handleCreateDataverseRelationship(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['parentTable', 'childTable']);
+    const lookup = optionalStringArg(args, 'lookupDisplayName');
+    const { parentTable, childTable, lookupDisplayName, environmentUrl, dryRun }: CreateRelationshipArgs = {
+      ...this.readDataverseArgs(args),
+      parentTable: stringArg(args, 'parentTable'),
+      childTable: stringArg(args, 'childTable'),
+      ...(lookup !== undefined && { lookupDisplayName: lookup })
+    };
+
+    if (dryRun) {
+      const preview = this.schemaClient.previewRelationship(parentTable, childTable, lookupDisplayName);
+      return toToolResult({
+        success: true,
+        dryRun: true,
+        relationship: preview.relationshipDefinition,
+        navigationProperty: preview.navigationProperty,
+        metadata: preview.metadata,
+        message: `Relationship ${preview.relationshipDefinition.schemaName} would be created in ${environmentUrl}`
+      });
+    }
+
+    logger.info(`🔗 Creating Dataverse relationship via MCP: ${parentTable} → ${childTable}`);
+    const result = await this.schemaClient.createRelationship(parentTable, childTable, environmentUrl, lookupDisplayName);
+
+    return toToolResult(result.success
+      ? {
+        success: true,
+        dryRun: false,
+        relationship: result.relationshipDefinition,
+        navigationProperty: this.schemaClient.getNavigationProperty(childTable, parentTable),
+        id: result.data.id,
+        message: result.data.message
+      }
+      : { success: false, error: result.error, message: 'Failed to create relationship' });
+  }
+
+  private async handleCreateChildRecords(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['parentTable', 'childTable', 'records']);
+    const { parentTable, childTable, records, environmentUrl, dryRun }: CreateChildRecordsArgs = {
+      ...this.readDataverseArgs(args),
+      parentTable: stringArg(args, 'parentTable'),
+      childTable: stringArg(args, 'childTable'),
+      records: parseChildRecords(args['records'])
+    };
+
+    if (dryRun) {
+      const preview = this.schemaClient.prepareChildRecords(childTable, parentTable, records);
+      return toToolResult({
+        success: true,
+        dryRun: true,
+        entitySetName: preview.entitySetName,
+        records: preview.records,
+        message: `${preview.records.length} records would be created in ${preview.entitySetName}`
+      });
+    }
+
+    logger.info(`📝 Creating ${records.length} ${childTable} records via MCP`);
+    const results = await this.schemaClient.createMultipleChildRecords(childTable, parentTable, records, environmentUrl);
+    const createdIds = results.flatMap(result => (result.success ? [result.data.id] : []));
+    const errors = results.flatMap((result, index) => (result.success ? [] : [{ index, error: result.error }]));
+
+    return toToolResult({
+      success: errors.length === 0,
+      dryRun: false,
+      createdIds,
+      errors,
+      message: `Created ${createdIds.length} of ${results.length} records`
+    });
+  }
+
+  private handleListDataverseSchema(): Promise<CallToolResult> {
+    const { tables, relationships } = this.schemaClient.getSchema();
+
+    return Promise.resolve(toToolResult({
+      success: true,
+      tables,
+      relationships: relationships.map(relationship => ({
+        ...relationship,
+        navigationProperty: this.schemaClient.getNavigationProperty(
+          relationship.childTable.displayName,
+          relationship.parentTable.displayName
+        )
+      })),
+      message: `${tables.length} tables and ${relationships.length} relationships registered`
+    }));
+  }
+
+  private async handleAddTableToSolution(args: unknown): Promise<CallToolResult> {
+    validateArgs(args, ['tableName', 'solutionName']);
+    const { tableName, solutionName, environmentUrl, dryRun }: AddTableToSolutionArgs = {
+      ...this.readDataverseArgs(args),
+      tableName: stringArg(args, 'tableName'),
+      solutionName: stringArg(args, 'solutionName')
+    };
+
+    if (dryRun) {
+      const table = this.schemaClient.findTable(tableName);
+      return toToolResult(table
+        ? { success: true, dryRun: true, table, message: `Table ${table.logicalName} would be added to solution ${solutionName}` }
+        : { success: false, dryRun: true, error: `Table not registered: ${tableName}`, message: 'Create the table with create_dataverse_table first' });
+    }
+
+    logger.info(`📦 Adding table ${tableName} to solution ${solutionName} via MCP`);
+    const result = await this.schemaClient.addTableToSolution(tableName, solutionName, environmentUrl);
+
+    return toToolResult(result.success
+      ? { success: true, dryRun: false, message: result.data.message }
+      : { success: false, error: result.error, message: 'Failed to add table to solution' });
+  }
+
+  /** Reads the arguments every Dataverse tool shares, resolving the environment it changes */
+  private readDataverseArgs(args: ToolArguments): DataverseToolArgs {
+    const requested = optionalStringArg(args, 'environmentUrl');
+    const environmentUrl = requested !== undefined && requested !== '' ? requested : this.defaultEnvironmentUrl;
+
+    if (environmentUrl === '') {
+      throw new McpError(ErrorCode.InvalidParams, 'environmentUrl is required when no Power Platform environment is configured');
+    }
+    return { environmentUrl, dryRun: optionalBooleanArg(args, 'dryRun') === true };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Parameters the user can answer; the request's project name always fills the projectName parameter */
+function askableParameters(parameters: readonly TemplateParameter[]): TemplateParameter[] {
+  return parameters.filter(parameter => isElicitable(parameter) && parameter.name !== 'projectName');
+}
+
+function describeParameterRequest(
+  request: CreateProjectApiRequest,
+  errors: ValidateTemplateResponse['errors']
+): string {
+  if (errors.length === 0) {
+    return `Template '${request.templateName}' needs these values to create project ${request.projectName}`;
+  }
+  return [
+    `Some values are not valid for template '${request.templateName}':`,
+    ...errors.map(error => `- ${error.parameter ?? error.field}: ${error.message}`)
+  ].join('\n');
+}
+
+function describeCreateProjectResult(status: OperationStatus, dryRun: boolean): string {
+  if (dryRun) {
+    return status === 'failed' ? 'Project creation validation failed' : 'Project creation validated successfully';
+  }
+  return CREATE_PROJECT_MESSAGES[status];
+}
+
+/** The create_project and plan_project arguments share the REST API's create request */
+function toCreateProjectRequest(args: ToolArguments): CreateProjectApiRequest {
+  const description = optionalStringArg(args, 'description');
+  const customization = objectArg(args, 'customization');
+  return {
+    projectName: stringArg(args, 'projectName'),
+    templateName: stringArg(args, 'templateName'),
+    ...(description !== undefined && { description }),
+    ...(customization !== undefined && { customization })
+  };
+}
+
+/** Passes on the execution options the caller set, leaving the others to the orchestrator's defaults */
+function toOrchestrationOptions(options: ToolArguments = {}): OrchestrationOptions {
+  const dryRun = optionalBooleanArg(options, 'dryRun');
+  const skipAzureDevOps = optionalBooleanArg(options, 'skipAzureDevOps');
+  const skipPowerPlatform = optionalBooleanArg(options, 'skipPowerPlatform');
+  const skipAppRegistration = optionalBooleanArg(options, 'skipAppRegistration');
+  return {
+    ...(dryRun !== undefined && { dryRun }),
+    ...(skipAzureDevOps !== undefined && { skipAzureDevOps }),
+    ...(skipPowerPlatform !== undefined && { skipPowerPlatform }),
+    ...(skipAppRegistration !== undefined && { skipAppRegistration })
+  };
+}
+
+/** Checks the decision fields against the same contract schema the REST API validates approvals with */
+function toApproveOperationRequest(args: ToolArguments): ApproveOperationRequest {
+  const request = {
+    decision: args['decision'],
+    ...(args['stepId'] !== undefined && { stepId: args['stepId'] }),
+    ...(args['comment'] !== undefined && { comment: args['comment'] })
+  };
+
+  const validation = ApiContractValidator.validateContract('ApproveOperationRequest', request);
+  if (!validation.isValid) {
+    const failures = validation.errors.map(error => error.message).join('; ');
+    throw new McpError(ErrorCode.InvalidParams, `Invalid approval: ${failures}`);
+  }
+  return request as ApproveOperationRequest;
+}
+
+/** Basic PRD validation of the fields every PRD needs, whatever its template */
+function validatePrdFields(prd: ToolArguments): ValidationError[] {
+  const validationErrors: ValidationError[] = [];
+
+  if (typeof prd['projectName'] !== 'string' || prd['projectName'] === '') {
+    validationErrors.push({ field: 'prd.projectName', code: 'REQUIRED_FIELD', message: 'Project name is required and must be a string' });
+  }
+
+  if (typeof prd['description'] !== 'string' || prd['description'] === '') {
+    validationErrors.push({ field: 'prd.description', code: 'REQUIRED_FIELD', message: 'Project description is required and must be a string' });
+  }
+
+  if (typeof prd['requirements'] !== 'object' || prd['requirements'] === null) {
+    validationErrors.push({ field: 'prd.requirements', code: 'REQUIRED_FIELD', message: 'Requirements section is required and must be an object' });
+  }
+
+  return validationErrors;
+}
+
+function toToolResult(payload: object): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }] };
+}
+
+function parseChildRecords(records: unknown): CreateChildRecordsArgs['records'] {
+  const isValid = Array.isArray(records) && records.length > 0 && records.every(record =>
+    typeof record === 'object' && record !== null &&
+    typeof (record as { parentId?: unknown }).parentId === 'string' &&
+    typeof (record as { data?: unknown }).data === 'object' && (record as { data?: unknown }).data !== null);
+
+  if (!isValid) {
+    throw new McpError(ErrorCode.InvalidParams, 'records must be a non-empty array of { parentId, data } objects');
+  }
+  return records as CreateChildRecordsArgs['records'];
+}
+
+export default OrchestrationToolHandlers;
@@ -0,0 +1,147 @@
+// MCP Tool Registry - Single list of the tools the MCP server exposes and the handlers behind them
+// Every transport lists and calls tools through the same registry, so they cannot drift apart
+
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolResult,
+  ClientCapabilities,
+  ErrorCode,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { JsonSchema } from '../schemas/contract-schemas';
+import logger from '../utils/logger';
+
+// ============================================================================
+// Tool Registry Types
+// ============================================================================
+
+export type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification> & {
+  /** Capabilities the client declared when it initialized, e.g. whether it supports elicitation */
+  readonly clientCapabilities?: ClientCapabilities;
+};
+
+export interface McpToolDefinition {
+  readonly name: string;
+  readonly description: string;
+  readonly inputSchema: {
+    readonly type: 'object';
+    readonly properties: Record<string, JsonSchema>;
+    readonly required?: readonly string[];
+  };
+}
+
+/** Arguments of a tool call once validateArgs has checked that they are an object */
+export type ToolArguments = Readonly<Record<string, unknown>>;
+
+/** Receives the arguments as the client sent them; handlers narrow them with validateArgs */
+export type McpToolHandler = (args: unknown, extra: ToolCallExtra) => Promise<CallToolResult>;
+
+interface RegisteredTool {
+  readonly definition: McpToolDefinition;
+  readonly handler: McpToolHandler;
+}
+
+// ============================================================================
+// Tool Registry
+// ============================================================================
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  register(definition: McpToolDefinition, handler: McpToolHandler): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`MCP tool ${definition.name} is already registered`);
+    }
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): McpToolDefinition[] {
+    return [...this.tools.values()].map(tool => tool.definition);
+  }
+
+  /**
+   * Runs the handler for a tool. Unknown tools are reported as MethodNotFound and any other
+   * failure that is not already an McpError is wrapped as InternalError.
+   */
+  async call(name: string, args: unknown, extra: ToolCallExtra): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    try {
+      return await tool.handler(args, extra);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      logger.error(`Tool execution error [${name}]`, { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/** Rejects a tool call whose arguments are not an object or miss one of the required fields */
+export function validateArgs(args: unknown, requiredFields: readonly string[]): asserts args is ToolArguments {
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Arguments must be an object');
+  }
+
+  const fields = args as ToolArguments;
+  for (const field of requiredFields) {
+    if (fields[field] === undefined || fields[field] === null) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required field: ${field}`);
+    }
+  }
+}
+
+/** Reads a string argument, rejecting the call when it is missing or has another type */
+export function stringArg(args: ToolArguments, field: string): string {
+  const value = optionalStringArg(args, field);
+  if (value === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required field: ${field}`);
+  }
+  return value;
+}
+
+/** Reads a string argument the tool does not require; any other type rejects the call */
+export function optionalStringArg(args: ToolArguments, field: string): string | undefined {
+  const value = args[field];
+  if (value === undefined || typeof value === 'string') {
+    return value;
+  }
+  throw new McpError(ErrorCode.InvalidParams, `${field} must be a string`);
+}
+
+/** Reads a boolean argument the tool does not require; any other type rejects the call */
+export function optionalBooleanArg(args: ToolArguments, field: string): boolean | undefined {
+  const value = args[field];
+  if (value === undefined || typeof value === 'boolean') {
+    return value;
+  }
+  throw new McpError(ErrorCode.InvalidParams, `${field} must be a boolean`);
+}
+
+/** Reads an object argument the tool does not require; any other type rejects the call */
+export function objectArg(args: ToolArguments, field: string): ToolArguments | undefined {
+  const value = args[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be an object`);
+  }
+  return value as ToolArguments;
+}
+
+export default ToolRegistry;
@@ -1 +0,0 @@
-export const packageVersion = '1.0.0';
\ No newline at end of file
@@ -0,0 +1,153 @@
+// Approvals - Policy for the workflow's approval steps and notification of approvers
+// Costly or privileged projects wait at an approval step until an approver decides
+
+import { ApprovalDecision, ApprovalReason, OperationApproval } from '../types/api-contracts';
+import { ProjectTemplate } from '../types/data-models';
+import { WorkflowStep, WorkflowStepType } from '../workflows/project-workflow';
+
+// ============================================================================
+// Approval Types
+// ============================================================================
+
+/** Approval requested at a workflow step, with the decision once an approver has made it */
+export interface ApprovalRecord {
+  readonly stepId: string;
+  readonly stepName: string;
+  readonly reasons: readonly ApprovalReason[];
+  readonly requestedAt: Date;
+  readonly decision?: ApprovalDecision;
+  readonly decidedBy?: string;
+  readonly decidedAt?: Date;
+  readonly comment?: string;
+}
+
+export interface ApprovalPolicyOptions {
+  /** Projects with more environments than this need approval */
+  readonly maxEnvironments: number;
+}
+
+export interface ApprovalSubject {
+  readonly template: ProjectTemplate;
+  /** Steps of the workflow that will run, i.e. those not skipped by the orchestration options */
+  readonly steps: readonly WorkflowStep[];
+  /** Whether the project's app registration does not exist yet; only looked up when it matters */
+  readonly isNewApplication: () => Promise<boolean>;
+}
+
+export interface ApprovalRequest {
+  readonly operationId: string;
+  readonly projectName: string;
+  readonly approval: OperationApproval;
+}
+
+export interface ApprovalNotifier {
+  notify(request: ApprovalRequest): Promise<void>;
+}
+
+// ============================================================================
+// Approval Policy
+// ============================================================================
+
+/**
+ * Decides whether an approval step has to wait for an approver. Steps configured with
+ * `requirement: 'always'` always do; `requirement: 'policy'` steps wait for Production
+ * environments, new app registrations that are granted admin consent, and projects with more
+ * environments than allowed.
+ */
+export class ApprovalPolicy {
+  constructor(private readonly options: ApprovalPolicyOptions) {}
+
+  /** Returns why the step needs approval; an empty list lets the workflow continue */
+  async evaluate(step: WorkflowStep, subject: ApprovalSubject): Promise<ApprovalReason[]> {
+    if (step.configuration['requirement'] === 'always') {
+      return [{ rule: 'workflow_step', message: step.description }];
+    }
+
+    return [
+      ...this.checkEnvironments(subject),
+      ...await this.checkAdminConsent(subject)
+    ];
+  }
+
+  private checkEnvironments(subject: ApprovalSubject): ApprovalReason[] {
+    if (!runs(subject.steps, 'environment_creation')) {
+      return [];
+    }
+
+    const environments = subject.template.powerPlatform.environments;
+    const production = environments.filter(env => env.sku === 'Production').map(env => env.displayName);
+    return [
+      ...(production.length > 0 ? [{
+        rule: 'production_environment' as const,
+        message: `Creates Production environments: ${production.join(', ')}`
+      }] : []),
+      ...(environments.length > this.options.maxEnvironments ? [{
+        rule: 'environment_count' as const,
+        message: `Creates ${environments.length} environments, more than the ${this.options.maxEnvironments} allowed without approval`
+      }] : [])
+    ];
+  }
+
+  private async checkAdminConsent(subject: ApprovalSubject): Promise<ApprovalReason[]> {
+    // Permission assignment grants admin consent to the service principal of a new registration
+    if (!runs(subject.steps, 'app_registration') || !runs(subject.steps, 'permission_assignment')) {
+      return [];
+    }
+
+    return await subject.isNewApplication()
+      ? [{ rule: 'admin_consent', message: 'Creates an app registration and grants it admin consent' }]
+      : [];
+  }
+}
+
+// ============================================================================
+// Approver Notification
+// ============================================================================
+
+/** Time a webhook has to accept an approval request before the post is abandoned */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Posts each approval request as JSON, with a `text` summary for chat incoming webhooks */
+export class WebhookApprovalNotifier implements ApprovalNotifier {
+  constructor(private readonly url: string, private readonly timeoutMs = WEBHOOK_TIMEOUT_MS) {}
+
+  async notify(request: ApprovalRequest): Promise<void> {
+    const reasons = request.approval.reasons.map(reason => reason.message).join('; ');
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+      body: JSON.stringify({
+        text: `${request.projectName} is waiting for approval at ${request.approval.stepName}: ${reasons}`,
+        ...request
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Approval webhook responded with ${response.status}`);
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function toOperationApproval(record: ApprovalRecord): OperationApproval {
+  return {
+    stepId: record.stepId,
+    stepName: record.stepName,
+    reasons: record.reasons,
+    requestedAt: record.requestedAt.toISOString(),
+    ...(record.decision !== undefined && { decision: record.decision }),
+    ...(record.decidedBy !== undefined && { decidedBy: record.decidedBy }),
+    ...(record.decidedAt && { decidedAt: record.decidedAt.toISOString() }),
+    ...(record.comment !== undefined && { comment: record.comment })
+  };
+}
+
+function runs(steps: readonly WorkflowStep[], type: WorkflowStepType): boolean {
+  return steps.some(step => step.type === type);
+}
+
+export default ApprovalPolicy;
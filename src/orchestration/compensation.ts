@@ -0,0 +1,226 @@
+// Compensation - Records resources created during orchestration and reverses them on failure
+// Rollback follows the workflow's RollbackStep definitions in reverse dependency order
+
+import { RollbackOutcome } from '../types/api-contracts';
+import { WorkflowDefinition } from '../workflows/project-workflow';
+import logger from '../utils/logger';
+
+// ============================================================================
+// Compensation Types
+// ============================================================================
+
+export type CompensableResourceType =
+  | 'app_registration'
+  | 'azure_devops_project'
+  | 'environment'
+  | 'publisher'
+  | 'service_principal'
+  | 'solution';
+
+export interface CreatedResource {
+  readonly resourceType: CompensableResourceType;
+  readonly resourceId: string;
+  readonly displayName: string;
+  readonly stepId: string;
+  readonly createdAt: Date;
+  readonly environmentUrl?: string;
+}
+
+export type CompensationResponse =
+  | { success: true }
+  | { success: false; error: string };
+
+export type ResourceCompensator = (resource: CreatedResource) => Promise<CompensationResponse>;
+
+export type ResourceCompensators = Partial<Record<CompensableResourceType, ResourceCompensator>>;
+
+export interface CompensationEntry {
+  readonly resource: CreatedResource;
+  readonly outcome: RollbackOutcome;
+  readonly reason?: string;
+}
+
+export interface CompensationReport {
+  readonly workflowId: string;
+  readonly startedAt: Date;
+  readonly completedAt: Date;
+  readonly entries: readonly CompensationEntry[];
+  readonly fullyCompensated: boolean;
+}
+
+// Rollback actions used in WorkflowDefinition.rollbackSteps and the resources they remove
+const ROLLBACK_ACTION_RESOURCES: Readonly<Record<string, CompensableResourceType>> = {
+  'delete-application': 'app_registration',
+  'delete-project': 'azure_devops_project',
+  'delete-environments': 'environment',
+  'delete-publisher': 'publisher',
+  'delete-solutions': 'solution'
+};
+
+// ============================================================================
+// Resource Ledger
+// ============================================================================
+
+export class CompensationLedger {
+  private readonly resources: CreatedResource[];
+
+  constructor(resources: readonly CreatedResource[] = []) {
+    this.resources = [...resources];
+  }
+
+  record(resource: Omit<CreatedResource, 'createdAt'>): CreatedResource {
+    const recorded: CreatedResource = { ...resource, createdAt: new Date() };
+    this.resources.push(recorded);
+    return recorded;
+  }
+
+  getResources(): readonly CreatedResource[] {
+    return [...this.resources];
+  }
+
+  get size(): number {
+    return this.resources.length;
+  }
+}
+
+// ============================================================================
+// Compensation Manager
+// ============================================================================
+
+export class CompensationManager {
+  private readonly compensators: ResourceCompensators;
+
+  constructor(compensators: ResourceCompensators) {
+    this.compensators = compensators;
+  }
+
+  async compensate(
+    workflow: WorkflowDefinition,
+    resources: readonly CreatedResource[],
+    onEntry?: (entry: CompensationEntry) => void
+  ): Promise<CompensationReport> {
+    const startedAt = new Date();
+
+    logger.info(`↩️  Rolling back ${resources.length} resources created by workflow ${workflow.id}`);
+
+    // Resources are removed one at a time so that dependants go before the resources they live in
+    const entries = await CompensationManager.orderForRollback(workflow, resources).reduce<Promise<CompensationEntry[]>>(
+      async (previous, resource) => {
+        const compensated = await previous;
+        const entry = await this.compensateResource(workflow, resource);
+        onEntry?.(entry);
+        return [...compensated, entry];
+      },
+      Promise.resolve([])
+    );
+
+    return {
+      workflowId: workflow.id,
+      startedAt,
+      completedAt: new Date(),
+      entries,
+      fullyCompensated: entries.every(entry => entry.outcome === 'deleted')
+    };
+  }
+
+  /**
+   * Orders resources so that a step's resources are removed before those of the steps it
+   * depends on. Resources from the same step are removed in reverse creation order.
+   */
+  static orderForRollback(
+    workflow: WorkflowDefinition,
+    resources: readonly CreatedResource[]
+  ): CreatedResource[] {
+    const depth = CompensationManager.calculateStepDepths(workflow);
+    const indexed = resources.map((resource, index) => ({ resource, index }));
+
+    return indexed
+      .sort((a, b) =>
+        (depth.get(b.resource.stepId) ?? 0) - (depth.get(a.resource.stepId) ?? 0) ||
+        b.index - a.index
+      )
+      .map(item => item.resource);
+  }
+
+  /**
+   * Deletes a single resource with its registered compensator, without consulting a workflow's
+   * rollback steps. Used for rollback and for tearing down projects that completed.
+   */
+  async remove(resource: CreatedResource): Promise<CompensationEntry> {
+    const compensator = this.compensators[resource.resourceType];
+    if (!compensator) {
+      return {
+        resource,
+        outcome: 'retained',
+        reason: `No compensator registered for ${resource.resourceType}`
+      };
+    }
+
+    try {
+      const result = await compensator(resource);
+      if (!result.success) {
+        return { resource, outcome: 'failed', reason: result.error };
+      }
+
+      logger.info(`✅ Removed ${resource.resourceType}: ${resource.displayName}`);
+      return { resource, outcome: 'deleted' };
+    } catch (error) {
+      return {
+        resource,
+        outcome: 'failed',
+        reason: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private compensateResource(
+    workflow: WorkflowDefinition,
+    resource: CreatedResource
+  ): Promise<CompensationEntry> {
+    if (!this.isRollbackDefined(workflow, resource)) {
+      return Promise.resolve({
+        resource,
+        outcome: 'retained',
+        reason: `No rollback action defined for step ${resource.stepId}`
+      });
+    }
+
+    return this.remove(resource);
+  }
+
+  private isRollbackDefined(workflow: WorkflowDefinition, resource: CreatedResource): boolean {
+    return workflow.rollbackSteps.some(rollbackStep =>
+      rollbackStep.stepId === resource.stepId &&
+      rollbackStep.condition === 'on-failure' &&
+      rollbackStep.rollbackActions.some(action => ROLLBACK_ACTION_RESOURCES[action] === resource.resourceType)
+    );
+  }
+
+  private static calculateStepDepths(workflow: WorkflowDefinition): Map<string, number> {
+    const depths = new Map<string, number>();
+    const stepsById = new Map(workflow.steps.map(step => [step.id, step]));
+
+    const depthOf = (stepId: string, visiting: Set<string>): number => {
+      const known = depths.get(stepId);
+      if (known !== undefined) return known;
+
+      const step = stepsById.get(stepId);
+      if (!step || visiting.has(stepId)) return 0;
+
+      visiting.add(stepId);
+      const depth = step.dependencies.reduce(
+        (max, depId) => Math.max(max, depthOf(depId, visiting) + 1),
+        0
+      );
+      visiting.delete(stepId);
+
+      depths.set(stepId, depth);
+      return depth;
+    };
+
+    workflow.steps.forEach(step => depthOf(step.id, new Set()));
+    return depths;
+  }
+}
+
+export default CompensationManager;
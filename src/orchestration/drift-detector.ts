@@ -0,0 +1,372 @@
+// Drift Detector - Compares a provisioned project against the template it was created from
+// Reports resources that went missing, were changed by hand, or were added outside the template
+
+import AzureDevOpsClient from '../integrations/azure-devops/azure-devops-client';
+import EnvironmentManager from '../integrations/power-platform/environment-manager';
+import SolutionManager from '../integrations/power-platform/solution-manager';
+import { WorkItem } from '../types/azure-devops-interfaces';
+import {
+  DataverseTable,
+  EnvironmentInfo,
+  EnvironmentTemplate,
+  ProjectTemplate,
+  SolutionTemplate,
+  TableTemplate
+} from '../types/data-models';
+import { DriftArea, DriftItem, RemediationAction, RemediationStep } from '../types/api-contracts';
+import { difference, isDefined } from './project-planner';
+
+// ============================================================================
+// Drift Detector Types
+// ============================================================================
+
+export interface DriftDetectorClients {
+  readonly azureDevOps: AzureDevOpsClient;
+  readonly environments: EnvironmentManager;
+  readonly solutions: SolutionManager;
+}
+
+/** What a completed creation operation recorded about the project it provisioned */
+export interface ProvisionedProject {
+  readonly name: string;
+  readonly template: ProjectTemplate;
+  /** In template order; absent when the Power Platform phase did not run */
+  readonly environments?: readonly EnvironmentInfo[];
+  /** Absent when the work item step did not run */
+  readonly workItemIds?: readonly number[];
+}
+
+export interface DriftCheck {
+  readonly items: readonly DriftItem[];
+  /** Areas that could not be compared, with the reason */
+  readonly skipped: readonly string[];
+}
+
+interface LiveWorkItem {
+  readonly id: number;
+  readonly type: string;
+  readonly title: string;
+  readonly parentId?: number;
+}
+
+// Fields that cannot be changed on an existing resource, so drift in them needs a manual fix
+const FIXED_FIELDS = new Set(['region', 'sku', 'attributeType']);
+
+const AREA_LABELS: Record<DriftArea, string> = {
+  environment: 'environment',
+  solution: 'solution',
+  solution_component: 'solution component',
+  table: 'table',
+  attribute: 'column',
+  work_item: 'work item'
+};
+
+// ============================================================================
+// Drift Detector
+// ============================================================================
+
+/**
+ * Solutions and tables are compared in the first environment, where the workflow creates them.
+ * Work items are compared by type and title, so a renamed work item shows up as one missing
+ * and one unexpected item.
+ */
+export class DriftDetector {
+  private readonly clients: DriftDetectorClients;
+
+  constructor(clients: DriftDetectorClients) {
+    this.clients = clients;
+  }
+
+  async detect(project: ProvisionedProject): Promise<DriftCheck> {
+    const items: DriftItem[] = [];
+    const skipped: string[] = [];
+
+    if (project.environments === undefined) {
+      skipped.push('Power Platform: the project was created without its Power Platform resources');
+    } else {
+      const environments = await this.checkEnvironments(project, project.environments);
+      items.push(...environments.items);
+
+      if (environments.primary) {
+        items.push(...await this.checkSolutions(project.template, environments.primary));
+        items.push(...await this.checkTables(project.template, environments.primary));
+      } else if (project.template.powerPlatform.environments.length > 0) {
+        skipped.push('Solutions and tables: the environment they were created in is missing');
+      }
+    }
+
+    if (project.workItemIds === undefined) {
+      skipped.push('Work items: the project was created without its Azure DevOps resources');
+    } else {
+      items.push(...await this.checkWorkItems(project, project.workItemIds));
+    }
+
+    return { items, skipped };
+  }
+
+  /** Lists what would bring the project back in line with its template, one step per drift item */
+  static planRemediation(items: readonly DriftItem[]): RemediationStep[] {
+    return items.map(item => {
+      const action = remediationAction(item);
+      return { action, area: item.area, name: item.name, description: describeRemediation(item, action) };
+    });
+  }
+
+  // ============================================================================
+  // Power Platform
+  // ============================================================================
+
+  private async checkEnvironments(
+    project: ProvisionedProject,
+    recorded: readonly EnvironmentInfo[]
+  ): Promise<{ items: DriftItem[]; primary?: EnvironmentInfo }> {
+    const items: DriftItem[] = [];
+    const templates = project.template.powerPlatform.environments;
+    const live = await Promise.all(templates.map((_template, index) => {
+      const environment = recorded[index];
+      return environment && this.getEnvironment(environment);
+    }));
+
+    for (const [index, template] of templates.entries()) {
+      const environment = recorded[index];
+      const name = environment?.displayName ??
+        this.clients.environments.getEnvironmentDisplayName(template, project.name);
+
+      const current = live[index];
+      if (!environment || !current) {
+        items.push({ area: 'environment', kind: 'missing', name });
+        continue;
+      }
+
+      const differences = compareEnvironment(template, environment, current);
+      if (differences.length > 0) {
+        items.push({ area: 'environment', kind: 'modified', name, differences });
+      }
+    }
+
+    return { items, ...(live[0] && { primary: live[0] }) };
+  }
+
+  private async getEnvironment(environment: EnvironmentInfo): Promise<EnvironmentInfo | undefined> {
+    const result = await this.clients.environments.getEnvironment(environment.environmentName);
+    if (result.success) {
+      return result.data;
+    }
+
+    if (result.error.endsWith('not found')) {
+      return undefined;
+    }
+    throw new Error(`Failed to get environment ${environment.environmentName}: ${result.error}`);
+  }
+
+  private async checkSolutions(template: ProjectTemplate, environment: EnvironmentInfo): Promise<DriftItem[]> {
+    const items = await Promise.all(template.powerPlatform.solutions.map(solution =>
+      this.checkSolution(solution, environment)));
+    return items.flat();
+  }
+
+  private async checkSolution(solution: SolutionTemplate, environment: EnvironmentInfo): Promise<DriftItem[]> {
+    const result = await this.clients.solutions.findSolution(environment.environmentUrl, solution.uniqueName);
+    if (!result.success) {
+      throw new Error(`Failed to look up solution ${solution.uniqueName}: ${result.error}`);
+    }
+
+    if (!result.data) {
+      return [{ area: 'solution', kind: 'missing', name: solution.uniqueName }];
+    }
+
+    const differences = [
+      difference('friendlyName', result.data.friendlyName, solution.friendlyName),
+      difference('description', result.data.description, solution.description),
+      difference('version', result.data.version, solution.version)
+    ].filter(isDefined);
+
+    return [
+      ...differences.length > 0
+        ? [{ area: 'solution' as const, kind: 'modified' as const, name: solution.uniqueName, differences }]
+        : [],
+      ...await this.checkSolutionComponents(solution, result.data.solutionId, environment)
+    ];
+  }
+
+  /** Only tables are compared, since Dataverse names other components by object ID alone */
+  private async checkSolutionComponents(
+    solution: SolutionTemplate,
+    solutionId: string,
+    environment: EnvironmentInfo
+  ): Promise<DriftItem[]> {
+    const result = await this.clients.solutions.listSolutionComponents(environment.environmentUrl, solutionId);
+    if (!result.success) {
+      throw new Error(`Failed to list components of solution ${solution.uniqueName}: ${result.error}`);
+    }
+
+    const expected = new Set(solution.components
+      .filter(component => component.type === 'Entity' && component.include)
+      .map(component => component.name.toLowerCase()));
+    const actual = new Set(result.data
+      .filter(component => component.componentType === 'Entity')
+      .map(component => component.componentName.toLowerCase()));
+
+    const componentItem = (kind: DriftItem['kind']) => (name: string): DriftItem =>
+      ({ area: 'solution_component', kind, name, parent: solution.uniqueName });
+    return [
+      ...[...expected].filter(name => !actual.has(name)).map(componentItem('missing')),
+      ...[...actual].filter(name => !expected.has(name)).map(componentItem('unexpected'))
+    ];
+  }
+
+  private async checkTables(template: ProjectTemplate, environment: EnvironmentInfo): Promise<DriftItem[]> {
+    const tables = template.dataModel?.tables ?? template.powerPlatform.dataModel?.tables ?? [];
+    const prefix = `${template.powerPlatform.publisher.customizationPrefix}_`.toLowerCase();
+    const items = await Promise.all(tables.map(async (table): Promise<DriftItem[]> => {
+      const result = await this.clients.solutions.getTable(environment.environmentUrl, table.schemaName.toLowerCase());
+      if (!result.success) {
+        throw new Error(`Failed to get table ${table.schemaName}: ${result.error}`);
+      }
+
+      return result.data
+        ? compareAttributes(table, result.data, prefix)
+        : [{ area: 'table', kind: 'missing', name: table.schemaName }];
+    }));
+
+    return items.flat();
+  }
+
+  // ============================================================================
+  // Azure DevOps
+  // ============================================================================
+
+  private async checkWorkItems(project: ProvisionedProject, workItemIds: readonly number[]): Promise<DriftItem[]> {
+    const live = await this.getWorkItems(project.name, workItemIds);
+    const byId = new Map(live.map(item => [item.id, item]));
+    const byName = new Map(live.map(item => [workItemName(item.type, item.title), item]));
+    const templates = project.template.azureDevOps.workItems;
+
+    const items = templates.flatMap((template): DriftItem[] => {
+      const name = workItemName(template.type, template.title);
+      const current = byName.get(name);
+      if (!current) {
+        return [{ area: 'work_item', kind: 'missing', name }];
+      }
+
+      const parentTitle = current.parentId !== undefined ? byId.get(current.parentId)?.title : undefined;
+      const moved = difference('parent', parentTitle, template.parentWorkItem);
+      return moved ? [{ area: 'work_item', kind: 'modified', name, differences: [moved] }] : [];
+    });
+
+    const expected = new Set(templates.map(template => workItemName(template.type, template.title)));
+    return [
+      ...items,
+      ...[...byName.keys()]
+        .filter(name => !expected.has(name))
+        .map((name): DriftItem => ({ area: 'work_item', kind: 'unexpected', name }))
+    ];
+  }
+
+  private async getWorkItems(projectName: string, workItemIds: readonly number[]): Promise<LiveWorkItem[]> {
+    const items = await Promise.all(workItemIds.map(async (id): Promise<LiveWorkItem[]> => {
+      const result = await this.clients.azureDevOps.getWorkItem(id, projectName, 'relations');
+      if (result.success) {
+        return [toLiveWorkItem(result.data)];
+      }
+
+      // Deleted work items are reported through the template items they were created from
+      if (!result.error.includes('not found')) {
+        throw new Error(`Failed to get work item ${id}: ${result.error}`);
+      }
+      return [];
+    }));
+
+    return items.flat();
+  }
+}
+
+// ============================================================================
+// Comparison Helpers
+// ============================================================================
+
+function compareEnvironment(
+  template: EnvironmentTemplate,
+  recorded: EnvironmentInfo,
+  current: EnvironmentInfo
+): NonNullable<DriftItem['differences']> {
+  return [
+    difference('displayName', current.displayName, recorded.displayName),
+    difference('region', current.region.toLowerCase(), template.region.toLowerCase()),
+    difference('sku', current.sku?.toLowerCase(), template.sku.toLowerCase())
+  ].filter(isDefined);
+}
+
+function compareAttributes(table: TableTemplate, live: DataverseTable, prefix: string): DriftItem[] {
+  const parent = table.schemaName;
+  const liveByName = new Map(live.attributes.map(attribute => [attribute.logicalName, attribute]));
+  const expected = new Set(table.attributes.map(attribute => attribute.schemaName.toLowerCase()));
+
+  const items = table.attributes.flatMap((attribute): DriftItem[] => {
+    const current = liveByName.get(attribute.schemaName.toLowerCase());
+    if (!current) {
+      return [{ area: 'attribute', kind: 'missing', name: attribute.schemaName, parent }];
+    }
+
+    const differences = [
+      difference('attributeType', current.attributeType, attribute.attributeType),
+      difference('requiredLevel', current.requiredLevel, attribute.requiredLevel)
+    ].filter(isDefined);
+    return differences.length > 0
+      ? [{ area: 'attribute', kind: 'modified', name: attribute.schemaName, parent, differences }]
+      : [];
+  });
+
+  // Columns carrying the publisher prefix were added by someone customizing the table
+  const unexpected = live.attributes
+    .filter(attribute => attribute.logicalName.startsWith(prefix) && !attribute.isPrimaryId &&
+      !attribute.isPrimaryName && !expected.has(attribute.logicalName))
+    .map((attribute): DriftItem => ({ area: 'attribute', kind: 'unexpected', name: attribute.schemaName, parent }));
+
+  return [...items, ...unexpected];
+}
+
+function toLiveWorkItem(workItem: WorkItem): LiveWorkItem {
+  const parent = workItem.relations?.find(relation => relation.rel === 'System.LinkTypes.Hierarchy-Reverse');
+  const parentId = parent ? Number(parent.url.split('/').pop()) : undefined;
+
+  return {
+    id: workItem.id,
+    type: workItem.fields['System.WorkItemType'],
+    title: workItem.fields['System.Title'],
+    ...(parentId !== undefined && { parentId })
+  };
+}
+
+function workItemName(type: string, title: string): string {
+  return `${type}: ${title}`;
+}
+
+function remediationAction(item: DriftItem): RemediationAction {
+  switch (item.kind) {
+    case 'missing':
+      return 'create';
+    case 'unexpected':
+      return 'remove';
+    case 'modified':
+      return item.differences?.some(change => FIXED_FIELDS.has(change.field)) === true ? 'manual' : 'update';
+  }
+}
+
+function describeRemediation(item: DriftItem, action: RemediationAction): string {
+  const subject = `${AREA_LABELS[item.area]} ${item.name}${item.parent !== undefined ? ` in ${item.parent}` : ''}`;
+  const fields = (item.differences ?? []).map(change => change.field).join(', ');
+
+  switch (action) {
+    case 'create':
+      return `Create ${subject} as defined by the template`;
+    case 'remove':
+      return `Remove ${subject}, or add it to the template to keep it`;
+    case 'update':
+      return `Set ${fields} of ${subject} back to the template values`;
+    case 'manual':
+      return `Recreate ${subject} - ${fields} cannot be changed in place`;
+  }
+}
+
+export default DriftDetector;
@@ -0,0 +1,117 @@
+// Operation Events - In-process event bus for orchestration progress
+// Keeps a bounded history per operation so that reconnecting subscribers can replay what they missed
+
+import { OperationEvent, OperationEventType } from '../types/api-contracts';
+
+// ============================================================================
+// Event Bus Types
+// ============================================================================
+
+export type OperationEventData<T extends OperationEventType> = Extract<OperationEvent, { type: T }>['data'];
+
+export type OperationEventListener = (event: OperationEvent) => void;
+
+export interface OperationEventBusOptions {
+  /** Events kept per operation for replay */
+  readonly historySize?: number;
+  /** Operations whose history is kept; the oldest without subscribers are forgotten first */
+  readonly maxOperations?: number;
+}
+
+interface OperationChannel {
+  readonly events: OperationEvent[];
+  readonly listeners: Set<OperationEventListener>;
+  nextId: number;
+}
+
+const DEFAULT_HISTORY_SIZE = 500;
+const DEFAULT_MAX_OPERATIONS = 100;
+
+// ============================================================================
+// Operation Event Bus
+// ============================================================================
+
+export class OperationEventBus {
+  private readonly channels = new Map<string, OperationChannel>();
+  private readonly historySize: number;
+  private readonly maxOperations: number;
+
+  constructor(options: OperationEventBusOptions = {}) {
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    this.maxOperations = options.maxOperations ?? DEFAULT_MAX_OPERATIONS;
+  }
+
+  publish<T extends OperationEventType>(operationId: string, type: T, data: OperationEventData<T>): OperationEvent {
+    const channel = this.getChannel(operationId);
+    const event = {
+      id: channel.nextId++,
+      operationId,
+      type,
+      timestamp: new Date().toISOString(),
+      data
+    } as OperationEvent;
+
+    channel.events.push(event);
+    if (channel.events.length > this.historySize) {
+      channel.events.shift();
+    }
+
+    for (const listener of channel.listeners) {
+      this.deliver(listener, event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Replays the events after lastEventId that are still in the history, or all of them when no ID
+   * is given, then delivers new events as they are published. Returns the unsubscribe function.
+   */
+  subscribe(operationId: string, listener: OperationEventListener, lastEventId?: number): () => void {
+    const channel = this.getChannel(operationId);
+
+    for (const event of channel.events.filter(e => lastEventId === undefined || e.id > lastEventId)) {
+      this.deliver(listener, event);
+    }
+    channel.listeners.add(listener);
+
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+
+  hasHistory(operationId: string): boolean {
+    return (this.channels.get(operationId)?.events.length ?? 0) > 0;
+  }
+
+  private getChannel(operationId: string): OperationChannel {
+    let channel = this.channels.get(operationId);
+    if (!channel) {
+      channel = { events: [], listeners: new Set(), nextId: 1 };
+      this.channels.set(operationId, channel);
+      this.evictIdleChannels();
+    }
+    return channel;
+  }
+
+  private evictIdleChannels(): void {
+    // Maps iterate in insertion order, so the oldest operations are checked first
+    for (const [operationId, channel] of this.channels) {
+      if (this.channels.size <= this.maxOperations) return;
+      if (channel.listeners.size === 0) {
+        this.channels.delete(operationId);
+      }
+    }
+  }
+
+  private deliver(listener: OperationEventListener, event: OperationEvent): void {
+    try {
+      listener(event);
+    } catch (error) {
+      // A failing subscriber must not interrupt the operation that published the event
+      console.error(`❌ Operation event listener failed for ${event.operationId}:`, error);
+    }
+  }
+}
+
+export default OperationEventBus;
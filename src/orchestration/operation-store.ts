@@ -0,0 +1,327 @@
+// Operation Store - Durable persistence for orchestration operations
+// Keeps operation progress, logs and created-resource records across process restarts
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { OperationStatus } from '../types/api-contracts';
+import { CreatedResource } from './compensation';
+import { OperationProgress } from './project-orchestrator';
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+export interface OperationQuery {
+  readonly status?: OperationStatus;
+  readonly idempotencyKey?: string;
+  readonly limit?: number;
+}
+
+export interface OperationStore {
+  saveOperation(operation: OperationProgress): Promise<void>;
+  getOperation(operationId: string): Promise<OperationProgress | undefined>;
+  listOperations(query?: OperationQuery): Promise<OperationProgress[]>;
+  saveResource(operationId: string, resource: CreatedResource): Promise<void>;
+  listResources(operationId: string): Promise<CreatedResource[]>;
+}
+
+export class OperationStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly operationId?: string
+  ) {
+    super(message);
+    this.name = 'OperationStoreError';
+  }
+}
+
+// Operation IDs become file names, so anything outside this set is rejected
+const OPERATION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function sortAndFilter(operations: OperationProgress[], query?: OperationQuery): OperationProgress[] {
+  const filtered = operations.filter(operation =>
+    (query?.status === undefined || operation.status === query.status) &&
+    (query?.idempotencyKey === undefined || operation.idempotencyKey === query.idempotencyKey));
+
+  const sorted = filtered.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  return query?.limit !== undefined ? sorted.slice(0, Math.max(0, query.limit)) : sorted;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+export class InMemoryOperationStore implements OperationStore {
+  private readonly operations = new Map<string, OperationProgress>();
+  private readonly resources = new Map<string, CreatedResource[]>();
+
+  saveOperation(operation: OperationProgress): Promise<void> {
+    this.operations.set(operation.operationId, operation);
+    return Promise.resolve();
+  }
+
+  getOperation(operationId: string): Promise<OperationProgress | undefined> {
+    return Promise.resolve(this.operations.get(operationId));
+  }
+
+  listOperations(query?: OperationQuery): Promise<OperationProgress[]> {
+    return Promise.resolve(sortAndFilter([...this.operations.values()], query));
+  }
+
+  saveResource(operationId: string, resource: CreatedResource): Promise<void> {
+    this.resources.set(operationId, [...(this.resources.get(operationId) ?? []), resource]);
+    return Promise.resolve();
+  }
+
+  listResources(operationId: string): Promise<CreatedResource[]> {
+    return Promise.resolve([...(this.resources.get(operationId) ?? [])]);
+  }
+}
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+export interface FileOperationStoreConfig {
+  readonly directory: string;
+}
+
+type OperationLogEntry = OperationProgress['logs'][number];
+
+/** The operation without its logs, which are appended to a log file of their own */
+interface OperationDocument {
+  readonly version: 2;
+  readonly operation: Omit<OperationProgress, 'logs'> | null;
+  readonly resources: CreatedResource[];
+}
+
+interface IdempotencyKeyEntry {
+  readonly idempotencyKey: string;
+  readonly operationId: string;
+}
+
+const DATE_FIELDS = new Set(['startedAt', 'completedAt', 'createdAt', 'requestedAt', 'decidedAt']);
+const IDEMPOTENCY_KEY_DIRECTORY = 'idempotency-keys';
+
+/**
+ * Stores each operation as a JSON document in the configured directory, with its logs appended
+ * to a JSON Lines file beside it. Writes for the same operation are serialized and replace the
+ * document atomically via a rename; a save that only adds log entries leaves the document as is.
+ * Idempotency keys are indexed with one file per key, so a lookup reads a single operation.
+ */
+export class FileOperationStore implements OperationStore {
+  private readonly config: FileOperationStoreConfig;
+  private readonly writeQueues = new Map<string, Promise<void>>();
+  // What each operation's files hold, so that a save only writes what changed
+  private readonly writtenDocuments = new Map<string, { readonly document: OperationDocument; readonly content: string }>();
+  private readonly writtenLogCounts = new Map<string, number>();
+  private readonly indexedKeys = new Set<string>();
+
+  constructor(config: FileOperationStoreConfig) {
+    this.config = config;
+  }
+
+  async saveOperation(operation: OperationProgress): Promise<void> {
+    const { logs, ...rest } = operation;
+    await this.enqueueWrite(operation.operationId, async () => {
+      await this.appendLogs(operation.operationId, logs);
+      await this.updateDocument(operation.operationId, document => ({ ...document, operation: rest }));
+      if (operation.idempotencyKey !== undefined) {
+        await this.indexIdempotencyKey(operation.idempotencyKey, operation.operationId);
+      }
+    });
+  }
+
+  async getOperation(operationId: string): Promise<OperationProgress | undefined> {
+    const document = await this.readDocument(operationId);
+    if (!document?.operation) {
+      return undefined;
+    }
+    return { ...document.operation, logs: await this.readLogs(operationId) };
+  }
+
+  async listOperations(query?: OperationQuery): Promise<OperationProgress[]> {
+    const operationIds = query?.idempotencyKey !== undefined
+      ? await this.findByIdempotencyKey(query.idempotencyKey)
+      : (await this.listDocumentFiles()).map(file => path.basename(file, '.json'));
+
+    const operations = (await Promise.all(operationIds.map(operationId => this.getOperation(operationId))))
+      .filter((operation): operation is OperationProgress => operation !== undefined);
+
+    return sortAndFilter(operations, query);
+  }
+
+  async saveResource(operationId: string, resource: CreatedResource): Promise<void> {
+    await this.enqueueWrite(operationId, () => this.updateDocument(operationId, document => ({
+      ...document,
+      resources: [...document.resources, resource]
+    })));
+  }
+
+  async listResources(operationId: string): Promise<CreatedResource[]> {
+    const document = await this.readDocument(operationId);
+    return document?.resources ?? [];
+  }
+
+  // ============================================================================
+  // Document Helpers
+  // ============================================================================
+
+  private async enqueueWrite(operationId: string, write: () => Promise<void>): Promise<void> {
+    this.assertValidId(operationId);
+
+    const previous = this.writeQueues.get(operationId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(write);
+
+    this.writeQueues.set(operationId, next);
+    try {
+      await next;
+    } finally {
+      if (this.writeQueues.get(operationId) === next) {
+        this.writeQueues.delete(operationId);
+      }
+    }
+  }
+
+  private async updateDocument(
+    operationId: string,
+    update: (document: OperationDocument) => OperationDocument
+  ): Promise<void> {
+    const written = this.writtenDocuments.get(operationId);
+    const current = written?.document ?? await this.readDocument(operationId) ??
+      { version: 2 as const, operation: null, resources: [] };
+    const document = update(current);
+    const content = JSON.stringify(document, null, 2);
+    if (written?.content === content) {
+      return;
+    }
+
+    await this.writeFile(this.documentPath(operationId), content);
+    this.writtenDocuments.set(operationId, { document, content });
+  }
+
+  private async readDocument(operationId: string): Promise<OperationDocument | undefined> {
+    if (!OPERATION_ID_PATTERN.test(operationId)) {
+      return undefined;
+    }
+    const content = await this.readFile(this.documentPath(operationId), operationId);
+    return content !== undefined ? parseStored<OperationDocument>(content) : undefined;
+  }
+
+  // ============================================================================
+  // Log Helpers
+  // ============================================================================
+
+  /** Appends the entries added since the last save; earlier entries are never rewritten */
+  private async appendLogs(operationId: string, logs: readonly OperationLogEntry[]): Promise<void> {
+    const written = this.writtenLogCounts.get(operationId) ?? (await this.readLogs(operationId)).length;
+    const added = logs.slice(written);
+    if (added.length > 0) {
+      await fs.mkdir(this.config.directory, { recursive: true });
+      await fs.appendFile(this.logPath(operationId), added.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+    }
+    this.writtenLogCounts.set(operationId, Math.max(written, logs.length));
+  }
+
+  private async readLogs(operationId: string): Promise<OperationLogEntry[]> {
+    if (!OPERATION_ID_PATTERN.test(operationId)) {
+      return [];
+    }
+    const content = await this.readFile(this.logPath(operationId), operationId);
+    return (content ?? '')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => parseStored<OperationLogEntry>(line));
+  }
+
+  // ============================================================================
+  // Idempotency Key Index
+  // ============================================================================
+
+  private async indexIdempotencyKey(idempotencyKey: string, operationId: string): Promise<void> {
+    if (this.indexedKeys.has(idempotencyKey)) {
+      return;
+    }
+
+    const entry: IdempotencyKeyEntry = { idempotencyKey, operationId };
+    await this.writeFile(this.keyPath(idempotencyKey), JSON.stringify(entry));
+    this.indexedKeys.add(idempotencyKey);
+  }
+
+  private async findByIdempotencyKey(idempotencyKey: string): Promise<string[]> {
+    const content = await this.readFile(this.keyPath(idempotencyKey));
+    const entry = content !== undefined ? parseStored<IdempotencyKeyEntry>(content) : undefined;
+    return entry?.idempotencyKey === idempotencyKey ? [entry.operationId] : [];
+  }
+
+  // ============================================================================
+  // File Helpers
+  // ============================================================================
+
+  private async readFile(filePath: string, operationId?: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      const source = operationId !== undefined ? `operation ${operationId}` : path.basename(filePath);
+      throw new OperationStoreError(
+        `Failed to read ${source}: ${error instanceof Error ? error.message : String(error)}`,
+        operationId
+      );
+    }
+  }
+
+  private async writeFile(target: string, content: string): Promise<void> {
+    const temporary = `${target}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(temporary, content, 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  private async listDocumentFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.config.directory);
+      return entries.filter(entry => entry.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private documentPath(operationId: string): string {
+    return path.join(this.config.directory, `${operationId}.json`);
+  }
+
+  private logPath(operationId: string): string {
+    return path.join(this.config.directory, `${operationId}.logs.jsonl`);
+  }
+
+  /** Keys are chosen by clients, so their files are named by digest */
+  private keyPath(idempotencyKey: string): string {
+    const digest = createHash('sha256').update(idempotencyKey).digest('hex');
+    return path.join(this.config.directory, IDEMPOTENCY_KEY_DIRECTORY, `${digest}.json`);
+  }
+
+  private assertValidId(operationId: string): void {
+    if (!OPERATION_ID_PATTERN.test(operationId)) {
+      throw new OperationStoreError(`Invalid operation ID: ${operationId}`, operationId);
+    }
+  }
+}
+
+function parseStored<T>(content: string): T {
+  return JSON.parse(content, (key: string, value: unknown) =>
+    DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+  ) as T;
+}
+
+export default FileOperationStore;
@@ -13,18 +13,83 @@ import {
   ProjectTemplate,
   AzureDevOpsProjectInfo,
   EnvironmentInfo,
+  EnvironmentTemplate,
+  SolutionTemplate,
   AzureDevOpsConfig,
-  PowerPlatformConfig
+  PowerPlatformConfig,
+  DataModelTemplate,
+  WorkItemTemplate
 } from '../types/data-models';
 
 import {
+  ApprovalReason,
+  ApproveOperationRequest,
+  ApproveOperationResponse,
+  CancelOperationRequest,
+  CancelOperationResponse,
   CreateProjectApiRequest,
   CreateProjectApiResponse,
+  DestroyProjectRequest,
+  DestroyProjectResponse,
+  DriftKind,
+  DriftReportResponse,
   GetOperationStatusResponse,
+  ListOperationsResponse,
+  ListTemplatesResponse,
+  OperationAuditResponse,
   OperationStatus,
-  LogLevel
+  OperationSummary,
+  LogLevel,
+  OperationResultEventData,
+  PlannedResourceChange,
+  ProjectPlanResponse,
+  RollbackReport,
+  TemplateDetailsResponse,
+  TemplateSummary,
+  TemplateWorkItemSummary,
+  ValidateTemplateResponse
 } from '../types/api-contracts';
 
+import {
+  ProjectWorkflowDefinitions,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowStep,
+  WorkflowStepExecution,
+  WorkflowStepType
+} from '../workflows/project-workflow';
+import {
+  WorkflowApprovalRequiredError,
+  WorkflowEngine,
+  WorkflowEngineHooks,
+  WorkflowStepContext,
+  WorkflowStepHandlers
+} from '../workflows/workflow-engine';
+import { CompositeValidator, DataModelValidator, ValidationError } from '../validation';
+import {
+  CompensableResourceType,
+  CompensationEntry,
+  CompensationLedger,
+  CompensationManager,
+  CompensationReport,
+  CreatedResource
+} from './compensation';
+import { FileOperationStore, OperationQuery, OperationStore } from './operation-store';
+import {
+  ApprovalNotifier,
+  ApprovalPolicy,
+  ApprovalRecord,
+  WebhookApprovalNotifier,
+  toOperationApproval
+} from './approvals';
+import { OperationEventBus, OperationEventListener } from './operation-events';
+import { PlannedProject, ProjectPlan, ProjectPlanner } from './project-planner';
+import { DriftDetector, ProvisionedProject } from './drift-detector';
+import { TeardownPlanner, TeardownTarget } from './teardown-planner';
+import { TemplateRegistry } from '../templates/template-registry';
+import { interpolateTemplate } from '../templates/template-interpolator';
+import appConfig from '../config';
+
 // ============================================================================
 // Orchestration Configuration
 // ============================================================================
@@ -39,6 +104,13 @@ export interface OrchestrationConfig {
   readonly enableParallelExecution?: boolean;
   readonly maxRetries?: number;
   readonly timeoutMs?: number;
+  readonly enableRollback?: boolean;
+  readonly operationStore?: OperationStore;
+  readonly templateRegistry?: TemplateRegistry;
+  readonly eventBus?: OperationEventBus;
+  readonly approvalPolicy?: ApprovalPolicy;
+  /** Told about each approval request; approvers can also follow the operation's approval events */
+  readonly approvalNotifier?: ApprovalNotifier;
 }
 
 export interface OrchestrationOptions {
@@ -82,6 +154,11 @@ export interface ProjectCreationResult {
 
 export interface OperationProgress {
   readonly operationId: string;
+  readonly projectName: string;
+  readonly request: CreateProjectApiRequest;
+  readonly options?: OrchestrationOptions;
+  /** Client-supplied key under which a repeated create request returns this operation */
+  readonly idempotencyKey?: string;
   readonly status: OperationStatus;
   readonly currentPhase: string;
   readonly progress: {
@@ -95,10 +172,67 @@ export interface OperationProgress {
     readonly message: string;
     readonly details?: unknown;
   }>;
+  readonly workflowId?: string;
+  /** Resolved template the workflow ran with, compared against live state by detectDrift */
+  readonly template?: ProjectTemplate;
+  readonly steps: readonly WorkflowStepExecution[];
+  readonly rollback?: CompensationReport;
+  /** Resources removed or kept by destroyProject, including deletions from earlier attempts */
+  readonly teardown?: CompensationReport;
+  /** Approvals requested by the workflow's approval steps and the decisions on them */
+  readonly approvals?: readonly ApprovalRecord[];
   readonly startedAt: Date;
   readonly completedAt?: Date;
 }
 
+/** Lets the caller of a long-running operation follow its events and cancel it */
+export interface OperationObserver {
+  readonly onEvent?: OperationEventListener;
+  /** Aborting cancels the operation; resources created so far are kept */
+  readonly signal?: AbortSignal;
+}
+
+interface StoredPlan {
+  readonly planId: string;
+  readonly request: CreateProjectApiRequest;
+  readonly options?: OrchestrationOptions;
+  readonly changes: readonly PlannedResourceChange[];
+  readonly createdAt: Date;
+  readonly expiresAt: Date;
+}
+
+// Plans are applied as reviewed, so they expire before live state is likely to have moved on
+const PLAN_TTL_MS = 60 * 60 * 1000;
+
+interface WorkflowRunState {
+  readonly options: OrchestrationOptions | undefined;
+  readonly completedSteps: readonly WorkflowStepExecution[] | undefined;
+  readonly signal: AbortSignal;
+}
+
+// Outputs recorded against WorkflowStepExecution entries by the step handlers
+interface WorkItemStepOutput {
+  readonly workItemsCreated: number;
+  readonly workItemIds?: readonly number[];
+}
+
+interface AppRegistrationStepOutput {
+  readonly servicePrincipalId?: string;
+}
+
+interface PublisherStepOutput {
+  readonly publisherId?: string;
+}
+
+interface SolutionStepOutput {
+  readonly solutionsCreated: number;
+}
+
+interface ApprovalStepOutput {
+  readonly required: boolean;
+  readonly approvedBy?: string;
+}
+
 // ============================================================================
 // Project Orchestrator Class
 // ============================================================================
@@ -109,7 +243,33 @@ export class ProjectOrchestrator {
   private readonly environmentManager: EnvironmentManager;
   private readonly solutionManager: SolutionManager;
   private readonly graphClient: MicrosoftGraphClient;
+  private readonly compensationManager: CompensationManager;
+  private readonly operationStore: OperationStore;
+  private readonly events: OperationEventBus;
+  private readonly templateRegistry: TemplateRegistry;
+  private readonly planner: ProjectPlanner;
+  private readonly driftDetector: DriftDetector;
+  private readonly approvalPolicy: ApprovalPolicy;
+  private readonly approvalNotifier: ApprovalNotifier | undefined;
+  // In-flight operations - every change is written through to the operation store
   private readonly activeOperations: Map<string, OperationProgress> = new Map();
+  private readonly resourceLedgers: Map<string, CompensationLedger> = new Map();
+  private readonly cancellations: Map<string, AbortController> = new Map();
+  private readonly rollbackOnCancel: Set<string> = new Set();
+  private readonly plans: Map<string, StoredPlan> = new Map();
+  // Changes of the plan an operation is applying, used to update the existing resources it adopts
+  private readonly appliedPlans: Map<string, readonly PlannedResourceChange[]> = new Map();
+  // Idempotency keys of operations still running, claimed before they reach the store
+  private readonly idempotencyKeys: Map<string, string> = new Map();
+  // Projects with a destroyProject call in progress
+  private readonly teardowns: Set<string> = new Set();
+  // Operations with an approval decision being recorded, claimed before they resume
+  private readonly approvalDecisions: Set<string> = new Set();
+  // Operations with a resumeOperation call restoring them, claimed before its first await
+  private readonly resumes: Set<string> = new Set();
+  // Runs that continue after the call starting them has returned, e.g. once an approver decides
+  private readonly backgroundRuns: Map<string, Promise<OrchestrationResponse<CreateProjectApiResponse>>> = new Map();
+  private persistence: Promise<void> = Promise.resolve();
 
   constructor(config: OrchestrationConfig) {
     this.config = config;
@@ -148,6 +308,52 @@ export class ProjectOrchestrator {
       accessToken: config.microsoftGraph.accessToken
     });
 
+    this.operationStore = config.operationStore ?? new FileOperationStore({
+      directory: appConfig.operations.storeDirectory
+    });
+
+    this.events = config.eventBus ?? new OperationEventBus();
+
+    this.templateRegistry = config.templateRegistry ?? new TemplateRegistry({
+      directory: appConfig.templates.directory
+    });
+
+    this.planner = new ProjectPlanner({
+      azureDevOps: this.azureDevOpsClient,
+      environments: this.environmentManager,
+      solutions: this.solutionManager,
+      graph: this.graphClient
+    });
+
+    this.driftDetector = new DriftDetector({
+      azureDevOps: this.azureDevOpsClient,
+      environments: this.environmentManager,
+      solutions: this.solutionManager
+    });
+
+    this.approvalPolicy = config.approvalPolicy ?? new ApprovalPolicy({
+      maxEnvironments: appConfig.approvals.maxEnvironments
+    });
+
+    const webhookUrl = appConfig.approvals.webhookUrl;
+    this.approvalNotifier = config.approvalNotifier ??
+      (webhookUrl !== undefined ? new WebhookApprovalNotifier(webhookUrl) : undefined);
+
+    this.compensationManager = new CompensationManager({
+      app_registration: async (resource) => this.graphClient.deleteApplication(resource.resourceId),
+      azure_devops_project: async (resource) => this.azureDevOpsClient.deleteProject(resource.resourceId),
+      service_principal: async (resource) => this.graphClient.deleteServicePrincipal(resource.resourceId),
+      environment: async (resource) => this.environmentManager.deleteEnvironment(resource.resourceId),
+      publisher: async (resource) => this.environmentManager.deletePublisher(
+        resource.environmentUrl ?? '',
+        resource.resourceId
+      ),
+      solution: async (resource) => this.solutionManager.deleteSolution(
+        resource.environmentUrl ?? '',
+        resource.resourceId
+      )
+    });
+
     console.log('Project Orchestrator initialized', {
       azureDevOpsOrg: config.azureDevOps.organization,
       powerPlatformBaseUrl: config.powerPlatform.baseUrl,
@@ -160,73 +366,315 @@ export class ProjectOrchestrator {
   // Main Orchestration Methods
   // ============================================================================
 
+  /**
+   * Repeating a request with the same idempotency key returns the operation it started instead
+   * of starting another one. Without a key, re-running adopts the resources a previous run created.
+   */
   async createProject(
     request: CreateProjectApiRequest,
-    options?: OrchestrationOptions
+    options?: OrchestrationOptions,
+    idempotencyKey?: string,
+    observer?: OperationObserver
   ): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
-    const startTime = Date.now();
+    // Without a key nothing is awaited before the run starts, so the operation can be cancelled at once
+    const replayed = idempotencyKey !== undefined ? await this.replayIdempotentRequest(request, idempotencyKey) : undefined;
+    if (replayed) {
+      return replayed;
+    }
+
+    const { operationId } = this.beginOperation(request, options, idempotencyKey);
+
+    // The run registers its cancellation before its first await, so the observer can cancel it
+    const run = this.runOrchestration(operationId, request, options);
+    const detach = this.attachObserver(operationId, observer);
+    try {
+      return await run;
+    } finally {
+      this.releaseIdempotencyKey(idempotencyKey);
+      detach();
+    }
+  }
+
+  /**
+   * Starts creating a project and returns once the operation is recorded, while its workflow runs
+   * in the background, so that the caller can follow and cancel it by its operation ID. The
+   * template is resolved first so that unknown templates and invalid parameters are still
+   * reported to the caller. Dry runs return their result, as they run no workflow.
+   */
+  async startProject(
+    request: CreateProjectApiRequest,
+    options?: OrchestrationOptions,
+    idempotencyKey?: string
+  ): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
+    if (options?.dryRun === true) {
+      return this.createProject(request, options, idempotencyKey);
+    }
+
+    const resolved = await this.resolveTemplate(request);
+    if (!resolved.success) {
+      return resolved;
+    }
+
+    const replayed = idempotencyKey !== undefined ? await this.replayIdempotentRequest(request, idempotencyKey) : undefined;
+    if (replayed) {
+      return replayed;
+    }
+
+    const { operationId, status, progress } = this.beginOperation(request, options, idempotencyKey);
+    this.runInBackground(operationId, this.runOrchestration(operationId, request, options).finally(() => {
+      this.releaseIdempotencyKey(idempotencyKey);
+    }));
+
+    return { success: true, data: { operationId, status, progress } };
+  }
+
+  /**
+   * Continues a failed or interrupted operation in the background and returns once it is
+   * restored as running. Completed steps are not executed again and their recorded outputs
+   * (project ID, environment URLs, publisher ID) feed the remaining steps.
+   */
+  async resumeOperation(operationId: string): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
+    try {
+      const operation = await this.readOperation(operationId);
+      if (!operation) {
+        return { success: false, error: `Operation ${operationId} not found` };
+      }
+
+      const blocker = this.getResumeBlocker(operation);
+      if (blocker !== undefined) {
+        return { success: false, error: `Operation ${operationId} cannot be resumed: ${blocker}` };
+      }
+
+      this.resumes.add(operationId);
+      try {
+        const completedSteps = await this.prepareResume(operation);
+        console.log(`🔁 Resuming project orchestration: ${operation.projectName}`);
+
+        this.runInBackground(
+          operationId,
+          this.runOrchestration(operationId, operation.request, operation.options, completedSteps)
+        );
+      } finally {
+        this.resumes.delete(operationId);
+      }
+
+      const { status, progress } = this.activeOperations.get(operationId) ?? operation;
+      return { success: true, data: { operationId, status, progress } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Requests cancellation of an in-flight operation. The step that is running finishes, no
+   * further steps start, and resources created so far are kept unless a rollback is requested.
+   */
+  async cancelOperation(
+    operationId: string,
+    request?: CancelOperationRequest
+  ): Promise<OrchestrationResponse<CancelOperationResponse>> {
+    try {
+      const controller = this.cancellations.get(operationId);
+      if (!controller) {
+        const operation = await this.readOperation(operationId);
+        return operation
+          ? { success: false, error: `Operation ${operationId} cannot be cancelled: it is not in progress (status: ${operation.status})` }
+          : { success: false, error: `Operation ${operationId} not found` };
+      }
+
+      const rollbackRequested = request?.rollback === true;
+      if (rollbackRequested) {
+        this.rollbackOnCancel.add(operationId);
+      }
+
+      if (!controller.signal.aborted) {
+        controller.abort();
+        this.updateOperation(
+          operationId,
+          this.activeOperations.get(operationId)?.status ?? 'running',
+          rollbackRequested ? 'Cancellation requested - created resources will be rolled back' : 'Cancellation requested'
+        );
+      }
+
+      return {
+        success: true,
+        data: {
+          operationId,
+          status: this.activeOperations.get(operationId)?.status ?? 'running',
+          rollbackRequested: this.rollbackOnCancel.has(operationId)
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Records an approver's decision on the approval step an operation is waiting at, then
+   * continues the operation. A rejection fails the step, so the steps it gates never run.
+   */
+  async approveOperation(
+    operationId: string,
+    request: ApproveOperationRequest,
+    approver: string
+  ): Promise<OrchestrationResponse<ApproveOperationResponse>> {
+    try {
+      const operation = await this.readOperation(operationId);
+      if (!operation) {
+        return { success: false, error: `Operation ${operationId} not found` };
+      }
+
+      const pending = operation.approvals?.find(approval =>
+        approval.decision === undefined && (request.stepId === undefined || approval.stepId === request.stepId));
+      const blocker = this.getApprovalBlocker(operation, pending, request.stepId);
+      if (blocker !== undefined || !pending) {
+        return { success: false, error: `Operation ${operationId} cannot be approved: ${blocker ?? 'it has no pending approval'}` };
+      }
+
+      this.approvalDecisions.add(operationId);
+      try {
+        const decided = await this.continueWithDecision(operation, pending, request, approver);
+        const status = this.activeOperations.get(operationId)?.status ?? 'running';
+        return { success: true, data: { operationId, approval: toOperationApproval(decided), status } };
+      } finally {
+        this.approvalDecisions.delete(operationId);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Resolves with the outcome of an operation's background run once it ends, or undefined when
+   * nothing is running in the background for it.
+   */
+  async waitForOperation(operationId: string): Promise<OrchestrationResponse<CreateProjectApiResponse> | undefined> {
+    return this.backgroundRuns.get(operationId);
+  }
+
+  private runInBackground(operationId: string, run: Promise<OrchestrationResponse<CreateProjectApiResponse>>): void {
+    const tracked = run
+      .catch((error: unknown): OrchestrationResponse<CreateProjectApiResponse> => {
+        console.error(`❌ Background run of ${operationId} failed:`, error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      })
+      .finally(() => {
+        this.backgroundRuns.delete(operationId);
+      });
+    this.backgroundRuns.set(operationId, tracked);
+  }
+
+  private async replayIdempotentRequest(
+    request: CreateProjectApiRequest,
+    idempotencyKey: string
+  ): Promise<OrchestrationResponse<CreateProjectApiResponse> | undefined> {
+    const original = await this.findIdempotentOperation(idempotencyKey);
+    return original ? this.replayOperation(original, request, idempotencyKey) : undefined;
+  }
+
+  /** Records a new operation and claims its idempotency key; no await may precede this after the key lookup */
+  private beginOperation(
+    request: CreateProjectApiRequest,
+    options: OrchestrationOptions | undefined,
+    idempotencyKey: string | undefined
+  ): OperationProgress {
     const operationId = this.generateOperationId();
+    console.log(`🚀 Starting project orchestration: ${request.projectName}`);
+
+    const operation = this.initializeOperation(operationId, request, options, idempotencyKey);
+    if (idempotencyKey !== undefined) {
+      this.idempotencyKeys.set(idempotencyKey, operationId);
+    }
+    return operation;
+  }
+
+  private releaseIdempotencyKey(idempotencyKey: string | undefined): void {
+    if (idempotencyKey !== undefined) {
+      this.idempotencyKeys.delete(idempotencyKey);
+    }
+  }
+
+  private attachObserver(operationId: string, observer: OperationObserver | undefined): () => void {
+    const unsubscribe = observer?.onEvent ? this.events.subscribe(operationId, observer.onEvent) : undefined;
+    const signal = observer?.signal;
+    const cancel = (): void => {
+      void this.cancelOperation(operationId);
+    };
+
+    if (signal?.aborted === true) {
+      cancel();
+    } else {
+      signal?.addEventListener('abort', cancel, { once: true });
+    }
+
+    return () => {
+      unsubscribe?.();
+      signal?.removeEventListener('abort', cancel);
+    };
+  }
+
+  private async runOrchestration(
+    operationId: string,
+    request: CreateProjectApiRequest,
+    options: OrchestrationOptions | undefined,
+    completedSteps?: readonly WorkflowStepExecution[]
+  ): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
+    const startTime = Date.now();
+    const cancellation = new AbortController();
+    let workflow: WorkflowDefinition | undefined;
+    this.cancellations.set(operationId, cancellation);
     
     try {
-      console.log(`🚀 Starting project orchestration: ${request.projectName}`);
-      
-      // Initialize operation tracking
-      this.initializeOperation(operationId, request.projectName);
-      
-      if (options?.dryRun) {
-        return this.performDryRun(request, operationId);
+      const resolved = await this.resolveTemplate(request);
+      if (!resolved.success) {
+        this.completeOperation(operationId, 'failed', undefined, new Error(resolved.error));
+        return resolved;
       }
+      const template = resolved.data;
 
-      // Load and validate template
-      const template = await this.loadProjectTemplate(request.templateName);
-      if (!template) {
-        return {
-          success: false,
-          error: `Template '${request.templateName}' not found`
-        };
+      workflow = this.selectWorkflow(request.templateName, template);
+      this.assertWorkflowUnchanged(operationId, workflow);
+
+      if (options?.dryRun) {
+        return this.performDryRun(workflow, operationId, options);
       }
 
-      const project = this.createProjectFromTemplate(
-        operationId,
-        request.projectName,
-        template,
-        request.customization
-      );
+      const project = this.createProjectFromTemplate(operationId, request.projectName, template);
 
       this.updateOperation(operationId, 'running', 'Template validation completed');
+      this.updateOperation(operationId, 'running', `Executing workflow: ${workflow.name}`);
+
+      const execution = await this.executeWorkflow(workflow, project, operationId, {
+        options,
+        completedSteps,
+        signal: cancellation.signal
+      });
+      if (execution.status === 'cancelled') {
+        return await this.finishCancelledOperation(operationId, workflow);
+      }
 
-      const warnings: string[] = [];
-      let azureDevOpsResult: ProjectCreationResult['azureDevOps'];
-      let powerPlatformResult: ProjectCreationResult['powerPlatform'];
-      let appRegistrationResult: ProjectCreationResult['appRegistration'];
-
-      // Execute phases based on configuration
-      if (this.config.enableParallelExecution) {
-        // Parallel execution where possible
-        const results = await this.executeInParallel(
-          project,
-          template,
-          options,
-          operationId
-        );
-        azureDevOpsResult = results.azureDevOps;
-        powerPlatformResult = results.powerPlatform;
-        appRegistrationResult = results.appRegistration;
-        warnings.push(...results.warnings);
-      } else {
-        // Sequential execution
-        const results = await this.executeSequentially(
-          project,
-          template,
-          options,
-          operationId
-        );
-        azureDevOpsResult = results.azureDevOps;
-        powerPlatformResult = results.powerPlatform;
-        appRegistrationResult = results.appRegistration;
-        warnings.push(...results.warnings);
+      if (execution.status === 'awaiting_approval') {
+        return this.suspendForApproval(operationId);
+      }
+
+      if (execution.status === 'failed') {
+        const failures = execution.errors.map(e => `${e.stepId}: ${e.error}`).join('; ');
+        throw new Error(`Workflow ${workflow.id} failed - ${failures}`);
       }
 
+      const warnings = execution.errors.map(e => `Step ${e.stepId} failed: ${e.error}`);
+      const { azureDevOpsResult, powerPlatformResult, appRegistrationResult } =
+        this.collectPhaseResults(workflow, execution);
+
       const executionTimeMs = Date.now() - startTime;
       
       // Update final project status - create new object to avoid readonly property issue
@@ -259,8 +707,8 @@ export class ProjectOrchestrator {
         operationId,
         status: 'completed',
         progress: {
-          totalSteps: this.calculateTotalSteps(template, options),
-          completedSteps: this.calculateTotalSteps(template, options),
+          totalSteps: execution.steps.length,
+          completedSteps: execution.steps.length,
           currentStep: 'Completed'
         },
         result: {
@@ -282,320 +730,1575 @@ export class ProjectOrchestrator {
       return { success: true, data: response };
     } catch (error) {
       console.error(`❌ Project orchestration failed:`, error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const rollback = workflow && this.config.enableRollback !== false
+        ? await this.rollBackOperation(operationId, workflow)
+        : undefined;
       
       this.completeOperation(operationId, 'failed', undefined, error);
       
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: rollback ? `${errorMessage} (${this.summarizeRollback(rollback)})` : errorMessage
       };
+    } finally {
+      this.resourceLedgers.delete(operationId);
+      this.cancellations.delete(operationId);
+      this.rollbackOnCancel.delete(operationId);
+      this.appliedPlans.delete(operationId);
+      // Callers observe the final state in the operation store once orchestration returns
+      await this.persistence;
     }
   }
 
   // ============================================================================
-  // Phase Execution Methods
+  // Plan and Apply
   // ============================================================================
 
-  private async executeInParallel(
-    project: OrchestrationProject,
-    template: ProjectTemplate,
-    options: OrchestrationOptions | undefined,
-    operationId: string
-  ): Promise<{
-    azureDevOps?: ProjectCreationResult['azureDevOps'];
-    powerPlatform?: ProjectCreationResult['powerPlatform'];
-    appRegistration?: ProjectCreationResult['appRegistration'];
-    warnings: string[];
-  }> {
-    console.log('🔄 Executing phases in parallel');
-    
-    const warnings: string[] = [];
-    const promises: Promise<any>[] = [];
-    
-    // Phase 1: App Registration (can run independently)
-    if (!options?.skipAppRegistration) {
-      promises.push(
-        this.executeAppRegistrationPhase(project, operationId)
-          .catch(error => ({ error: `App registration failed: ${error.message}` }))
-      );
-    }
-    
-    // Phase 2: Azure DevOps (can run independently)
-    if (!options?.skipAzureDevOps) {
-      promises.push(
-        this.executeAzureDevOpsPhase(project, template, operationId)
-          .catch(error => ({ error: `Azure DevOps failed: ${error.message}` }))
-      );
-    }
-    
-    // Phase 3: Power Platform (can run independently for environment creation)
-    if (!options?.skipPowerPlatform) {
-      promises.push(
-        this.executePowerPlatformPhase(project, template, operationId)
-          .catch(error => ({ error: `Power Platform failed: ${error.message}` }))
-      );
+  /**
+   * Compares the resolved template with live state without changing anything. The plan is
+   * kept for an hour so that it can be reviewed and then applied.
+   */
+  async planProject(
+    request: CreateProjectApiRequest,
+    options?: OrchestrationOptions
+  ): Promise<OrchestrationResponse<ProjectPlanResponse>> {
+    try {
+      const resolved = await this.resolveTemplate(request);
+      if (!resolved.success) {
+        return resolved;
+      }
+
+      const plan = await this.planner.plan(this.toPlannedProject(request, resolved.data), options);
+      const createdAt = new Date();
+      const stored: StoredPlan = {
+        planId: this.generatePlanId(),
+        request,
+        ...(options && { options }),
+        changes: plan.changes,
+        createdAt,
+        expiresAt: new Date(createdAt.getTime() + PLAN_TTL_MS)
+      };
+      this.plans.set(stored.planId, stored);
+
+      return { success: true, data: this.toPlanResponse(stored) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
+  }
 
-    const results = await Promise.allSettled(promises);
-    
-    let azureDevOpsResult: ProjectCreationResult['azureDevOps'];
-    let powerPlatformResult: ProjectCreationResult['powerPlatform'];
-    let appRegistrationResult: ProjectCreationResult['appRegistration'];
-
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        if ('error' in result.value) {
-          warnings.push(result.value.error);
-        } else {
-          // Assign results based on execution order
-          if (index === 0 && !options?.skipAppRegistration) {
-            appRegistrationResult = result.value;
-          } else if (index === 1 && !options?.skipAzureDevOps) {
-            azureDevOpsResult = result.value;
-          } else if (index === 2 && !options?.skipPowerPlatform) {
-            powerPlatformResult = result.value;
-          }
-        }
-      } else {
-        warnings.push(`Phase execution failed: ${result.reason?.message || 'Unknown error'}`);
+  getPlan(planId: string): OrchestrationResponse<ProjectPlanResponse> {
+    const plan = this.findPlan(planId);
+    return plan
+      ? { success: true, data: this.toPlanResponse(plan) }
+      : { success: false, error: `Plan ${planId} not found or expired` };
+  }
+
+  /**
+   * Executes a plan as reviewed in the background and returns once its operation is recorded.
+   * Live state is planned again first and the apply is refused when any resource's change
+   * differs from the stored plan.
+   */
+  async applyPlan(planId: string): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
+    try {
+      const plan = this.findPlan(planId);
+      if (!plan) {
+        return { success: false, error: `Plan ${planId} not found or expired` };
       }
-    });
 
-    return {
-      azureDevOps: azureDevOpsResult,
-      powerPlatform: powerPlatformResult,
-      appRegistration: appRegistrationResult,
-      warnings
-    };
+      // Claimed before the drift check so that a plan is applied once; restored when it is refused
+      this.plans.delete(planId);
+      const current = await this.replan(plan).catch((error: unknown): OrchestrationResponse<ProjectPlan> => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+      if (!current.success) {
+        this.plans.set(planId, plan);
+        return current;
+      }
+
+      const operationId = this.generateOperationId();
+      console.log(`🚀 Applying plan ${planId}: ${plan.request.projectName}`);
+
+      const operation = this.initializeOperation(operationId, plan.request, plan.options);
+      this.appliedPlans.set(operationId, current.data.changes);
+      this.updateOperation(operationId, 'started', `Applying plan ${planId}`);
+      const { status, progress } = this.activeOperations.get(operationId) ?? operation;
+
+      this.runInBackground(operationId, this.runOrchestration(operationId, plan.request, plan.options));
+      return { success: true, data: { operationId, status, progress } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
   }
 
-  private async executeSequentially(
-    project: OrchestrationProject,
-    template: ProjectTemplate,
-    options: OrchestrationOptions | undefined,
-    operationId: string
-  ): Promise<{
-    azureDevOps?: ProjectCreationResult['azureDevOps'];
-    powerPlatform?: ProjectCreationResult['powerPlatform'];
-    appRegistration?: ProjectCreationResult['appRegistration'];
-    warnings: string[];
-  }> {
-    console.log('🔄 Executing phases sequentially');
-    
-    const warnings: string[] = [];
-    let azureDevOpsResult: ProjectCreationResult['azureDevOps'];
-    let powerPlatformResult: ProjectCreationResult['powerPlatform'];
-    let appRegistrationResult: ProjectCreationResult['appRegistration'];
+  private async replan(plan: StoredPlan): Promise<OrchestrationResponse<ProjectPlan>> {
+    const conflicts = plan.changes.filter(change => change.action === 'conflict');
+    if (conflicts.length > 0) {
+      const names = conflicts.map(change => `${change.resourceType} ${change.name}`).join(', ');
+      return {
+        success: false,
+        error: `Plan ${plan.planId} cannot be applied: resolve the conflicts on ${names} and create a new plan`
+      };
+    }
 
-    // Phase 1: App Registration
-    if (!options?.skipAppRegistration) {
-      try {
-        appRegistrationResult = await this.executeAppRegistrationPhase(project, operationId);
-      } catch (error) {
-        warnings.push(`App registration failed: ${error instanceof Error ? error.message : String(error)}`);
-      }
+    const resolved = await this.resolveTemplate(plan.request);
+    if (!resolved.success) {
+      return resolved;
     }
 
-    // Phase 2: Azure DevOps
-    if (!options?.skipAzureDevOps) {
-      try {
-        azureDevOpsResult = await this.executeAzureDevOpsPhase(project, template, operationId);
-      } catch (error) {
-        warnings.push(`Azure DevOps failed: ${error instanceof Error ? error.message : String(error)}`);
-      }
+    const current = await this.planner.plan(this.toPlannedProject(plan.request, resolved.data), plan.options);
+    const drifted = ProjectPlanner.compareChanges(plan.changes, current.changes);
+    if (drifted.length > 0) {
+      return {
+        success: false,
+        error: `Plan ${plan.planId} is out of date - live state changed for ${drifted.join(', ')}. Create a new plan.`
+      };
     }
 
-    // Phase 3: Power Platform
-    if (!options?.skipPowerPlatform) {
-      try {
-        powerPlatformResult = await this.executePowerPlatformPhase(project, template, operationId);
-      } catch (error) {
-        warnings.push(`Power Platform failed: ${error instanceof Error ? error.message : String(error)}`);
+    return { success: true, data: current };
+  }
+
+  private findPlan(planId: string): StoredPlan | undefined {
+    const now = Date.now();
+    for (const [id, plan] of this.plans) {
+      if (plan.expiresAt.getTime() <= now) {
+        this.plans.delete(id);
       }
     }
+    return this.plans.get(planId);
+  }
+
+  private toPlanResponse(plan: StoredPlan): ProjectPlanResponse {
+    const count = (action: PlannedResourceChange['action']): number =>
+      plan.changes.filter(change => change.action === action).length;
 
     return {
-      azureDevOps: azureDevOpsResult,
-      powerPlatform: powerPlatformResult,
-      appRegistration: appRegistrationResult,
-      warnings
+      planId: plan.planId,
+      templateName: plan.request.templateName,
+      projectName: plan.request.projectName,
+      createdAt: plan.createdAt.toISOString(),
+      expiresAt: plan.expiresAt.toISOString(),
+      changes: plan.changes,
+      summary: {
+        create: count('create'),
+        update: count('update'),
+        'no-op': count('no-op'),
+        conflict: count('conflict')
+      }
     };
   }
 
-  // ============================================================================
-  // Individual Phase Implementations
-  // ============================================================================
-
-  private async executeAppRegistrationPhase(
-    project: OrchestrationProject,
-    operationId: string
-  ): Promise<ProjectCreationResult['appRegistration']> {
-    this.updateOperation(operationId, 'running', 'Creating Azure AD application');
-    
-    const appName = `${project.name} Service Principal`;
-    const result = await this.graphClient.createPowerPlatformApplication(appName, {
-      includeDynamicsPermissions: true,
-      includePowerPlatformPermissions: true,
-      createClientSecret: true
-    });
+  private toPlannedProject(request: CreateProjectApiRequest, template: ProjectTemplate): PlannedProject {
+    return { name: request.projectName, description: template.metadata.description, template };
+  }
 
-    if (!result.success) {
-      throw new Error(`Failed to create application: ${result.error}`);
+  /** Applies the updates the operation's plan lists for an existing resource, if any */
+  private async applyPlannedUpdate<T>(
+    operationId: string,
+    resourceType: CompensableResourceType,
+    name: string,
+    update: (changes: T) => Promise<{ success: true } | { success: false; error: string }>
+  ): Promise<void> {
+    const change = this.appliedPlans.get(operationId)
+      ?.find(planned => planned.resourceType === resourceType && planned.name === name);
+    if (change?.action !== 'update' || change.differences === undefined) {
+      return;
     }
 
-    const appResult: { readonly applicationId: string; readonly clientId: string; readonly servicePrincipalId?: string } = {
-      applicationId: result.data.application.id,
-      clientId: result.data.application.appId
-    };
-    
-    if (result.data.application.servicePrincipal?.id) {
-      (appResult as any).servicePrincipalId = result.data.application.servicePrincipal.id;
+    const fields = change.differences.map(difference => difference.field);
+    this.updateOperation(operationId, 'running', `Updating ${change.resourceType} ${change.name}: ${fields.join(', ')}`);
+
+    const result = await update(Object.fromEntries(
+      change.differences.map(difference => [difference.field, difference.desired])
+    ) as T);
+    if (!result.success) {
+      throw new Error(`Failed to update ${change.resourceType} ${change.name}: ${result.error}`);
     }
-    
-    return appResult;
   }
 
-  private async executeAzureDevOpsPhase(
-    project: OrchestrationProject,
-    template: ProjectTemplate,
-    operationId: string
-  ): Promise<ProjectCreationResult['azureDevOps']> {
-    this.updateOperation(operationId, 'running', 'Creating Azure DevOps project');
+  // ============================================================================
+  // Drift Detection
+  // ============================================================================
+
+  /**
+   * Compares a project created by a completed operation with the template it was created from.
+   * The project ID is the ID of that operation.
+   */
+  async detectDrift(
+    projectId: string,
+    options: { includeRemediation?: boolean } = {}
+  ): Promise<OrchestrationResponse<DriftReportResponse>> {
+    try {
+      const operation = await this.readOperation(projectId);
+      if (!operation) {
+        return { success: false, error: `Project ${projectId} not found` };
+      }
+
+      const blocker = this.getDriftBlocker(operation);
+      if (blocker !== undefined || !operation.template) {
+        return { success: false, error: `Project ${projectId} cannot be checked for drift: ${blocker ?? 'no template was recorded'}` };
+      }
+
+      const check = await this.driftDetector.detect(this.toProvisionedProject(operation, operation.template));
+      const count = (kind: DriftKind): number => check.items.filter(item => item.kind === kind).length;
+
+      return {
+        success: true,
+        data: {
+          projectId,
+          projectName: operation.projectName,
+          templateName: operation.template.metadata.name,
+          checkedAt: new Date().toISOString(),
+          hasDrift: check.items.length > 0,
+          items: check.items,
+          summary: { missing: count('missing'), modified: count('modified'), unexpected: count('unexpected') },
+          skipped: check.skipped,
+          ...(options.includeRemediation === true && { remediation: DriftDetector.planRemediation(check.items) })
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private getDriftBlocker(operation: OperationProgress): string | undefined {
+    if (operation.status !== 'completed') return `its creation is ${operation.status}`;
+    if (operation.options?.dryRun === true) return 'dry runs do not create resources';
+    return undefined;
+  }
+
+  private toProvisionedProject(operation: OperationProgress, template: ProjectTemplate): ProvisionedProject {
+    const environments = this.getStepOutput<EnvironmentInfo[]>(operation, 'environment_creation');
+    const workItemIds = this.getStepOutput<WorkItemStepOutput>(operation, 'work_item_creation')?.workItemIds;
+    return {
+      name: operation.projectName,
+      template,
+      ...(environments && { environments }),
+      ...(workItemIds && { workItemIds })
+    };
+  }
+
+  /** Output of the completed step of the given type in the workflow the operation ran */
+  private getStepOutput<T>(operation: OperationProgress, type: WorkflowStepType): T | undefined {
+    const workflow = ProjectWorkflowDefinitions.getAllWorkflows().find(w => w.id === operation.workflowId);
+    const stepIds = new Set(workflow?.steps.filter(s => s.type === type).map(s => s.id));
+    const stepExecution = operation.steps.find(s => stepIds.has(s.stepId) && s.status === 'completed');
+    return stepExecution?.output as T | undefined;
+  }
+
+  // ============================================================================
+  // Project Teardown
+  // ============================================================================
+
+  /**
+   * Deletes the resources recorded by a creation operation. A dry run lists what would be deleted
+   * together with a confirmation token, and the actual teardown only runs when that token is passed
+   * back. Resources adopted from earlier runs were never recorded and are left alone.
+   */
+  async destroyProject(
+    projectId: string,
+    request: DestroyProjectRequest = {}
+  ): Promise<OrchestrationResponse<DestroyProjectResponse>> {
+    try {
+      const operation = await this.readOperation(projectId);
+      if (!operation) {
+        return { success: false, error: `Project ${projectId} not found` };
+      }
+
+      const blocker = this.getTeardownBlocker(operation, request);
+      if (blocker !== undefined) {
+        return { success: false, error: `Project ${projectId} cannot be destroyed: ${blocker}` };
+      }
+
+      if (request.dryRun === true) {
+        const { targets, confirmationToken } = await this.planTeardown(operation, request);
+        return { success: true, data: this.toDestroyResponse(operation, targets, confirmationToken) };
+      }
+
+      // Claimed right after the check, so a concurrent request with the same token is refused
+      this.teardowns.add(operation.operationId);
+      try {
+        return await this.destroyConfirmed(operation, request);
+      } finally {
+        this.teardowns.delete(operation.operationId);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private async destroyConfirmed(
+    operation: OperationProgress,
+    request: DestroyProjectRequest
+  ): Promise<OrchestrationResponse<DestroyProjectResponse>> {
+    const { targets, confirmationToken } = await this.planTeardown(operation, request);
+    if (request.confirmationToken !== confirmationToken) {
+      return {
+        success: false,
+        error: `Project ${operation.operationId} cannot be destroyed: the confirmation token does not match the current teardown - run a dry run and review it again`
+      };
+    }
+
+    const report = await this.executeTeardown(operation, targets);
+    return { success: true, data: this.toDestroyResponse(operation, targets, undefined, report) };
+  }
+
+  private async planTeardown(
+    operation: OperationProgress,
+    request: DestroyProjectRequest
+  ): Promise<{ targets: TeardownTarget[]; confirmationToken: string }> {
+    const targets = TeardownPlanner.plan(
+      await this.listTeardownResources(operation),
+      this.getStepOutput<EnvironmentInfo[]>(operation, 'environment_creation') ?? [],
+      request
+    );
+    return { targets, confirmationToken: TeardownPlanner.confirmationToken(operation.operationId, targets) };
+  }
+
+  private getTeardownBlocker(operation: OperationProgress, request: DestroyProjectRequest): string | undefined {
+    if (this.activeOperations.has(operation.operationId)) return 'its creation is still running';
+    if (this.teardowns.has(operation.operationId)) return 'a teardown is already in progress';
+    if (operation.status === 'rolling_back') return 'it was interrupted while rolling back';
+    if (operation.options?.dryRun === true) return 'dry runs do not create resources';
+    if (request.dryRun !== true && request.confirmationToken === undefined) {
+      return 'a confirmation token from a dry run is required';
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the recorded resources that still exist. The service principal is not recorded on its
+   * own, so it is taken from the output of the step that created the application.
+   */
+  private async listTeardownResources(operation: OperationProgress): Promise<CreatedResource[]> {
+    const resources = await this.operationStore.listResources(operation.operationId);
+    const application = resources.find(resource => resource.resourceType === 'app_registration');
+    const servicePrincipalId = this.getStepOutput<AppRegistrationStepOutput>(operation, 'app_registration')
+      ?.servicePrincipalId;
+
+    const servicePrincipal: CreatedResource[] = application && servicePrincipalId !== undefined
+      ? [{ ...application, resourceType: 'service_principal', resourceId: servicePrincipalId }]
+      : [];
+
+    const deleted = this.collectDeletedResources(operation);
+    return [...resources, ...servicePrincipal]
+      .filter(resource => !deleted.has(`${resource.resourceType}:${resource.resourceId}`));
+  }
+
+  private async executeTeardown(
+    operation: OperationProgress,
+    targets: readonly TeardownTarget[]
+  ): Promise<CompensationReport> {
+    const startedAt = new Date();
+    const entries = new Map<CreatedResource, CompensationEntry>();
+
+    console.log(`🗑️  Destroying project ${operation.projectName} (${operation.operationId})`);
+    // Resources are removed in order so that nothing outlives the resource it depends on
+    await targets.reduce<Promise<void>>(async (previous, target) => {
+      await previous;
+      entries.set(target.resource, await this.removeTeardownTarget(target, entries));
+    }, Promise.resolve());
+
+    const earlier = (operation.teardown?.entries ?? []).filter(entry => entry.outcome === 'deleted');
+    const report: CompensationReport = {
+      workflowId: operation.workflowId ?? '',
+      startedAt,
+      completedAt: new Date(),
+      entries: [...earlier, ...entries.values()],
+      fullyCompensated: [...entries.values()].every(entry => entry.outcome !== 'failed')
+    };
+
+    this.enqueuePersistence(() => this.operationStore.saveOperation({
+      ...operation,
+      teardown: report,
+      logs: [...operation.logs, {
+        timestamp: report.completedAt.toISOString(),
+        level: report.fullyCompensated ? 'info' : 'warn',
+        message: this.summarizeTeardown([...entries.values()])
+      }]
+    }));
+    await this.persistence;
+
+    return report;
+  }
+
+  private removeTeardownTarget(
+    target: TeardownTarget,
+    removed: ReadonlyMap<CreatedResource, CompensationEntry>
+  ): Promise<CompensationEntry> {
+    const { resource, reason } = target;
+
+    if (target.action === 'retain') {
+      return Promise.resolve({ resource, outcome: 'retained', ...(reason !== undefined && { reason }) });
+    }
+    if (target.removedWith) {
+      // Publishers and solutions go with their environment, so they share its outcome
+      const outcome = removed.get(target.removedWith)?.outcome ?? 'failed';
+      return Promise.resolve({ resource, outcome, ...(reason !== undefined && { reason }) });
+    }
+
+    return this.compensationManager.remove(resource);
+  }
+
+  private summarizeTeardown(entries: readonly CompensationEntry[]): string {
+    const count = (outcome: string): number => entries.filter(e => e.outcome === outcome).length;
+    return `Project destroyed: ${count('deleted')} deleted, ${count('failed')} failed, ${count('retained')} retained`;
+  }
+
+  private toDestroyResponse(
+    operation: OperationProgress,
+    targets: readonly TeardownTarget[],
+    confirmationToken?: string,
+    report?: CompensationReport
+  ): DestroyProjectResponse {
+    const outcomes = new Map(report?.entries.map(entry => [entry.resource, entry]));
+    const status = report === undefined ? 'planned' : report.fullyCompensated ? 'completed' : 'partial';
+
+    return {
+      projectId: operation.operationId,
+      projectName: operation.projectName,
+      dryRun: report === undefined,
+      status,
+      ...(confirmationToken !== undefined && { confirmationToken }),
+      resources: targets.map(target => {
+        const entry = outcomes.get(target.resource);
+        const reason = entry?.reason ?? target.reason;
+        return {
+          resourceType: target.resource.resourceType,
+          resourceId: target.resource.resourceId,
+          displayName: target.resource.displayName,
+          action: target.action,
+          ...(entry && { outcome: entry.outcome }),
+          ...(reason !== undefined && { reason })
+        };
+      })
+    };
+  }
+
+  // ============================================================================
+  // Compensation
+  // ============================================================================
+
+  private async rollBackOperation(
+    operationId: string,
+    workflow: WorkflowDefinition
+  ): Promise<CompensationReport | undefined> {
+    const ledger = this.resourceLedgers.get(operationId);
+    if (!ledger || ledger.size === 0) {
+      return undefined;
+    }
+
+    this.updateOperation(operationId, 'rolling_back', `Rolling back ${ledger.size} created resources`);
+
+    const report = await this.compensationManager.compensate(workflow, ledger.getResources(), entry => {
+      const reason = entry.reason !== undefined ? ` - ${entry.reason}` : '';
+      this.updateOperation(
+        operationId,
+        'rolling_back',
+        `Rollback ${entry.outcome}: ${entry.resource.resourceType} ${entry.resource.displayName}${reason}`
+      );
+    });
+
+    const operation = this.activeOperations.get(operationId);
+    if (operation) {
+      this.storeOperation({ ...operation, rollback: report });
+    }
+
+    return report;
+  }
+
+  private async finishCancelledOperation(
+    operationId: string,
+    workflow: WorkflowDefinition
+  ): Promise<OrchestrationResponse<CreateProjectApiResponse>> {
+    const rollback = this.rollbackOnCancel.has(operationId)
+      ? await this.rollBackOperation(operationId, workflow)
+      : undefined;
+    const message = `Operation ${operationId} was cancelled`;
+
+    this.completeOperation(operationId, 'cancelled', undefined, new Error(message));
+    console.log(`⏹️  Project orchestration cancelled: ${operationId}`);
+
+    return {
+      success: false,
+      error: rollback ? `${message} (${this.summarizeRollback(rollback)})` : message
+    };
+  }
+
+  private throwIfCancelled(operationId: string, signal: AbortSignal | undefined): void {
+    if (signal?.aborted === true) {
+      throw new Error(`Operation ${operationId} was cancelled`);
+    }
+  }
+
+  // ============================================================================
+  // Resume Support
+  // ============================================================================
+
+  private getResumeBlocker(operation: OperationProgress): string | undefined {
+    const { operationId } = operation;
+    if (this.activeOperations.has(operationId) || this.resumes.has(operationId)) return 'it is still running';
+    if (operation.status === 'completed') return 'it has already completed';
+    if (operation.status === 'awaiting_approval') return 'it is awaiting approval - approve or reject it instead';
+    if (operation.status === 'rolling_back') return 'it was interrupted while rolling back';
+    if (operation.options?.dryRun === true) return 'dry runs do not create resources';
+    if (operation.teardown) return 'the project has been destroyed';
+    return undefined;
+  }
+
+  /**
+   * Restores the operation as in-flight and returns the step executions that can be reused.
+   * Steps whose resources were removed by a rollback, and everything depending on them, run again.
+   */
+  private async prepareResume(operation: OperationProgress): Promise<WorkflowStepExecution[]> {
+    const workflow = operation.workflowId !== undefined
+      ? ProjectWorkflowDefinitions.getAllWorkflows().find(w => w.id === operation.workflowId)
+      : undefined;
+
+    const rolledBack = this.collectDeletedResources(operation);
+    const resources = (await this.operationStore.listResources(operation.operationId))
+      .filter(resource => !rolledBack.has(`${resource.resourceType}:${resource.resourceId}`));
+
+    const invalidated = this.collectDependants(
+      workflow,
+      (operation.rollback?.entries ?? [])
+        .filter(entry => entry.outcome === 'deleted')
+        .map(entry => entry.resource.stepId)
+    );
+    const completedSteps = workflow
+      ? operation.steps.filter(s => s.status === 'completed' && !invalidated.has(s.stepId))
+      : [];
+
+    this.storeOperation({
+      operationId: operation.operationId,
+      projectName: operation.projectName,
+      request: operation.request,
+      ...(operation.options && { options: operation.options }),
+      ...(operation.idempotencyKey !== undefined && { idempotencyKey: operation.idempotencyKey }),
+      ...(operation.workflowId !== undefined && { workflowId: operation.workflowId }),
+      ...(operation.template && { template: operation.template }),
+      ...(operation.approvals && { approvals: operation.approvals }),
+      status: 'running',
+      currentPhase: operation.currentPhase,
+      progress: operation.progress,
+      logs: operation.logs,
+      steps: completedSteps,
+      startedAt: operation.startedAt
+    });
+    this.resourceLedgers.set(operation.operationId, new CompensationLedger(resources));
+    this.updateOperation(
+      operation.operationId,
+      'running',
+      `Resuming operation - reusing ${completedSteps.length} completed steps`
+    );
+
+    return completedSteps;
+  }
+
+  /** Keys (`type:id`) of the resources a rollback or teardown has already deleted */
+  private collectDeletedResources(operation: OperationProgress): Set<string> {
+    return new Set(
+      [...(operation.rollback?.entries ?? []), ...(operation.teardown?.entries ?? [])]
+        .filter(entry => entry.outcome === 'deleted')
+        .map(entry => `${entry.resource.resourceType}:${entry.resource.resourceId}`)
+    );
+  }
+
+  private collectDependants(workflow: WorkflowDefinition | undefined, stepIds: readonly string[]): Set<string> {
+    const collected = new Set(stepIds);
+    let added = true;
+
+    while (workflow && added) {
+      added = false;
+      for (const step of workflow.steps) {
+        if (!collected.has(step.id) && step.dependencies.some(depId => collected.has(depId))) {
+          collected.add(step.id);
+          added = true;
+        }
+      }
+    }
+
+    return collected;
+  }
+
+  private recordResource(operationId: string, resource: Omit<CreatedResource, 'createdAt'>): void {
+    const recorded = this.resourceLedgers.get(operationId)?.record(resource);
+    if (recorded) {
+      this.enqueuePersistence(() => this.operationStore.saveResource(operationId, recorded));
+    }
+  }
+
+  private summarizeRollback(report: CompensationReport): string {
+    const count = (outcome: string): number => report.entries.filter(e => e.outcome === outcome).length;
+    const status = report.fullyCompensated ? 'rollback completed' : 'rollback incomplete';
+    return `${status}: ${count('deleted')} deleted, ${count('failed')} failed, ${count('retained')} retained`;
+  }
+
+  private toRollbackReport(report: CompensationReport): RollbackReport {
+    return {
+      status: report.fullyCompensated ? 'completed' : 'partial',
+      startedAt: report.startedAt.toISOString(),
+      completedAt: report.completedAt.toISOString(),
+      resources: report.entries.map(entry => ({
+        resourceType: entry.resource.resourceType,
+        resourceId: entry.resource.resourceId,
+        displayName: entry.resource.displayName,
+        stepId: entry.resource.stepId,
+        outcome: entry.outcome,
+        ...(entry.reason !== undefined && { reason: entry.reason })
+      }))
+    };
+  }
+
+  // ============================================================================
+  // Approvals
+  // ============================================================================
+
+  private getApprovalBlocker(
+    operation: OperationProgress,
+    pending: ApprovalRecord | undefined,
+    stepId: string | undefined
+  ): string | undefined {
+    const { operationId } = operation;
+    if (this.activeOperations.has(operationId) || this.approvalDecisions.has(operationId)) return 'it is still running';
+    if (operation.status !== 'awaiting_approval') return `it is not awaiting approval (status: ${operation.status})`;
+    if (operation.teardown) return 'the project has been destroyed';
+    if (!pending) return stepId !== undefined ? `step ${stepId} has no pending approval` : 'it has no pending approval';
+    return undefined;
+  }
+
+  /**
+   * Restores the operation with the decision recorded and runs it again from the approval step
+   * in the background; the decision is persisted before this returns.
+   */
+  private async continueWithDecision(
+    operation: OperationProgress,
+    pending: ApprovalRecord,
+    request: ApproveOperationRequest,
+    approver: string
+  ): Promise<ApprovalRecord> {
+    const decided: ApprovalRecord = {
+      ...pending,
+      decision: request.decision,
+      decidedBy: approver,
+      decidedAt: new Date(),
+      ...(request.comment !== undefined && { comment: request.comment })
+    };
+    const approvals = (operation.approvals ?? []).map(approval => approval === pending ? decided : approval);
+
+    const completedSteps = await this.prepareResume({ ...operation, approvals });
+    const comment = request.comment !== undefined ? ` - ${request.comment}` : '';
+    this.updateOperation(operation.operationId, 'running', `${pending.stepName} ${request.decision} by ${approver}${comment}`);
+    this.events.publish(operation.operationId, 'approval', toOperationApproval(decided));
+    await this.persistence;
+
+    this.runInBackground(
+      operation.operationId,
+      this.runOrchestration(operation.operationId, operation.request, operation.options, completedSteps)
+    );
+    return decided;
+  }
+
+  /** Records the approval request on the operation and tells approvers about it */
+  private requestApproval(
+    operationId: string,
+    step: WorkflowStep,
+    reasons: readonly ApprovalReason[]
+  ): void {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) return;
+
+    const record: ApprovalRecord = { stepId: step.id, stepName: step.name, reasons, requestedAt: new Date() };
+    this.storeOperation({
+      ...operation,
+      approvals: [...(operation.approvals ?? []).filter(approval => approval.stepId !== step.id), record]
+    });
+    this.updateOperation(operationId, 'running', `${step.name} is waiting for approval: ${reasons.map(r => r.message).join('; ')}`);
+
+    const approval = toOperationApproval(record);
+    this.events.publish(operationId, 'approval', approval);
+    // The operation is suspended without waiting for the notification; approvers still find the
+    // request in the operation's status and events when it fails
+    this.approvalNotifier?.notify({ operationId, projectName: operation.projectName, approval })
+      .catch((error: unknown) => console.warn(`⚠️  Failed to notify approvers of ${operationId}:`, error));
+  }
+
+  /** Leaves the operation waiting at its approval step; it is not in flight until a decision continues it */
+  private suspendForApproval(operationId: string): OrchestrationResponse<CreateProjectApiResponse> {
+    this.updateOperation(operationId, 'awaiting_approval', 'Waiting for approval - approve or reject the operation to continue');
+    const progress = this.activeOperations.get(operationId)?.progress ?? { totalSteps: 0, completedSteps: 0 };
+    this.activeOperations.delete(operationId);
+
+    console.log(`⏸️  Project orchestration awaiting approval: ${operationId}`);
+    return { success: true, data: { operationId, status: 'awaiting_approval', progress } };
+  }
+
+  private async isNewApplication(projectName: string): Promise<boolean> {
+    const lookup = await this.graphClient.findApplicationByDisplayName(ProjectPlanner.applicationName(projectName));
+    // A failed lookup counts as a new application, so that it cannot bypass the approval
+    return !lookup.success || !lookup.data;
+  }
+
+  // ============================================================================
+  // Workflow Execution
+  // ============================================================================
+
+  private selectWorkflow(templateName: string, template: ProjectTemplate): WorkflowDefinition {
+    const byName = ProjectWorkflowDefinitions.getWorkflowForTemplate(templateName);
+    if (byName) {
+      return byName;
+    }
+
+    // Fall back to the template category when the template has a custom name
+    const templateType = template.metadata.category === 'enterprise' ? 'enterprise-project' : 'standard-project';
+    return ProjectWorkflowDefinitions.getWorkflowForTemplate(templateType) ??
+      ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW;
+  }
+
+  private async executeWorkflow(
+    workflow: WorkflowDefinition,
+    project: OrchestrationProject,
+    operationId: string,
+    state: WorkflowRunState
+  ): Promise<WorkflowExecution> {
+    const engine = new WorkflowEngine({
+      handlers: this.createStepHandlers(project, operationId, state.options),
+      hooks: this.createStepHooks(operationId),
+      enableParallelExecution: this.config.enableParallelExecution ?? true,
+      shouldSkipStep: (step): boolean => this.isStepSkipped(step, state.options)
+    });
+
+    this.setOperationWorkflow(operationId, workflow, project.template);
+    return engine.execute(workflow, {
+      executionId: operationId,
+      variables: {
+        projectName: project.name,
+        templateName: project.template.metadata.name,
+        region: this.config.defaultRegion ?? 'unitedstates'
+      },
+      ...(state.completedSteps && { completedSteps: state.completedSteps }),
+      signal: state.signal
+    });
+  }
+
+  private assertWorkflowUnchanged(operationId: string, workflow: WorkflowDefinition): void {
+    const previousWorkflowId = this.activeOperations.get(operationId)?.workflowId;
+    if (previousWorkflowId !== undefined && previousWorkflowId !== workflow.id) {
+      throw new Error(
+        `Operation ${operationId} ran workflow ${previousWorkflowId} but its template now maps to ${workflow.id}`
+      );
+    }
+  }
+
+  private isStepSkipped(step: WorkflowStep, options: OrchestrationOptions | undefined): boolean {
+    if (options?.skipAppRegistration === true && step.type === 'app_registration') return true;
+    if (options?.skipAzureDevOps === true && step.phase === 'azure_devops') return true;
+    if (options?.skipPowerPlatform === true && step.phase === 'power_platform') return true;
+    return false;
+  }
+
+  private createStepHooks(operationId: string): WorkflowEngineHooks {
+    const record = (step: WorkflowStep, stepExecution: WorkflowStepExecution): void =>
+      this.recordStepExecution(operationId, step, stepExecution);
+
+    return {
+      onStepStarted: record,
+      onStepCompleted: record,
+      onStepFailed: record,
+      onStepCancelled: record,
+      onStepAwaitingApproval: record,
+      onStepSkipped: (step, reason) => record(step, {
+        stepId: step.id,
+        status: 'skipped',
+        attempt: 0,
+        error: reason
+      })
+    };
+  }
+
+  private createStepHandlers(
+    project: OrchestrationProject,
+    operationId: string,
+    options: OrchestrationOptions | undefined
+  ): WorkflowStepHandlers {
+    const template = project.template;
+
+    return {
+      validation: async (step) => this.executeValidationStep(step, template, operationId),
+      approval: async (step, context) => this.executeApprovalStep(step, project, operationId, {
+        steps: context.workflow.steps.filter(candidate => !this.isStepSkipped(candidate, options))
+      }),
+      app_registration: async (step) => this.executeAppRegistrationPhase(step, project, operationId),
+      azure_project_creation: async (step, context) =>
+        this.executeAzureProjectStep(step, project, operationId, context.signal),
+      work_item_creation: async () => this.executeWorkItemStep(project, template, operationId),
+      repository_setup: async (step) => this.executeNotSupportedStep(step, operationId),
+      pipeline_creation: async (step) => this.executeNotSupportedStep(step, operationId),
+      environment_creation: async (step, context) =>
+        this.executeEnvironmentStep(step, project, operationId, context.signal),
+      publisher_creation: async (step, context) => this.executePublisherStep(
+        step,
+        template,
+        context.getOutputByType<EnvironmentInfo[]>('environment_creation') ?? [],
+        operationId
+      ),
+      solution_creation: async (step, context) => this.executeSolutionStep(step, template, context, operationId),
+      permission_assignment: async (_step, context) => this.executePermissionStep(
+        context.getOutputByType<ProjectCreationResult['appRegistration']>('app_registration'),
+        operationId
+      ),
+      notification: async (step) => this.executeNotificationStep(step, project, operationId)
+    };
+  }
+
+  private collectPhaseResults(workflow: WorkflowDefinition, execution: WorkflowExecution): {
+    azureDevOpsResult?: ProjectCreationResult['azureDevOps'];
+    powerPlatformResult?: ProjectCreationResult['powerPlatform'];
+    appRegistrationResult?: ProjectCreationResult['appRegistration'];
+  } {
+    const outputOf = <T>(type: WorkflowStepType): T | undefined => {
+      const stepIds = workflow.steps.filter(s => s.type === type).map(s => s.id);
+      const stepExecution = execution.steps.find(s => stepIds.includes(s.stepId) && s.status === 'completed');
+      return stepExecution?.output as T | undefined;
+    };
+
+    const adoProject = outputOf<AzureDevOpsProjectInfo>('azure_project_creation');
+    const workItems = outputOf<WorkItemStepOutput>('work_item_creation');
+    const environments = outputOf<EnvironmentInfo[]>('environment_creation');
+    const publisher = outputOf<PublisherStepOutput>('publisher_creation');
+    const solutions = outputOf<SolutionStepOutput>('solution_creation');
+
+    return {
+      ...(adoProject && {
+        azureDevOpsResult: {
+          projectId: adoProject.projectId,
+          projectUrl: adoProject.projectUrl,
+          workItemsCreated: workItems?.workItemsCreated ?? 0,
+          ...(adoProject.repositoryUrl !== undefined && { repositoryUrl: adoProject.repositoryUrl })
+        }
+      }),
+      ...(environments && {
+        powerPlatformResult: {
+          environments,
+          solutionsCreated: solutions?.solutionsCreated ?? 0,
+          ...(publisher?.publisherId !== undefined && { publisherId: publisher.publisherId })
+        }
+      }),
+      ...(this.hasOutput(outputOf<ProjectCreationResult['appRegistration']>('app_registration')) && {
+        appRegistrationResult: outputOf<ProjectCreationResult['appRegistration']>('app_registration')
+      })
+    };
+  }
+
+  private hasOutput(output: unknown): boolean {
+    return output !== undefined && output !== null;
+  }
+
+  // ============================================================================
+  // Individual Step Implementations
+  // ============================================================================
+
+  private executeValidationStep(
+    step: WorkflowStep,
+    template: ProjectTemplate,
+    operationId: string
+  ): Promise<{ readonly checks: readonly string[] }> {
+    this.updateOperation(operationId, 'running', `Running validation: ${step.name}`);
+
+    if (step.phase === 'initialization') {
+      const result = DataModelValidator.validateProjectTemplate(template);
+      if (!result.isValid) {
+        return Promise.reject(new Error(
+          `Template validation failed: ${result.errors.map(e => e.message).join(', ')}`
+        ));
+      }
+    }
+
+    return Promise.resolve({ checks: Object.keys(step.configuration) });
+  }
+
+  private async executeAppRegistrationPhase(
+    step: WorkflowStep,
+    project: OrchestrationProject,
+    operationId: string
+  ): Promise<ProjectCreationResult['appRegistration']> {
+    const appName = ProjectPlanner.applicationName(project.name);
+    const lookup = await this.graphClient.findApplicationByDisplayName(appName);
+    if (!lookup.success) {
+      throw new Error(`Failed to look up application: ${lookup.error}`);
+    }
+
+    if (lookup.data) {
+      this.updateOperation(operationId, 'running', `Using existing Azure AD application: ${appName}`);
+      return { applicationId: lookup.data.id, clientId: lookup.data.appId };
+    }
+
+    this.updateOperation(operationId, 'running', 'Creating Azure AD application');
     
-    // Create Azure DevOps project
+    const result = await this.graphClient.createPowerPlatformApplication(appName, {
+      includeDynamicsPermissions: true,
+      includePowerPlatformPermissions: true,
+      createClientSecret: true
+    });
+
+    if (!result.success) {
+      throw new Error(`Failed to create application: ${result.error}`);
+    }
+
+    this.recordResource(operationId, {
+      resourceType: 'app_registration',
+      resourceId: result.data.application.id,
+      displayName: appName,
+      stepId: step.id
+    });
+
+    const servicePrincipalId = result.data.application.servicePrincipal?.id;
+    return {
+      applicationId: result.data.application.id,
+      clientId: result.data.application.appId,
+      ...(servicePrincipalId !== undefined && { servicePrincipalId })
+    };
+  }
+
+  private async executeAzureProjectStep(
+    step: WorkflowStep,
+    project: OrchestrationProject,
+    operationId: string,
+    signal?: AbortSignal
+  ): Promise<AzureDevOpsProjectInfo> {
+    this.updateOperation(operationId, 'running', 'Creating Azure DevOps project');
+    
+    const organizationUrl = `https://dev.azure.com/${this.config.azureDevOps.organization}`;
     const projectResult = await this.azureDevOpsClient.getProject(project.name);
-    let projectInfo: AzureDevOpsProjectInfo;
 
-    if (projectResult.success) {
-      // Project already exists
-      projectInfo = {
-        projectId: projectResult.data.id,
-        projectUrl: projectResult.data.url,
-        organizationUrl: `https://dev.azure.com/${this.config.azureDevOps.organization}`
+    if (projectResult.success) {
+      this.updateOperation(operationId, 'running', `Using existing Azure DevOps project: ${projectResult.data.name}`);
+      await this.applyPlannedUpdate(operationId, 'azure_devops_project', project.name,
+        (changes: Parameters<AzureDevOpsClient['updateProject']>[1]) =>
+          this.azureDevOpsClient.updateProject(projectResult.data.id, changes));
+      return {
+        projectId: projectResult.data.id,
+        projectUrl: projectResult.data.url,
+        organizationUrl
+      };
+    }
+
+    this.throwIfCancelled(operationId, signal);
+    const projectSettings = project.template.azureDevOps.project;
+    const createResult = await this.azureDevOpsClient.createProject(project.name, {
+      description: project.description,
+      visibility: projectSettings.visibility,
+      processTemplateId: projectSettings.capabilities.processTemplate.templateTypeId,
+      sourceControlType: projectSettings.capabilities.versionControl.sourceControlType
+    });
+
+    if (!createResult.success) {
+      throw new Error(`Failed to create Azure DevOps project: ${createResult.error}`);
+    }
+
+    this.recordResource(operationId, {
+      resourceType: 'azure_devops_project',
+      resourceId: createResult.data.id,
+      displayName: createResult.data.name,
+      stepId: step.id
+    });
+
+    return {
+      projectId: createResult.data.id,
+      projectUrl: createResult.data.url || `${organizationUrl}/${project.name}`,
+      organizationUrl
+    };
+  }
+
+  private async executeWorkItemStep(
+    project: OrchestrationProject,
+    template: ProjectTemplate,
+    operationId: string
+  ): Promise<WorkItemStepOutput> {
+    this.updateOperation(operationId, 'running', 'Creating work items');
+    
+    const parser = new SProjectTemplateParser(
+      SProjectTemplateParser.createDefaultConfig(project.name)
+    );
+    
+    // Convert our template to S-Project format (simplified)
+    const sProjectTemplate = this.convertToSProjectTemplate(template);
+    const parseResult = parser.parseTemplate(sProjectTemplate);
+    
+    const orchestrator = new WorkItemOrchestrator(
+      this.azureDevOpsClient,
+      WorkItemOrchestrator.createDefaultConfig(project.name)
+    );
+    
+    const workItemResult = await orchestrator.orchestrateWorkItemCreation(
+      parseResult.batch,
+      parseResult.relationships
+    );
+
+    return {
+      workItemsCreated: workItemResult.workItemsCreated.length,
+      workItemIds: workItemResult.workItemsCreated.map(workItem => workItem.id)
+    };
+  }
+
+  private async executeEnvironmentStep(
+    step: WorkflowStep,
+    project: OrchestrationProject,
+    operationId: string,
+    signal?: AbortSignal
+  ): Promise<EnvironmentInfo[]> {
+    this.updateOperation(operationId, 'running', 'Creating Power Platform environments');
+
+    const templates = project.template.powerPlatform.environments;
+    if (templates.length === 0) {
+      return [];
+    }
+
+    // Environments are named after the project, so those created by an earlier run are found again
+    const lookup = await this.environmentManager.findProjectEnvironments(templates, project.name);
+    if (!lookup.success) {
+      throw new Error(`Failed to look up existing environments: ${lookup.error}`);
+    }
+
+    const existing = lookup.data;
+    if (existing.size > 0) {
+      const names = [...existing.values()].map(env => env.displayName ?? env.environmentName);
+      this.updateOperation(operationId, 'running', `Using existing environments: ${names.join(', ')}`);
+    }
+
+    const missing = templates.filter(template => !existing.has(template.displayName));
+    const created = await this.createEnvironments(step, missing, operationId, {
+      ...(signal && { signal }),
+      projectName: project.name
+    });
+    return templates
+      .map(template => existing.get(template.displayName) ?? created.find(env =>
+        env.displayName === this.environmentManager.getEnvironmentDisplayName(template, project.name)))
+      .filter((env): env is EnvironmentInfo => env !== undefined);
+  }
+
+  private async createEnvironments(
+    step: WorkflowStep,
+    templates: readonly EnvironmentTemplate[],
+    operationId: string,
+    options: { signal?: AbortSignal; projectName: string }
+  ): Promise<EnvironmentInfo[]> {
+    if (templates.length === 0) {
+      return [];
+    }
+
+    const envResult = await this.environmentManager.createEnvironmentsFromTemplate(templates, {
+      parallel: true,
+      maxConcurrent: 2,
+      ...options
+    });
+
+    if (!envResult.success) {
+      throw new Error(`Failed to create environments: ${envResult.error}`);
+    }
+
+    const environments = envResult.data.environments.map(e => e.environment);
+    environments.forEach(environment => this.recordResource(operationId, {
+      resourceType: 'environment',
+      resourceId: environment.environmentName,
+      displayName: environment.environmentName,
+      stepId: step.id
+    }));
+
+    // Environments created before cancellation are recorded above so that a rollback can remove them
+    this.throwIfCancelled(operationId, options.signal);
+    return environments;
+  }
+
+  private async executePublisherStep(
+    step: WorkflowStep,
+    template: ProjectTemplate,
+    environments: readonly EnvironmentInfo[],
+    operationId: string
+  ): Promise<PublisherStepOutput> {
+    const primaryEnv = environments[0];
+    if (!primaryEnv) {
+      this.updateOperation(operationId, 'running', 'No environment available - skipping publisher creation');
+      return {};
+    }
+
+    const lookup = await this.environmentManager.findPublisher(
+      primaryEnv.environmentUrl,
+      template.powerPlatform.publisher.uniqueName
+    );
+    if (!lookup.success) {
+      throw new Error(`Failed to look up publisher: ${lookup.error}`);
+    }
+
+    const existing = lookup.data;
+    if (existing) {
+      this.updateOperation(operationId, 'running', `Using existing publisher: ${existing.uniqueName}`);
+      await this.applyPlannedUpdate(operationId, 'publisher', existing.uniqueName,
+        (changes: Parameters<EnvironmentManager['updatePublisher']>[2]) =>
+          this.environmentManager.updatePublisher(primaryEnv.environmentUrl, existing.publisherId, changes));
+      return { publisherId: existing.publisherId };
+    }
+
+    this.updateOperation(operationId, 'running', `Creating publisher: ${template.powerPlatform.publisher.uniqueName}`);
+    const publisherResult = await this.environmentManager.createPublisher(
+      primaryEnv.environmentUrl,
+      template.powerPlatform.publisher
+    );
+
+    if (!publisherResult.success) {
+      throw new Error(`Failed to create publisher: ${publisherResult.error}`);
+    }
+
+    this.recordResource(operationId, {
+      resourceType: 'publisher',
+      resourceId: publisherResult.data.publisherId,
+      displayName: publisherResult.data.uniqueName,
+      stepId: step.id,
+      environmentUrl: primaryEnv.environmentUrl
+    });
+
+    return { publisherId: publisherResult.data.publisherId };
+  }
+
+  private async executeSolutionStep(
+    step: WorkflowStep,
+    template: ProjectTemplate,
+    context: WorkflowStepContext,
+    operationId: string
+  ): Promise<SolutionStepOutput> {
+    this.updateOperation(operationId, 'running', 'Creating solutions');
+
+    const primaryEnv = context.getOutputByType<EnvironmentInfo[]>('environment_creation')?.[0];
+    const publisher = context.getOutputByType<PublisherStepOutput>('publisher_creation');
+    if (!primaryEnv || publisher?.publisherId === undefined) {
+      return { solutionsCreated: 0 };
+    }
+
+    const target = { environmentUrl: primaryEnv.environmentUrl, publisherId: publisher.publisherId };
+    let solutionsCreated = 0;
+    for (const solutionTemplate of template.powerPlatform.solutions) {
+      this.throwIfCancelled(operationId, context.signal);
+      if (await this.createOrAdoptSolution(step, solutionTemplate, target, operationId)) {
+        solutionsCreated++;
+      }
+    }
+
+    return { solutionsCreated };
+  }
+
+  /** Returns true when the solution was created, false when it already existed or could not be created */
+  private async createOrAdoptSolution(
+    step: WorkflowStep,
+    solutionTemplate: SolutionTemplate,
+    target: { readonly environmentUrl: string; readonly publisherId: string },
+    operationId: string
+  ): Promise<boolean> {
+    const lookup = await this.solutionManager.findSolution(target.environmentUrl, solutionTemplate.uniqueName);
+    if (!lookup.success) {
+      throw new Error(`Failed to look up solution ${solutionTemplate.uniqueName}: ${lookup.error}`);
+    }
+
+    const existing = lookup.data;
+    if (existing) {
+      this.updateOperation(operationId, 'running', `Using existing solution: ${existing.uniqueName}`);
+      await this.applyPlannedUpdate(operationId, 'solution', existing.uniqueName,
+        (changes: Parameters<SolutionManager['updateSolution']>[2]) =>
+          this.solutionManager.updateSolution(target.environmentUrl, existing.solutionId, changes));
+      return false;
+    }
+
+    const solutionResult = await this.solutionManager.createSolution(
+      target.environmentUrl,
+      solutionTemplate,
+      target.publisherId
+    );
+    if (!solutionResult.success) {
+      return false;
+    }
+
+    this.recordResource(operationId, {
+      resourceType: 'solution',
+      resourceId: solutionResult.data.solution.solutionId,
+      displayName: solutionResult.data.solution.uniqueName,
+      stepId: step.id,
+      environmentUrl: target.environmentUrl
+    });
+    return true;
+  }
+
+  private async executePermissionStep(
+    appRegistration: ProjectCreationResult['appRegistration'],
+    operationId: string
+  ): Promise<{ readonly granted: boolean }> {
+    if (appRegistration?.servicePrincipalId === undefined) {
+      this.updateOperation(operationId, 'running', 'No service principal available - skipping permission assignment');
+      return { granted: false };
+    }
+
+    this.updateOperation(operationId, 'running', 'Configuring service principal permissions');
+    const consentResult = await this.graphClient.grantAdminConsent(
+      appRegistration.servicePrincipalId,
+      '00000007-0000-0000-c000-000000000000'
+    );
+
+    if (!consentResult.success) {
+      throw new Error(`Failed to assign permissions: ${consentResult.error}`);
+    }
+
+    return { granted: true };
+  }
+
+  private async executeApprovalStep(
+    step: WorkflowStep,
+    project: OrchestrationProject,
+    operationId: string,
+    scope: { readonly steps: readonly WorkflowStep[] }
+  ): Promise<ApprovalStepOutput> {
+    const decided = this.activeOperations.get(operationId)?.approvals
+      ?.find(approval => approval.stepId === step.id && approval.decision !== undefined);
+    if (decided?.decision === 'rejected') {
+      const comment = decided.comment !== undefined ? ` - ${decided.comment}` : '';
+      throw new Error(`${step.name} was rejected by ${decided.decidedBy ?? 'an approver'}${comment}`);
+    }
+    if (decided) {
+      return { required: true, ...(decided.decidedBy !== undefined && { approvedBy: decided.decidedBy }) };
+    }
+
+    const reasons = await this.approvalPolicy.evaluate(step, {
+      template: project.template,
+      steps: scope.steps,
+      isNewApplication: () => this.isNewApplication(project.name)
+    });
+    if (reasons.length === 0) {
+      this.updateOperation(operationId, 'running', `${step.name}: no approval required`);
+      return { required: false };
+    }
+
+    this.requestApproval(operationId, step, reasons);
+    throw new WorkflowApprovalRequiredError(step.id);
+  }
+
+  private executeNotSupportedStep(step: WorkflowStep, operationId: string): Promise<undefined> {
+    this.updateOperation(operationId, 'running', `${step.name} is not automated yet - configure it manually`);
+    return Promise.resolve(undefined);
+  }
+
+  private executeNotificationStep(
+    step: WorkflowStep,
+    project: OrchestrationProject,
+    operationId: string
+  ): Promise<undefined> {
+    this.updateOperation(operationId, 'running', `${step.name}: project ${project.name} is ready`);
+    return Promise.resolve(undefined);
+  }
+
+  // ============================================================================
+  // Operation Management
+  // ============================================================================
+
+  async getOperationStatus(operationId: string): Promise<OrchestrationResponse<GetOperationStatusResponse>> {
+    try {
+      const operation = await this.readOperation(operationId);
+      
+      if (!operation) {
+        return {
+          success: false,
+          error: `Operation ${operationId} not found`
+        };
+      }
+
+      const response: GetOperationStatusResponse = {
+        operationId: operation.operationId,
+        status: operation.status,
+        startedAt: operation.startedAt.toISOString(),
+        ...(operation.completedAt && { completedAt: operation.completedAt.toISOString() }),
+        progress: operation.progress,
+        logs: operation.logs,
+        ...(operation.rollback && { rollback: this.toRollbackReport(operation.rollback) }),
+        ...(operation.approvals && { approvals: operation.approvals.map(toOperationApproval) })
+      };
+
+      return { success: true, data: response };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  async listOperations(query?: OperationQuery): Promise<OrchestrationResponse<ListOperationsResponse>> {
+    try {
+      await this.persistence;
+      const operations = await this.operationStore.listOperations(query);
+      return {
+        success: true,
+        data: { operations: operations.map(operation => this.toOperationSummary(operation)) }
       };
-    } else {
-      // Would create new project here in real implementation
-      projectInfo = {
-        projectId: 'new-project-id',
-        projectUrl: `https://dev.azure.com/${this.config.azureDevOps.organization}/${project.name}`,
-        organizationUrl: `https://dev.azure.com/${this.config.azureDevOps.organization}`
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
       };
     }
+  }
 
-    // Create work items from template
-    this.updateOperation(operationId, 'running', 'Creating work items');
-    
-    const parser = new SProjectTemplateParser(
-      SProjectTemplateParser.createDefaultConfig(project.name)
-    );
-    
-    // Convert our template to S-Project format (simplified)
-    const sProjectTemplate = this.convertToSProjectTemplate(template);
-    const parseResult = parser.parseTemplate(sProjectTemplate);
-    
-    const orchestrator = new WorkItemOrchestrator(
-      this.azureDevOpsClient,
-      WorkItemOrchestrator.createDefaultConfig(project.name)
-    );
-    
-    const workItemResult = await orchestrator.orchestrateWorkItemCreation(
-      parseResult.batch,
-      parseResult.relationships
-    );
+  async getOperationAudit(operationId: string): Promise<OrchestrationResponse<OperationAuditResponse>> {
+    try {
+      const operation = await this.readOperation(operationId);
+      if (!operation) {
+        return { success: false, error: `Operation ${operationId} not found` };
+      }
 
-    return {
-      projectId: projectInfo.projectId,
-      projectUrl: projectInfo.projectUrl,
-      workItemsCreated: workItemResult.workItemsCreated.length,
-      ...(projectInfo.repositoryUrl && { repositoryUrl: projectInfo.repositoryUrl })
-    };
+      const resources = await this.operationStore.listResources(operationId);
+      const response: OperationAuditResponse = {
+        operation: this.toOperationSummary(operation),
+        logs: operation.logs,
+        resources: resources.map(resource => ({
+          resourceType: resource.resourceType,
+          resourceId: resource.resourceId,
+          displayName: resource.displayName,
+          stepId: resource.stepId,
+          createdAt: resource.createdAt.toISOString(),
+          ...(resource.environmentUrl !== undefined && { environmentUrl: resource.environmentUrl })
+        })),
+        ...(operation.rollback && { rollback: this.toRollbackReport(operation.rollback) }),
+        ...(operation.teardown && { teardown: this.toRollbackReport(operation.teardown) }),
+        ...(operation.approvals && { approvals: operation.approvals.map(toOperationApproval) })
+      };
+
+      return { success: true, data: response };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
   }
 
-  private async executePowerPlatformPhase(
-    _project: OrchestrationProject,
-    template: ProjectTemplate,
-    operationId: string
-  ): Promise<ProjectCreationResult['powerPlatform']> {
-    this.updateOperation(operationId, 'running', 'Creating Power Platform environments');
-    
-    const environments: EnvironmentInfo[] = [];
-    
-    // Create environments from template
-    if (template.powerPlatform.environments.length > 0) {
-      const envResult = await this.environmentManager.createEnvironmentsFromTemplate(
-        template.powerPlatform.environments,
-        { parallel: true, maxConcurrent: 2 }
-      );
+  /**
+   * Delivers an operation's events to the listener, starting with those after lastEventId that are
+   * still in the history. An operation that is not running in this process and has no history,
+   * for example one that finished before a restart, replays only its final state.
+   */
+  async subscribeToOperation(
+    operationId: string,
+    listener: OperationEventListener,
+    lastEventId?: number
+  ): Promise<OrchestrationResponse<() => void>> {
+    try {
+      const operation = await this.readOperation(operationId);
+      if (!operation) {
+        return { success: false, error: `Operation ${operationId} not found` };
+      }
 
-      if (envResult.success) {
-        environments.push(...envResult.data.environments.map(e => e.environment));
+      if (!this.activeOperations.has(operationId) && !this.events.hasHistory(operationId)) {
+        this.events.publish(operationId, 'result', this.toResultEventData(operation));
       }
-    }
 
-    // Create solutions
-    this.updateOperation(operationId, 'running', 'Creating solutions');
-    
-    let solutionsCreated = 0;
-    let publisherId: string | undefined;
+      return { success: true, data: this.events.subscribe(operationId, listener, lastEventId) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
 
-    if (template.powerPlatform.solutions.length > 0 && environments.length > 0) {
-      const primaryEnv = environments[0]!;
-      
-      // Create publisher first
-      const publisherResult = await this.environmentManager.createPublisher(
-        primaryEnv.environmentUrl,
-        template.powerPlatform.publisher
-      );
+  private toResultEventData(operation: OperationProgress): OperationResultEventData {
+    return {
+      status: operation.status,
+      ...(operation.completedAt && { completedAt: operation.completedAt.toISOString() })
+    };
+  }
 
-      if (publisherResult.success) {
-        publisherId = publisherResult.data.publisherId;
-        
-        // Create solutions
-        for (const solutionTemplate of template.powerPlatform.solutions) {
-          const solutionResult = await this.solutionManager.createSolution(
-            primaryEnv.environmentUrl,
-            solutionTemplate,
-            publisherId
-          );
-          
-          if (solutionResult.success) {
-            solutionsCreated++;
-          }
-        }
-      }
-    }
+  private async readOperation(operationId: string): Promise<OperationProgress | undefined> {
+    // Wait for queued writes so reads reflect everything recorded so far
+    await this.persistence;
+    return this.operationStore.getOperation(operationId);
+  }
 
+  private toOperationSummary(operation: OperationProgress): OperationSummary {
     return {
-      environments,
-      solutionsCreated,
-      ...(publisherId && { publisherId })
+      operationId: operation.operationId,
+      projectName: operation.projectName,
+      status: operation.status,
+      startedAt: operation.startedAt.toISOString(),
+      ...(operation.workflowId !== undefined && { workflowId: operation.workflowId }),
+      ...(operation.completedAt && { completedAt: operation.completedAt.toISOString() })
     };
   }
 
   // ============================================================================
-  // Operation Management
+  // Template Queries
   // ============================================================================
 
-  async getOperationStatus(operationId: string): Promise<OrchestrationResponse<GetOperationStatusResponse>> {
-    const operation = this.activeOperations.get(operationId);
-    
-    if (!operation) {
+  async listTemplates(): Promise<OrchestrationResponse<ListTemplatesResponse>> {
+    try {
+      const templates = await this.templateRegistry.listTemplates();
+      return {
+        success: true,
+        data: { templates: templates.map(template => this.toTemplateSummary(template)) }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  async getTemplateDetails(templateName: string): Promise<OrchestrationResponse<TemplateDetailsResponse>> {
+    try {
+      const template = await this.loadProjectTemplate(templateName);
+      if (!template) {
+        return { success: false, error: `Template '${templateName}' not found` };
+      }
+
+      const { azureDevOps, powerPlatform } = template;
+      return {
+        success: true,
+        data: {
+          ...this.toTemplateSummary(template),
+          author: template.metadata.author,
+          complexity: template.metadata.complexity,
+          estimatedDuration: template.metadata.estimatedDuration,
+          workflowId: this.selectWorkflow(templateName, template).id,
+          azureDevOps: {
+            processTemplate: azureDevOps.project.processTemplate,
+            visibility: azureDevOps.project.visibility,
+            workItems: azureDevOps.workItems.length,
+            iterations: azureDevOps.iterations.length,
+            epics: this.toEpicSummaries(azureDevOps.workItems)
+          },
+          powerPlatform: {
+            publisher: powerPlatform.publisher.uniqueName,
+            environments: powerPlatform.environments.map(env => this.toEnvironmentSummary(env)),
+            solutions: powerPlatform.solutions.map(solution => solution.uniqueName),
+            ...this.toDataModelSummary(template.dataModel ?? powerPlatform.dataModel)
+          }
+        }
+      };
+    } catch (error) {
       return {
         success: false,
-        error: `Operation ${operationId} not found`
+        error: error instanceof Error ? error.message : String(error)
       };
     }
+  }
 
-    const response: GetOperationStatusResponse = {
-      operationId: operation.operationId,
-      status: operation.status,
-      startedAt: operation.startedAt.toISOString(),
-      ...(operation.completedAt && { completedAt: operation.completedAt.toISOString() }),
-      progress: operation.progress,
-      logs: operation.logs
+  /**
+   * Checks parameter values against the template's declarations and the expressions that
+   * reference them, without starting an operation.
+   */
+  async validateTemplateParameters(
+    templateName: string,
+    parameters: Record<string, unknown>
+  ): Promise<OrchestrationResponse<ValidateTemplateResponse>> {
+    try {
+      const template = await this.loadProjectTemplate(templateName);
+      if (!template) {
+        return { success: false, error: `Template '${templateName}' not found` };
+      }
+
+      const { template: interpolated, errors } = this.evaluateTemplate(template, parameters);
+      return {
+        success: true,
+        data: {
+          valid: errors.length === 0,
+          errors: errors.map(error => ({
+            field: error.field,
+            ...(error.field.startsWith('parameters.') && { parameter: error.field.slice('parameters.'.length) }),
+            message: error.message,
+            code: error.code,
+            ...(error.value !== undefined && { value: error.value })
+          })),
+          environments: interpolated.powerPlatform.environments.map(env => this.toEnvironmentSummary(env))
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private toEnvironmentSummary(env: EnvironmentTemplate): TemplateDetailsResponse['powerPlatform']['environments'][number] {
+    return { displayName: env.displayName, type: env.type, region: env.region, sku: env.sku };
+  }
+
+  /** Groups the template's features under the epics they name as parent */
+  private toEpicSummaries(workItems: readonly WorkItemTemplate[]): TemplateDetailsResponse['azureDevOps']['epics'] {
+    const features = workItems.filter(workItem => workItem.type === 'Feature');
+    return workItems
+      .filter(workItem => workItem.type === 'Epic')
+      .map(epic => ({
+        ...this.toWorkItemSummary(epic),
+        features: features
+          .filter(feature => feature.parentWorkItem === epic.title)
+          .map(feature => this.toWorkItemSummary(feature))
+      }));
+  }
+
+  private toDataModelSummary(
+    dataModel: DataModelTemplate | undefined
+  ): Pick<TemplateDetailsResponse['powerPlatform'], 'tables' | 'relationships'> {
+    return {
+      tables: (dataModel?.tables ?? []).map(table => ({
+        schemaName: table.schemaName,
+        displayName: table.displayName,
+        ...(table.description !== undefined && { description: table.description })
+      })),
+      relationships: (dataModel?.relationships ?? []).map(relationship => ({
+        schemaName: relationship.schemaName,
+        relationshipType: relationship.relationshipType,
+        referencedTable: relationship.referencedTable,
+        referencingTable: relationship.referencingTable
+      }))
     };
+  }
 
-    return { success: true, data: response };
+  private toWorkItemSummary(workItem: WorkItemTemplate): TemplateWorkItemSummary {
+    return {
+      title: workItem.title,
+      ...(workItem.description !== undefined && { description: workItem.description })
+    };
+  }
+
+  private toTemplateSummary(template: ProjectTemplate): TemplateSummary {
+    return {
+      name: template.metadata.name,
+      displayName: template.metadata.displayName,
+      description: template.metadata.description,
+      version: template.metadata.version,
+      category: template.metadata.category,
+      tags: template.metadata.tags,
+      parameters: template.parameters.map(parameter => ({
+        name: parameter.name,
+        displayName: parameter.displayName,
+        description: parameter.description,
+        type: parameter.type,
+        required: parameter.required,
+        ...(parameter.defaultValue !== undefined && { defaultValue: parameter.defaultValue }),
+        ...(parameter.allowedValues !== undefined && { allowedValues: parameter.allowedValues }),
+        ...(parameter.validation !== undefined && { validation: parameter.validation })
+      }))
+    };
   }
 
   // ============================================================================
@@ -603,49 +2306,48 @@ export class ProjectOrchestrator {
   // ============================================================================
 
   private async loadProjectTemplate(templateName: string): Promise<ProjectTemplate | null> {
-    // In a real implementation, this would load from a template repository
-    // For now, return a default template structure
-    
-    const defaultTemplate: ProjectTemplate = {
-      metadata: {
-        name: templateName,
-        displayName: templateName,
-        description: 'Default project template',
-        version: '1.0.0',
-        author: 'System',
-        tags: ['default'],
-        category: 'standard',
-        estimatedDuration: '4 weeks',
-        complexity: 'moderate'
-      },
-      azureDevOps: {
-        project: {
-          processTemplate: 'Agile',
-          visibility: 'private',
-          capabilities: {
-            versionControl: { sourceControlType: 'Git' },
-            processTemplate: { templateTypeId: 'adcc42ab-9882-485e-a3ed-7678f01f66bc', templateName: 'Agile' }
-          }
-        },
-        workItems: [],
-        repositories: [],
-        pipelines: [],
-        iterations: []
-      },
-      powerPlatform: {
-        publisher: {
-          uniqueName: 'default_publisher',
-          friendlyName: 'Default Publisher',
-          customizationPrefix: 'def',
-          customizationOptionValuePrefix: 10000
-        },
-        solutions: [],
-        environments: []
-      },
-      parameters: []
-    };
+    return (await this.templateRegistry.getTemplate(templateName)) ?? null;
+  }
+
+  /** Loads the template and substitutes the request's parameter values */
+  private async resolveTemplate(request: CreateProjectApiRequest): Promise<OrchestrationResponse<ProjectTemplate>> {
+    const loaded = await this.loadProjectTemplate(request.templateName);
+    return loaded
+      ? this.applyTemplateParameters(loaded, request)
+      : { success: false, error: `Template '${request.templateName}' not found` };
+  }
+
+  private applyTemplateParameters(
+    template: ProjectTemplate,
+    request: CreateProjectApiRequest
+  ): OrchestrationResponse<ProjectTemplate> {
+    // The request's project name always wins over a projectName customization value
+    const { template: interpolated, errors } = this.evaluateTemplate(template, {
+      ...request.customization,
+      projectName: request.projectName
+    });
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Template '${request.templateName}' validation failed: ${errors.map(e => `${e.field}: ${e.message}`).join('; ')}`
+      };
+    }
+
+    return { success: true, data: interpolated };
+  }
+
+  private evaluateTemplate(
+    template: ProjectTemplate,
+    parameters: Record<string, unknown>
+  ): { template: ProjectTemplate; errors: ValidationError[] } {
+    const validation = CompositeValidator.validateTemplateWithParameters(template, parameters);
+    const interpolation = interpolateTemplate(template, CompositeValidator.applyParameterDefaults(template, parameters));
 
-    return defaultTemplate;
+    return {
+      template: interpolation.template,
+      errors: [...validation.errors, ...interpolation.errors]
+    };
   }
 
   private convertToSProjectTemplate(template: ProjectTemplate): any {
@@ -675,8 +2377,7 @@ export class ProjectOrchestrator {
   private createProjectFromTemplate(
     operationId: string,
     projectName: string,
-    template: ProjectTemplate,
-    _customization?: Record<string, unknown>
+    template: ProjectTemplate
   ): OrchestrationProject {
     return {
       id: operationId,
@@ -692,17 +2393,19 @@ export class ProjectOrchestrator {
   }
 
   private performDryRun(
-    _request: CreateProjectApiRequest,
-    operationId: string
+    workflow: WorkflowDefinition,
+    operationId: string,
+    options: OrchestrationOptions
   ): OrchestrationResponse<CreateProjectApiResponse> {
     console.log('🏃 Performing dry run - no resources will be created');
     
+    const totalSteps = this.calculateTotalSteps(workflow, options);
     const response: CreateProjectApiResponse = {
       operationId,
       status: 'completed',
       progress: {
-        totalSteps: 10,
-        completedSteps: 10,
+        totalSteps,
+        completedSteps: totalSteps,
         currentStep: 'Dry run completed'
       },
       result: {
@@ -714,26 +2417,64 @@ export class ProjectOrchestrator {
       }
     };
 
+    this.completeOperation(operationId, 'completed', { dryRun: true, totalSteps });
     return { success: true, data: response };
   }
 
-  private calculateTotalSteps(template: ProjectTemplate, options?: OrchestrationOptions): number {
-    let steps = 0;
-    
-    if (!options?.skipAppRegistration) steps += 2; // App + Service Principal
-    if (!options?.skipAzureDevOps) steps += 3; // Project + Work Items + Repository
-    if (!options?.skipPowerPlatform) steps += template.powerPlatform.environments.length + template.powerPlatform.solutions.length + 1; // Environments + Solutions + Publisher
-    
+  private calculateTotalSteps(workflow: WorkflowDefinition, options?: OrchestrationOptions): number {
+    const steps = workflow.steps.filter(step => !this.isStepSkipped(step, options)).length;
     return Math.max(steps, 1);
   }
 
+  private async findIdempotentOperation(idempotencyKey: string): Promise<OperationProgress | undefined> {
+    await this.persistence;
+    const [stored] = await this.operationStore.listOperations({ idempotencyKey, limit: 1 });
+
+    // Checked after the store so no await separates this lookup from claiming the key
+    const activeId = this.idempotencyKeys.get(idempotencyKey);
+    return (activeId !== undefined ? this.activeOperations.get(activeId) : undefined) ?? stored;
+  }
+
+  private replayOperation(
+    original: OperationProgress,
+    request: CreateProjectApiRequest,
+    idempotencyKey: string
+  ): OrchestrationResponse<CreateProjectApiResponse> {
+    if (canonicalJson(original.request) !== canonicalJson(request)) {
+      return {
+        success: false,
+        error: `Idempotency key ${idempotencyKey} was already used for a different request (operation ${original.operationId})`
+      };
+    }
+
+    console.log(`♻️ Returning operation ${original.operationId} for idempotency key ${idempotencyKey}`);
+    return {
+      success: true,
+      data: { operationId: original.operationId, status: original.status, progress: original.progress }
+    };
+  }
+
   private generateOperationId(): string {
     return `proj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private initializeOperation(operationId: string, projectName: string): OperationProgress {
+  private generatePlanId(): string {
+    return `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private initializeOperation(
+    operationId: string,
+    request: CreateProjectApiRequest,
+    options: OrchestrationOptions | undefined,
+    idempotencyKey?: string
+  ): OperationProgress {
+    const projectName = request.projectName;
     const operation: OperationProgress = {
       operationId,
+      projectName,
+      request,
+      ...(options && { options }),
+      ...(idempotencyKey !== undefined && { idempotencyKey }),
       status: 'started',
       currentPhase: 'Initialization',
       progress: {
@@ -748,10 +2489,13 @@ export class ProjectOrchestrator {
           message: `Starting project creation: ${projectName}`
         }
       ],
+      steps: [],
       startedAt: new Date()
     };
 
-    this.activeOperations.set(operationId, operation);
+    this.storeOperation(operation);
+    operation.logs.forEach(entry => this.events.publish(operationId, 'log', entry));
+    this.resourceLedgers.set(operationId, new CompensationLedger());
     return operation;
   }
 
@@ -759,23 +2503,67 @@ export class ProjectOrchestrator {
     const operation = this.activeOperations.get(operationId);
     if (!operation) return;
 
-    const updatedOperation: OperationProgress = {
-      ...operation,
-      status,
-      logs: [
-        ...operation.logs,
-        {
-          timestamp: new Date().toISOString(),
-          level: 'info',
-          message
-        }
-      ]
+    const entry: OperationProgress['logs'][number] = {
+      timestamp: new Date().toISOString(),
+      level: 'info',
+      message
     };
 
-    this.activeOperations.set(operationId, updatedOperation);
+    this.storeOperation({ ...operation, status, logs: [...operation.logs, entry] });
+    this.events.publish(operationId, 'log', entry);
     console.log(`[${operationId}] ${message}`);
   }
 
+  private setOperationWorkflow(operationId: string, workflow: WorkflowDefinition, template: ProjectTemplate): void {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) return;
+
+    const progress = { ...operation.progress, totalSteps: workflow.steps.length };
+    this.storeOperation({ ...operation, workflowId: workflow.id, template, progress });
+    this.publishProgress(operationId, progress);
+  }
+
+  private recordStepExecution(
+    operationId: string,
+    step: WorkflowStep,
+    stepExecution: WorkflowStepExecution
+  ): void {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) return;
+
+    const steps = [
+      ...operation.steps.filter(s => s.stepId !== step.id),
+      stepExecution
+    ];
+    const finishedSteps = steps.filter(s => s.status === 'completed' || s.status === 'skipped').length;
+    const isActive = stepExecution.status === 'running' || stepExecution.status === 'retrying';
+    const progress = {
+      ...operation.progress,
+      completedSteps: finishedSteps,
+      ...(isActive && { currentStep: step.name })
+    };
+
+    this.storeOperation({ ...operation, currentPhase: step.phase, steps, progress });
+    this.events.publish(operationId, 'step', {
+      stepId: step.id,
+      name: step.name,
+      phase: step.phase,
+      status: stepExecution.status,
+      attempt: stepExecution.attempt,
+      ...(stepExecution.error !== undefined && { error: stepExecution.error })
+    });
+    if (progress.completedSteps !== operation.progress.completedSteps || progress.currentStep !== operation.progress.currentStep) {
+      this.publishProgress(operationId, progress);
+    }
+  }
+
+  private publishProgress(operationId: string, progress: OperationProgress['progress']): void {
+    this.events.publish(operationId, 'progress', {
+      ...progress,
+      percentage: progress.totalSteps > 0 ? Math.round((progress.completedSteps / progress.totalSteps) * 100) : 0
+    });
+  }
+
   private completeOperation(
     operationId: string,
     status: OperationStatus,
@@ -785,7 +2573,40 @@ export class ProjectOrchestrator {
     const operation = this.activeOperations.get(operationId);
     if (!operation) return;
 
-    const logEntry = {
+    const entry = this.createCompletionLogEntry(status, result, error);
+    const completedOperation: OperationProgress = {
+      ...operation,
+      status,
+      completedAt: new Date(),
+      logs: [...operation.logs, entry]
+    };
+    
+    this.storeOperation(completedOperation);
+    this.activeOperations.delete(operationId);
+
+    this.events.publish(operationId, 'log', entry);
+    this.events.publish(operationId, 'result', {
+      ...this.toResultEventData(completedOperation),
+      ...(result !== undefined && { result }),
+      ...(error instanceof Error && { error: error.message })
+    });
+  }
+
+  private createCompletionLogEntry(
+    status: OperationStatus,
+    result?: any,
+    error?: any
+  ): OperationProgress['logs'][number] {
+    if (status === 'cancelled') {
+      return {
+        timestamp: new Date().toISOString(),
+        level: 'warn',
+        message: 'Project creation cancelled',
+        details: error
+      };
+    }
+
+    return {
       timestamp: new Date().toISOString(),
       level: (status === 'failed' ? 'error' : 'info') as LogLevel,
       message: status === 'failed' 
@@ -793,16 +2614,34 @@ export class ProjectOrchestrator {
         : 'Project creation completed successfully',
       details: error || result
     };
+  }
 
-    const completedOperation: OperationProgress = {
-      ...operation,
-      status,
-      completedAt: new Date(),
-      logs: [...operation.logs, logEntry]
-    };
-    
-    this.activeOperations.set(operationId, completedOperation);
+  private storeOperation(operation: OperationProgress): void {
+    this.activeOperations.set(operation.operationId, operation);
+    this.enqueuePersistence(() => this.operationStore.saveOperation(operation));
   }
+
+  private enqueuePersistence(write: () => Promise<void>): void {
+    // Writes are applied in order; a failed write is logged and does not block later ones
+    this.persistence = this.persistence
+      .then(write)
+      .catch(error => console.error('❌ Failed to persist operation state:', error));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Serialises a value with the keys of every object sorted, so that key order does not matter */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) {
+      return nested;
+    }
+    const record = nested as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+  });
 }
 
 export default ProjectOrchestrator;
\ No newline at end of file
@@ -0,0 +1,336 @@
+// Project Planner - Compares a resolved project template against the live tenant
+// Lists each resource as create, update, no-op or conflict before anything is changed
+
+import AzureDevOpsClient from '../integrations/azure-devops/azure-devops-client';
+import EnvironmentManager from '../integrations/power-platform/environment-manager';
+import SolutionManager from '../integrations/power-platform/solution-manager';
+import MicrosoftGraphClient, { ApplicationDetails } from '../integrations/microsoft-graph/graph-client';
+import { AzureDevOpsProject } from '../types/azure-devops-interfaces';
+import {
+  DataversePublisher,
+  DataverseSolution,
+  EnvironmentInfo,
+  OrchestrationProject
+} from '../types/data-models';
+import { PlanDifference, PlannedResourceChange } from '../types/api-contracts';
+import { CompensableResourceType } from './compensation';
+
+// ============================================================================
+// Planner Types
+// ============================================================================
+
+export interface ProjectPlannerClients {
+  readonly azureDevOps: AzureDevOpsClient;
+  readonly environments: EnvironmentManager;
+  readonly solutions: SolutionManager;
+  readonly graph: MicrosoftGraphClient;
+}
+
+export type PlannedProject = Pick<OrchestrationProject, 'name' | 'description' | 'template'>;
+
+export interface PlanScope {
+  readonly skipAzureDevOps?: boolean;
+  readonly skipPowerPlatform?: boolean;
+  readonly skipAppRegistration?: boolean;
+}
+
+/** Existing resources found while planning, keyed the way the workflow steps look them up */
+export interface LiveProjectState {
+  readonly azureDevOpsProject?: AzureDevOpsProject;
+  /** Keyed by the template's environment display name */
+  readonly environments: ReadonlyMap<string, EnvironmentInfo>;
+  readonly publisher?: DataversePublisher;
+  /** Keyed by solution unique name */
+  readonly solutions: ReadonlyMap<string, DataverseSolution>;
+  readonly application?: ApplicationDetails;
+}
+
+export interface ProjectPlan {
+  readonly changes: readonly PlannedResourceChange[];
+  readonly state: LiveProjectState;
+}
+
+interface PlanState {
+  azureDevOpsProject?: AzureDevOpsProject;
+  environments: Map<string, EnvironmentInfo>;
+  publisher?: DataversePublisher;
+  solutions: Map<string, DataverseSolution>;
+  application?: ApplicationDetails;
+}
+
+const SKIPPED_REASON = 'Skipped by request options';
+
+// ============================================================================
+// Project Planner
+// ============================================================================
+
+/**
+ * Changes are listed in workflow order: Azure DevOps project, environments in template order,
+ * publisher, solutions and the app registration. Publishers and solutions live in the first
+ * environment, so they are always created when that environment is.
+ */
+export class ProjectPlanner {
+  private readonly clients: ProjectPlannerClients;
+
+  constructor(clients: ProjectPlannerClients) {
+    this.clients = clients;
+  }
+
+  async plan(project: PlannedProject, scope: PlanScope = {}): Promise<ProjectPlan> {
+    const state: PlanState = { environments: new Map(), solutions: new Map() };
+    const changes: PlannedResourceChange[] = [];
+
+    changes.push(scope.skipAzureDevOps === true
+      ? skipped('azure_devops_project', project.name)
+      : await this.planAzureDevOpsProject(project, state));
+
+    changes.push(...scope.skipPowerPlatform === true
+      ? this.listPowerPlatformResources(project).map(([type, name]) => skipped(type, name))
+      : await this.planPowerPlatform(project, state));
+
+    changes.push(scope.skipAppRegistration === true
+      ? skipped('app_registration', ProjectPlanner.applicationName(project.name))
+      : await this.planAppRegistration(project, state));
+
+    return { changes, state };
+  }
+
+  /**
+   * Returns `resourceType name` for every resource whose planned change differs between two
+   * plans of the same project, including resources that only appear in one of them.
+   */
+  static compareChanges(
+    planned: readonly PlannedResourceChange[],
+    current: readonly PlannedResourceChange[]
+  ): string[] {
+    const keyOf = (change: PlannedResourceChange): string => `${change.resourceType} ${change.name}`;
+    const currentByKey = new Map(current.map(change => [keyOf(change), change]));
+    const plannedKeys = new Set(planned.map(keyOf));
+
+    return [
+      ...planned
+        .filter(change => JSON.stringify(change) !== JSON.stringify(currentByKey.get(keyOf(change))))
+        .map(keyOf),
+      ...current.map(keyOf).filter(key => !plannedKeys.has(key))
+    ];
+  }
+
+  static applicationName(projectName: string): string {
+    return `${projectName} Service Principal`;
+  }
+
+  // ============================================================================
+  // Azure DevOps
+  // ============================================================================
+
+  private async planAzureDevOpsProject(project: PlannedProject, state: PlanState): Promise<PlannedResourceChange> {
+    const result = await this.clients.azureDevOps.getProject(project.name);
+    if (!result.success) {
+      if (result.error.startsWith('PROJECT_NOT_FOUND')) {
+        return { resourceType: 'azure_devops_project', name: project.name, action: 'create' };
+      }
+      throw new Error(`Failed to look up Azure DevOps project ${project.name}: ${result.error}`);
+    }
+
+    state.azureDevOpsProject = result.data;
+    return compared('azure_devops_project', project.name, result.data.id, [
+      difference('description', result.data.description ?? '', project.description),
+      difference('visibility', result.data.visibility, project.template.azureDevOps.project.visibility)
+    ]);
+  }
+
+  // ============================================================================
+  // Power Platform
+  // ============================================================================
+
+  private listPowerPlatformResources(project: PlannedProject): Array<[CompensableResourceType, string]> {
+    const { environments, publisher, solutions } = project.template.powerPlatform;
+    return [
+      ...environments.map((env): [CompensableResourceType, string] =>
+        ['environment', this.clients.environments.getEnvironmentDisplayName(env, project.name)]),
+      ['publisher', publisher.uniqueName],
+      ...solutions.map((solution): [CompensableResourceType, string] => ['solution', solution.uniqueName])
+    ];
+  }
+
+  private async planPowerPlatform(project: PlannedProject, state: PlanState): Promise<PlannedResourceChange[]> {
+    const environmentChanges = await this.planEnvironments(project, state);
+    const { publisher, solutions } = project.template.powerPlatform;
+    const primaryTemplate = project.template.powerPlatform.environments[0];
+
+    if (!primaryTemplate) {
+      const reason = 'The template defines no environment to create it in';
+      return [
+        { resourceType: 'publisher', name: publisher.uniqueName, action: 'no-op', reason },
+        ...solutions.map((s): PlannedResourceChange => ({ resourceType: 'solution', name: s.uniqueName, action: 'no-op', reason }))
+      ];
+    }
+
+    const primaryEnv = state.environments.get(primaryTemplate.displayName);
+    if (!primaryEnv) {
+      const reason = `Created in the new environment ${primaryTemplate.displayName}`;
+      return [
+        ...environmentChanges,
+        { resourceType: 'publisher', name: publisher.uniqueName, action: 'create', reason },
+        ...solutions.map((s): PlannedResourceChange => ({ resourceType: 'solution', name: s.uniqueName, action: 'create', reason }))
+      ];
+    }
+
+    return [
+      ...environmentChanges,
+      await this.planPublisher(project, primaryEnv, state),
+      ...await this.planSolutions(project, primaryEnv, state)
+    ];
+  }
+
+  private async planEnvironments(project: PlannedProject, state: PlanState): Promise<PlannedResourceChange[]> {
+    const templates = project.template.powerPlatform.environments;
+    const result = await this.clients.environments.findProjectEnvironments(templates, project.name);
+    if (!result.success) {
+      throw new Error(`Failed to list environments: ${result.error}`);
+    }
+
+    return templates.map(template => {
+      const name = this.clients.environments.getEnvironmentDisplayName(template, project.name);
+      const existing = result.data.get(template.displayName);
+      if (!existing) {
+        return { resourceType: 'environment', name, action: 'create' };
+      }
+
+      state.environments.set(template.displayName, existing);
+      const conflicts = [
+        difference('region', existing.region.toLowerCase(), template.region.toLowerCase()),
+        difference('sku', existing.sku?.toLowerCase(), template.sku.toLowerCase())
+      ].filter(isDefined);
+
+      return conflicts.length > 0
+        ? conflict({ resourceType: 'environment', name, existingId: existing.environmentName }, conflicts,
+          'Region and SKU cannot be changed on an existing environment')
+        : { resourceType: 'environment', name, action: 'no-op', existingId: existing.environmentName };
+    });
+  }
+
+  private async planPublisher(
+    project: PlannedProject,
+    primaryEnv: EnvironmentInfo,
+    state: PlanState
+  ): Promise<PlannedResourceChange> {
+    const template = project.template.powerPlatform.publisher;
+    const result = await this.clients.environments.findPublisher(primaryEnv.environmentUrl, template.uniqueName);
+    if (!result.success) {
+      throw new Error(`Failed to look up publisher ${template.uniqueName}: ${result.error}`);
+    }
+
+    const existing = result.data;
+    if (!existing) {
+      return { resourceType: 'publisher', name: template.uniqueName, action: 'create' };
+    }
+
+    state.publisher = existing;
+    if (existing.customizationPrefix !== template.customizationPrefix) {
+      return conflict({ resourceType: 'publisher', name: template.uniqueName, existingId: existing.publisherId }, [
+        { field: 'customizationPrefix', current: existing.customizationPrefix, desired: template.customizationPrefix }
+      ], 'The customization prefix of an existing publisher cannot be changed');
+    }
+
+    return compared('publisher', template.uniqueName, existing.publisherId, [
+      difference('friendlyName', existing.friendlyName, template.friendlyName),
+      difference('description', existing.description, template.description ?? template.friendlyName)
+    ]);
+  }
+
+  private async planSolutions(
+    project: PlannedProject,
+    primaryEnv: EnvironmentInfo,
+    state: PlanState
+  ): Promise<PlannedResourceChange[]> {
+    const changes: PlannedResourceChange[] = [];
+    const lookups = await Promise.all(project.template.powerPlatform.solutions.map(async template => ({
+      template,
+      result: await this.clients.solutions.findSolution(primaryEnv.environmentUrl, template.uniqueName)
+    })));
+
+    for (const { template, result } of lookups) {
+      if (!result.success) {
+        throw new Error(`Failed to look up solution ${template.uniqueName}: ${result.error}`);
+      }
+
+      const existing = result.data;
+      if (!existing) {
+        changes.push({ resourceType: 'solution', name: template.uniqueName, action: 'create' });
+        continue;
+      }
+
+      state.solutions.set(template.uniqueName, existing);
+      changes.push(existing.publisherId === state.publisher?.publisherId
+        ? compared('solution', template.uniqueName, existing.solutionId, [
+          difference('friendlyName', existing.friendlyName, template.friendlyName),
+          difference('description', existing.description, template.description),
+          difference('version', existing.version, template.version)
+        ])
+        : conflict({ resourceType: 'solution', name: template.uniqueName, existingId: existing.solutionId }, [
+          { field: 'publisherId', current: existing.publisherId, desired: state.publisher?.publisherId }
+        ], 'The solution belongs to a different publisher'));
+    }
+
+    return changes;
+  }
+
+  // ============================================================================
+  // App Registration
+  // ============================================================================
+
+  private async planAppRegistration(project: PlannedProject, state: PlanState): Promise<PlannedResourceChange> {
+    const name = ProjectPlanner.applicationName(project.name);
+    const result = await this.clients.graph.findApplicationByDisplayName(name);
+    if (!result.success) {
+      throw new Error(`Failed to look up application ${name}: ${result.error}`);
+    }
+
+    if (!result.data) {
+      return { resourceType: 'app_registration', name, action: 'create' };
+    }
+
+    state.application = result.data;
+    return { resourceType: 'app_registration', name, action: 'no-op', existingId: result.data.id };
+  }
+}
+
+// ============================================================================
+// Change Helpers
+// ============================================================================
+
+export function difference(field: string, current: unknown, desired: unknown): PlanDifference | undefined {
+  // Values the template leaves unset are not managed by the plan
+  return desired === undefined || current === desired ? undefined : { field, current, desired };
+}
+
+function compared(
+  resourceType: CompensableResourceType,
+  name: string,
+  existingId: string,
+  differences: ReadonlyArray<PlanDifference | undefined>
+): PlannedResourceChange {
+  const changed = differences.filter(isDefined);
+  return changed.length === 0
+    ? { resourceType, name, action: 'no-op', existingId }
+    : { resourceType, name, action: 'update', existingId, differences: changed };
+}
+
+function conflict(
+  resource: { resourceType: CompensableResourceType; name: string; existingId: string },
+  differences: readonly PlanDifference[],
+  reason: string
+): PlannedResourceChange {
+  return { resourceType: resource.resourceType, name: resource.name, action: 'conflict', reason, existingId: resource.existingId, differences };
+}
+
+function skipped(resourceType: CompensableResourceType, name: string): PlannedResourceChange {
+  return { resourceType, name, action: 'no-op', reason: SKIPPED_REASON };
+}
+
+export function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
+
+export default ProjectPlanner;
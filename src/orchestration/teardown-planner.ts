@@ -0,0 +1,120 @@
+// Teardown Planner - Decides which recorded resources a project teardown deletes and which it keeps
+// Production environments and the Azure DevOps project are kept unless the caller opts in
+
+import { createHash } from 'crypto';
+import { DestroyProjectRequest, TeardownAction } from '../types/api-contracts';
+import { EnvironmentInfo } from '../types/data-models';
+import { CompensableResourceType, CreatedResource } from './compensation';
+
+// ============================================================================
+// Teardown Types
+// ============================================================================
+
+export type TeardownOptions = Omit<DestroyProjectRequest, 'dryRun' | 'confirmationToken'>;
+
+export interface TeardownTarget {
+  readonly resource: CreatedResource;
+  readonly action: TeardownAction;
+  readonly reason?: string;
+  /** Set for resources that live inside an environment and go when it is deleted */
+  readonly removedWith?: CreatedResource;
+}
+
+// Service principals go before their application, and everything before the Azure DevOps project
+const TEARDOWN_ORDER: Readonly<Record<CompensableResourceType, number>> = {
+  service_principal: 0,
+  app_registration: 1,
+  environment: 2,
+  publisher: 3,
+  solution: 4,
+  azure_devops_project: 5
+};
+
+// ============================================================================
+// Teardown Planner
+// ============================================================================
+
+export class TeardownPlanner {
+  /**
+   * Lists every resource with the action a teardown takes on it, in the order they are removed.
+   * Publishers and solutions are never deleted on their own; they follow their environment.
+   */
+  static plan(
+    resources: readonly CreatedResource[],
+    environments: readonly EnvironmentInfo[],
+    options: TeardownOptions
+  ): TeardownTarget[] {
+    const ordered = [...resources].sort((a, b) => TEARDOWN_ORDER[a.resourceType] - TEARDOWN_ORDER[b.resourceType]);
+    const targets = new Map<CreatedResource, TeardownTarget>();
+
+    for (const resource of ordered) {
+      targets.set(resource, TeardownPlanner.planResource(resource, environments, options, targets));
+    }
+
+    return [...targets.values()];
+  }
+
+  /**
+   * Derives a token from the project and the planned deletions. A destroy request must pass the
+   * token from its dry run, so it fails if the resources changed after they were reviewed.
+   */
+  static confirmationToken(projectId: string, targets: readonly TeardownTarget[]): string {
+    const fingerprint = targets
+      .map(target => `${target.action}:${target.resource.resourceType}:${target.resource.resourceId}`)
+      .join('\n');
+
+    return createHash('sha256').update(`${projectId}\n${fingerprint}`).digest('hex').slice(0, 32);
+  }
+
+  private static planResource(
+    resource: CreatedResource,
+    environments: readonly EnvironmentInfo[],
+    options: TeardownOptions,
+    planned: ReadonlyMap<CreatedResource, TeardownTarget>
+  ): TeardownTarget {
+    switch (resource.resourceType) {
+      case 'azure_devops_project':
+        return options.includeAzureDevOpsProject === true
+          ? { resource, action: 'delete' }
+          : { resource, action: 'retain', reason: 'Azure DevOps projects are kept unless includeAzureDevOpsProject is set' };
+
+      case 'environment': {
+        const isProduction = environments.some(env =>
+          env.environmentName === resource.resourceId && env.environmentType === 'production');
+        return isProduction && options.allowProductionEnvironments !== true
+          ? { resource, action: 'retain', reason: 'Production environments are kept unless allowProductionEnvironments is set' }
+          : { resource, action: 'delete' };
+      }
+
+      case 'publisher':
+      case 'solution':
+        return TeardownPlanner.planEnvironmentContent(resource, environments, planned);
+
+      default:
+        return { resource, action: 'delete' };
+    }
+  }
+
+  private static planEnvironmentContent(
+    resource: CreatedResource,
+    environments: readonly EnvironmentInfo[],
+    planned: ReadonlyMap<CreatedResource, TeardownTarget>
+  ): TeardownTarget {
+    const environmentName = environments.find(env => env.environmentUrl === resource.environmentUrl)?.environmentName;
+    const container = [...planned.values()].find(target =>
+      target.resource.resourceType === 'environment' && target.resource.resourceId === environmentName);
+
+    if (container?.action !== 'delete') {
+      return { resource, action: 'retain', reason: 'Kept with the environment it belongs to' };
+    }
+
+    return {
+      resource,
+      action: 'delete',
+      reason: `Removed with environment ${container.resource.displayName}`,
+      removedWith: container.resource
+    };
+  }
+}
+
+export default TeardownPlanner;
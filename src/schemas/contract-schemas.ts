@@ -0,0 +1,93 @@
+// Contract Schemas - JSON Schemas of the API contract types in src/types/api-contracts.ts
+// Generated into api-contracts.schema.json by `npm run generate:schemas`; never edit the JSON by hand
+
+import contractSchemaDocument from './api-contracts.schema.json';
+
+// ============================================================================
+// Schema Types
+// ============================================================================
+
+export type JsonSchema = { readonly [keyword: string]: unknown };
+
+export type ContractName = keyof typeof contractSchemaDocument.definitions;
+
+export interface ObjectContractSchema {
+  readonly properties: Record<string, JsonSchema>;
+  readonly required: readonly string[];
+}
+
+const DEFINITIONS_PREFIX = '#/definitions/';
+const definitions: Readonly<Record<string, JsonSchema>> = contractSchemaDocument.definitions;
+
+/** The generated document; its definitions reference each other with `#/definitions/<name>` */
+export const CONTRACT_SCHEMAS: JsonSchema & { readonly $id: string } = contractSchemaDocument;
+
+// ============================================================================
+// Schema Access
+// ============================================================================
+
+export function isContractName(name: string): name is ContractName {
+  return Object.prototype.hasOwnProperty.call(definitions, name);
+}
+
+/**
+ * Returns every definition with its references rewritten below another prefix, e.g.
+ * `#/components/schemas/` to place them in an OpenAPI document.
+ */
+export function contractDefinitions(refPrefix: string): Record<string, JsonSchema> {
+  return Object.fromEntries(Object.entries(definitions).map(([name, schema]) =>
+    [name, mapReferences(schema, ref => ({ $ref: ref.replace(DEFINITIONS_PREFIX, refPrefix) }))]));
+}
+
+/** Returns a self-contained schema with every reference inlined, for consumers that cannot resolve them */
+export function contractSchema(name: ContractName): JsonSchema {
+  return inlineReferences(name, []);
+}
+
+/** Returns the properties and required fields of an object contract, to build tool input schemas from */
+export function contractObjectSchema(name: ContractName): ObjectContractSchema {
+  const schema = contractSchema(name);
+  if (schema['type'] !== 'object') {
+    throw new Error(`API contract ${name} is not an object`);
+  }
+
+  return {
+    properties: (schema['properties'] ?? {}) as Record<string, JsonSchema>,
+    required: (schema['required'] ?? []) as readonly string[]
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function inlineReferences(name: string, resolving: readonly string[]): JsonSchema {
+  if (resolving.includes(name)) {
+    throw new Error(`API contract ${name} refers to itself and cannot be inlined`);
+  }
+  const schema = definitions[name];
+  if (!schema) {
+    throw new Error(`Unknown API contract: ${name}`);
+  }
+
+  return mapReferences(schema, ref => inlineReferences(ref.slice(DEFINITIONS_PREFIX.length), [...resolving, name]));
+}
+
+function mapReferences(schema: unknown, replace: (ref: string) => JsonSchema): JsonSchema {
+  return mapValue(schema, replace) as JsonSchema;
+}
+
+function mapValue(value: unknown, replace: (ref: string) => JsonSchema): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => mapValue(item, replace));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const ref = (value as JsonSchema)['$ref'];
+  if (typeof ref === 'string') {
+    return replace(ref);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapValue(item, replace)]));
+}
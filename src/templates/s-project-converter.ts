@@ -0,0 +1,350 @@
+// S-Project Converter - Maps S-Project YAML documents onto the typed ProjectTemplate model
+// Fields the S-Project format does not define fall back to the defaults used for new projects
+
+import {
+  CurrencyTemplate,
+  EnvironmentTemplate,
+  EnvironmentType,
+  IterationTemplate,
+  LanguageTemplate,
+  OwnershipType,
+  ParameterType,
+  ParameterValidation,
+  ProjectTemplate,
+  ProjectVisibility,
+  PublisherTemplate,
+  SolutionTemplate,
+  TableTemplate,
+  TemplateCategory,
+  TemplateComplexity,
+  TemplateMetadata,
+  TemplateParameter,
+  WorkItemTemplate
+} from '../types/data-models';
+import { TemplateDirectives, pickDirectives } from './template-interpolator';
+
+// ============================================================================
+// S-Project Document Types
+// ============================================================================
+
+export interface SProjectEnvironment extends TemplateDirectives {
+  readonly name: string;
+  readonly shortName?: string;
+  readonly type: string;
+  readonly region: string;
+  readonly description?: string;
+  readonly sku?: EnvironmentTemplate['sku'];
+  readonly currency?: CurrencyTemplate;
+  readonly language?: LanguageTemplate;
+}
+
+export interface SProjectSolution extends TemplateDirectives {
+  readonly uniqueName: string;
+  readonly friendlyName: string;
+  readonly description?: string;
+  readonly version?: string;
+}
+
+export interface SProjectParameter {
+  readonly name: string;
+  readonly displayName?: string;
+  readonly description?: string;
+  readonly type?: ParameterType;
+  readonly required?: boolean;
+  readonly defaultValue?: unknown;
+  readonly allowedValues?: readonly unknown[];
+  readonly validation?: ParameterValidation;
+}
+
+export interface SProjectDocument {
+  readonly projectTemplate: {
+    readonly name: string;
+    readonly description?: string;
+    readonly version: string;
+    readonly author?: string;
+    readonly category?: TemplateCategory;
+    readonly complexity?: TemplateComplexity;
+    readonly tags?: readonly string[];
+    readonly duration?: number;
+    readonly sprintDuration?: number;
+    readonly sprintCount?: number;
+    readonly environments?: readonly SProjectEnvironment[];
+    readonly azureDevOps: {
+      readonly processTemplate: string;
+      readonly visibility?: ProjectVisibility;
+      readonly workItemTypes?: readonly string[];
+    };
+    readonly publisher?: Partial<PublisherTemplate>;
+    readonly solutions?: readonly SProjectSolution[];
+    readonly parameters?: readonly SProjectParameter[];
+    readonly dataModel?: {
+      readonly tables?: readonly TableTemplate[];
+    };
+  };
+  readonly workItemTemplates?: {
+    readonly epics?: ReadonlyArray<TemplateDirectives & {
+      readonly name: string;
+      readonly description?: string;
+      readonly priority?: number;
+      readonly features?: readonly string[];
+    }>;
+    readonly features?: ReadonlyArray<TemplateDirectives & {
+      readonly epic: string;
+      readonly name: string;
+      readonly description?: string;
+      readonly userStories?: readonly string[];
+    }>;
+  };
+}
+
+export function isSProjectDocument(obj: unknown): obj is SProjectDocument {
+  if (typeof obj !== 'object' || obj === null || !('projectTemplate' in obj)) {
+    return false;
+  }
+
+  const projectTemplate = (obj as SProjectDocument).projectTemplate as unknown;
+  return (
+    typeof projectTemplate === 'object' &&
+    projectTemplate !== null &&
+    typeof (projectTemplate as SProjectDocument['projectTemplate']).name === 'string' &&
+    typeof (projectTemplate as SProjectDocument['projectTemplate']).azureDevOps === 'object'
+  );
+}
+
+/**
+ * Raised for values the ProjectTemplate model cannot represent. The field path uses the
+ * same `list[key]` notation as template composition so the contributing file can be found.
+ */
+export class TemplateConversionError extends Error {
+  constructor(
+    message: string,
+    public readonly fieldPath: string
+  ) {
+    super(message);
+    this.name = 'TemplateConversionError';
+  }
+}
+
+// Azure DevOps process template IDs for the built-in processes
+const PROCESS_TEMPLATE_IDS: Readonly<Record<string, string>> = {
+  Agile: 'adcc42ab-9882-485e-a3ed-7678f01f66bc',
+  Scrum: '6b724908-ef14-45cf-84f8-768b5384da45',
+  CMMI: '27450541-8e31-4150-9947-dc59f998fc01',
+  Basic: 'b8a3a935-7e91-48b8-a94c-606d37c3e9f2'
+};
+
+const ENVIRONMENT_TYPES: readonly EnvironmentType[] = ['development', 'test', 'staging', 'production'];
+const OWNERSHIP_TYPES: readonly OwnershipType[] = ['UserOwned', 'OrganizationOwned'];
+
+const DEFAULT_CURRENCY: CurrencyTemplate = { code: 'USD', name: 'US Dollar', symbol: '$' };
+const DEFAULT_LANGUAGE: LanguageTemplate = { code: '1033', name: 'English' };
+
+const DEFAULT_PARAMETERS: readonly TemplateParameter[] = [
+  {
+    name: 'projectName',
+    displayName: 'Project Name',
+    description: 'Name of the project to create',
+    type: 'string',
+    required: true
+  }
+];
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Converts an S-Project document into a ProjectTemplate registered under `name`.
+ * Throws when the document uses values the ProjectTemplate model cannot represent.
+ */
+export function convertSProjectTemplate(name: string, document: SProjectDocument): ProjectTemplate {
+  const source = document.projectTemplate;
+  const tables = (source.dataModel?.tables ?? []).map(checkTable);
+
+  return {
+    metadata: convertMetadata(name, source),
+    azureDevOps: {
+      project: {
+        processTemplate: source.azureDevOps.processTemplate,
+        visibility: source.azureDevOps.visibility ?? 'private',
+        capabilities: {
+          versionControl: { sourceControlType: 'Git' },
+          processTemplate: {
+            templateTypeId: resolveProcessTemplateId(source.azureDevOps.processTemplate),
+            templateName: source.azureDevOps.processTemplate
+          }
+        }
+      },
+      workItems: convertWorkItems(document.workItemTemplates),
+      repositories: [],
+      pipelines: [],
+      iterations: createIterations(source.sprintCount ?? 0, source.sprintDuration ?? 2)
+    },
+    powerPlatform: {
+      publisher: convertPublisher(name, source.publisher),
+      solutions: (source.solutions ?? []).map(convertSolution),
+      environments: (source.environments ?? []).map(convertEnvironment)
+    },
+    ...(tables.length > 0 && {
+      dataModel: { tables, relationships: [], securityRoles: [], businessProcessFlows: [] }
+    }),
+    parameters: (source.parameters ?? DEFAULT_PARAMETERS).map(convertParameter)
+  };
+}
+
+function convertMetadata(name: string, source: SProjectDocument['projectTemplate']): TemplateMetadata {
+  return {
+    name,
+    displayName: source.name,
+    description: source.description ?? '',
+    version: String(source.version),
+    author: source.author ?? 'System',
+    tags: source.tags ?? [],
+    category: source.category ?? 'standard',
+    estimatedDuration: source.duration !== undefined ? `${source.duration} weeks` : 'Not specified',
+    complexity: source.complexity ?? 'moderate'
+  };
+}
+
+function resolveProcessTemplateId(processTemplate: string): string {
+  const templateTypeId = PROCESS_TEMPLATE_IDS[processTemplate];
+  if (templateTypeId === undefined) {
+    throw new TemplateConversionError(
+      `Unknown process template '${processTemplate}' - expected one of: ${Object.keys(PROCESS_TEMPLATE_IDS).join(', ')}`,
+      'projectTemplate.azureDevOps.processTemplate'
+    );
+  }
+  return templateTypeId;
+}
+
+function convertWorkItems(workItemTemplates: SProjectDocument['workItemTemplates']): WorkItemTemplate[] {
+  const epics = workItemTemplates?.epics ?? [];
+  const features = workItemTemplates?.features ?? [];
+
+  // Directives are kept so that interpolation can repeat or drop the generated work items
+  const epicItems: WorkItemTemplate[] = epics.map(epic => ({
+    ...pickDirectives(epic),
+    type: 'Epic',
+    title: epic.name,
+    ...(epic.description !== undefined && { description: epic.description }),
+    ...(epic.priority !== undefined && { priority: epic.priority }),
+    fields: {},
+    childWorkItems: epic.features ?? []
+  }));
+
+  const featureItems: WorkItemTemplate[] = features.flatMap(feature => [
+    {
+      ...pickDirectives(feature),
+      type: 'Feature' as const,
+      title: feature.name,
+      ...(feature.description !== undefined && { description: feature.description }),
+      fields: {},
+      parentWorkItem: feature.epic,
+      childWorkItems: feature.userStories ?? []
+    },
+    ...(feature.userStories ?? []).map(story => ({
+      ...pickDirectives(feature),
+      type: 'User Story' as const,
+      title: story,
+      fields: {},
+      parentWorkItem: feature.name,
+      childWorkItems: []
+    }))
+  ]);
+
+  return [...epicItems, ...featureItems];
+}
+
+function createIterations(sprintCount: number, sprintDurationWeeks: number): IterationTemplate[] {
+  const sprintDays = sprintDurationWeeks * 7;
+
+  return Array.from({ length: sprintCount }, (_value, index) => ({
+    name: `Sprint ${index + 1}`,
+    startDate: `+${index * sprintDays} days`,
+    finishDate: `+${(index + 1) * sprintDays - 1} days`
+  }));
+}
+
+function convertEnvironment(environment: SProjectEnvironment): EnvironmentTemplate {
+  const fieldPath = `projectTemplate.environments[${environment.name}]`;
+  const type = ENVIRONMENT_TYPES.find(t => t === environment.type);
+  if (!type) {
+    throw new TemplateConversionError(
+      `Environment '${environment.name}' has unsupported type '${environment.type}' - expected one of: ${ENVIRONMENT_TYPES.join(', ')}`,
+      `${fieldPath}.type`
+    );
+  }
+
+  if (typeof environment.region !== 'string' || environment.region === '') {
+    throw new TemplateConversionError(`Environment '${environment.name}' has no region`, `${fieldPath}.region`);
+  }
+
+  return {
+    ...pickDirectives(environment),
+    displayName: environment.name,
+    type,
+    region: environment.region,
+    sku: environment.sku ?? (type === 'production' ? 'Production' : 'Sandbox'),
+    currency: environment.currency ?? DEFAULT_CURRENCY,
+    language: environment.language ?? DEFAULT_LANGUAGE
+  };
+}
+
+function convertPublisher(name: string, publisher: Partial<PublisherTemplate> | undefined): PublisherTemplate {
+  const prefix = name.replace(/[^a-z]/gi, '').toLowerCase().slice(0, 5) || 'new';
+
+  return {
+    uniqueName: publisher?.uniqueName ?? `${prefix}_publisher`,
+    friendlyName: publisher?.friendlyName ?? `${name} Publisher`,
+    ...(publisher?.description !== undefined && { description: publisher.description }),
+    customizationPrefix: publisher?.customizationPrefix ?? prefix,
+    customizationOptionValuePrefix: publisher?.customizationOptionValuePrefix ?? 10000
+  };
+}
+
+function convertSolution(solution: SProjectSolution): SolutionTemplate {
+  if (typeof solution.friendlyName !== 'string' || solution.friendlyName === '') {
+    throw new TemplateConversionError(
+      `Solution '${solution.uniqueName}' has no friendlyName`,
+      `projectTemplate.solutions[${solution.uniqueName}].friendlyName`
+    );
+  }
+
+  return {
+    ...pickDirectives(solution),
+    uniqueName: solution.uniqueName,
+    friendlyName: solution.friendlyName,
+    ...(solution.description !== undefined && { description: solution.description }),
+    version: solution.version ?? '1.0.0.0',
+    components: []
+  };
+}
+
+function checkTable(table: TableTemplate): TableTemplate {
+  const fieldPath = `projectTemplate.dataModel.tables[${table.schemaName}]`;
+  if (typeof table.displayName !== 'string' || table.displayName === '') {
+    throw new TemplateConversionError(`Table '${table.schemaName}' has no displayName`, `${fieldPath}.displayName`);
+  }
+
+  if (!OWNERSHIP_TYPES.includes(table.ownershipType)) {
+    throw new TemplateConversionError(
+      `Table '${table.schemaName}' has unsupported ownershipType '${String(table.ownershipType)}' - expected one of: ${OWNERSHIP_TYPES.join(', ')}`,
+      `${fieldPath}.ownershipType`
+    );
+  }
+
+  return table;
+}
+
+function convertParameter(parameter: SProjectParameter): TemplateParameter {
+  return {
+    name: parameter.name,
+    displayName: parameter.displayName ?? parameter.name,
+    description: parameter.description ?? '',
+    type: parameter.type ?? 'string',
+    required: parameter.required ?? false,
+    ...(parameter.defaultValue !== undefined && { defaultValue: parameter.defaultValue }),
+    ...(parameter.allowedValues !== undefined && { allowedValues: parameter.allowedValues }),
+    ...(parameter.validation !== undefined && { validation: parameter.validation })
+  };
+}
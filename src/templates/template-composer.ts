@@ -0,0 +1,273 @@
+// Template Composer - Layers template files declared through `extends` and `include`
+// Merges the layers deterministically and records which file contributed each value
+
+import * as path from 'path';
+
+// ============================================================================
+// Composer Types
+// ============================================================================
+
+export interface TemplateComposerConfig {
+  /** Directory that included fragments must stay inside */
+  readonly directory: string;
+  /** Top-level template files by template name, used to resolve `extends` */
+  readonly templateFiles: ReadonlyMap<string, string>;
+  readonly readDocument: (filePath: string) => Promise<unknown>;
+}
+
+export interface ComposedTemplate {
+  /** The merged document without `extends` and `include` */
+  readonly document: Record<string, unknown>;
+  /** Field path (e.g. `projectTemplate.environments[Test].region`) to the file that set it */
+  readonly sources: ReadonlyMap<string, string>;
+}
+
+export class TemplateCompositionError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string
+  ) {
+    super(message);
+    this.name = 'TemplateCompositionError';
+  }
+}
+
+interface TemplateLayer {
+  readonly document: Record<string, unknown>;
+  readonly filePath: string;
+}
+
+/**
+ * Arrays merged item by item using the given key. All other arrays are replaced as a whole
+ * by the later layer. Paths omit the `[key]` segments of enclosing keyed arrays.
+ */
+const MERGE_KEYS: Readonly<Record<string, string>> = {
+  // S-Project documents
+  'projectTemplate.environments': 'name',
+  'projectTemplate.solutions': 'uniqueName',
+  'projectTemplate.parameters': 'name',
+  'projectTemplate.dataModel.tables': 'schemaName',
+  'projectTemplate.dataModel.tables.attributes': 'schemaName',
+  'workItemTemplates.epics': 'name',
+  'workItemTemplates.features': 'name',
+  // Native ProjectTemplate documents
+  'azureDevOps.workItems': 'title',
+  'powerPlatform.environments': 'displayName',
+  'powerPlatform.solutions': 'uniqueName',
+  'dataModel.tables': 'schemaName',
+  'dataModel.tables.attributes': 'schemaName',
+  'parameters': 'name'
+};
+
+// ============================================================================
+// Template Composer
+// ============================================================================
+
+/**
+ * Layers are applied in this order, later layers winning:
+ * 1. the template named by `extends` (itself composed first)
+ * 2. each `include` fragment in the order listed, relative to the including file
+ * 3. the file itself
+ *
+ * Objects are merged field by field, keyed arrays (see MERGE_KEYS) are merged item by item
+ * with new items appended, and scalars and other arrays are replaced.
+ */
+export class TemplateComposer {
+  private readonly config: TemplateComposerConfig;
+
+  constructor(config: TemplateComposerConfig) {
+    this.config = config;
+  }
+
+  async compose(filePath: string): Promise<ComposedTemplate> {
+    const layers = await this.collectLayers(filePath, []);
+    const sources = new Map<string, string>();
+    let document: Record<string, unknown> = {};
+
+    for (const layer of layers) {
+      document = mergeObject(document, layer.document, '', { filePath: layer.filePath, sources });
+    }
+
+    return { document, sources };
+  }
+
+  /**
+   * Returns the file that contributed the value at `fieldPath`, falling back to the nearest
+   * ancestor and then to any descendant when the exact path was not recorded.
+   */
+  static sourceOf(sources: ReadonlyMap<string, string>, fieldPath: string): string | undefined {
+    for (let current = fieldPath; current !== ''; current = parentPath(current)) {
+      const source = sources.get(current);
+      if (source !== undefined) {
+        return source;
+      }
+    }
+
+    for (const [recorded, source] of sources) {
+      if (isDescendant(recorded, fieldPath)) {
+        return source;
+      }
+    }
+
+    return undefined;
+  }
+
+  // ============================================================================
+  // Layer Resolution
+  // ============================================================================
+
+  private async collectLayers(filePath: string, chain: readonly string[]): Promise<TemplateLayer[]> {
+    if (chain.includes(filePath)) {
+      const cycle = [...chain, filePath].map(file => path.relative(this.config.directory, file));
+      throw new TemplateCompositionError(`Circular template composition: ${cycle.join(' -> ')}`, filePath);
+    }
+
+    const raw = await this.config.readDocument(filePath);
+    if (!isPlainObject(raw)) {
+      throw new TemplateCompositionError(`${filePath} does not contain a template object`, filePath);
+    }
+
+    const { extends: base, include, ...document } = raw;
+    const nextChain = [...chain, filePath];
+    const layers: TemplateLayer[] = [];
+
+    if (base !== undefined) {
+      layers.push(...await this.collectLayers(this.resolveBase(base, filePath), nextChain));
+    }
+
+    // Fragments are read concurrently but layered in the declared order so later fragments win
+    const fragments = await Promise.all(this.resolveIncludes(include, filePath)
+      .map(fragment => this.collectLayers(fragment, nextChain)));
+    layers.push(...fragments.flat());
+
+    layers.push({ document, filePath });
+    return layers;
+  }
+
+  private resolveBase(base: unknown, filePath: string): string {
+    if (typeof base !== 'string') {
+      throw new TemplateCompositionError(`'extends' in ${filePath} must be a template name`, filePath);
+    }
+
+    const baseFile = this.config.templateFiles.get(base);
+    if (baseFile === undefined) {
+      throw new TemplateCompositionError(`${filePath} extends unknown template '${base}'`, filePath);
+    }
+    return baseFile;
+  }
+
+  private resolveIncludes(include: unknown, filePath: string): string[] {
+    if (include === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(include) || !include.every((entry): entry is string => typeof entry === 'string')) {
+      throw new TemplateCompositionError(`'include' in ${filePath} must be a list of file paths`, filePath);
+    }
+
+    return include.map(entry => {
+      const fragment = path.resolve(path.dirname(filePath), entry);
+      const relative = path.relative(this.config.directory, fragment);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new TemplateCompositionError(
+          `${filePath} includes '${entry}', which is outside the templates directory`,
+          filePath
+        );
+      }
+      return fragment;
+    });
+  }
+}
+
+// ============================================================================
+// Merge Helpers
+// ============================================================================
+
+interface MergeContext {
+  readonly filePath: string;
+  readonly sources: Map<string, string>;
+}
+
+function mergeValue(target: unknown, source: unknown, fieldPath: string, context: MergeContext): unknown {
+  if (isPlainObject(source)) {
+    return mergeObject(isPlainObject(target) ? target : {}, source, fieldPath, context);
+  }
+
+  if (Array.isArray(source) && MERGE_KEYS[schemaPath(fieldPath)] !== undefined) {
+    return mergeKeyedArray(Array.isArray(target) ? target : [], source, fieldPath, context);
+  }
+
+  recordSource(fieldPath, context);
+  return source;
+}
+
+function mergeObject(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  fieldPath: string,
+  context: MergeContext
+): Record<string, unknown> {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = mergeValue(target[key], value, fieldPath === '' ? key : `${fieldPath}.${key}`, context);
+  }
+  return result;
+}
+
+function mergeKeyedArray(
+  target: readonly unknown[],
+  source: readonly unknown[],
+  fieldPath: string,
+  context: MergeContext
+): unknown[] {
+  const mergeKey = MERGE_KEYS[schemaPath(fieldPath)] ?? '';
+  const result = [...target];
+
+  source.forEach((item, index) => {
+    const key = isPlainObject(item) ? item[mergeKey] : undefined;
+    if (typeof key !== 'string' || !isPlainObject(item)) {
+      throw new TemplateCompositionError(
+        `Item ${index} of ${fieldPath} in ${context.filePath} has no '${mergeKey}'`,
+        context.filePath
+      );
+    }
+
+    const existing = result.findIndex(entry => isPlainObject(entry) && entry[mergeKey] === key);
+    const itemPath = `${fieldPath}[${key}]`;
+    if (existing === -1) {
+      result.push(mergeObject({}, item, itemPath, context));
+    } else {
+      result[existing] = mergeObject(result[existing] as Record<string, unknown>, item, itemPath, context);
+    }
+  });
+
+  return result;
+}
+
+/** Records the file for a replaced value and forgets the files of the values it replaced */
+function recordSource(fieldPath: string, context: MergeContext): void {
+  for (const recorded of [...context.sources.keys()]) {
+    if (isDescendant(recorded, fieldPath)) {
+      context.sources.delete(recorded);
+    }
+  }
+  context.sources.set(fieldPath, context.filePath);
+}
+
+function schemaPath(fieldPath: string): string {
+  return fieldPath.replace(/\[[^\]]*\]/g, '');
+}
+
+function parentPath(fieldPath: string): string {
+  return fieldPath.replace(/(\[[^\]]*\]|\.?[^.[\]]+)$/, '');
+}
+
+function isDescendant(candidate: string, fieldPath: string): boolean {
+  return candidate.startsWith(`${fieldPath}.`) || candidate.startsWith(`${fieldPath}[`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export default TemplateComposer;
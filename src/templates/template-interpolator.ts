@@ -0,0 +1,289 @@
+// Template Interpolator - Substitutes parameter values into a ProjectTemplate before execution
+// Supports ${name} references, $if conditionals and $each loops over array parameters
+
+import { ProjectTemplate } from '../types/data-models';
+import { ValidationError } from '../validation';
+
+// ============================================================================
+// Interpolation Types
+// ============================================================================
+
+/**
+ * Directives allowed on list items. `$each` repeats the item once per element of an array
+ * value, binding it to `$as` (default `item`); `$if` then decides whether each copy is kept.
+ */
+export interface TemplateDirectives {
+  readonly $if?: string | boolean;
+  readonly $each?: string;
+  readonly $as?: string;
+}
+
+export interface InterpolationResult {
+  readonly template: ProjectTemplate;
+  readonly errors: readonly ValidationError[];
+}
+
+interface InterpolationScope {
+  readonly values: ReadonlyMap<string, unknown>;
+  readonly declared: ReadonlySet<string>;
+  readonly errors: ValidationError[];
+}
+
+interface ResolvedReference {
+  readonly found: boolean;
+  readonly value?: unknown;
+}
+
+const DIRECTIVE_KEYS = ['$if', '$each', '$as'] as const;
+
+const REFERENCE_PATH = '[A-Za-z_]\\w*(?:\\.\\w+)*';
+// `$${...}` is an escaped reference and is emitted as the literal `${...}`
+const REFERENCE_PATTERN = new RegExp(`\\$?\\$\\{\\s*(${REFERENCE_PATH})\\s*\\}`, 'g');
+const WHOLE_REFERENCE_PATTERN = new RegExp(`^\\$\\{\\s*(${REFERENCE_PATH})\\s*\\}$`);
+const CONDITION_PATTERN = new RegExp(
+  `^\\s*(!)?\\s*(?:\\$\\{\\s*(${REFERENCE_PATH})\\s*\\}|(${REFERENCE_PATH}))\\s*(?:(==|!=)\\s*(.+?))?\\s*$`
+);
+
+// ============================================================================
+// Interpolation
+// ============================================================================
+
+/**
+ * Evaluates references and directives across the whole template. The `parameters` section
+ * declares the inputs and is copied unchanged. Errors carry the field path of the expression.
+ */
+export function interpolateTemplate(
+  template: ProjectTemplate,
+  values: Readonly<Record<string, unknown>>
+): InterpolationResult {
+  const scope: InterpolationScope = {
+    values: new Map(Object.entries(values)),
+    declared: new Set(template.parameters.map(parameter => parameter.name)),
+    errors: []
+  };
+
+  const { parameters, ...rest } = template;
+  const interpolated = interpolateValue(rest, '', scope) as Omit<ProjectTemplate, 'parameters'>;
+
+  return {
+    template: { ...interpolated, parameters },
+    errors: scope.errors
+  };
+}
+
+/** Copies the directive keys of a source list item so they survive conversion */
+export function pickDirectives(item: TemplateDirectives): TemplateDirectives {
+  return {
+    ...(item.$if !== undefined && { $if: item.$if }),
+    ...(item.$each !== undefined && { $each: item.$each }),
+    ...(item.$as !== undefined && { $as: item.$as })
+  };
+}
+
+// ============================================================================
+// Value Helpers
+// ============================================================================
+
+function interpolateValue(value: unknown, fieldPath: string, scope: InterpolationScope): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, fieldPath, scope);
+  }
+
+  if (Array.isArray(value)) {
+    return interpolateArray(value, fieldPath, scope);
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (hasDirectives(value)) {
+    scope.errors.push({
+      field: fieldPath,
+      code: 'INVALID_TEMPLATE_DIRECTIVE',
+      message: 'Directives ($if, $each, $as) are only allowed on list items'
+    });
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = interpolateValue(entry, fieldPath === '' ? key : `${fieldPath}.${key}`, scope);
+  }
+  return result;
+}
+
+function interpolateArray(items: readonly unknown[], fieldPath: string, scope: InterpolationScope): unknown[] {
+  const result: unknown[] = [];
+
+  items.forEach((item, index) => {
+    const itemPath = `${fieldPath}[${index}]`;
+    if (!isPlainObject(item) || !hasDirectives(item)) {
+      result.push(interpolateValue(item, itemPath, scope));
+      return;
+    }
+
+    const directives = item as TemplateDirectives;
+    const body = withoutDirectives(item);
+    for (const itemScope of expandLoop(directives, itemPath, scope)) {
+      if (directives.$if === undefined || evaluateCondition(directives.$if, `${itemPath}.$if`, itemScope)) {
+        result.push(interpolateValue(body, itemPath, itemScope));
+      }
+    }
+  });
+
+  return result;
+}
+
+function interpolateString(value: string, fieldPath: string, scope: InterpolationScope): unknown {
+  // A string that is a single reference takes the parameter's typed value
+  const whole = WHOLE_REFERENCE_PATTERN.exec(value);
+  if (whole?.[1] !== undefined) {
+    const reference = resolveReference(whole[1], fieldPath, scope);
+    return reference.found ? reference.value : value;
+  }
+
+  return value.replace(REFERENCE_PATTERN, (match: string, path: string) => {
+    if (match.startsWith('$$')) {
+      return match.slice(1);
+    }
+
+    const reference = resolveReference(path, fieldPath, scope);
+    if (!reference.found) {
+      return match;
+    }
+
+    if (typeof reference.value === 'object' && reference.value !== null) {
+      scope.errors.push({
+        field: fieldPath,
+        code: 'INVALID_TEMPLATE_REFERENCE',
+        message: `Reference '\${${path}}' is not a text value and cannot be embedded in text`,
+        value: reference.value
+      });
+      return match;
+    }
+    return String(reference.value);
+  });
+}
+
+// ============================================================================
+// Reference Helpers
+// ============================================================================
+
+function resolveReference(path: string, fieldPath: string, scope: InterpolationScope): ResolvedReference {
+  const [root = '', ...properties] = path.split('.');
+
+  if (!scope.values.has(root)) {
+    scope.errors.push(scope.declared.has(root)
+      ? { field: fieldPath, code: 'MISSING_PARAMETER_VALUE', message: `Parameter '${root}' has no value or default`, value: `\${${path}}` }
+      : { field: fieldPath, code: 'UNKNOWN_TEMPLATE_REFERENCE', message: `Unknown reference '\${${path}}'`, value: `\${${path}}` });
+    return { found: false };
+  }
+
+  let value = scope.values.get(root);
+  for (const property of properties) {
+    if (!isPlainObject(value) || !(property in value)) {
+      scope.errors.push({
+        field: fieldPath,
+        code: 'UNKNOWN_TEMPLATE_REFERENCE',
+        message: `Reference '\${${path}}' has no property '${property}'`,
+        value: `\${${path}}`
+      });
+      return { found: false };
+    }
+    value = value[property];
+  }
+
+  return { found: true, value };
+}
+
+function expandLoop(
+  directives: TemplateDirectives,
+  itemPath: string,
+  scope: InterpolationScope
+): InterpolationScope[] {
+  if (directives.$each === undefined) {
+    return [scope];
+  }
+
+  const path = directives.$each.replace(/^\$\{\s*(.*?)\s*\}$/, '$1');
+  const reference = resolveReference(path, `${itemPath}.$each`, scope);
+  if (!reference.found) {
+    return [];
+  }
+
+  if (!Array.isArray(reference.value)) {
+    scope.errors.push({
+      field: `${itemPath}.$each`,
+      code: 'INVALID_TEMPLATE_LOOP',
+      message: `'$each' must reference a list, but '${path}' is ${typeof reference.value}`,
+      value: reference.value
+    });
+    return [];
+  }
+
+  const variable = directives.$as ?? 'item';
+  return reference.value.map(element => ({
+    ...scope,
+    values: new Map([...scope.values, [variable, element]])
+  }));
+}
+
+function evaluateCondition(condition: string | boolean, fieldPath: string, scope: InterpolationScope): boolean {
+  if (typeof condition === 'boolean') {
+    return condition;
+  }
+
+  const match = CONDITION_PATTERN.exec(condition);
+  const path = match?.[2] ?? match?.[3];
+  if (match === null || path === undefined) {
+    scope.errors.push({
+      field: fieldPath,
+      code: 'INVALID_TEMPLATE_CONDITION',
+      message: `Cannot evaluate condition '${condition}' - expected 'name', '!name' or 'name == value'`,
+      value: condition
+    });
+    return false;
+  }
+
+  const value = resolveConditionValue(path, fieldPath, scope);
+  const [, negate, , , operator, literal] = match;
+  const result = operator === undefined
+    ? isTruthy(value)
+    : (String(value) === unquote(literal ?? '')) === (operator === '==');
+
+  return negate === undefined ? result : !result;
+}
+
+function resolveConditionValue(path: string, fieldPath: string, scope: InterpolationScope): unknown {
+  // Optional parameters left unset read as empty rather than as missing values
+  const root = path.split('.')[0] ?? '';
+  if (scope.declared.has(root) && !scope.values.has(root)) {
+    return undefined;
+  }
+  return resolveReference(path, fieldPath, scope).value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function unquote(literal: string): string {
+  return literal.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+function hasDirectives(value: Record<string, unknown>): boolean {
+  return DIRECTIVE_KEYS.some(key => key in value);
+}
+
+function withoutDirectives(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !(DIRECTIVE_KEYS as readonly string[]).includes(key))
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
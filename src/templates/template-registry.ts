@@ -0,0 +1,266 @@
+// Template Registry - Discovers project templates in the templates directory
+// Loads YAML/JSON files, composes extends/include layers, converts S-Project documents and caches validated ProjectTemplates
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+import { ProjectTemplate, isProjectTemplate } from '../types/data-models';
+import { DataModelValidator, ValidationError } from '../validation';
+import { TemplateConversionError, convertSProjectTemplate, isSProjectDocument } from './s-project-converter';
+import { TemplateComposer, TemplateCompositionError } from './template-composer';
+import logger from '../utils/logger';
+
+// ============================================================================
+// Registry Types
+// ============================================================================
+
+export interface TemplateRegistryConfig {
+  readonly directory: string;
+}
+
+export interface TemplateLoadError {
+  readonly filePath: string;
+  readonly error: string;
+  /** Base template or fragment that contributed the failing value, when not the template itself */
+  readonly sourceFile?: string;
+}
+
+export class TemplateRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath?: string
+  ) {
+    super(message);
+    this.name = 'TemplateRegistryError';
+  }
+}
+
+interface LoadedTemplates {
+  readonly templates: Map<string, ProjectTemplate>;
+  readonly errors: TemplateLoadError[];
+}
+
+const TEMPLATE_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+// ============================================================================
+// Template Registry
+// ============================================================================
+
+/**
+ * Templates are registered under their file name without extension. Files that fail to
+ * parse or validate are skipped and reported through getLoadErrors(). Only top-level files
+ * are registered; fragments used through `include` can live in subdirectories.
+ */
+export class TemplateRegistry {
+  private readonly config: TemplateRegistryConfig;
+  private loading: Promise<LoadedTemplates> | undefined;
+
+  constructor(config: TemplateRegistryConfig) {
+    this.config = config;
+  }
+
+  async listTemplates(): Promise<ProjectTemplate[]> {
+    const { templates } = await this.load();
+    return [...templates.values()].sort((a, b) => a.metadata.name.localeCompare(b.metadata.name));
+  }
+
+  async getTemplate(name: string): Promise<ProjectTemplate | undefined> {
+    const { templates } = await this.load();
+    return templates.get(name);
+  }
+
+  async getLoadErrors(): Promise<readonly TemplateLoadError[]> {
+    const { errors } = await this.load();
+    return [...errors];
+  }
+
+  /** Drops the cache so the next lookup reads the templates directory again */
+  reload(): void {
+    this.loading = undefined;
+  }
+
+  // ============================================================================
+  // Loading
+  // ============================================================================
+
+  private load(): Promise<LoadedTemplates> {
+    this.loading ??= this.loadDirectory().catch((error: unknown) => {
+      // Do not cache a failed directory read so that a later call can retry
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async loadDirectory(): Promise<LoadedTemplates> {
+    const files = await this.listTemplateFiles();
+    const templates = new Map<string, ProjectTemplate>();
+    const errors: TemplateLoadError[] = [];
+    const templateFiles = new Map<string, string>();
+
+    for (const file of files) {
+      const filePath = path.join(this.config.directory, file);
+      const name = path.basename(file, path.extname(file));
+
+      if (templateFiles.has(name)) {
+        const error = new TemplateRegistryError(`Template '${name}' is already defined by another file`, filePath);
+        errors.push(this.recordLoadError(filePath, error));
+      } else {
+        templateFiles.set(name, filePath);
+      }
+    }
+
+    const composer = new TemplateComposer({
+      directory: this.config.directory,
+      templateFiles,
+      readDocument: (filePath): Promise<unknown> => this.readDocument(filePath)
+    });
+
+    // Files are read concurrently, then added and reported in a stable order
+    const entries = [...templateFiles];
+    const results = await Promise.allSettled(entries.map(([name, filePath]) => this.loadTemplateFile(name, filePath, composer)));
+    entries.forEach(([name, filePath], index) => {
+      const result = results[index];
+      if (result?.status === 'fulfilled') {
+        templates.set(name, result.value);
+      } else if (result) {
+        errors.push(this.recordLoadError(filePath, result.reason));
+      }
+    });
+
+    logger.info(`📚 Loaded ${templates.size} project templates from ${this.config.directory}`);
+    return { templates, errors };
+  }
+
+  private recordLoadError(filePath: string, error: unknown): TemplateLoadError {
+    const message = error instanceof Error ? error.message : String(error);
+    const sourceFile = error instanceof TemplateRegistryError || error instanceof TemplateCompositionError
+      ? error.filePath
+      : undefined;
+
+    logger.warn(`⚠️  Skipping template ${filePath}: ${message}`);
+    return {
+      filePath,
+      error: message,
+      ...(sourceFile !== undefined && sourceFile !== filePath && { sourceFile })
+    };
+  }
+
+  private async loadTemplateFile(name: string, filePath: string, composer: TemplateComposer): Promise<ProjectTemplate> {
+    const { document, sources } = await composer.compose(filePath);
+    const template = this.toProjectTemplate(name, document, filePath, sources);
+
+    const validation = DataModelValidator.validateProjectTemplate(template);
+    if (!validation.isValid || !isProjectTemplate(template)) {
+      throw this.toValidationError(filePath, validation.errors, sources);
+    }
+
+    return template;
+  }
+
+  /** Points each invalid field at the base template or fragment that set it, like conversion errors */
+  private toValidationError(
+    filePath: string,
+    errors: readonly ValidationError[],
+    sources: ReadonlyMap<string, string>
+  ): TemplateRegistryError {
+    // Native templates use the document's field paths; converted ones fall back to the template itself
+    const located = errors.map(error => ({ error, sourceFile: TemplateComposer.sourceOf(sources, error.field) ?? filePath }));
+    const details = located.map(({ error, sourceFile }) => `${error.message} (${error.field} from ${sourceFile})`);
+    return new TemplateRegistryError(
+      `Template validation failed in ${filePath}: ${details.join(', ')}`,
+      located[0]?.sourceFile ?? filePath
+    );
+  }
+
+  private async readDocument(filePath: string): Promise<unknown> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      throw new TemplateRegistryError(
+        `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        filePath
+      );
+    }
+    return this.parseDocument(content, filePath);
+  }
+
+  private parseDocument(content: string, filePath: string): unknown {
+    try {
+      return path.extname(filePath) === '.json' ? JSON.parse(content) : yaml.load(content);
+    } catch (error) {
+      throw new TemplateRegistryError(
+        `Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        filePath
+      );
+    }
+  }
+
+  private toProjectTemplate(
+    name: string,
+    document: unknown,
+    filePath: string,
+    sources: ReadonlyMap<string, string>
+  ): unknown {
+    if (isSProjectDocument(document)) {
+      try {
+        return convertSProjectTemplate(name, document);
+      } catch (error) {
+        if (error instanceof TemplateConversionError) {
+          // Point at the base template or fragment that set the value rather than the template itself
+          const sourceFile = TemplateComposer.sourceOf(sources, error.fieldPath) ?? filePath;
+          throw new TemplateRegistryError(
+            `Failed to convert ${filePath}: ${error.message} (${error.fieldPath} from ${sourceFile})`,
+            sourceFile
+          );
+        }
+        throw new TemplateRegistryError(
+          `Failed to convert ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+          filePath
+        );
+      }
+    }
+
+    if (isNativeTemplateDocument(document)) {
+      return nameNativeTemplate(name, document);
+    }
+
+    throw new TemplateRegistryError(
+      `${filePath} is neither an S-Project document nor a ProjectTemplate`,
+      filePath
+    );
+  }
+
+  private async listTemplateFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.config.directory);
+      return entries
+        .filter(entry => TEMPLATE_EXTENSIONS.has(path.extname(entry)))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn(`⚠️  Templates directory not found: ${this.config.directory}`);
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// Native Template Helpers
+// ============================================================================
+
+function isNativeTemplateDocument(document: unknown): document is Readonly<Record<string, unknown>> {
+  return typeof document === 'object' && document !== null && 'metadata' in document;
+}
+
+/** Registers a native template under its file name like converted ones; the caller validates the rest */
+function nameNativeTemplate(name: string, document: Readonly<Record<string, unknown>>): unknown {
+  const metadata = document['metadata'];
+  return typeof metadata === 'object' && metadata !== null ? { ...document, metadata: { ...metadata, name } } : document;
+}
+
+export default TemplateRegistry;
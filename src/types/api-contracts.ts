@@ -398,14 +398,31 @@ export interface CreateServicePrincipalResponse {
 // Internal API Contract Types
 // ============================================================================
 
-export type OperationStatus = 'started' | 'running' | 'completed' | 'failed';
+export type OperationStatus =
+  | 'started'
+  | 'running'
+  | 'awaiting_approval'
+  | 'rolling_back'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 export type LogLevel = 'info' | 'warn' | 'error';
 
 // Orchestration API
 export interface CreateProjectApiRequest {
+  /**
+   * Template the project is created from, as listed by the templates endpoint
+   * @minLength 1
+   */
   readonly templateName: string;
+  /**
+   * Name of the project to create
+   * @minLength 1
+   */
   readonly projectName: string;
+  /** Project description */
   readonly description?: string;
+  /** Template parameter values, referenced in templates as ${name} */
   readonly customization?: Record<string, unknown>;
 }
 
@@ -446,6 +463,250 @@ export interface GetOperationStatusResponse {
     readonly message: string;
     readonly details?: unknown;
   }>;
+  readonly rollback?: RollbackReport;
+  readonly approvals?: readonly OperationApproval[];
+}
+
+export interface OperationSummary {
+  readonly operationId: string;
+  readonly projectName: string;
+  readonly status: OperationStatus;
+  readonly workflowId?: string;
+  readonly startedAt: string;
+  readonly completedAt?: string;
+}
+
+export interface ListOperationsResponse {
+  readonly operations: readonly OperationSummary[];
+}
+
+export interface OperationAuditResponse {
+  readonly operation: OperationSummary;
+  readonly logs: GetOperationStatusResponse['logs'];
+  readonly resources: ReadonlyArray<{
+    readonly resourceType: string;
+    readonly resourceId: string;
+    readonly displayName: string;
+    readonly stepId: string;
+    readonly createdAt: string;
+    readonly environmentUrl?: string;
+  }>;
+  readonly rollback?: RollbackReport;
+  readonly teardown?: RollbackReport;
+  readonly approvals?: readonly OperationApproval[];
+}
+
+export interface CancelOperationRequest {
+  /**
+   * Remove resources created before the cancellation
+   * @default false
+   */
+  readonly rollback?: boolean;
+}
+
+export interface CancelOperationResponse {
+  readonly operationId: string;
+  readonly status: OperationStatus;
+  readonly rollbackRequested: boolean;
+}
+
+// Approvals API
+export type ApprovalDecision = 'approved' | 'rejected';
+export type ApprovalRule = 'workflow_step' | 'production_environment' | 'admin_consent' | 'environment_count';
+
+export interface ApprovalReason {
+  readonly rule: ApprovalRule;
+  readonly message: string;
+}
+
+export interface OperationApproval {
+  /** Approval step of the workflow */
+  readonly stepId: string;
+  readonly stepName: string;
+  /** Why the step needs approval, e.g. the Production environments the project would create */
+  readonly reasons: readonly ApprovalReason[];
+  readonly requestedAt: string;
+  /** Absent while the approval is pending */
+  readonly decision?: ApprovalDecision;
+  /** Caller that decided, e.g. `jwt:<object id>` or `api-key:<id>` */
+  readonly decidedBy?: string;
+  readonly decidedAt?: string;
+  readonly comment?: string;
+}
+
+export interface ApproveOperationRequest {
+  /** Approving continues the operation; rejecting fails it before the gated steps run */
+  readonly decision: ApprovalDecision;
+  /**
+   * Approval step to decide; defaults to the step the operation is waiting at
+   * @minLength 1
+   */
+  readonly stepId?: string;
+  /** Recorded with the decision in the operation's audit trail */
+  readonly comment?: string;
+}
+
+export interface ApproveOperationResponse {
+  readonly operationId: string;
+  readonly approval: OperationApproval;
+  /** Status once the operation has continued, e.g. awaiting_approval at its next approval step */
+  readonly status: OperationStatus;
+}
+
+// Operation Events API (Server-Sent Events)
+export type OperationEventType = 'step' | 'log' | 'progress' | 'approval' | 'result';
+
+export interface OperationStepEventData {
+  readonly stepId: string;
+  readonly name: string;
+  readonly phase: string;
+  readonly status: string;
+  readonly attempt: number;
+  readonly error?: string;
+}
+
+export interface OperationProgressEventData {
+  readonly totalSteps: number;
+  readonly completedSteps: number;
+  readonly percentage: number;
+  readonly currentStep?: string;
+}
+
+export interface OperationResultEventData {
+  readonly status: OperationStatus;
+  readonly completedAt?: string;
+  readonly result?: unknown;
+  readonly error?: string;
+}
+
+interface OperationEventBase<T extends OperationEventType, D> {
+  readonly id: number; // Sent as the SSE event ID and increasing per operation
+  readonly operationId: string;
+  readonly type: T;
+  readonly timestamp: string;
+  readonly data: D;
+}
+
+export type OperationEvent =
+  | OperationEventBase<'step', OperationStepEventData>
+  | OperationEventBase<'log', GetOperationStatusResponse['logs'][number]>
+  | OperationEventBase<'progress', OperationProgressEventData>
+  | OperationEventBase<'approval', OperationApproval>
+  | OperationEventBase<'result', OperationResultEventData>;
+
+export type RollbackOutcome = 'deleted' | 'failed' | 'retained';
+
+export interface RollbackReport {
+  readonly status: 'completed' | 'partial';
+  readonly startedAt: string;
+  readonly completedAt: string;
+  readonly resources: ReadonlyArray<{
+    readonly resourceType: string;
+    readonly resourceId: string;
+    readonly displayName: string;
+    readonly stepId: string;
+    readonly outcome: RollbackOutcome;
+    readonly reason?: string;
+  }>;
+}
+
+// Plan API
+export type PlanAction = 'create' | 'update' | 'no-op' | 'conflict';
+
+export interface PlanDifference {
+  readonly field: string;
+  readonly current: unknown;
+  readonly desired: unknown;
+}
+
+export interface PlannedResourceChange {
+  readonly resourceType: string;
+  readonly name: string;
+  readonly action: PlanAction;
+  readonly reason?: string;
+  readonly existingId?: string;
+  readonly differences?: readonly PlanDifference[];
+}
+
+export interface ProjectPlanResponse {
+  readonly planId: string;
+  readonly templateName: string;
+  readonly projectName: string;
+  readonly createdAt: string;
+  readonly expiresAt: string;
+  readonly changes: readonly PlannedResourceChange[];
+  readonly summary: Readonly<Record<PlanAction, number>>;
+}
+
+// Drift API
+export type DriftKind = 'missing' | 'modified' | 'unexpected';
+export type DriftArea = 'environment' | 'solution' | 'solution_component' | 'table' | 'attribute' | 'work_item';
+export type RemediationAction = 'create' | 'update' | 'remove' | 'manual';
+
+export interface DriftItem {
+  readonly area: DriftArea;
+  readonly kind: DriftKind;
+  readonly name: string;
+  readonly parent?: string; // Solution, table or environment the item belongs to
+  readonly differences?: readonly PlanDifference[];
+}
+
+export interface RemediationStep {
+  readonly action: RemediationAction;
+  readonly area: DriftArea;
+  readonly name: string;
+  readonly description: string;
+}
+
+export interface DriftReportResponse {
+  readonly projectId: string;
+  readonly projectName: string;
+  readonly templateName: string;
+  readonly checkedAt: string;
+  readonly hasDrift: boolean;
+  readonly items: readonly DriftItem[];
+  readonly summary: Readonly<Record<DriftKind, number>>;
+  readonly skipped: readonly string[]; // Areas that could not be compared, with the reason
+  readonly remediation?: readonly RemediationStep[];
+}
+
+// Teardown API
+export type TeardownAction = 'delete' | 'retain';
+
+export interface DestroyProjectRequest {
+  /**
+   * List what would be deleted and return a confirmation token without deleting anything
+   * @default false
+   */
+  readonly dryRun?: boolean;
+  /** Token returned by a dry run of the same teardown, required to actually destroy the project */
+  readonly confirmationToken?: string;
+  /**
+   * Also delete the Azure DevOps project, including its work items and repositories
+   * @default false
+   */
+  readonly includeAzureDevOpsProject?: boolean;
+  /**
+   * Allow production environments to be deleted. They are kept otherwise
+   * @default false
+   */
+  readonly allowProductionEnvironments?: boolean;
+}
+
+export interface DestroyProjectResponse {
+  readonly projectId: string;
+  readonly projectName: string;
+  readonly dryRun: boolean;
+  readonly status: 'planned' | 'completed' | 'partial';
+  readonly confirmationToken?: string;
+  readonly resources: ReadonlyArray<{
+    readonly resourceType: string;
+    readonly resourceId: string;
+    readonly displayName: string;
+    readonly action: TeardownAction;
+    readonly outcome?: RollbackOutcome;
+    readonly reason?: string;
+  }>;
 }
 
 // Template API
@@ -459,31 +720,127 @@ export interface TemplateParameter {
   readonly required: boolean;
   readonly defaultValue?: unknown;
   readonly allowedValues?: readonly unknown[];
+  readonly validation?: {
+    readonly minLength?: number;
+    readonly maxLength?: number;
+    readonly pattern?: string;
+    readonly minValue?: number;
+    readonly maxValue?: number;
+  };
+}
+
+export interface TemplateSummary {
+  readonly name: string;
+  readonly displayName: string;
+  readonly description: string;
+  readonly version: string;
+  readonly category: string;
+  readonly tags: readonly string[];
+  readonly parameters: readonly TemplateParameter[];
 }
 
 export interface ListTemplatesResponse {
-  readonly templates: ReadonlyArray<{
-    readonly name: string;
-    readonly displayName: string;
-    readonly description: string;
-    readonly version: string;
-    readonly tags: readonly string[];
-    readonly parameters: readonly TemplateParameter[];
-  }>;
+  readonly templates: readonly TemplateSummary[];
+}
+
+export interface TemplateDetailsResponse extends TemplateSummary {
+  readonly author: string;
+  readonly complexity: string;
+  readonly estimatedDuration: string;
+  readonly workflowId: string;
+  readonly azureDevOps: {
+    readonly processTemplate: string;
+    readonly visibility: string;
+    readonly workItems: number;
+    readonly iterations: number;
+    /** Epics the template creates, each with the features filed under it */
+    readonly epics: ReadonlyArray<TemplateWorkItemSummary & {
+      readonly features: readonly TemplateWorkItemSummary[];
+    }>;
+  };
+  readonly powerPlatform: {
+    readonly publisher: string;
+    readonly environments: ReadonlyArray<{
+      readonly displayName: string;
+      readonly type: string;
+      readonly region: string;
+      readonly sku: string;
+    }>;
+    readonly solutions: readonly string[];
+    readonly tables: ReadonlyArray<{
+      readonly schemaName: string;
+      readonly displayName: string;
+      readonly description?: string;
+    }>;
+    readonly relationships: ReadonlyArray<{
+      readonly schemaName: string;
+      readonly relationshipType: string;
+      readonly referencedTable: string;
+      readonly referencingTable: string;
+    }>;
+  };
+}
+
+export interface TemplateWorkItemSummary {
+  readonly title: string;
+  readonly description?: string;
 }
 
 export interface ValidateTemplateRequest {
+  /** @minLength 1 */
   readonly templateName: string;
+  /** Parameter values to check against the template */
   readonly parameters: Record<string, unknown>;
 }
 
 export interface ValidateTemplateResponse {
   readonly valid: boolean;
   readonly errors: ReadonlyArray<{
-    readonly parameter: string;
+    /** Path of the failing value, e.g. `parameters.region` or `powerPlatform.environments[0].region` */
+    readonly field: string;
+    /** Set when the error concerns a single parameter value */
+    readonly parameter?: string;
     readonly message: string;
     readonly code: string;
+    readonly value?: unknown;
   }>;
+  /** Environments the template creates with these parameter values */
+  readonly environments: ReadonlyArray<{
+    readonly displayName: string;
+    readonly type: string;
+    readonly region: string;
+    readonly sku: string;
+  }>;
+}
+
+// Service API
+export type ServiceHealth = 'healthy' | 'unhealthy' | 'unknown';
+
+export interface HealthResponse {
+  readonly status: 'healthy' | 'unhealthy';
+  readonly timestamp: string;
+  readonly version: string;
+  readonly services: {
+    readonly azureDevOps: ServiceHealth;
+    readonly powerPlatform: ServiceHealth;
+    readonly microsoftGraph: ServiceHealth;
+  };
+  /** Seconds since the process started */
+  readonly uptime: number;
+}
+
+export interface ServiceStatusResponse {
+  readonly service: string;
+  readonly version: string;
+  readonly environment: string;
+  readonly timestamp: string;
+  readonly features: {
+    readonly azureDevOpsIntegration: boolean;
+    readonly powerPlatformIntegration: boolean;
+    readonly microsoftGraphIntegration: boolean;
+    readonly parallelExecution: boolean;
+    readonly validation: boolean;
+  };
 }
 
 // ============================================================================
@@ -626,5 +983,5 @@ export function validateCreateWorkItemRequest(req: unknown): req is CreateWorkIt
 }
 
 export function validateOperationStatus(status: string): status is OperationStatus {
-  return ['started', 'running', 'completed', 'failed'].includes(status);
+  return ['started', 'running', 'awaiting_approval', 'rolling_back', 'completed', 'failed', 'cancelled'].includes(status);
 }
\ No newline at end of file
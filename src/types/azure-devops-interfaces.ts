@@ -484,6 +484,16 @@ export interface IAzureDevOpsClient {
   // Project operations
   listProjects(): Promise<AzureDevOpsResponse<AzureDevOpsListResponse<AzureDevOpsProject>>>;
   getProject(projectName: string): Promise<AzureDevOpsResponse<AzureDevOpsProject>>;
+  createProject(
+    projectName: string,
+    options?: {
+      description?: string;
+      visibility?: ProjectVisibility;
+      processTemplateId?: string;
+      sourceControlType?: 'Git' | 'Tfvc';
+    }
+  ): Promise<AzureDevOpsResponse<AzureDevOpsProject>>;
+  deleteProject(projectId: string): Promise<AzureDevOpsResponse<void>>;
   
   // Work item operations
   createWorkItem(project: string, workItem: WorkItemCreate): Promise<AzureDevOpsResponse<WorkItemCreateResponse>>;
@@ -50,8 +50,10 @@ export interface PowerPlatformProjectInfo {
 export interface EnvironmentInfo {
   readonly environmentId: string;
   readonly environmentName: string;
+  readonly displayName?: string;
   readonly environmentUrl: string;
   readonly environmentType: EnvironmentType;
+  readonly sku?: string;
   readonly region: string;
   readonly status: EnvironmentStatus;
 }
@@ -26,9 +26,11 @@ const logger = winston.createLogger({
   ]
 });
 
-// Add console transport for non-production environments
+// Add console transport for non-production environments. It writes to stderr, as stdout carries
+// the protocol when the MCP server runs over stdio
 if (config.app.environment !== 'production') {
   logger.add(new winston.transports.Console({
+    stderrLevels: Object.keys(winston.config.npm.levels),
     format: winston.format.combine(
       winston.format.colorize(),
       winston.format.simple()
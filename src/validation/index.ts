@@ -1,6 +1,8 @@
 // Validation Module - Request/response validation and type guards
 // Enterprise-grade validation with comprehensive error reporting
 
+import Ajv from 'ajv';
+import { CONTRACT_SCHEMAS, ContractName } from '../schemas/contract-schemas';
 import {
   validateCreateEntityRequest,
   validateTokenResponse,
@@ -10,6 +12,9 @@ import {
 } from '../types/api-contracts';
 
 import {
+  ParameterValidation,
+  ProjectTemplate,
+  TemplateParameter,
   isProjectTemplate,
   isTemplateMetadata,
   isDataverseTable,
@@ -41,7 +46,39 @@ export interface ValidationError {
 // API Contract Validators
 // ============================================================================
 
+// Compiles each contract's schema on first use; the document's definitions resolve each other's $refs
+const contractSchemaValidator = new Ajv({ allErrors: true }).addSchema(CONTRACT_SCHEMAS);
+
+const SCHEMA_ERROR_CODES: Readonly<Record<string, string>> = {
+  type: 'INVALID_TYPE',
+  enum: 'INVALID_VALUE',
+  const: 'INVALID_VALUE'
+};
+
+/**
+ * Runs a compiled JSON Schema and reports each violation against the path of its field, e.g.
+ * `customization.region`; violations of the value as a whole are reported against `rootField`.
+ */
+export function validateWithSchema(validate: Ajv.ValidateFunction, value: unknown, rootField: string): ValidationResult {
+  if (validate(value) === true) {
+    return { isValid: true, errors: [] };
+  }
+
+  const errors = (validate.errors ?? []).map(error => toSchemaValidationError(error, rootField));
+  return { isValid: false, errors };
+}
+
 export class ApiContractValidator {
+  /** Validates a value against the JSON Schema generated from an API contract type */
+  static validateContract(contract: ContractName, value: unknown, rootField = 'request'): ValidationResult {
+    const validate = contractSchemaValidator.getSchema(`${CONTRACT_SCHEMAS.$id}#/definitions/${contract}`);
+    if (!validate) {
+      throw new Error(`No JSON Schema is generated for API contract ${contract}`);
+    }
+
+    return validateWithSchema(validate, value, rootField);
+  }
+
   static validateEntityRequest(request: unknown): ValidationResult {
     const errors: ValidationError[] = [];
 
@@ -133,6 +170,52 @@ export class ApiContractValidator {
   }
 }
 
+/** Turns a JSON Schema violation into an error on the field at its data path */
+function toSchemaValidationError(error: Ajv.ErrorObject, rootField: string): ValidationError {
+  const path = error.dataPath.replace(/^\./, '');
+  if (error.keyword === 'required') {
+    const property = (error.params as Ajv.RequiredParams).missingProperty.replace(/^\./, '');
+    const field = path === '' ? property : `${path}.${property}`;
+    return { field, code: 'REQUIRED_FIELD', message: `${field} is required` };
+  }
+
+  const field = path === '' ? rootField : path;
+  return {
+    field,
+    code: SCHEMA_ERROR_CODES[error.keyword] ?? 'INVALID_VALUE',
+    message: `${field} ${error.message ?? 'is invalid'}`
+  };
+}
+
+/** Reports the fields that keep an object from matching ProjectTemplate, as isProjectTemplate checks them */
+function findProjectTemplateFieldErrors(template: Readonly<Record<string, unknown>>): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const required = (field: string, value: unknown): ValidationError =>
+    ({ field, code: 'INVALID_PROJECT_TEMPLATE', message: `${field} is required`, value });
+
+  const metadata = template['metadata'];
+  if (typeof metadata !== 'object' || metadata === null) {
+    errors.push(required('metadata', metadata));
+  } else {
+    const fields = metadata as Readonly<Record<string, unknown>>;
+    for (const key of ['name', 'displayName', 'description', 'version']) {
+      if (!(key in fields)) errors.push(required(`metadata.${key}`, undefined));
+    }
+    if ('name' in fields && typeof fields['name'] !== 'string') {
+      errors.push({ field: 'metadata.name', code: 'INVALID_PROJECT_TEMPLATE', message: 'metadata.name must be a string', value: fields['name'] });
+    }
+  }
+
+  for (const key of ['azureDevOps', 'powerPlatform']) {
+    if (!(key in template)) errors.push(required(key, undefined));
+  }
+  if (!Array.isArray(template['parameters'])) {
+    errors.push({ field: 'parameters', code: 'INVALID_PROJECT_TEMPLATE', message: 'parameters must be a list', value: template['parameters'] });
+  }
+
+  return errors;
+}
+
 // ============================================================================
 // Data Model Validators
 // ============================================================================
@@ -141,13 +224,15 @@ export class DataModelValidator {
   static validateProjectTemplate(template: unknown): ValidationResult {
     const errors: ValidationError[] = [];
 
-    if (!isProjectTemplate(template)) {
+    if (typeof template !== 'object' || template === null) {
       errors.push({
         field: 'template',
         code: 'INVALID_PROJECT_TEMPLATE',
         message: 'Object does not match ProjectTemplate interface',
         value: template
       });
+    } else {
+      errors.push(...findProjectTemplateFieldErrors(template as Readonly<Record<string, unknown>>));
     }
 
     return {
@@ -288,6 +373,10 @@ export class DataModelValidator {
 // ============================================================================
 
 export class CompositeValidator {
+  /**
+   * Validates `parameters` against the template's declarations after applying defaults.
+   * Errors use `parameters.<name>` as their field path.
+   */
   static validateTemplateWithParameters(
     template: unknown,
     parameters: Record<string, unknown>
@@ -299,23 +388,24 @@ export class CompositeValidator {
     errors.push(...templateResult.errors);
 
     if (templateResult.isValid && isProjectTemplate(template)) {
-      // Validate that all required parameters are provided
+      const values = this.applyParameterDefaults(template, parameters);
+
       template.parameters.forEach(param => {
-        if (param.required && !(param.name in parameters)) {
-          errors.push({
-            field: `parameters.${param.name}`,
-            code: 'MISSING_REQUIRED_PARAMETER',
-            message: `Required parameter '${param.name}' is missing`,
-            value: undefined
-          });
+        const field = `parameters.${param.name}`;
+
+        if (!(param.name in values)) {
+          if (param.required) {
+            errors.push({
+              field,
+              code: 'MISSING_REQUIRED_PARAMETER',
+              message: `Required parameter '${param.name}' is missing`,
+              value: undefined
+            });
+          }
+          return;
         }
 
-        // Validate parameter values if provided
-        if (param.name in parameters) {
-          const value = parameters[param.name];
-          const paramResult = this.validateParameterValue(param, value);
-          errors.push(...paramResult.errors);
-        }
+        errors.push(...this.validateParameterValue(param, values[param.name], field).errors);
       });
     }
 
@@ -325,83 +415,145 @@ export class CompositeValidator {
     };
   }
 
+  /**
+   * Returns the values of the declared parameters, using `defaultValue` for omitted ones.
+   * Values for parameters the template does not declare are dropped.
+   */
+  static applyParameterDefaults(
+    template: ProjectTemplate,
+    parameters: Readonly<Record<string, unknown>>
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const param of template.parameters) {
+      const value = parameters[param.name] ?? param.defaultValue;
+      if (value !== undefined) {
+        values[param.name] = value;
+      }
+    }
+    return values;
+  }
+
   private static validateParameterValue(
-    parameter: { type: string; allowedValues?: readonly unknown[] },
-    value: unknown
+    parameter: TemplateParameter,
+    value: unknown,
+    field: string
   ): ValidationResult {
-    const errors: ValidationError[] = [];
-
-    // Type validation
-    switch (parameter.type) {
-      case 'string':
-        if (typeof value !== 'string') {
-          errors.push({
-            field: 'value',
-            code: 'INVALID_PARAMETER_TYPE',
-            message: `Expected string, got ${typeof value}`,
-            value
-          });
-        }
-        break;
-      case 'number':
-        if (typeof value !== 'number') {
-          errors.push({
-            field: 'value',
-            code: 'INVALID_PARAMETER_TYPE',
-            message: `Expected number, got ${typeof value}`,
-            value
-          });
-        }
-        break;
-      case 'boolean':
-        if (typeof value !== 'boolean') {
-          errors.push({
-            field: 'value',
-            code: 'INVALID_PARAMETER_TYPE',
-            message: `Expected boolean, got ${typeof value}`,
-            value
-          });
-        }
-        break;
-      case 'array':
-        if (!Array.isArray(value)) {
-          errors.push({
-            field: 'value',
-            code: 'INVALID_PARAMETER_TYPE',
-            message: `Expected array, got ${typeof value}`,
-            value
-          });
-        }
-        break;
-      case 'object':
-        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-          errors.push({
-            field: 'value',
-            code: 'INVALID_PARAMETER_TYPE',
-            message: `Expected object, got ${typeof value}`,
-            value
-          });
-        }
-        break;
+    const typeError = this.validateParameterType(parameter, value, field);
+    if (typeError) {
+      return { isValid: false, errors: [typeError] };
     }
 
-    // Allowed values validation
-    if (parameter.allowedValues && parameter.allowedValues.length > 0) {
-      if (!parameter.allowedValues.includes(value)) {
-        errors.push({
-          field: 'value',
-          code: 'INVALID_PARAMETER_VALUE',
-          message: `Value must be one of: ${parameter.allowedValues.join(', ')}`,
-          value
-        });
-      }
-    }
+    const errors: ValidationError[] = [
+      ...this.validateAllowedValues(parameter, value, field),
+      ...this.validateParameterRules(parameter.validation ?? {}, value, field)
+    ];
 
     return {
       isValid: errors.length === 0,
       errors
     };
   }
+
+  private static validateParameterType(
+    parameter: TemplateParameter,
+    value: unknown,
+    field: string
+  ): ValidationError | undefined {
+    if (parameter.type === 'choice') {
+      // Choices are checked against allowedValues, which a choice parameter must declare
+      return (parameter.allowedValues?.length ?? 0) > 0 ? undefined : {
+        field,
+        code: 'INVALID_PARAMETER_DEFINITION',
+        message: `Choice parameter '${parameter.name}' does not declare allowedValues`,
+        value
+      };
+    }
+
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    return actual === parameter.type ? undefined : {
+      field,
+      code: 'INVALID_PARAMETER_TYPE',
+      message: `Expected ${parameter.type}, got ${actual}`,
+      value
+    };
+  }
+
+  private static validateAllowedValues(
+    parameter: TemplateParameter,
+    value: unknown,
+    field: string
+  ): ValidationError[] {
+    if (!parameter.allowedValues || parameter.allowedValues.length === 0 || parameter.allowedValues.includes(value)) {
+      return [];
+    }
+
+    return [{
+      field,
+      code: 'INVALID_PARAMETER_VALUE',
+      message: `Value must be one of: ${parameter.allowedValues.join(', ')}`,
+      value
+    }];
+  }
+
+  private static validateParameterRules(
+    rules: ParameterValidation,
+    value: unknown,
+    field: string
+  ): ValidationError[] {
+    return [
+      // Length rules apply to text and to lists
+      ...(typeof value === 'string' || Array.isArray(value) ? this.validateLength(rules, value, field) : []),
+      ...(typeof value === 'number' ? this.validateRange(rules, value, field) : []),
+      ...(typeof value === 'string' && rules.pattern !== undefined ? this.validatePattern(rules.pattern, value, field) : [])
+    ];
+  }
+
+  private static validateLength(
+    rules: ParameterValidation,
+    value: string | readonly unknown[],
+    field: string
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      errors.push({ field, code: 'PARAMETER_TOO_SHORT', message: `Length must be at least ${rules.minLength}`, value });
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      errors.push({ field, code: 'PARAMETER_TOO_LONG', message: `Length must be at most ${rules.maxLength}`, value });
+    }
+    return errors;
+  }
+
+  private static validateRange(rules: ParameterValidation, value: number, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (rules.minValue !== undefined && value < rules.minValue) {
+      errors.push({ field, code: 'PARAMETER_OUT_OF_RANGE', message: `Value must be at least ${rules.minValue}`, value });
+    }
+    if (rules.maxValue !== undefined && value > rules.maxValue) {
+      errors.push({ field, code: 'PARAMETER_OUT_OF_RANGE', message: `Value must be at most ${rules.maxValue}`, value });
+    }
+    return errors;
+  }
+
+  private static validatePattern(pattern: string, value: string, field: string): ValidationError[] {
+    let expression: RegExp;
+    try {
+      expression = new RegExp(pattern);
+    } catch {
+      return [{
+        field: `${field}.validation.pattern`,
+        code: 'INVALID_PARAMETER_DEFINITION',
+        message: `Pattern '${pattern}' is not a valid regular expression`,
+        value: pattern
+      }];
+    }
+
+    return expression.test(value) ? [] : [{
+      field,
+      code: 'PARAMETER_PATTERN_MISMATCH',
+      message: `Value must match pattern ${pattern}`,
+      value
+    }];
+  }
 }
 
 // ============================================================================
@@ -33,10 +33,12 @@ export type WorkflowStepType =
   | 'component_deployment'
   | 'permission_assignment'
   | 'validation'
+  | 'approval'
   | 'notification';
 
 export type WorkflowPhase = 
   | 'initialization'
+  | 'approval'
   | 'authentication'
   | 'azure_devops'
   | 'power_platform'
@@ -91,7 +93,8 @@ export type WorkflowExecutionStatus =
   | 'completed'
   | 'failed'
   | 'cancelled'
-  | 'rolling_back';
+  | 'rolling_back'
+  | 'awaiting_approval';
 
 export interface WorkflowStepExecution {
   readonly stepId: string;
@@ -109,7 +112,9 @@ export type WorkflowStepStatus =
   | 'completed'
   | 'failed'
   | 'skipped'
-  | 'retrying';
+  | 'retrying'
+  | 'cancelled'
+  | 'awaiting_approval';
 
 export interface WorkflowError {
   readonly stepId: string;
@@ -130,10 +135,11 @@ export class ProjectWorkflowDefinitions {
     id: 'standard-project-v1',
     name: 'Standard Project Workflow',
     description: 'Standard workflow for creating Power Platform projects with Azure DevOps integration',
-    version: '1.0.0',
+    version: '1.1.0',
     templateType: 'standard-project',
     phases: [
       'initialization',
+      'approval',
       'authentication',
       'azure_devops',
       'power_platform',
@@ -174,6 +180,23 @@ export class ProjectWorkflowDefinitions {
         }
       },
 
+      // Approval Phase
+      {
+        id: 'apr-001',
+        name: 'Provisioning Approval',
+        description: 'Wait for an approver when the approval policy applies to the project',
+        type: 'approval',
+        phase: 'approval',
+        dependencies: ['init-002'],
+        parallel: false,
+        required: true,
+        timeoutMs: 30000,
+        retryAttempts: 1,
+        configuration: {
+          requirement: 'policy'
+        }
+      },
+
       // Authentication Phase
       {
         id: 'auth-001',
@@ -181,7 +204,7 @@ export class ProjectWorkflowDefinitions {
         description: 'Create Azure Active Directory application registration',
         type: 'app_registration',
         phase: 'authentication',
-        dependencies: ['init-002'],
+        dependencies: ['apr-001'],
         parallel: false,
         required: true,
         timeoutMs: 60000,
@@ -376,10 +399,25 @@ export class ProjectWorkflowDefinitions {
         rollbackActions: ['delete-application'],
         condition: 'on-failure'
       },
+      {
+        stepId: 'ado-001',
+        rollbackActions: ['delete-project'],
+        condition: 'on-failure'
+      },
       {
         stepId: 'pp-001',
         rollbackActions: ['delete-environments'],
         condition: 'on-failure'
+      },
+      {
+        stepId: 'pp-002',
+        rollbackActions: ['delete-publisher'],
+        condition: 'on-failure'
+      },
+      {
+        stepId: 'pp-003',
+        rollbackActions: ['delete-solutions'],
+        condition: 'on-failure'
       }
     ]
   };
@@ -389,10 +427,11 @@ export class ProjectWorkflowDefinitions {
     id: 'enterprise-project-v1',
     name: 'Enterprise Project Workflow',
     description: 'Enterprise workflow with additional security and compliance steps',
-    version: '1.0.0',
+    version: '1.1.0',
     templateType: 'enterprise-project',
     phases: [
       'initialization',
+      'approval',
       'authentication',
       'azure_devops',
       'power_platform',
@@ -401,37 +440,40 @@ export class ProjectWorkflowDefinitions {
       'completion'
     ],
     steps: [
-      // All standard steps plus additional enterprise steps
-      ...ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW.steps,
+      // All standard steps plus additional enterprise steps; provisioning waits for both reviews
+      ...ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW.steps.map(step =>
+        step.id === 'auth-001' ? { ...step, dependencies: ['sec-002'] } : step),
       
       // Additional security steps
       {
         id: 'sec-001',
         name: 'Security Review',
-        description: 'Perform security and compliance review',
-        type: 'validation',
-        phase: 'validation',
-        dependencies: ['val-001'],
+        description: 'Approve the project after a security and compliance review',
+        type: 'approval',
+        phase: 'approval',
+        dependencies: ['apr-001'],
         parallel: false,
         required: true,
-        timeoutMs: 300000,
+        timeoutMs: 30000,
         retryAttempts: 1,
         configuration: {
+          requirement: 'always',
           checks: ['security-policies', 'data-classification', 'access-controls']
         }
       },
       {
         id: 'sec-002',
         name: 'Compliance Validation',
-        description: 'Validate compliance with enterprise policies',
-        type: 'validation',
-        phase: 'validation',
+        description: 'Approve the project as compliant with enterprise policies',
+        type: 'approval',
+        phase: 'approval',
         dependencies: ['sec-001'],
         parallel: false,
         required: true,
-        timeoutMs: 180000,
+        timeoutMs: 30000,
         retryAttempts: 1,
         configuration: {
+          requirement: 'always',
           policies: ['gdpr', 'sox', 'hipaa']
         }
       }
@@ -445,10 +487,11 @@ export class ProjectWorkflowDefinitions {
     id: 'quickstart-v1',
     name: 'Quick Start Workflow',
     description: 'Minimal workflow for rapid project setup',
-    version: '1.0.0',
+    version: '1.1.0',
     templateType: 'quickstart',
     phases: [
       'initialization',
+      'approval',
       'authentication',
       'power_platform',
       'completion'
@@ -469,13 +512,28 @@ export class ProjectWorkflowDefinitions {
           validationType: 'basic'
         }
       },
+      {
+        id: 'qs-apr-001',
+        name: 'Provisioning Approval',
+        description: 'Wait for an approver when the approval policy applies to the project',
+        type: 'approval',
+        phase: 'approval',
+        dependencies: ['qs-001'],
+        parallel: false,
+        required: true,
+        timeoutMs: 30000,
+        retryAttempts: 1,
+        configuration: {
+          requirement: 'policy'
+        }
+      },
       {
         id: 'qs-002',
         name: 'Create Service Principal',
         description: 'Create basic service principal',
         type: 'app_registration',
         phase: 'authentication',
-        dependencies: ['qs-001'],
+        dependencies: ['qs-apr-001'],
         parallel: false,
         required: true,
         timeoutMs: 30000,
@@ -508,6 +566,11 @@ export class ProjectWorkflowDefinitions {
         stepId: 'qs-002',
         rollbackActions: ['delete-application'],
         condition: 'on-failure'
+      },
+      {
+        stepId: 'qs-003',
+        rollbackActions: ['delete-environments'],
+        condition: 'on-failure'
       }
     ]
   };
@@ -0,0 +1,472 @@
+// Workflow Engine - Executes WorkflowDefinition dependency graphs
+// Resolves step dependencies, parallel groups, timeouts and retries
+
+import {
+  ParallelGroup,
+  ProjectWorkflowDefinitions,
+  WorkflowDefinition,
+  WorkflowError,
+  WorkflowExecution,
+  WorkflowExecutionStatus,
+  WorkflowPhase,
+  WorkflowStep,
+  WorkflowStepExecution,
+  WorkflowStepType
+} from './project-workflow';
+import logger from '../utils/logger';
+
+// ============================================================================
+// Engine Types
+// ============================================================================
+
+export interface WorkflowStepContext {
+  readonly executionId: string;
+  readonly workflow: WorkflowDefinition;
+  readonly variables: Record<string, unknown>;
+  /** Aborted when the run is cancelled or the attempt times out; long-running handlers should stop starting new work */
+  readonly signal?: AbortSignal;
+  getStepOutput<T>(stepId: string): T | undefined;
+  getOutputByType<T>(type: WorkflowStepType): T | undefined;
+}
+
+export type WorkflowStepHandler = (
+  step: WorkflowStep,
+  context: WorkflowStepContext
+) => Promise<unknown>;
+
+export type WorkflowStepHandlers = Partial<Record<WorkflowStepType, WorkflowStepHandler>>;
+
+export interface WorkflowEngineHooks {
+  readonly onStepStarted?: (step: WorkflowStep, execution: WorkflowStepExecution) => void;
+  readonly onStepCompleted?: (step: WorkflowStep, execution: WorkflowStepExecution) => void;
+  readonly onStepFailed?: (step: WorkflowStep, execution: WorkflowStepExecution) => void;
+  readonly onStepSkipped?: (step: WorkflowStep, reason: string) => void;
+  readonly onStepCancelled?: (step: WorkflowStep, execution: WorkflowStepExecution) => void;
+  readonly onStepAwaitingApproval?: (step: WorkflowStep, execution: WorkflowStepExecution) => void;
+}
+
+export interface WorkflowEngineOptions {
+  readonly handlers: WorkflowStepHandlers;
+  readonly hooks?: WorkflowEngineHooks;
+  readonly enableParallelExecution?: boolean;
+  readonly retryDelayMs?: number;
+  readonly shouldSkipStep?: (step: WorkflowStep) => boolean;
+}
+
+export interface WorkflowRunOptions {
+  readonly executionId: string;
+  readonly variables?: Record<string, unknown>;
+  /** Step executions from an earlier run; completed ones are not executed again and keep their outputs */
+  readonly completedSteps?: readonly WorkflowStepExecution[];
+  /** Cancels the run: no further steps start and the execution finishes as 'cancelled' */
+  readonly signal?: AbortSignal;
+}
+
+export class WorkflowStepTimeoutError extends Error {
+  constructor(
+    public readonly stepId: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Step ${stepId} timed out after ${timeoutMs}ms`);
+    this.name = 'WorkflowStepTimeoutError';
+  }
+}
+
+/**
+ * Thrown by a step handler to pause the workflow until someone approves the step. Running steps
+ * finish, no further steps start, and the execution ends as 'awaiting_approval'; running it again
+ * with the completed steps executes the approval step's handler again.
+ */
+export class WorkflowApprovalRequiredError extends Error {
+  constructor(public readonly stepId: string) {
+    super(`Step ${stepId} is awaiting approval`);
+    this.name = 'WorkflowApprovalRequiredError';
+  }
+}
+
+interface ExecutionUnit {
+  readonly group?: ParallelGroup;
+  readonly steps: readonly WorkflowStep[];
+}
+
+// ============================================================================
+// Workflow Engine
+// ============================================================================
+
+export class WorkflowEngine {
+  private readonly options: WorkflowEngineOptions;
+
+  constructor(options: WorkflowEngineOptions) {
+    this.options = options;
+  }
+
+  /** Rejects workflows with unknown or circular dependencies, whose steps could never all run */
+  async execute(workflow: WorkflowDefinition, runOptions: WorkflowRunOptions): Promise<WorkflowExecution> {
+    const problems = ProjectWorkflowDefinitions.validateWorkflow(workflow);
+    if (problems.length > 0) {
+      throw new Error(`Workflow ${workflow.id} is invalid: ${problems.join('; ')}`);
+    }
+
+    const run = new WorkflowRun(workflow, runOptions, this.options);
+    return run.execute();
+  }
+}
+
+// ============================================================================
+// Single Workflow Run
+// ============================================================================
+
+class WorkflowRun {
+  private readonly stepExecutions = new Map<string, WorkflowStepExecution>();
+  private readonly errors: WorkflowError[] = [];
+  private readonly variables: Record<string, unknown>;
+  private readonly startedAt = new Date();
+  private currentPhase: WorkflowPhase;
+  private failed = false;
+  private awaitingApproval = false;
+
+  constructor(
+    private readonly workflow: WorkflowDefinition,
+    private readonly runOptions: WorkflowRunOptions,
+    private readonly options: WorkflowEngineOptions
+  ) {
+    this.variables = { ...(runOptions.variables ?? {}) };
+    this.currentPhase = workflow.phases[0] ?? 'initialization';
+    workflow.steps.forEach(step => {
+      const previous = runOptions.completedSteps?.find(s => s.stepId === step.id && s.status === 'completed');
+      this.stepExecutions.set(step.id, previous ?? { stepId: step.id, status: 'pending', attempt: 0 });
+    });
+  }
+
+  async execute(): Promise<WorkflowExecution> {
+    const resumed = this.workflow.steps.filter(step => this.statusOf(step.id) === 'completed').length;
+    logger.info(`▶️  Executing workflow ${this.workflow.id} (${this.workflow.steps.length} steps, ${resumed} already completed)`);
+
+    await this.executeReadySteps();
+
+    if (!this.isStopped()) {
+      this.failUnreachableSteps();
+    }
+
+    const status = this.resolveStatus();
+    // A paused run keeps its remaining steps pending for when it continues
+    if (status !== 'awaiting_approval') {
+      this.skipRemainingSteps();
+    }
+    return this.snapshot(status, status !== 'awaiting_approval' ? new Date() : undefined);
+  }
+
+  /** Runs the steps that are ready, then the steps they unblock, until none are left or the run stops */
+  private async executeReadySteps(): Promise<void> {
+    const ready = this.resolveReadySteps();
+    if (ready.length === 0 || this.isStopped()) return;
+
+    // Units run in order so that each group's concurrency limit is honoured
+    await this.groupIntoUnits(ready).reduce<Promise<void>>(
+      (previous, unit) => previous.then(async () => this.isStopped() ? undefined : this.executeUnit(unit)),
+      Promise.resolve()
+    );
+    await this.executeReadySteps();
+  }
+
+  private isCancelled(): boolean {
+    return this.runOptions.signal?.aborted === true;
+  }
+
+  private isStopped(): boolean {
+    return this.failed || this.awaitingApproval || this.isCancelled();
+  }
+
+  private resolveStatus(): WorkflowExecutionStatus {
+    if (this.isCancelled()) return 'cancelled';
+    if (this.failed) return 'failed';
+    return this.awaitingApproval ? 'awaiting_approval' : 'completed';
+  }
+
+  // ============================================================================
+  // Dependency Resolution
+  // ============================================================================
+
+  private resolveReadySteps(): WorkflowStep[] {
+    const ready: WorkflowStep[] = [];
+
+    for (const step of this.workflow.steps) {
+      if (this.statusOf(step.id) !== 'pending') continue;
+
+      const dependencyStates = step.dependencies.map(depId => this.statusOf(depId));
+      const blocked = dependencyStates.some(status => status === 'failed');
+      if (blocked) {
+        this.markSkipped(step, 'A dependency failed');
+        continue;
+      }
+
+      if (dependencyStates.every(status => status === 'completed' || status === 'skipped')) {
+        ready.push(step);
+      }
+    }
+
+    // Skipping a step can unblock or block its dependants, so resolve again
+    return ready.length === 0 && this.hasNewlySkippedDependants() ? this.resolveReadySteps() : ready;
+  }
+
+  private hasNewlySkippedDependants(): boolean {
+    return this.workflow.steps.some(step =>
+      this.statusOf(step.id) === 'pending' &&
+      step.dependencies.every(depId => {
+        const status = this.statusOf(depId);
+        return status === 'completed' || status === 'skipped' || status === 'failed';
+      })
+    );
+  }
+
+  private groupIntoUnits(ready: readonly WorkflowStep[]): ExecutionUnit[] {
+    const units: ExecutionUnit[] = [];
+    const grouped = new Map<string, WorkflowStep[]>();
+
+    for (const step of ready) {
+      const group = this.options.enableParallelExecution === false
+        ? undefined
+        : this.workflow.parallelGroups.find(g => g.stepIds.includes(step.id));
+
+      if (!group) {
+        units.push({ steps: [step] });
+        continue;
+      }
+
+      const members = grouped.get(group.groupId);
+      if (members) {
+        members.push(step);
+      } else {
+        const newMembers = [step];
+        grouped.set(group.groupId, newMembers);
+        units.push({ group, steps: newMembers });
+      }
+    }
+
+    return units;
+  }
+
+  // ============================================================================
+  // Step Execution
+  // ============================================================================
+
+  private async executeUnit(unit: ExecutionUnit): Promise<void> {
+    if (!unit.group) {
+      await this.executeStep(unit.steps[0] as WorkflowStep);
+      return;
+    }
+
+    const group = unit.group;
+    const queue = [...unit.steps];
+    let groupFailed = false;
+
+    // Each worker takes the next queued step once its previous one has finished
+    const worker = async (): Promise<void> => {
+      const step = queue.shift();
+      if (!step) return;
+
+      if (this.isCancelled()) {
+        this.markSkipped(step, 'Workflow cancelled');
+      } else if (groupFailed && group.failFast) {
+        this.markSkipped(step, `Parallel group ${group.groupId} failed fast`);
+      } else if (!this.awaitingApproval) {
+        const succeeded = await this.executeStep(step);
+        groupFailed = groupFailed || !succeeded;
+      }
+      await worker();
+    };
+
+    const concurrency = Math.max(1, Math.min(group.maxConcurrency, unit.steps.length));
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  }
+
+  private async executeStep(step: WorkflowStep): Promise<boolean> {
+    if (this.options.shouldSkipStep?.(step) === true) {
+      this.markSkipped(step, 'Skipped by orchestration options');
+      return true;
+    }
+
+    const handler = this.options.handlers[step.type];
+    if (!handler) {
+      this.markSkipped(step, `No handler registered for step type ${step.type}`);
+      return true;
+    }
+
+    this.currentPhase = step.phase;
+    return this.runAttempts(step, handler);
+  }
+
+  private async runAttempts(step: WorkflowStep, handler: WorkflowStepHandler, attempt = 1, lastError = ''): Promise<boolean> {
+    // A cancelled run lets the current attempt finish but does not retry it
+    if (this.isCancelled()) {
+      return this.cancelStep(step, lastError);
+    }
+
+    const maxAttempts = Math.max(1, step.retryAttempts);
+    const running = this.updateStep(step.id, {
+      status: attempt === 1 ? 'running' : 'retrying',
+      attempt,
+      startedAt: new Date()
+    });
+    this.options.hooks?.onStepStarted?.(step, running);
+
+    try {
+      const output = await this.runWithTimeout(step, handler);
+      const completed = this.updateStep(step.id, { status: 'completed', output, completedAt: new Date() });
+      this.options.hooks?.onStepCompleted?.(step, completed);
+      return true;
+    } catch (error) {
+      if (error instanceof WorkflowApprovalRequiredError) {
+        return this.pauseStep(step);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Step ${step.id} attempt ${attempt}/${maxAttempts} failed: ${message}`);
+      if (!this.canRetry(error, attempt, maxAttempts)) {
+        return this.isCancelled() ? this.cancelStep(step, message) : this.failStep(step, message);
+      }
+      await this.delay(this.options.retryDelayMs ?? 1000);
+      return this.runAttempts(step, handler, attempt + 1, message);
+    }
+  }
+
+  private canRetry(error: unknown, attempt: number, maxAttempts: number): boolean {
+    // A timed-out attempt may still be creating resources, so running it again could duplicate them
+    return !(error instanceof WorkflowStepTimeoutError) && attempt < maxAttempts && !this.isCancelled();
+  }
+
+  private failStep(step: WorkflowStep, error: string): boolean {
+    const failedExecution = this.updateStep(step.id, { status: 'failed', error, completedAt: new Date() });
+    this.errors.push({
+      stepId: step.id,
+      phase: step.phase,
+      error,
+      timestamp: new Date(),
+      recoverable: !step.required
+    });
+    this.options.hooks?.onStepFailed?.(step, failedExecution);
+
+    if (step.required) {
+      this.failed = true;
+    }
+    return false;
+  }
+
+  private pauseStep(step: WorkflowStep): boolean {
+    const pausedExecution = this.updateStep(step.id, { status: 'awaiting_approval' });
+    this.awaitingApproval = true;
+    this.options.hooks?.onStepAwaitingApproval?.(step, pausedExecution);
+    return true;
+  }
+
+  private cancelStep(step: WorkflowStep, error: string): boolean {
+    const cancelledExecution = this.updateStep(step.id, {
+      status: 'cancelled',
+      error: error !== '' ? error : 'Workflow cancelled',
+      completedAt: new Date()
+    });
+    this.options.hooks?.onStepCancelled?.(step, cancelledExecution);
+    return false;
+  }
+
+  /** Gives the attempt a signal that is aborted when the run is cancelled or the attempt times out */
+  private async runWithTimeout(step: WorkflowStep, handler: WorkflowStepHandler): Promise<unknown> {
+    const attempt = new AbortController();
+    const runSignal = this.runOptions.signal;
+    const cancel = (): void => attempt.abort(runSignal?.reason);
+    if (runSignal?.aborted === true) {
+      cancel();
+    }
+    runSignal?.addEventListener('abort', cancel, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new WorkflowStepTimeoutError(step.id, step.timeoutMs);
+        attempt.abort(error);
+        reject(error);
+      }, step.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([handler(step, this.createContext(attempt.signal)), timeout]);
+    } finally {
+      if (timer) clearTimeout(timer);
+      runSignal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private createContext(signal: AbortSignal): WorkflowStepContext {
+    return {
+      executionId: this.runOptions.executionId,
+      workflow: this.workflow,
+      variables: this.variables,
+      signal,
+      getStepOutput: <T>(stepId: string): T | undefined =>
+        this.stepExecutions.get(stepId)?.output as T | undefined,
+      getOutputByType: <T>(type: WorkflowStepType): T | undefined => {
+        const step = this.workflow.steps.find(s => s.type === type && this.statusOf(s.id) === 'completed');
+        return step ? this.stepExecutions.get(step.id)?.output as T | undefined : undefined;
+      }
+    };
+  }
+
+  // ============================================================================
+  // State Helpers
+  // ============================================================================
+
+  private statusOf(stepId: string): WorkflowStepExecution['status'] | undefined {
+    return this.stepExecutions.get(stepId)?.status;
+  }
+
+  private updateStep(stepId: string, changes: Partial<WorkflowStepExecution>): WorkflowStepExecution {
+    const current = this.stepExecutions.get(stepId) ?? { stepId, status: 'pending', attempt: 0 };
+    const updated: WorkflowStepExecution = { ...current, ...changes };
+    this.stepExecutions.set(stepId, updated);
+    return updated;
+  }
+
+  private markSkipped(step: WorkflowStep, reason: string): void {
+    this.updateStep(step.id, { status: 'skipped', error: reason });
+    this.options.hooks?.onStepSkipped?.(step, reason);
+  }
+
+  /** Fails steps still pending once nothing else can run, e.g. because a dependency never completed */
+  private failUnreachableSteps(): void {
+    this.workflow.steps
+      .filter(step => this.statusOf(step.id) === 'pending')
+      .forEach(step => {
+        const unmet = step.dependencies.filter(depId => !['completed', 'skipped'].includes(this.statusOf(depId) ?? ''));
+        this.failStep(step, `Dependencies not satisfied: ${unmet.join(', ')}`);
+      });
+  }
+
+  private skipRemainingSteps(): void {
+    this.workflow.steps
+      .filter(step => this.statusOf(step.id) === 'pending')
+      .forEach(step => this.markSkipped(step, this.remainingStepsReason()));
+  }
+
+  private remainingStepsReason(): string {
+    return this.isCancelled() ? 'Workflow cancelled' : 'Workflow failed';
+  }
+
+  private snapshot(status: WorkflowExecutionStatus, completedAt: Date | undefined): WorkflowExecution {
+    return {
+      executionId: this.runOptions.executionId,
+      workflowId: this.workflow.id,
+      status,
+      currentPhase: this.currentPhase,
+      startedAt: this.startedAt,
+      ...(completedAt && { completedAt }),
+      steps: this.workflow.steps.map(step => this.stepExecutions.get(step.id) as WorkflowStepExecution),
+      variables: this.variables,
+      errors: [...this.errors]
+    };
+  }
+
+  private async delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default WorkflowEngine;
@@ -1,4 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
 
 describe('Configuration Module Integration', () => {
   const originalEnv = process.env;
@@ -149,6 +151,15 @@ describe('Configuration Module Integration', () => {
       expect(config.templates.directory).toContain('templates');
       expect(config.templates.defaultTemplate).toBe('s-project');
     });
+
+    it('should read templates from the package sources so the built server finds them too', () => {
+      // Act
+      const config = require('../../../src/config').default;
+
+      // Assert
+      expect(config.templates.directory).toBe(path.join(__dirname, '../../../src/templates'));
+      expect(fs.existsSync(path.join(config.templates.directory, 'standard-project.yaml'))).toBe(true);
+    });
   });
 
   describe('Type Safety and Edge Cases', () => {
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { KeyObject, generateKeyPairSync, sign } from 'crypto';
+import express from 'express';
+import { ApiAuthenticator, hashApiKey } from '../../../src/api/auth';
+import { createOrchestrationRouter } from '../../../src/api/routes/orchestration';
+import { IApiAuthConfig } from '../../../src/config/types';
+import { OrchestrationConfig } from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const ORCHESTRATION_CONFIG = {
+  azureDevOps: { organization: 'test-org', personalAccessToken: 'test-pat' },
+  powerPlatform: { environmentUrl: 'https://test.crm.dynamics.com' },
+  microsoftGraph: { accessToken: 'test-token' }
+} as unknown as OrchestrationConfig;
+
+const ISSUER = 'https://login.microsoftonline.com/test-tenant/v2.0';
+const AUDIENCE = 'api://orchestration';
+const API_KEY = 'ci-pipeline-key';
+
+const signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+let jwksDirectory: string;
+let authConfig: IApiAuthConfig;
+
+function signToken(claims: Record<string, unknown>, privateKey: KeyObject = signingKey.privateKey): string {
+  const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'test-key' })}.${encode(claims)}`;
+  return `${unsigned}.${sign('sha256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+}
+
+function tokenClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iss: ISSUER,
+    aud: AUDIENCE,
+    oid: 'user-1',
+    scp: 'templates:read operations:read',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...overrides
+  };
+}
+
+beforeAll(async () => {
+  // A local JWKS file stands in for the issuer's keys endpoint
+  jwksDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+  const jwksPath = path.join(jwksDirectory, 'jwks.json');
+  const jwk = signingKey.publicKey.export({ format: 'jwk' });
+  await fs.writeFile(jwksPath, JSON.stringify({ keys: [{ ...jwk, kid: 'test-key', use: 'sig', alg: 'RS256' }] }));
+
+  authConfig = {
+    apiKeys: [{ id: 'ci', sha256: hashApiKey(API_KEY), scopes: ['projects:create'] }],
+    jwt: { issuer: ISSUER, audience: AUDIENCE, jwksUri: jwksPath }
+  };
+});
+
+afterAll(async () => {
+  await fs.rm(jwksDirectory, { recursive: true, force: true });
+});
+
+describe('ApiAuthenticator', () => {
+  it('should accept tokens signed by a JWKS key with the scopes and roles they grant', async () => {
+    const authenticator = new ApiAuthenticator(authConfig);
+
+    const result = await authenticator.authenticate({
+      authorization: `Bearer ${signToken(tokenClaims({ roles: ['operations:write'] }))}`
+    });
+
+    expect(result).toEqual({
+      success: true,
+      principal: { id: 'jwt:user-1', scopes: ['templates:read', 'operations:read', 'operations:write'] }
+    });
+  });
+
+  it('should reject tokens that are expired, for another audience or signed by another key', async () => {
+    const authenticator = new ApiAuthenticator(authConfig);
+    const authenticate = (token: string): Promise<unknown> => authenticator.authenticate({ authorization: `Bearer ${token}` });
+
+    await expect(authenticate(signToken(tokenClaims({ exp: Math.floor(Date.now() / 1000) - 3600 }))))
+      .resolves.toEqual({ success: false, error: 'Bearer token has expired' });
+    await expect(authenticate(signToken(tokenClaims({ aud: 'api://other' }))))
+      .resolves.toEqual({ success: false, error: 'Bearer token is not meant for this API' });
+    await expect(authenticate(signToken(tokenClaims(), otherKey.privateKey)))
+      .resolves.toEqual({ success: false, error: 'Invalid bearer token signature' });
+    await expect(authenticate('not-a-token')).resolves.toMatchObject({ success: false });
+  });
+
+  it('should match API keys against their hashes', async () => {
+    const authenticator = new ApiAuthenticator(authConfig);
+
+    await expect(authenticator.authenticate({ 'x-api-key': API_KEY }))
+      .resolves.toEqual({ success: true, principal: { id: 'api-key:ci', scopes: ['projects:create'] } });
+    await expect(authenticator.authenticate({ 'x-api-key': 'guessed-key' }))
+      .resolves.toEqual({ success: false, error: 'Invalid API key' });
+    await expect(authenticator.authenticate({})).resolves.toEqual({ success: false, error: 'Missing credentials' });
+  });
+});
+
+describe('Orchestration REST route authorisation', () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/orchestration', createOrchestrationRouter({ orchestrationConfig: ORCHESTRATION_CONFIG, auth: authConfig }));
+
+    await new Promise<void>(resolve => {
+      httpServer = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/api/orchestration`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should require credentials with the scope of each route', async () => {
+    const token = signToken(tokenClaims());
+
+    const anonymous = await fetch(`${baseUrl}/templates`);
+    const withToken = await fetch(`${baseUrl}/templates`, { headers: { Authorization: `Bearer ${token}` } });
+    const withoutScope = await fetch(`${baseUrl}/templates`, { headers: { 'X-API-Key': API_KEY } });
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('Bearer');
+    expect(withToken.status).toBe(200);
+    expect(withoutScope.status).toBe(403);
+    expect(await withoutScope.json()).toMatchObject({ error: { code: 'FORBIDDEN', message: expect.stringContaining('templates:read') } });
+  });
+
+  it('should only let the approver role decide on operations', async () => {
+    const approve = (token: string): Promise<Response> => fetch(`${baseUrl}/operations/proj_1/approvals`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision: 'approved' })
+    });
+
+    const operator = await approve(signToken(tokenClaims({ roles: ['operations:write'] })));
+    const approver = await approve(signToken(tokenClaims({ roles: ['operations:approve'] })));
+
+    expect(operator.status).toBe(403);
+    expect(approver.status).toBe(404);
+  });
+
+  it('should keep health and the API documentation public and list the scopes in it', async () => {
+    const health = await fetch(`${baseUrl}/health`);
+    const document = await fetch(`${baseUrl}/openapi.json`).then(response => response.json()) as {
+      paths: Record<string, Record<string, { security?: unknown }>>;
+    };
+
+    expect(health.status).toBe(200);
+    expect(document.paths['/projects']?.['post']?.security).toEqual([{ bearerAuth: ['projects:create'] }, { apiKey: ['projects:create'] }]);
+    expect(document.paths['/health']?.['get']?.security).toBeUndefined();
+  });
+});
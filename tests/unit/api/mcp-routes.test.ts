@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, it, expect } from '@jest/globals';
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { createMcpRouter } from '../../../src/api/routes/mcp';
+import PowerPlatformMcpServer from '../../../src/mcp/server';
+import { McpSessionStore } from '../../../src/mcp/session-store';
+import { MCP_TOOLS } from '../../../src/mcp/tool-definitions';
+import { OrchestrationConfig } from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const ORCHESTRATION_CONFIG = {
+  azureDevOps: { organization: 'test-org', personalAccessToken: 'test-pat' },
+  powerPlatform: { environmentUrl: 'https://test.crm.dynamics.com' },
+  microsoftGraph: { accessToken: 'test-token' }
+} as unknown as OrchestrationConfig;
+
+interface JsonRpcMessage {
+  readonly result?: { readonly tools?: ReadonlyArray<{ readonly name: string }> };
+  readonly error?: { readonly code: number; readonly message: string };
+}
+
+const TOKEN = 'team-token';
+const API_KEY = 'team-api-key';
+
+let httpServer: HttpServer;
+let endpoint: string;
+let mcpServer: PowerPlatformMcpServer;
+const sessions = new McpSessionStore({ rateLimit: { windowMs: 60000, max: 2 } });
+
+function post(body: object, headers: Record<string, string> = {}): Promise<globalThis.Response> {
+  return fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+/** Reads the JSON-RPC messages of a response sent as a stream of server-sent events */
+async function readMessages(response: globalThis.Response): Promise<JsonRpcMessage[]> {
+  const text = await response.text();
+  return text.split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)) as JsonRpcMessage);
+}
+
+async function initialize(headers: Record<string, string>): Promise<string> {
+  const response = await post({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+  }, headers);
+  expect(response.status).toBe(200);
+  await response.text();
+  return response.headers.get('mcp-session-id') ?? '';
+}
+
+describe('MCP HTTP routes', () => {
+  beforeAll(async () => {
+    mcpServer = new PowerPlatformMcpServer({ orchestrationConfig: ORCHESTRATION_CONFIG });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', createMcpRouter({ mcpServer, sessions, auth: { bearerTokens: [TOKEN], apiKeys: [API_KEY] } }));
+    // The issuer's keys cannot be loaded, as when its JWKS endpoint is down
+    app.use('/mcp-jwt', createMcpRouter({
+      mcpServer,
+      auth: { api: { apiKeys: [], jwt: { issuer: 'https://issuer', audience: 'api://mcp', jwksUri: '/nonexistent/jwks.json' } } }
+    }));
+
+    await new Promise<void>(resolve => {
+      httpServer = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    endpoint = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await sessions.closeAll();
+    await mcpServer.stop();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should reject requests without valid credentials', async () => {
+    const missing = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const wrong = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { Authorization: 'Bearer nope' });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should answer with an error instead of failing when bearer tokens cannot be checked', async () => {
+    const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode({ iss: 'https://issuer' })}.c2lnbmF0dXJl`;
+
+    const response = await fetch(endpoint.replace(/\/mcp$/, '/mcp-jwt'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: { message: 'Internal server error' } });
+  });
+
+  it('should serve the shared tool set in a session bound to its credential', async () => {
+    const sessionId = await initialize({ Authorization: `Bearer ${TOKEN}` });
+    const sessionHeaders = { Authorization: `Bearer ${TOKEN}`, 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '2025-03-26' };
+
+    const initialized = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionHeaders);
+    const list = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionHeaders);
+    const [message] = await readMessages(list);
+
+    expect(initialized.status).toBe(202);
+    expect(message?.result?.tools?.map(tool => tool.name)).toEqual(MCP_TOOLS.map(tool => tool.name));
+
+    const otherClient = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, { ...sessionHeaders, Authorization: '', 'X-API-Key': API_KEY });
+    expect(otherClient.status).toBe(403);
+
+    const limited = await post({ jsonrpc: '2.0', id: 4, method: 'tools/list' }, sessionHeaders);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+  });
+
+  it('should require a known session after initialization', async () => {
+    const withoutSession = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'X-API-Key': API_KEY });
+    const unknownSession = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'X-API-Key': API_KEY, 'Mcp-Session-Id': 'missing' });
+
+    expect(withoutSession.status).toBe(400);
+    expect(unknownSession.status).toBe(404);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, it, expect } from '@jest/globals';
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import express, { Router } from 'express';
+import { createOrchestrationRouter } from '../../../src/api/routes/orchestration';
+import { OpenApiDocument, createOpenApiDocument } from '../../../src/api/openapi';
+import { OpenApiValidator } from '../../../src/api/openapi-validator';
+import { OrchestrationConfig } from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const ORCHESTRATION_CONFIG = {
+  azureDevOps: { organization: 'test-org', personalAccessToken: 'test-pat' },
+  powerPlatform: { environmentUrl: 'https://test.crm.dynamics.com' },
+  microsoftGraph: { accessToken: 'test-token' }
+} as unknown as OrchestrationConfig;
+
+const BASE_PATH = '/api/orchestration';
+
+let httpServer: HttpServer;
+let baseUrl: string;
+let router: Router;
+
+function request(path: string, init: RequestInit = {}): Promise<globalThis.Response> {
+  return fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+}
+
+/** Lists the routes of the router as OpenAPI path templates, e.g. `get /templates/{templateName}` */
+function routesOf(target: Router): string[] {
+  return target.stack.flatMap(layer => {
+    const route = layer.route as { path: string; methods: Record<string, boolean> } | undefined;
+    if (!route) return [];
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    return Object.keys(route.methods).map(method => `${method} ${path}`);
+  });
+}
+
+describe('Orchestration REST routes', () => {
+  beforeAll(async () => {
+    router = createOrchestrationRouter({ orchestrationConfig: ORCHESTRATION_CONFIG, enableValidation: true, validateResponses: true });
+
+    const app = express();
+    app.use(express.json());
+    app.use(BASE_PATH, router);
+
+    await new Promise<void>(resolve => {
+      httpServer = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}${BASE_PATH}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should document every route in the served OpenAPI document', async () => {
+    const response = await request('/openapi.json');
+    const document = await response.json() as OpenApiDocument;
+
+    expect(response.status).toBe(200);
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.servers).toEqual([{ url: BASE_PATH }]);
+
+    const documented = Object.entries(document.paths).flatMap(([path, methods]) =>
+      Object.keys(methods).map(method => `${method} ${path}`));
+    // The documentation routes describe the API rather than belong to it
+    const routes = routesOf(router).filter(route => !['get /openapi.json', 'get /docs'].includes(route));
+    expect(documented.sort()).toEqual(routes.sort());
+  });
+
+  it('should serve a docs page for the document', async () => {
+    const response = await request('/docs');
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain(`"${BASE_PATH}/openapi.json"`);
+  });
+
+  it('should accept a project at once with the operation ID to follow it by', async () => {
+    const skipAll = 'skipAzureDevOps=true&skipPowerPlatform=true&skipAppRegistration=true';
+    const created = await request(`/projects?${skipAll}`, {
+      method: 'POST',
+      body: JSON.stringify({ templateName: 'standard-project', projectName: 'Accepted' })
+    });
+    const unknown = await request(`/projects?${skipAll}`, {
+      method: 'POST',
+      body: JSON.stringify({ templateName: 'no-such-template', projectName: 'Rejected' })
+    });
+
+    expect(created.status).toBe(202);
+    const { operationId, status } = await created.json() as { operationId: string; status: string };
+    expect(status).toBe('started');
+    const operation = await request(`/operations/${operationId}`);
+    expect(operation.status).toBe(200);
+    expect(await operation.json()).toMatchObject({ operationId });
+    expect(unknown.status).toBe(400);
+  });
+
+  it('should send responses that match the document', async () => {
+    const paths = ['/templates', '/templates/standard-project', '/operations?limit=5', '/health', '/status'];
+
+    const responses = await Promise.all(paths.map(path => request(path)));
+    const bodies = await Promise.all(responses.map(response => response.json()));
+
+    expect(responses.map(response => response.status)).toEqual(paths.map(() => 200));
+    expect(bodies).not.toContainEqual(expect.objectContaining({ error: expect.anything() }));
+  });
+
+  it('should reject bodies and query strings that do not match the document', async () => {
+    const body = await request('/projects', { method: 'POST', body: JSON.stringify({ projectName: 5 }) });
+    const query = await request('/operations?limit=0&status=pending');
+
+    expect(body.status).toBe(400);
+    expect(await body.json()).toMatchObject({
+      error: {
+        code: 'VALIDATION_ERROR',
+        details: expect.arrayContaining([
+          expect.objectContaining({ field: 'templateName', code: 'REQUIRED_FIELD' }),
+          expect.objectContaining({ field: 'projectName', code: 'INVALID_TYPE' })
+        ])
+      }
+    });
+    expect(query.status).toBe(400);
+    expect(await query.json()).toMatchObject({
+      error: { details: [expect.objectContaining({ field: 'limit' }), expect.objectContaining({ field: 'status' })] }
+    });
+  });
+});
+
+describe('OpenApiValidator', () => {
+  const validator = new OpenApiValidator(createOpenApiDocument());
+
+  it('should match request paths to documented operations', () => {
+    expect(validator.findOperation('GET', '/operations/op-1/events')?.operationId).toBe('streamOperationEvents');
+    expect(validator.findOperation('DELETE', '/operations/op-1')?.operationId).toBe('cancelOperation');
+    expect(validator.findOperation('PUT', '/operations/op-1')).toBeUndefined();
+  });
+
+  it('should report responses that drift from the document', () => {
+    const health = validator.findOperation('GET', '/health');
+    if (!health) throw new Error('health is not documented');
+
+    const drifted = validator.validateResponse(health, 200, { status: 'ok', timestamp: new Date(), version: '1.0.0', uptime: 1 });
+    const error = validator.validateResponse(health, 503, { error: { code: 'DOWN', message: 'Down' }, timestamp: '', requestId: 'req' });
+
+    expect(drifted.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'services', code: 'REQUIRED_FIELD' }),
+      expect.objectContaining({ field: 'status', code: 'INVALID_VALUE' })
+    ]));
+    expect(error.isValid).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { OrchestrationPrompts } from '../../../src/mcp/prompt-provider';
+import ProjectOrchestrator from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const TEMPLATE = {
+  name: 'standard-project',
+  displayName: 'Standard Project',
+  parameters: [
+    { name: 'projectName', type: 'string', required: true, description: 'Project name' },
+    { name: 'region', type: 'choice', required: true, description: 'Deployment region', allowedValues: ['unitedstates', 'europe'] },
+    { name: 'sprints', type: 'number', required: true, description: 'Sprint count', defaultValue: 6 }
+  ],
+  azureDevOps: {
+    epics: [
+      { title: 'Environment Setup', features: [{ title: 'Development Environment' }] },
+      { title: 'Core Application', description: 'The app itself', features: [] }
+    ]
+  },
+  powerPlatform: {
+    tables: [{ schemaName: 'jr_project', displayName: 'Project' }],
+    relationships: []
+  }
+};
+
+function createPrompts(): OrchestrationPrompts {
+  const orchestrator = {
+    listTemplates: () => Promise.resolve({ success: true, data: { templates: [TEMPLATE] } }),
+    getTemplateDetails: (name: string) => Promise.resolve(name === TEMPLATE.name
+      ? { success: true, data: TEMPLATE }
+      : { success: false, error: `Template '${name}' not found` })
+  } as unknown as ProjectOrchestrator;
+
+  return new OrchestrationPrompts(orchestrator);
+}
+
+function textOf(result: Awaited<ReturnType<OrchestrationPrompts['get']>>): string {
+  return result.messages.map(message => message.content.type === 'text' ? message.content.text : '').join('\n');
+}
+
+describe('OrchestrationPrompts', () => {
+  it('should embed the PRD schema and the template epics, features and parameters', async () => {
+    const prompts = createPrompts();
+
+    const result = await prompts.get('draft_prd', { appDescription: 'Track field inspections', templateName: 'standard-project' });
+
+    const resources = result.messages.flatMap(message => message.content.type === 'resource' ? [message.content.resource] : []);
+    expect(resources.map(resource => resource.uri)).toEqual(['schema://prd', 'template://standard-project']);
+    expect(resources[0]).toMatchObject({ text: expect.stringContaining('userStories') });
+
+    const text = textOf(result);
+    expect(text).toContain('Track field inspections');
+    expect(text).toContain('- Environment Setup');
+    expect(text).toContain('  - Feature: Development Environment');
+    expect(text).toContain('- region (choice) (one of: unitedstates, europe)');
+    // Filled by validate_prd or by its default, so not asked for
+    expect(text).not.toContain('- projectName');
+    expect(text).not.toContain('- sprints');
+  });
+
+  it('should list the template tables when planning the data model', async () => {
+    const prompts = createPrompts();
+
+    const result = await prompts.get('plan_data_model', { requirements: 'Inspections belong to a project', templateName: 'standard-project' });
+
+    expect(textOf(result)).toContain('- Project (jr_project)');
+    expect(prompts.list().prompts.map(prompt => prompt.name)).toEqual(['draft_prd', 'review_prd', 'plan_data_model']);
+  });
+
+  it('should reject unknown prompts, missing arguments and unknown templates', async () => {
+    const prompts = createPrompts();
+
+    await expect(prompts.get('write_code')).rejects.toThrow(McpError);
+    await expect(prompts.get('review_prd', { prd: '{}' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Missing required argument: templateName')
+    });
+    await expect(prompts.get('review_prd', { prd: '{}', templateName: 'missing' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Template not found: missing')
+    });
+  });
+});
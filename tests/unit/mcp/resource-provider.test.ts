@@ -0,0 +1,107 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { OrchestrationResources } from '../../../src/mcp/resource-provider';
+import { OperationEventBus } from '../../../src/orchestration/operation-events';
+import ProjectOrchestrator from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const OPERATION = {
+  operationId: 'op-1',
+  status: 'in_progress',
+  startedAt: '2024-01-01T00:00:00.000Z',
+  progress: { totalSteps: 3, completedSteps: 1 },
+  logs: [
+    { timestamp: '2024-01-01T00:00:00.000Z', level: 'info', message: 'Operation started' },
+    { timestamp: '2024-01-01T00:00:05.000Z', level: 'error', message: 'Environment quota reached' }
+  ]
+};
+
+function createResources(): { resources: OrchestrationResources; events: OperationEventBus } {
+  const events = new OperationEventBus();
+  const orchestrator = {
+    listTemplates: () => Promise.resolve({
+      success: true,
+      data: { templates: [{ name: 'standard project', displayName: 'Standard Project', description: 'Default setup' }] }
+    }),
+    getTemplateDetails: (name: string) => Promise.resolve(name === 'standard project'
+      ? { success: true, data: { name, workflowId: 'wf-1' } }
+      : { success: false, error: `Template ${name} not found` }),
+    listOperations: () => Promise.resolve({
+      success: true,
+      data: { operations: [{ operationId: 'op-1', projectName: 'Contoso', status: 'in_progress' }] }
+    }),
+    getOperationStatus: (operationId: string) => Promise.resolve(operationId === 'op-1'
+      ? { success: true, data: OPERATION }
+      : { success: false, error: `Operation ${operationId} not found` }),
+    subscribeToOperation: (operationId: string, listener: () => void) =>
+      Promise.resolve({ success: true, data: events.subscribe(operationId, listener) })
+  } as unknown as ProjectOrchestrator;
+
+  return { resources: new OrchestrationResources(orchestrator), events };
+}
+
+function flushMicrotasks(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('OrchestrationResources', () => {
+  it('should list the PRD schema, templates and recent operations', async () => {
+    const { resources } = createResources();
+
+    const { resources: listed } = await resources.list();
+
+    expect(listed.map(resource => resource.uri)).toEqual([
+      'schema://prd',
+      'template://standard%20project',
+      'operation://op-1',
+      'operation://op-1/log'
+    ]);
+    expect(resources.listTemplates().resourceTemplates.map(template => template.uriTemplate))
+      .toEqual(['template://{name}', 'operation://{id}', 'operation://{id}/log']);
+  });
+
+  it('should read templates, the PRD schema and operation logs', async () => {
+    const { resources } = createResources();
+
+    const template = await resources.read('template://standard%20project');
+    const schema = await resources.read('schema://prd');
+    const log = await resources.read('operation://op-1/log');
+
+    expect(JSON.parse(template.contents[0]?.text as string)).toEqual({ name: 'standard project', workflowId: 'wf-1' });
+    expect(schema.contents[0]?.text).toContain('PRD Schema');
+    expect(log.contents[0]).toEqual({
+      uri: 'operation://op-1/log',
+      mimeType: 'text/plain',
+      text: '2024-01-01T00:00:00.000Z [info] Operation started\n2024-01-01T00:00:05.000Z [error] Environment quota reached'
+    });
+    await expect(resources.read('template://missing')).rejects.toThrow('Resource not found');
+    await expect(resources.read('file:///etc/passwd')).rejects.toThrow('Unknown resource');
+  });
+
+  it('should notify subscribers of operation updates until they unsubscribe', async () => {
+    const { resources, events } = createResources();
+    const notify = jest.fn((_uri: string) => Promise.resolve());
+    const subscriptions = resources.createSubscriptions(notify);
+
+    await subscriptions.subscribe('operation://op-1');
+    await subscriptions.subscribe('operation://op-1/log');
+    events.publish('op-1', 'progress', { totalSteps: 3, completedSteps: 2, percentage: 66 });
+    await flushMicrotasks();
+    events.publish('op-1', 'log', { timestamp: '2024-01-01T00:00:10.000Z', level: 'info', message: 'Step completed' });
+    await flushMicrotasks();
+
+    expect(notify.mock.calls.map(call => call[0])).toEqual([
+      'operation://op-1',
+      'operation://op-1',
+      'operation://op-1/log'
+    ]);
+
+    subscriptions.closeAll();
+    events.publish('op-1', 'log', { timestamp: '2024-01-01T00:00:15.000Z', level: 'info', message: 'Ignored' });
+    await flushMicrotasks();
+
+    expect(notify).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpSession, McpSessionStore, McpSessionTransport } from '../../../src/mcp/session-store';
+import logger from '../../../src/utils/logger';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function addSession(store: McpSessionStore, sessionId: string, now: number): { session: McpSession; close: jest.Mock } {
+  const close = jest.fn(() => Promise.resolve());
+  const session = store.add(sessionId, {
+    connection: { type: 'sse' } as McpSessionTransport,
+    server: { close } as unknown as Server,
+    principal: 'bearer:abc'
+  }, now);
+  return { session, close };
+}
+
+describe('McpSessionStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should limit requests per session within each window', () => {
+    const store = new McpSessionStore({ rateLimit: { windowMs: 1000, max: 2 } });
+    const { session } = addSession(store, 's1', 0);
+    const other = addSession(store, 's2', 0).session;
+
+    expect(store.consume(session, 100)).toEqual({ allowed: true });
+    expect(store.consume(session, 200)).toEqual({ allowed: true });
+    expect(store.consume(session, 300)).toEqual({ allowed: false, retryAfterMs: 700 });
+    expect(store.consume(other, 300)).toEqual({ allowed: true });
+    expect(store.consume(session, 1000)).toEqual({ allowed: true });
+  });
+
+  it('should close idle sessions before reporting capacity', () => {
+    const store = new McpSessionStore({ idleTimeoutMs: 1000, maxSessions: 2 });
+    const idle = addSession(store, 's1', 0);
+    const active = addSession(store, 's2', 0);
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+
+    store.consume(active.session, 900);
+
+    expect(store.hasCapacity(500)).toBe(false);
+    expect(store.hasCapacity(1500)).toBe(true);
+    expect(idle.close).toHaveBeenCalledTimes(1);
+    expect(store.get('s1', 1500)).toBeUndefined();
+    expect(store.get('s2', 1500)).toBe(active.session);
+  });
+
+  it('should close every session once', async () => {
+    const store = new McpSessionStore();
+    const first = addSession(store, 's1', Date.now());
+    const second = addSession(store, 's2', Date.now());
+
+    await store.remove('s1');
+    await store.closeAll();
+    await store.remove('s1');
+
+    expect(first.close).toHaveBeenCalledTimes(1);
+    expect(second.close).toHaveBeenCalledTimes(1);
+    expect(store.size).toBe(0);
+  });
+});
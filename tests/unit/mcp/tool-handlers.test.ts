@@ -0,0 +1,221 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PowerPlatformMCPClient } from '../../../src/integrations/power-platform/power-platform-client';
+import SchemaAwarePowerPlatformClient from '../../../src/integrations/power-platform/schema-aware-client';
+import { OrchestrationToolHandlers } from '../../../src/mcp/tool-handlers';
+import { ToolCallExtra, ToolRegistry } from '../../../src/mcp/tool-registry';
+import ProjectOrchestrator from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const ENVIRONMENT_URL = 'https://contoso.crm.dynamics.com';
+
+type BaseClientMock = Record<
+  'createTable' | 'createOneToManyRelationship' | 'createMultipleRecords' | 'addTableToSolution',
+  jest.Mock<(...args: any[]) => Promise<unknown>>
+>;
+
+function createTools(): { call: (name: string, args?: object) => Promise<any>; baseClient: BaseClientMock } {
+  const created = (): Promise<object> => Promise.resolve({ success: true, data: { id: 'new-id', message: 'Created' } });
+  const baseClient: BaseClientMock = {
+    createTable: jest.fn(created),
+    createOneToManyRelationship: jest.fn(created),
+    createMultipleRecords: jest.fn((_entitySet: string, records: object[]) => Promise.resolve(records.map(() => ({ success: true, data: { id: 'record-id', message: 'Created' } })))),
+    addTableToSolution: jest.fn(created)
+  };
+  const registry = new ToolRegistry();
+  new OrchestrationToolHandlers(
+    {} as ProjectOrchestrator,
+    new SchemaAwarePowerPlatformClient(baseClient as unknown as PowerPlatformMCPClient),
+    ENVIRONMENT_URL
+  ).register(registry);
+
+  const call = async (name: string, args: object = {}): Promise<any> => {
+    const result = await registry.call(name, args, {} as ToolCallExtra);
+    return JSON.parse((result.content[0] as { text: string }).text);
+  };
+  return { call, baseClient };
+}
+
+describe('Dataverse schema tools', () => {
+  it('should preview a table on dry run without creating or registering it', async () => {
+    const { call, baseClient } = createTools();
+
+    const preview = await call('create_dataverse_table', { displayName: 'Project Task', dryRun: true });
+    const schema = await call('list_dataverse_schema');
+
+    expect(preview).toMatchObject({ success: true, dryRun: true, table: { logicalName: 'jr_projecttask', schemaName: 'jr_ProjectTask' } });
+    expect(preview.metadata.EntitySetName).toBe('jr_projecttasks');
+    expect(baseClient.createTable).not.toHaveBeenCalled();
+    expect(schema.tables).toEqual([]);
+  });
+
+  it('should create tables and a relationship, then bind child records through its navigation property', async () => {
+    const { call, baseClient } = createTools();
+    await call('create_dataverse_table', { displayName: 'Project' });
+    await call('create_dataverse_table', { displayName: 'Project Task' });
+
+    const relationshipPreview = await call('create_dataverse_relationship', { parentTable: 'Project', childTable: 'Project Task', dryRun: true });
+    expect(baseClient.createOneToManyRelationship).not.toHaveBeenCalled();
+
+    const relationship = await call('create_dataverse_relationship', { parentTable: 'Project', childTable: 'Project Task' });
+    const recordsPreview = await call('create_child_records', {
+      parentTable: 'Project',
+      childTable: 'Project Task',
+      records: [{ parentId: 'p1', data: { jr_name: 'Design' } }],
+      dryRun: true
+    });
+    const records = await call('create_child_records', {
+      parentTable: 'Project',
+      childTable: 'Project Task',
+      records: [{ parentId: 'p1', data: { jr_name: 'Design' } }, { parentId: 'p1', data: { jr_name: 'Build' } }]
+    });
+    const schema = await call('list_dataverse_schema');
+
+    expect(relationshipPreview.navigationProperty).toBe('jr_Project@odata.bind');
+    expect(relationship).toMatchObject({ success: true, dryRun: false, navigationProperty: 'jr_Project@odata.bind' });
+    expect(recordsPreview.records).toEqual([{ jr_name: 'Design', 'jr_Project@odata.bind': '/jr_projects(p1)' }]);
+    expect(records).toMatchObject({ success: true, createdIds: ['record-id', 'record-id'], errors: [] });
+    expect(baseClient.createMultipleRecords).toHaveBeenCalledWith('jr_projecttasks', expect.any(Array), ENVIRONMENT_URL);
+    expect(schema.tables).toHaveLength(2);
+    expect(schema.relationships[0].navigationProperty).toBe('jr_Project@odata.bind');
+  });
+
+  it('should only add registered tables to a solution', async () => {
+    const { call, baseClient } = createTools();
+
+    const missing = await call('add_table_to_solution', { tableName: 'Project', solutionName: 'core', dryRun: true });
+    await call('create_dataverse_table', { displayName: 'Project' });
+    const preview = await call('add_table_to_solution', { tableName: 'Project', solutionName: 'core', dryRun: true });
+    const added = await call('add_table_to_solution', { tableName: 'Project', solutionName: 'core' });
+
+    expect(missing).toMatchObject({ success: false, error: 'Table not registered: Project' });
+    expect(preview).toMatchObject({ success: true, dryRun: true });
+    expect(added).toMatchObject({ success: true, dryRun: false });
+    expect(baseClient.addTableToSolution).toHaveBeenCalledWith('jr_project', 'core', ENVIRONMENT_URL);
+  });
+
+  it('should reject malformed child records', async () => {
+    const { call } = createTools();
+
+    await expect(call('create_child_records', { parentTable: 'Project', childTable: 'Task', records: [{ data: {} }] }))
+      .rejects.toThrow('records must be a non-empty array');
+  });
+});
+
+// ============================================================================
+// Create Project Elicitation
+// ============================================================================
+
+const PARAMETERS = [
+  { name: 'projectName', displayName: 'Project name', description: 'Name', type: 'string', required: true },
+  { name: 'region', displayName: 'Region', description: 'Deployment region', type: 'choice', required: true, allowedValues: ['unitedstates', 'europe'] },
+  { name: 'environmentCount', displayName: 'Environments', description: 'Number of environments', type: 'number', required: true, validation: { minValue: 1, maxValue: 10 } }
+];
+
+function createProjectTools(answers: object[], elicitation = true): {
+  call: (args: object) => Promise<any>;
+  createProject: jest.Mock<(...args: any[]) => Promise<unknown>>;
+  sendRequest: jest.Mock<(...args: any[]) => Promise<unknown>>;
+} {
+  const createProject = jest.fn((..._args: any[]) => Promise.resolve({
+    success: true,
+    data: { operationId: 'op-1', status: 'pending', progress: { totalSteps: 3, completedSteps: 0 } }
+  }));
+  const orchestrator = {
+    getTemplateDetails: () => Promise.resolve({ success: true, data: { parameters: PARAMETERS } }),
+    validateTemplateParameters: (_name: string, parameters: Record<string, unknown>) => {
+      const count = parameters.environmentCount;
+      const valid = typeof count === 'number' && count <= 10;
+      return Promise.resolve({
+        success: true,
+        data: {
+          valid,
+          errors: valid ? [] : [{ field: 'parameters.environmentCount', parameter: 'environmentCount', message: 'Must be at most 10', code: 'OUT_OF_RANGE' }],
+          environments: Array.from({ length: valid ? count : 0 }, (_, index) => ({ displayName: `Env ${index}`, type: 'Sandbox', region: 'europe', sku: 'Sandbox' }))
+        }
+      });
+    },
+    createProject
+  } as unknown as ProjectOrchestrator;
+
+  const sendRequest = jest.fn((..._args: any[]) => Promise.resolve(answers.shift() ?? { action: 'cancel' }));
+  const extra = {
+    signal: new AbortController().signal,
+    sendRequest,
+    ...(elicitation && { clientCapabilities: { elicitation: {} } })
+  } as unknown as ToolCallExtra;
+
+  const registry = new ToolRegistry();
+  new OrchestrationToolHandlers(orchestrator, {} as SchemaAwarePowerPlatformClient).register(registry);
+  const call = async (args: object): Promise<any> => {
+    const result = await registry.call('create_project', args, extra);
+    return JSON.parse((result.content[0] as { text: string }).text);
+  };
+  return { call, createProject, sendRequest };
+}
+
+describe('create_project elicitation', () => {
+  it('should ask for missing parameters again until the answers pass the template rules', async () => {
+    const { call, createProject, sendRequest } = createProjectTools([
+      { action: 'accept', content: { region: 'europe', environmentCount: 12 } },
+      { action: 'accept', content: { environmentCount: 2 } }
+    ]);
+
+    const result = await call({ projectName: 'Contoso', templateName: 'standard-project' });
+
+    expect(result).toMatchObject({ success: true, operationId: 'op-1' });
+    const firstForm = (sendRequest.mock.calls[0]?.[0] as { params: { requestedSchema: object } }).params.requestedSchema;
+    expect(firstForm).toEqual({
+      type: 'object',
+      properties: {
+        region: { type: 'string', title: 'Region', description: 'Deployment region', enum: ['unitedstates', 'europe'] },
+        environmentCount: { type: 'number', title: 'Environments', description: 'Number of environments', minimum: 1, maximum: 10 }
+      },
+      required: ['region', 'environmentCount']
+    });
+    expect((sendRequest.mock.calls[1]?.[0] as { params: { message: string } }).params.message).toContain('environmentCount: Must be at most 10');
+    expect(createProject).toHaveBeenCalledWith(
+      expect.objectContaining({ customization: { region: 'europe', environmentCount: 2 } }),
+      {}, undefined, expect.anything()
+    );
+  });
+
+  it('should not start the project when the user declines to create more than three environments', async () => {
+    const { call, createProject, sendRequest } = createProjectTools([{ action: 'accept', content: { confirm: false } }]);
+
+    const result = await call({
+      projectName: 'Contoso',
+      templateName: 'standard-project',
+      customization: { region: 'europe', environmentCount: 4 }
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'The user did not confirm the environments to create' });
+    expect(sendRequest).toHaveBeenCalledTimes(1);
+    expect(createProject).not.toHaveBeenCalled();
+  });
+
+  it('should describe the result by the status the operation reached', async () => {
+    const { call, createProject } = createProjectTools([], false);
+    createProject.mockResolvedValueOnce({
+      success: true,
+      data: { operationId: 'op-1', status: 'failed', progress: { totalSteps: 3, completedSteps: 1 } }
+    });
+
+    const result = await call({ projectName: 'Contoso', templateName: 'standard-project' });
+
+    expect(result).toMatchObject({ success: true, status: 'failed', message: 'Project creation failed' });
+  });
+
+  it('should pass the request on unchanged when the client does not support elicitation', async () => {
+    const { call, createProject, sendRequest } = createProjectTools([], false);
+
+    await call({ projectName: 'Contoso', templateName: 'standard-project' });
+
+    expect(sendRequest).not.toHaveBeenCalled();
+    expect(createProject).toHaveBeenCalledWith(
+      expect.objectContaining({ projectName: 'Contoso' }), {}, undefined, expect.anything()
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import SchemaAwarePowerPlatformClient from '../../../src/integrations/power-platform/schema-aware-client';
+import { MCP_TOOLS } from '../../../src/mcp/tool-definitions';
+import { OrchestrationToolHandlers } from '../../../src/mcp/tool-handlers';
+import { McpToolDefinition, ToolCallExtra, ToolRegistry } from '../../../src/mcp/tool-registry';
+import ProjectOrchestrator from '../../../src/orchestration/project-orchestrator';
+import logger from '../../../src/utils/logger';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const EXTRA = {} as ToolCallExtra;
+
+function tool(name: string): McpToolDefinition {
+  return { name, description: name, inputSchema: { type: 'object', properties: {} } };
+}
+
+function textResult(text: string): Promise<{ content: { type: 'text'; text: string }[] }> {
+  return Promise.resolve({ content: [{ type: 'text', text }] });
+}
+
+describe('ToolRegistry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should call the handler registered for a tool', async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn((args: unknown) => textResult((args as { value: string }).value));
+    registry.register(tool('echo'), handler);
+
+    const result = await registry.call('echo', { value: 'hello' }, EXTRA);
+
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+    expect(handler).toHaveBeenCalledWith({ value: 'hello' }, EXTRA);
+    expect(() => registry.register(tool('echo'), handler)).toThrow('already registered');
+  });
+
+  it('should report unknown tools and wrap handler failures as MCP errors', async () => {
+    const registry = new ToolRegistry();
+    registry.register(tool('broken'), () => Promise.reject(new Error('boom')));
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+
+    await expect(registry.call('missing', {}, EXTRA)).rejects.toMatchObject({ code: ErrorCode.MethodNotFound });
+    await expect(registry.call('broken', {}, EXTRA)).rejects.toMatchObject({
+      code: ErrorCode.InternalError,
+      message: expect.stringContaining('Tool execution failed: boom')
+    });
+    await expect(registry.call('broken', {}, EXTRA)).rejects.toBeInstanceOf(McpError);
+  });
+
+  it('should register a handler for every tool definition and reject definitions without one', () => {
+    const handlers = new OrchestrationToolHandlers({} as ProjectOrchestrator, {} as SchemaAwarePowerPlatformClient);
+    const registry = new ToolRegistry();
+
+    handlers.register(registry);
+
+    expect(registry.list().map(t => t.name)).toEqual(MCP_TOOLS.map(t => t.name));
+    expect(() => handlers.register(new ToolRegistry(), [tool('unknown_tool')])).toThrow('No handler is implemented');
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, it, expect, jest } from '@jest/globals';
+import { ApprovalPolicy, ApprovalSubject, WebhookApprovalNotifier } from '../../../src/orchestration/approvals';
+import { convertSProjectTemplate } from '../../../src/templates/s-project-converter';
+import { ProjectWorkflowDefinitions, WorkflowStep } from '../../../src/workflows/project-workflow';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const workflow = ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW;
+
+function findStep(steps: readonly WorkflowStep[], id: string): WorkflowStep {
+  const step = steps.find(candidate => candidate.id === id);
+  if (!step) throw new Error(`Step ${id} is not in the workflow`);
+  return step;
+}
+
+function createSubject(overrides: Partial<ApprovalSubject> = {}): ApprovalSubject {
+  const template = convertSProjectTemplate('sample', {
+    projectTemplate: {
+      name: 'Sample',
+      version: '1.0.0',
+      environments: [
+        { name: 'Development', type: 'development', region: 'unitedstates' },
+        { name: 'Production', type: 'production', region: 'unitedstates' }
+      ],
+      azureDevOps: { processTemplate: 'Agile' }
+    }
+  });
+  return { template, steps: workflow.steps, isNewApplication: () => Promise.resolve(false), ...overrides };
+}
+
+describe('ApprovalPolicy', () => {
+  const policy = new ApprovalPolicy({ maxEnvironments: 1 });
+  const gate = findStep(workflow.steps, 'apr-001');
+
+  it('should require approval for Production environments and more environments than allowed', async () => {
+    const reasons = await policy.evaluate(gate, createSubject());
+
+    expect(reasons.map(reason => reason.rule)).toEqual(['production_environment', 'environment_count']);
+    expect(reasons[0]?.message).toContain('Production');
+  });
+
+  it('should only ask about admin consent when a new app registration is granted it', async () => {
+    const isNewApplication = jest.fn(() => Promise.resolve(true));
+    const withoutEnvironments = workflow.steps.filter(step => step.type !== 'environment_creation');
+
+    const reasons = await policy.evaluate(gate, createSubject({ steps: withoutEnvironments, isNewApplication }));
+    const withoutConsent = await policy.evaluate(gate, createSubject({
+      steps: withoutEnvironments.filter(step => step.type !== 'permission_assignment'),
+      isNewApplication
+    }));
+
+    expect(reasons.map(reason => reason.rule)).toEqual(['admin_consent']);
+    expect(withoutConsent).toEqual([]);
+    expect(isNewApplication).toHaveBeenCalledTimes(1);
+  });
+
+  it('should always require approval for review steps', async () => {
+    const review = findStep(ProjectWorkflowDefinitions.ENTERPRISE_PROJECT_WORKFLOW.steps, 'sec-001');
+
+    const reasons = await policy.evaluate(review, createSubject({ steps: [] }));
+
+    expect(reasons).toEqual([{ rule: 'workflow_step', message: review.description }]);
+  });
+});
+
+describe('WebhookApprovalNotifier', () => {
+  const request = {
+    operationId: 'proj_1',
+    projectName: 'Sample',
+    approval: { stepId: 'apr-001', stepName: 'Provisioning Approval', reasons: [], requestedAt: '2024-01-01T00:00:00.000Z' }
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should abandon the post when the webhook does not answer in time', async () => {
+    jest.spyOn(global, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }));
+
+    await expect(new WebhookApprovalNotifier('https://hooks.example.com/approvals', 10).notify(request))
+      .rejects.toThrow('timeout');
+  });
+});
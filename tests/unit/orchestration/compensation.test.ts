@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  CompensationLedger,
+  CompensationManager,
+  CreatedResource,
+  ResourceCompensator
+} from '../../../src/orchestration/compensation';
+import { ProjectWorkflowDefinitions } from '../../../src/workflows/project-workflow';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const workflow = ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW;
+
+function createLedger(): CompensationLedger {
+  const ledger = new CompensationLedger();
+  ledger.record({ resourceType: 'app_registration', resourceId: 'app-1', displayName: 'App', stepId: 'auth-001' });
+  ledger.record({ resourceType: 'azure_devops_project', resourceId: 'ado-1', displayName: 'Project', stepId: 'ado-001' });
+  ledger.record({ resourceType: 'environment', resourceId: 'env-dev', displayName: 'Dev', stepId: 'pp-001' });
+  ledger.record({ resourceType: 'environment', resourceId: 'env-test', displayName: 'Test', stepId: 'pp-001' });
+  ledger.record({
+    resourceType: 'publisher',
+    resourceId: 'pub-1',
+    displayName: 'Publisher',
+    stepId: 'pp-002',
+    environmentUrl: 'https://dev.crm.dynamics.com'
+  });
+  ledger.record({
+    resourceType: 'solution',
+    resourceId: 'sol-1',
+    displayName: 'Solution',
+    stepId: 'pp-003',
+    environmentUrl: 'https://dev.crm.dynamics.com'
+  });
+  return ledger;
+}
+
+function recordingCompensator(deleted: string[]): ResourceCompensator {
+  return (resource: CreatedResource) => {
+    deleted.push(resource.resourceId);
+    return Promise.resolve({ success: true });
+  };
+}
+
+describe('CompensationManager', () => {
+  describe('Ordering', () => {
+    it('should remove dependants before the resources they depend on', async () => {
+      const deleted: string[] = [];
+      const compensator = recordingCompensator(deleted);
+      const manager = new CompensationManager({
+        app_registration: compensator,
+        azure_devops_project: compensator,
+        environment: compensator,
+        publisher: compensator,
+        solution: compensator
+      });
+
+      const report = await manager.compensate(workflow, createLedger().getResources());
+
+      expect(report.fullyCompensated).toBe(true);
+      expect(deleted.indexOf('sol-1')).toBeLessThan(deleted.indexOf('pub-1'));
+      expect(deleted.indexOf('pub-1')).toBeLessThan(deleted.indexOf('env-dev'));
+      expect(deleted.indexOf('env-test')).toBeLessThan(deleted.indexOf('env-dev'));
+      expect(deleted[deleted.length - 1]).toBe('app-1');
+    });
+  });
+
+  describe('Reporting', () => {
+    it('should report failed deletions and continue with remaining resources', async () => {
+      const deleted: string[] = [];
+      const manager = new CompensationManager({
+        app_registration: recordingCompensator(deleted),
+        azure_devops_project: recordingCompensator(deleted),
+        environment: (resource) => resource.resourceId === 'env-dev'
+          ? Promise.resolve({ success: false, error: 'Environment is locked' })
+          : recordingCompensator(deleted)(resource),
+        publisher: () => Promise.reject(new Error('Network unavailable')),
+        solution: recordingCompensator(deleted)
+      });
+
+      const report = await manager.compensate(workflow, createLedger().getResources());
+      const outcomeOf = (id: string): string | undefined =>
+        report.entries.find(entry => entry.resource.resourceId === id)?.outcome;
+
+      expect(report.fullyCompensated).toBe(false);
+      expect(outcomeOf('env-dev')).toBe('failed');
+      expect(outcomeOf('pub-1')).toBe('failed');
+      expect(report.entries.find(e => e.resource.resourceId === 'pub-1')?.reason).toBe('Network unavailable');
+      expect(deleted).toEqual(['sol-1', 'env-test', 'ado-1', 'app-1']);
+    });
+
+    it('should retain resources whose step has no rollback action', async () => {
+      const deleted: string[] = [];
+      const manager = new CompensationManager({ environment: recordingCompensator(deleted) });
+      const ledger = new CompensationLedger();
+      ledger.record({ resourceType: 'environment', resourceId: 'env-1', displayName: 'Env', stepId: 'pp-001' });
+      ledger.record({ resourceType: 'environment', resourceId: 'env-2', displayName: 'Env', stepId: 'val-001' });
+
+      const report = await manager.compensate(workflow, ledger.getResources());
+
+      expect(deleted).toEqual(['env-1']);
+      expect(report.entries.find(e => e.resource.resourceId === 'env-2')?.outcome).toBe('retained');
+    });
+
+    it('should retain resources without a registered compensator', async () => {
+      const manager = new CompensationManager({});
+      const report = await manager.compensate(workflow, createLedger().getResources());
+
+      expect(report.entries.every(entry => entry.outcome === 'retained')).toBe(true);
+      expect(report.entries).toHaveLength(6);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import AzureDevOpsClient from '../../../src/integrations/azure-devops/azure-devops-client';
+import EnvironmentManager from '../../../src/integrations/power-platform/environment-manager';
+import SolutionManager from '../../../src/integrations/power-platform/solution-manager';
+import { DriftDetector, ProvisionedProject } from '../../../src/orchestration/drift-detector';
+import { convertSProjectTemplate } from '../../../src/templates/s-project-converter';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const DEV_ENVIRONMENT = {
+  environmentId: 'e1',
+  environmentName: 'env-dev',
+  displayName: 'Contoso Development',
+  environmentUrl: 'https://dev.crm.dynamics.com',
+  environmentType: 'development' as const,
+  sku: 'Sandbox',
+  region: 'unitedstates',
+  status: 'active' as const
+};
+
+function createProject(): ProvisionedProject {
+  const template = convertSProjectTemplate('sample', {
+    projectTemplate: {
+      name: 'Sample',
+      version: '1.0.0',
+      environments: [
+        { name: 'Development', type: 'development', region: 'unitedstates' },
+        { name: 'Production', type: 'production', region: 'unitedstates' }
+      ],
+      solutions: [{ uniqueName: 'core', friendlyName: 'Core', version: '1.0.0.0' }],
+      azureDevOps: { processTemplate: 'Agile' },
+      dataModel: {
+        tables: [{
+          schemaName: 'sampl_Project',
+          displayName: 'Project',
+          displayCollectionName: 'Projects',
+          ownershipType: 'UserOwned',
+          hasActivities: false,
+          hasNotes: false,
+          primaryNameAttribute: 'sampl_name',
+          attributes: [
+            { schemaName: 'sampl_Budget', displayName: 'Budget', attributeType: 'Money', requiredLevel: 'None' },
+            { schemaName: 'sampl_Code', displayName: 'Code', attributeType: 'String', requiredLevel: 'None' }
+          ]
+        }]
+      }
+    },
+    workItemTemplates: {
+      epics: [{ name: 'Platform', features: ['Login'] }],
+      features: [{ name: 'Login', epic: 'Platform' }]
+    }
+  });
+
+  return {
+    name: 'Contoso',
+    template,
+    environments: [DEV_ENVIRONMENT, { ...DEV_ENVIRONMENT, environmentName: 'env-prod', displayName: 'Contoso Production' }],
+    workItemIds: [1, 2, 3]
+  };
+}
+
+function attribute(schemaName: string, attributeType: string, flags: { isPrimaryName?: boolean } = {}): object {
+  return {
+    logicalName: schemaName.toLowerCase(),
+    schemaName,
+    displayName: schemaName,
+    attributeType,
+    requiredLevel: 'None',
+    isCustomizable: true,
+    isPrimaryId: false,
+    isPrimaryName: flags.isPrimaryName === true
+  };
+}
+
+function workItem(id: number, type: string, title: string, parentId?: number): object {
+  return {
+    id,
+    rev: 1,
+    url: '',
+    fields: { 'System.WorkItemType': type, 'System.Title': title },
+    ...(parentId !== undefined && {
+      relations: [{ rel: 'System.LinkTypes.Hierarchy-Reverse', url: `https://dev.azure.com/org/_apis/wit/workItems/${parentId}` }]
+    })
+  };
+}
+
+function createDetector(): DriftDetector {
+  const workItems = new Map([
+    [1, workItem(1, 'Epic', 'Platform')],
+    [2, workItem(2, 'Feature', 'Login', 1)],
+    [3, workItem(3, 'Task', 'Write docs', 2)]
+  ]);
+
+  return new DriftDetector({
+    azureDevOps: {
+      getWorkItem: jest.fn((id: number) => Promise.resolve(workItems.has(id)
+        ? { success: true, data: workItems.get(id) }
+        : { success: false, error: `Work item ${id} not found` }))
+    } as unknown as AzureDevOpsClient,
+    environments: {
+      getEnvironmentDisplayName: (template: { displayName: string }, projectName: string) => `${projectName} ${template.displayName}`,
+      getEnvironment: jest.fn((name: string) => Promise.resolve(name === 'env-dev'
+        ? { success: true, data: { ...DEV_ENVIRONMENT, region: 'europe' } }
+        : { success: false, error: `Environment ${name} not found` }))
+    } as unknown as EnvironmentManager,
+    solutions: {
+      findSolution: jest.fn(() => Promise.resolve({
+        success: true,
+        data: { solutionId: 'sol-1', uniqueName: 'core', friendlyName: 'Core', version: '1.0.0.0', publisherId: 'pub-1', isManaged: false, components: [] }
+      })),
+      listSolutionComponents: jest.fn(() => Promise.resolve({
+        success: true,
+        data: [{ componentType: 'Entity', componentId: 'm1', componentName: 'account', rootComponentBehavior: 'IncludeSubcomponents' }]
+      })),
+      getTable: jest.fn(() => Promise.resolve({
+        success: true,
+        data: {
+          logicalName: 'sampl_project',
+          schemaName: 'sampl_Project',
+          attributes: [
+            attribute('sampl_name', 'String', { isPrimaryName: true }),
+            attribute('sampl_Budget', 'Decimal'),
+            attribute('sampl_Notes', 'Memo')
+          ]
+        }
+      }))
+    } as unknown as SolutionManager
+  });
+}
+
+describe('DriftDetector', () => {
+  it('should report missing, modified and unexpected resources in every area', async () => {
+    const check = await createDetector().detect(createProject());
+
+    expect(check.items.map(item => [item.area, item.kind, item.name])).toEqual([
+      ['environment', 'modified', 'Contoso Development'],
+      ['environment', 'missing', 'Contoso Production'],
+      ['solution_component', 'unexpected', 'account'],
+      ['attribute', 'modified', 'sampl_Budget'],
+      ['attribute', 'missing', 'sampl_Code'],
+      ['attribute', 'unexpected', 'sampl_Notes'],
+      ['work_item', 'unexpected', 'Task: Write docs']
+    ]);
+    expect(check.items[0]?.differences).toEqual([{ field: 'region', current: 'europe', desired: 'unitedstates' }]);
+    expect(check.skipped).toEqual([]);
+  });
+
+  it('should skip areas the project was created without', async () => {
+    const check = await createDetector().detect({ name: 'Contoso', template: createProject().template });
+
+    expect(check.items).toEqual([]);
+    expect(check.skipped).toHaveLength(2);
+  });
+
+  it('should plan a manual fix for fields that cannot be changed in place', () => {
+    const remediation = DriftDetector.planRemediation([
+      { area: 'environment', kind: 'modified', name: 'Dev', differences: [{ field: 'region', current: 'europe', desired: 'unitedstates' }] },
+      { area: 'solution', kind: 'modified', name: 'core', differences: [{ field: 'version', current: '1.0.0.1', desired: '1.0.0.0' }] },
+      { area: 'attribute', kind: 'missing', name: 'sampl_Code', parent: 'sampl_Project' },
+      { area: 'work_item', kind: 'unexpected', name: 'Task: Write docs' }
+    ]);
+
+    expect(remediation.map(step => step.action)).toEqual(['manual', 'update', 'create', 'remove']);
+    expect(remediation[2]?.description).toBe('Create column sampl_Code in sampl_Project as defined by the template');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { OperationEventBus } from '../../../src/orchestration/operation-events';
+import { OperationEvent } from '../../../src/types/api-contracts';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function publishLogs(bus: OperationEventBus, operationId: string, count: number): void {
+  for (let i = 1; i <= count; i++) {
+    bus.publish(operationId, 'log', { timestamp: '', level: 'info', message: `message ${i}` });
+  }
+}
+
+function messages(events: readonly OperationEvent[]): string[] {
+  return events.map(event => (event.type === 'log' ? event.data.message : event.type));
+}
+
+describe('OperationEventBus', () => {
+  it('should replay events after the last event ID and then deliver new ones', () => {
+    const bus = new OperationEventBus();
+    const received: OperationEvent[] = [];
+    publishLogs(bus, 'op-1', 3);
+
+    const unsubscribe = bus.subscribe('op-1', event => received.push(event), 2);
+    bus.publish('op-1', 'result', { status: 'completed' });
+    unsubscribe();
+    publishLogs(bus, 'op-1', 1);
+
+    expect(received.map(event => event.id)).toEqual([3, 4]);
+    expect(messages(received)).toEqual(['message 3', 'result']);
+  });
+
+  it('should keep only the most recent events of each operation', () => {
+    const bus = new OperationEventBus({ historySize: 2, maxOperations: 1 });
+    const received: OperationEvent[] = [];
+    publishLogs(bus, 'op-1', 3);
+    publishLogs(bus, 'op-2', 1);
+
+    bus.subscribe('op-2', event => received.push(event));
+
+    expect(messages(received)).toEqual(['message 1']);
+    expect(bus.hasHistory('op-1')).toBe(false);
+  });
+
+  it('should keep delivering when a listener throws', () => {
+    const bus = new OperationEventBus();
+    const listener = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    bus.subscribe('op-1', () => {
+      throw new Error('listener failed');
+    });
+    bus.subscribe('op-1', listener);
+    publishLogs(bus, 'op-1', 1);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileOperationStore,
+  InMemoryOperationStore,
+  OperationStore
+} from '../../../src/orchestration/operation-store';
+import { OperationProgress } from '../../../src/orchestration/project-orchestrator';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createOperation(operationId: string, overrides: Partial<OperationProgress> = {}): OperationProgress {
+  return {
+    operationId,
+    projectName: `Project ${operationId}`,
+    request: { templateName: 'standard-project', projectName: `Project ${operationId}` },
+    status: 'running',
+    currentPhase: 'initialization',
+    progress: { totalSteps: 3, completedSteps: 1, currentStep: 'Validate Template' },
+    logs: [{ timestamp: '2024-01-01T00:00:00.000Z', level: 'info', message: 'Started' }],
+    steps: [{ stepId: 'init-001', status: 'completed', attempt: 1, completedAt: new Date('2024-01-01T00:00:01Z') }],
+    startedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('FileOperationStore', () => {
+  let directory: string;
+  let store: OperationStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'operation-store-'));
+    store = new FileOperationStore({ directory });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist operations so a new store instance can read them', async () => {
+    await store.saveOperation(createOperation('op_1'));
+
+    const reopened = new FileOperationStore({ directory });
+    const operation = await reopened.getOperation('op_1');
+
+    expect(operation?.projectName).toBe('Project op_1');
+    expect(operation?.startedAt).toBeInstanceOf(Date);
+    expect(operation?.steps[0]?.completedAt?.toISOString()).toBe('2024-01-01T00:00:01.000Z');
+    expect(operation?.logs).toHaveLength(1);
+  });
+
+  it('should keep created resources alongside the operation', async () => {
+    await store.saveOperation(createOperation('op_2'));
+    await Promise.all([
+      store.saveResource('op_2', {
+        resourceType: 'environment',
+        resourceId: 'env-1',
+        displayName: 'Dev',
+        stepId: 'pp-001',
+        createdAt: new Date('2024-01-01T00:01:00Z')
+      }),
+      store.saveOperation(createOperation('op_2', { status: 'failed' }))
+    ]);
+
+    const resources = await store.listResources('op_2');
+
+    expect(resources).toHaveLength(1);
+    expect(resources[0]?.createdAt).toBeInstanceOf(Date);
+    expect((await store.getOperation('op_2'))?.status).toBe('failed');
+  });
+
+  it('should list the most recent operations first with optional filters', async () => {
+    await store.saveOperation(createOperation('op_old', { startedAt: new Date('2024-01-01T00:00:00Z') }));
+    await store.saveOperation(createOperation('op_new', { startedAt: new Date('2024-02-01T00:00:00Z') }));
+    await store.saveOperation(createOperation('op_done', {
+      status: 'completed',
+      startedAt: new Date('2024-01-15T00:00:00Z')
+    }));
+
+    const all = await store.listOperations();
+    const running = await store.listOperations({ status: 'running', limit: 1 });
+
+    expect(all.map(o => o.operationId)).toEqual(['op_new', 'op_done', 'op_old']);
+    expect(running.map(o => o.operationId)).toEqual(['op_new']);
+  });
+
+  it('should append new log entries without rewriting the operation document', async () => {
+    const operation = createOperation('op_logs');
+    await store.saveOperation(operation);
+    const writeFile = jest.spyOn(fs, 'writeFile');
+
+    await store.saveOperation({
+      ...operation,
+      logs: [...operation.logs, { timestamp: '2024-01-01T00:00:02.000Z', level: 'info', message: 'Step done' }]
+    });
+
+    expect(writeFile).not.toHaveBeenCalled();
+    const logFile = await fs.readFile(path.join(directory, 'op_logs.logs.jsonl'), 'utf8');
+    expect(logFile.trim().split('\n')).toHaveLength(2);
+    const reopened = new FileOperationStore({ directory });
+    expect((await reopened.getOperation('op_logs'))?.logs.map(entry => entry.message)).toEqual(['Started', 'Step done']);
+  });
+
+  it('should look up idempotency keys without reading every operation', async () => {
+    await store.saveOperation(createOperation('op_keyed', { idempotencyKey: 'client/key 1' }));
+    await store.saveOperation(createOperation('op_other'));
+    const reopened = new FileOperationStore({ directory });
+    const readdir = jest.spyOn(fs, 'readdir');
+
+    const found = await reopened.listOperations({ idempotencyKey: 'client/key 1', limit: 1 });
+    const missing = await reopened.listOperations({ idempotencyKey: 'unused' });
+
+    expect(found.map(o => o.operationId)).toEqual(['op_keyed']);
+    expect(missing).toEqual([]);
+    expect(readdir).not.toHaveBeenCalled();
+  });
+
+  it('should treat unknown and unsafe operation IDs as missing', async () => {
+    expect(await store.getOperation('missing')).toBeUndefined();
+    expect(await store.getOperation('../etc/passwd')).toBeUndefined();
+    await expect(store.saveOperation(createOperation('../escape'))).rejects.toThrow('Invalid operation ID');
+  });
+});
+
+describe('InMemoryOperationStore', () => {
+  it('should apply the same query semantics as the file store', async () => {
+    const store = new InMemoryOperationStore();
+    await store.saveOperation(createOperation('a', { status: 'failed' }));
+    await store.saveOperation(createOperation('b', { startedAt: new Date('2024-03-01T00:00:00Z') }));
+
+    const failed = await store.listOperations({ status: 'failed' });
+    const latest = await store.listOperations({ limit: 1 });
+
+    expect(failed.map(o => o.operationId)).toEqual(['a']);
+    expect(latest.map(o => o.operationId)).toEqual(['b']);
+  });
+});
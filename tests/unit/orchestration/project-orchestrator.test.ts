@@ -0,0 +1,686 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ProjectOrchestrator, {
+  OperationProgress,
+  OrchestrationConfig
+} from '../../../src/orchestration/project-orchestrator';
+import { InMemoryOperationStore } from '../../../src/orchestration/operation-store';
+import { ProjectWorkflowDefinitions } from '../../../src/workflows/project-workflow';
+import { TemplateRegistry } from '../../../src/templates/template-registry';
+import AzureDevOpsClient from '../../../src/integrations/azure-devops/azure-devops-client';
+import MicrosoftGraphClient from '../../../src/integrations/microsoft-graph/graph-client';
+import EnvironmentManager from '../../../src/integrations/power-platform/environment-manager';
+import { OperationEvent } from '../../../src/types/api-contracts';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+// A template without environments or solutions so that runs do not call Power Platform
+const STANDARD_TEMPLATE = {
+  projectTemplate: {
+    name: 'Standard Project',
+    version: '1.0.0',
+    azureDevOps: { processTemplate: 'Agile' }
+  }
+};
+
+const PARAMETERIZED_TEMPLATE = {
+  projectTemplate: {
+    name: '${projectName} (${owner})',
+    version: '1.0.0',
+    azureDevOps: { processTemplate: 'Agile' },
+    parameters: [{ name: 'projectName', type: 'string', required: true }]
+  }
+};
+
+function createConfig(store: InMemoryOperationStore, templateRegistry: TemplateRegistry): OrchestrationConfig {
+  return {
+    azureDevOps: {
+      organization: 'test-org',
+      personalAccessToken: 'test-pat',
+      useInteractiveAuth: false,
+      timeoutMs: 1000
+    },
+    powerPlatform: {
+      baseUrl: 'https://api.powerplatform.com',
+      environmentUrl: 'https://test-env.crm.dynamics.com',
+      useInteractiveAuth: false,
+      defaultRegion: 'unitedstates',
+      timeoutMs: 1000,
+      retryAttempts: 1
+    },
+    microsoftGraph: { accessToken: 'test-token' },
+    operationStore: store,
+    templateRegistry
+  };
+}
+
+const ENVIRONMENT_OUTPUT = [{
+  environmentId: 'env-id',
+  environmentName: 'env-dev',
+  environmentUrl: 'https://dev.crm.dynamics.com',
+  environmentType: 'development',
+  region: 'unitedstates',
+  status: 'ready'
+}];
+
+function createFailedOperation(overrides: Partial<OperationProgress> = {}): OperationProgress {
+  const workflow = ProjectWorkflowDefinitions.STANDARD_PROJECT_WORKFLOW;
+  const outputs: Record<string, unknown> = {
+    'ado-001': { projectId: 'ado-123', projectUrl: 'https://dev.azure.com/test-org/Resumed', organizationUrl: 'https://dev.azure.com/test-org' },
+    'pp-001': ENVIRONMENT_OUTPUT
+  };
+
+  return {
+    operationId: 'proj_resume_1',
+    projectName: 'Resumed',
+    request: { templateName: 'standard-project', projectName: 'Resumed' },
+    status: 'failed',
+    currentPhase: 'completion',
+    workflowId: workflow.id,
+    progress: { totalSteps: workflow.steps.length, completedSteps: workflow.steps.length - 1 },
+    logs: [],
+    steps: workflow.steps.map(step => step.id === 'comp-001'
+      ? { stepId: step.id, status: 'failed' as const, attempt: 1, error: 'notification service unavailable' }
+      : { stepId: step.id, status: 'completed' as const, attempt: 1, output: outputs[step.id] }),
+    startedAt: new Date('2024-01-01T00:00:00Z'),
+    completedAt: new Date('2024-01-01T00:10:00Z'),
+    ...overrides
+  };
+}
+
+describe('ProjectOrchestrator', () => {
+  let templateDirectory: string;
+  let store: InMemoryOperationStore;
+  let orchestrator: ProjectOrchestrator;
+
+  beforeAll(async () => {
+    templateDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-templates-'));
+    await fs.writeFile(path.join(templateDirectory, 'standard-project.json'), JSON.stringify(STANDARD_TEMPLATE));
+    await fs.writeFile(path.join(templateDirectory, 'parameterized.json'), JSON.stringify(PARAMETERIZED_TEMPLATE));
+    await fs.writeFile(path.join(templateDirectory, 'enterprise-project.json'), JSON.stringify(STANDARD_TEMPLATE));
+  });
+
+  afterAll(async () => {
+    await fs.rm(templateDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    store = new InMemoryOperationStore();
+    orchestrator = new ProjectOrchestrator(
+      createConfig(store, new TemplateRegistry({ directory: templateDirectory }))
+    );
+  });
+
+  describe('resumeOperation', () => {
+    it('should continue from the failed step and reuse recorded outputs', async () => {
+      await store.saveOperation(createFailedOperation());
+
+      const resumed = await orchestrator.resumeOperation('proj_resume_1');
+
+      expect(resumed).toMatchObject({ success: true, data: { operationId: 'proj_resume_1', status: 'running' } });
+      const result = await orchestrator.waitForOperation('proj_resume_1');
+      expect(result?.success).toBe(true);
+      if (result?.success === true) {
+        expect(result.data.result?.azureDevOpsProject?.id).toBe('ado-123');
+        expect(result.data.result?.powerPlatformEnvironments).toEqual([
+          { name: 'env-dev', url: 'https://dev.crm.dynamics.com' }
+        ]);
+      }
+
+      const stored = await store.getOperation('proj_resume_1');
+      expect(stored?.status).toBe('completed');
+      expect(stored?.steps.find(s => s.stepId === 'ado-001')?.output).toMatchObject({ projectId: 'ado-123' });
+    });
+
+    it('should run steps again when their resources were rolled back', async () => {
+      await store.saveOperation(createFailedOperation({
+        rollback: {
+          workflowId: 'standard-project-v1',
+          startedAt: new Date('2024-01-01T00:10:00Z'),
+          completedAt: new Date('2024-01-01T00:11:00Z'),
+          fullyCompensated: true,
+          entries: [{
+            outcome: 'deleted',
+            resource: {
+              resourceType: 'environment',
+              resourceId: 'env-dev',
+              displayName: 'env-dev',
+              stepId: 'pp-001',
+              createdAt: new Date('2024-01-01T00:05:00Z')
+            }
+          }]
+        }
+      }));
+
+      const result = await orchestrator.resumeOperation('proj_resume_1');
+      await orchestrator.waitForOperation('proj_resume_1');
+
+      expect(result.success).toBe(true);
+      const stored = await store.getOperation('proj_resume_1');
+      // The test template defines no environments, so the re-run step produces none
+      expect(stored?.steps.find(s => s.stepId === 'pp-001')?.output).toEqual([]);
+      expect(stored?.rollback).toBeUndefined();
+    });
+
+    it('should run the workflow once when two resumes arrive together', async () => {
+      await store.saveOperation(createFailedOperation());
+      const runOrchestration = jest.spyOn(orchestrator as unknown as { runOrchestration: () => Promise<unknown> }, 'runOrchestration');
+
+      const [first, second] = await Promise.all([
+        orchestrator.resumeOperation('proj_resume_1'),
+        orchestrator.resumeOperation('proj_resume_1')
+      ]);
+      await orchestrator.waitForOperation('proj_resume_1');
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.error).toContain('it is still running');
+      }
+      expect(runOrchestration).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to resume a completed operation', async () => {
+      await store.saveOperation(createFailedOperation({ status: 'completed' }));
+
+      const result = await orchestrator.resumeOperation('proj_resume_1');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('cannot be resumed');
+      }
+    });
+
+    it('should report unknown operations as not found', async () => {
+      const result = await orchestrator.resumeOperation('proj_missing');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('not found');
+      }
+    });
+  });
+
+  describe('cancelOperation', () => {
+    it('should stop an in-flight operation and record it as cancelled', async () => {
+      jest.spyOn(orchestrator as unknown as { generateOperationId: () => string }, 'generateOperationId')
+        .mockReturnValue('proj_cancel_1');
+
+      const creation = orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Cancelled' },
+        { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true }
+      );
+      const cancel = await orchestrator.cancelOperation('proj_cancel_1', { rollback: true });
+      const result = await creation;
+
+      expect(cancel.success).toBe(true);
+      if (cancel.success) {
+        expect(cancel.data.rollbackRequested).toBe(true);
+      }
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('was cancelled');
+      }
+
+      const stored = await store.getOperation('proj_cancel_1');
+      expect(stored?.status).toBe('cancelled');
+      expect(stored?.steps.every(s => s.status === 'skipped')).toBe(true);
+    });
+
+    it('should cancel the operation when the observer aborts and report it to the observer', async () => {
+      const controller = new AbortController();
+      const events: OperationEvent[] = [];
+
+      const creation = orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Observed' },
+        { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true },
+        undefined,
+        { signal: controller.signal, onEvent: event => events.push(event) }
+      );
+      controller.abort();
+      const result = await creation;
+
+      expect(result.success).toBe(false);
+      expect(events[0]?.type).toBe('log');
+      expect(events[events.length - 1]?.data).toEqual(expect.objectContaining({ status: 'cancelled' }));
+    });
+
+    it('should refuse to cancel an operation that is no longer running', async () => {
+      await store.saveOperation(createFailedOperation());
+
+      const result = await orchestrator.cancelOperation('proj_resume_1');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('cannot be cancelled');
+      }
+    });
+  });
+
+  describe('template parameters', () => {
+    it('should report unknown template references as validation errors', async () => {
+      const result = await orchestrator.validateTemplateParameters('parameterized', { projectName: 'Contoso' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.valid).toBe(false);
+        expect(result.data.errors).toEqual([
+          {
+            field: 'metadata.displayName',
+            message: "Unknown reference '${owner}'",
+            code: 'UNKNOWN_TEMPLATE_REFERENCE',
+            value: '${owner}'
+          }
+        ]);
+      }
+    });
+
+    it('should fail project creation before running any step when references cannot be resolved', async () => {
+      const result = await orchestrator.createProject({ templateName: 'parameterized', projectName: 'Contoso' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("metadata.displayName: Unknown reference '${owner}'");
+      }
+    });
+  });
+
+  describe('plan and apply', () => {
+    const planOptions = { skipPowerPlatform: true, skipAppRegistration: true };
+    const existingProject = {
+      id: 'ado-9',
+      name: 'Planned',
+      url: 'https://dev.azure.com/test-org/Planned',
+      state: 'wellFormed' as const,
+      visibility: 'private' as const,
+      lastUpdateTime: ''
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should refuse to apply a plan when live state changed after planning', async () => {
+      jest.spyOn(AzureDevOpsClient.prototype, 'getProject')
+        .mockResolvedValueOnce({ success: false, error: 'PROJECT_NOT_FOUND: Project Planned not found' })
+        .mockResolvedValueOnce({ success: true, data: existingProject });
+
+      const plan = await orchestrator.planProject({ templateName: 'standard-project', projectName: 'Planned' }, planOptions);
+
+      expect(plan.success).toBe(true);
+      if (!plan.success) return;
+      expect(plan.data.changes[0]).toEqual({ resourceType: 'azure_devops_project', name: 'Planned', action: 'create' });
+      expect(plan.data.summary).toEqual({ create: 1, update: 0, 'no-op': 2, conflict: 0 });
+
+      const result = await orchestrator.applyPlan(plan.data.planId);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('is out of date - live state changed for azure_devops_project Planned');
+      }
+      expect(await store.listOperations()).toEqual([]);
+      expect(orchestrator.getPlan(plan.data.planId).success).toBe(true);
+    });
+
+    it('should apply an unchanged plan once', async () => {
+      const plan = await orchestrator.planProject(
+        { templateName: 'standard-project', projectName: 'Planned' },
+        { ...planOptions, skipAzureDevOps: true }
+      );
+      if (!plan.success) throw new Error(plan.error);
+
+      const result = await orchestrator.applyPlan(plan.data.planId);
+      const again = await orchestrator.applyPlan(plan.data.planId);
+
+      expect(result.success).toBe(true);
+      expect(again.success).toBe(false);
+      if (!again.success) {
+        expect(again.error).toContain('not found');
+      }
+      if (result.success) {
+        expect(await orchestrator.waitForOperation(result.data.operationId)).toMatchObject({ success: true, data: { status: 'completed' } });
+      }
+    });
+
+    it('should apply a plan once when two applies arrive together', async () => {
+      const plan = await orchestrator.planProject(
+        { templateName: 'standard-project', projectName: 'Planned' },
+        { ...planOptions, skipAzureDevOps: true }
+      );
+      if (!plan.success) throw new Error(plan.error);
+
+      const results = await Promise.all([
+        orchestrator.applyPlan(plan.data.planId),
+        orchestrator.applyPlan(plan.data.planId)
+      ]);
+      await Promise.all(results.map(result => result.success ? orchestrator.waitForOperation(result.data.operationId) : undefined));
+
+      expect(results.filter(result => result.success)).toHaveLength(1);
+      expect(await store.listOperations()).toHaveLength(1);
+    });
+  });
+
+  describe('idempotent re-runs', () => {
+    const skipAll = { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return the original operation for a repeated idempotency key', async () => {
+      const request = { templateName: 'standard-project', projectName: 'Repeated' };
+
+      const first = await orchestrator.createProject(request, skipAll, 'key-1');
+      const second = await orchestrator.createProject(request, skipAll, 'key-1');
+
+      if (!first.success || !second.success) throw new Error('Project creation failed');
+      expect(second.data.operationId).toBe(first.data.operationId);
+      expect(second.data.status).toBe('completed');
+      expect(await store.listOperations()).toHaveLength(1);
+    });
+
+    it('should treat a repeated request with its fields in another order as the same request', async () => {
+      const first = await orchestrator.createProject({ templateName: 'standard-project', projectName: 'Reordered' }, skipAll, 'key-3');
+      const second = await orchestrator.createProject({ projectName: 'Reordered', templateName: 'standard-project' }, skipAll, 'key-3');
+
+      if (!first.success || !second.success) throw new Error('Project creation failed');
+      expect(second.data.operationId).toBe(first.data.operationId);
+    });
+
+    it('should reject a different request under an idempotency key already used', async () => {
+      await orchestrator.createProject({ templateName: 'standard-project', projectName: 'First' }, skipAll, 'key-2');
+
+      const result = await orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Second' }, skipAll, 'key-2'
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Idempotency key key-2 was already used for a different request');
+      }
+    });
+
+    it('should adopt an existing app registration instead of creating another', async () => {
+      jest.spyOn(MicrosoftGraphClient.prototype, 'findApplicationByDisplayName').mockResolvedValue({
+        success: true,
+        data: {
+          id: 'app-1',
+          appId: 'client-1',
+          displayName: 'Adopted Service Principal',
+          signInAudience: 'AzureADMyOrg',
+          createdDateTime: ''
+        }
+      });
+      const create = jest.spyOn(MicrosoftGraphClient.prototype, 'createPowerPlatformApplication');
+
+      const result = await orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Adopted' },
+        { skipAzureDevOps: true, skipPowerPlatform: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(create).not.toHaveBeenCalled();
+      expect(await store.listResources(result.success ? result.data.operationId : '')).toEqual([]);
+    });
+  });
+
+  describe('startProject', () => {
+    it('should return the operation before its workflow has run and finish it in the background', async () => {
+      const started = await orchestrator.startProject(
+        { templateName: 'standard-project', projectName: 'Backgrounded' },
+        { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true }
+      );
+      if (!started.success) throw new Error(started.error);
+
+      expect(started.data.status).toBe('started');
+      expect(await orchestrator.waitForOperation(started.data.operationId)).toMatchObject({ success: true, data: { status: 'completed' } });
+      expect((await store.getOperation(started.data.operationId))?.status).toBe('completed');
+    });
+
+    it('should report unknown templates to the caller instead of starting an operation', async () => {
+      const started = await orchestrator.startProject({ templateName: 'missing', projectName: 'Nothing' });
+
+      expect(started.success).toBe(false);
+      expect(await store.listOperations()).toEqual([]);
+    });
+  });
+
+  describe('approvals', () => {
+    const skipAll = { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should wait at each enterprise review until an approver approves it', async () => {
+      const created = await orchestrator.createProject({ templateName: 'enterprise-project', projectName: 'Reviewed' }, skipAll);
+      if (!created.success) throw new Error(created.error);
+      const { operationId } = created.data;
+      expect(created.data.status).toBe('awaiting_approval');
+
+      const security = await orchestrator.approveOperation(operationId, { decision: 'approved' }, 'jwt:security-lead');
+      const stillRunning = await orchestrator.approveOperation(operationId, { decision: 'approved' }, 'jwt:auditor');
+      const review = await orchestrator.waitForOperation(operationId);
+      const compliance = await orchestrator.approveOperation(operationId, { decision: 'approved', stepId: 'sec-002' }, 'jwt:auditor');
+      const completed = await orchestrator.waitForOperation(operationId);
+
+      expect(security).toMatchObject({
+        success: true,
+        data: { approval: { stepId: 'sec-001', decision: 'approved', decidedBy: 'jwt:security-lead' }, status: 'running' }
+      });
+      expect(stillRunning).toEqual({ success: false, error: `Operation ${operationId} cannot be approved: it is still running` });
+      expect(review).toMatchObject({ success: true, data: { status: 'awaiting_approval' } });
+      expect(compliance).toMatchObject({ success: true, data: { approval: { stepId: 'sec-002' }, status: 'running' } });
+      expect(completed).toMatchObject({ success: true, data: { status: 'completed' } });
+      const status = await orchestrator.getOperationStatus(operationId);
+      expect(status.success && status.data.approvals?.map(approval => approval.decidedBy)).toEqual(['jwt:security-lead', 'jwt:auditor']);
+    });
+
+    it('should ask before granting admin consent to a new app registration and fail the operation when rejected', async () => {
+      jest.spyOn(MicrosoftGraphClient.prototype, 'findApplicationByDisplayName').mockResolvedValue({ success: true, data: undefined });
+      const create = jest.spyOn(MicrosoftGraphClient.prototype, 'createPowerPlatformApplication');
+
+      const created = await orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Consented' },
+        { skipAzureDevOps: true, skipPowerPlatform: true }
+      );
+      if (!created.success) throw new Error(created.error);
+      const { operationId } = created.data;
+
+      const status = await orchestrator.getOperationStatus(operationId);
+      expect(status.success && status.data.approvals).toEqual([
+        expect.objectContaining({ stepId: 'apr-001', reasons: [expect.objectContaining({ rule: 'admin_consent' })] })
+      ]);
+
+      const rejected = await orchestrator.approveOperation(operationId, { decision: 'rejected', comment: 'Use the shared app' }, 'api-key:ops');
+
+      expect(rejected).toMatchObject({ success: true, data: { status: 'running' } });
+      expect(await orchestrator.waitForOperation(operationId)).toMatchObject({
+        success: false,
+        error: expect.stringContaining('Provisioning Approval was rejected by api-key:ops - Use the shared app')
+      });
+      expect(create).not.toHaveBeenCalled();
+      const again = await orchestrator.approveOperation(operationId, { decision: 'approved' }, 'api-key:ops');
+      expect(again).toEqual({
+        success: false,
+        error: `Operation ${operationId} cannot be approved: it is not awaiting approval (status: failed)`
+      });
+    });
+
+    it('should let runs continue when the policy does not require approval', async () => {
+      const created = await orchestrator.createProject({ templateName: 'standard-project', projectName: 'Unreviewed' }, skipAll);
+
+      expect(created).toMatchObject({ success: true, data: { status: 'completed' } });
+      const status = await orchestrator.getOperationStatus(created.success ? created.data.operationId : '');
+      expect(status.success && status.data.approvals).toBeUndefined();
+    });
+
+    it('should wait for approval without waiting for approvers to be notified', async () => {
+      const notify = jest.fn(() => new Promise<void>(() => undefined));
+      const notified = new ProjectOrchestrator({
+        ...createConfig(store, new TemplateRegistry({ directory: templateDirectory })),
+        approvalNotifier: { notify }
+      });
+
+      const created = await notified.createProject({ templateName: 'enterprise-project', projectName: 'Notified' }, skipAll);
+
+      expect(created).toMatchObject({ success: true, data: { status: 'awaiting_approval' } });
+      expect(notify).toHaveBeenCalledWith(expect.objectContaining({ projectName: 'Notified', approval: expect.objectContaining({ stepId: 'sec-001' }) }));
+    });
+  });
+
+  describe('detectDrift', () => {
+    it('should compare a completed project with the template it recorded', async () => {
+      const created = await orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Drifting' },
+        { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true }
+      );
+      if (!created.success) throw new Error(created.error);
+
+      const result = await orchestrator.detectDrift(created.data.operationId, { includeRemediation: true });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(expect.objectContaining({
+          projectName: 'Drifting',
+          templateName: 'standard-project',
+          hasDrift: false,
+          remediation: []
+        }));
+        expect(result.data.skipped).toHaveLength(2);
+      }
+    });
+
+    it('should refuse to check a project whose creation did not complete', async () => {
+      await store.saveOperation(createFailedOperation());
+
+      const result = await orchestrator.detectDrift('proj_resume_1');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('Project proj_resume_1 cannot be checked for drift: its creation is failed');
+      }
+    });
+  });
+
+  describe('destroyProject', () => {
+    beforeEach(async () => {
+      await store.saveOperation(createFailedOperation({ status: 'completed' }));
+      await store.saveResource('proj_resume_1', {
+        resourceType: 'azure_devops_project',
+        resourceId: 'ado-123',
+        displayName: 'Resumed',
+        stepId: 'ado-001',
+        createdAt: new Date('2024-01-01T00:01:00Z')
+      });
+      await store.saveResource('proj_resume_1', {
+        resourceType: 'environment',
+        resourceId: 'env-dev',
+        displayName: 'env-dev',
+        stepId: 'pp-001',
+        createdAt: new Date('2024-01-01T00:05:00Z')
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should delete what the dry run listed once its confirmation token is passed back', async () => {
+      const deleteEnvironment = jest.spyOn(EnvironmentManager.prototype, 'deleteEnvironment')
+        .mockResolvedValue({ success: true, data: undefined });
+      const deleteProject = jest.spyOn(AzureDevOpsClient.prototype, 'deleteProject');
+
+      const dryRun = await orchestrator.destroyProject('proj_resume_1', { dryRun: true });
+      if (!dryRun.success) throw new Error(dryRun.error);
+      expect(dryRun.data.resources.map(r => [r.resourceType, r.action])).toEqual([
+        ['environment', 'delete'],
+        ['azure_devops_project', 'retain']
+      ]);
+      expect(deleteEnvironment).not.toHaveBeenCalled();
+
+      const confirmationToken = dryRun.data.confirmationToken ?? '';
+      const result = await orchestrator.destroyProject('proj_resume_1', { confirmationToken });
+
+      expect(result.success && result.data.status).toBe('completed');
+      expect(deleteEnvironment).toHaveBeenCalledWith('env-dev');
+      expect(deleteProject).not.toHaveBeenCalled();
+
+      const remaining = await orchestrator.destroyProject('proj_resume_1', { dryRun: true });
+      expect(remaining.success && remaining.data.resources.map(r => r.resourceType)).toEqual(['azure_devops_project']);
+    });
+
+    it('should delete the resources once when the same confirmation is sent twice at once', async () => {
+      const deleteEnvironment = jest.spyOn(EnvironmentManager.prototype, 'deleteEnvironment')
+        .mockResolvedValue({ success: true, data: undefined });
+      const dryRun = await orchestrator.destroyProject('proj_resume_1', { dryRun: true });
+      const confirmationToken = dryRun.success ? dryRun.data.confirmationToken ?? '' : '';
+
+      const results = await Promise.all([
+        orchestrator.destroyProject('proj_resume_1', { confirmationToken }),
+        orchestrator.destroyProject('proj_resume_1', { confirmationToken })
+      ]);
+
+      expect(results.map(result => result.success)).toEqual([true, false]);
+      expect(results[1]?.success || results[1]?.error).toBe(
+        'Project proj_resume_1 cannot be destroyed: a teardown is already in progress'
+      );
+      expect(deleteEnvironment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to destroy without a matching confirmation token', async () => {
+      const deleteEnvironment = jest.spyOn(EnvironmentManager.prototype, 'deleteEnvironment');
+
+      const missing = await orchestrator.destroyProject('proj_resume_1');
+      const stale = await orchestrator.destroyProject('proj_resume_1', {
+        confirmationToken: 'stale',
+        includeAzureDevOpsProject: true
+      });
+
+      expect(missing.success || missing.error).toBe(
+        'Project proj_resume_1 cannot be destroyed: a confirmation token from a dry run is required'
+      );
+      expect(stale.success || stale.error).toContain('the confirmation token does not match');
+      expect(deleteEnvironment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeToOperation', () => {
+    it('should replay the events of a run from the last event ID', async () => {
+      const created = await orchestrator.createProject(
+        { templateName: 'standard-project', projectName: 'Streamed' },
+        { skipAzureDevOps: true, skipPowerPlatform: true, skipAppRegistration: true }
+      );
+      if (!created.success) throw new Error(created.error);
+
+      const events: OperationEvent[] = [];
+      await orchestrator.subscribeToOperation(created.data.operationId, event => events.push(event));
+
+      expect(new Set(events.map(event => event.type))).toEqual(new Set(['log', 'progress', 'step', 'result']));
+      expect(events[events.length - 1]?.data).toEqual(expect.objectContaining({ status: 'completed' }));
+      expect(events.filter(event => event.type === 'progress').pop()?.data)
+        .toEqual(expect.objectContaining({ percentage: 100 }));
+
+      const replayed: OperationEvent[] = [];
+      const lastEventId = events[events.length - 3]?.id;
+      await orchestrator.subscribeToOperation(created.data.operationId, event => replayed.push(event), lastEventId);
+      expect(replayed).toEqual(events.slice(-2));
+    });
+
+    it('should replay only the final state of an operation recorded before a restart', async () => {
+      await store.saveOperation(createFailedOperation());
+
+      const events: OperationEvent[] = [];
+      const result = await orchestrator.subscribeToOperation('proj_resume_1', event => events.push(event));
+
+      expect(result.success).toBe(true);
+      expect(events.map(event => [event.type, event.data])).toEqual([
+        ['result', { status: 'failed', completedAt: '2024-01-01T00:10:00.000Z' }]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import AzureDevOpsClient from '../../../src/integrations/azure-devops/azure-devops-client';
+import EnvironmentManager from '../../../src/integrations/power-platform/environment-manager';
+import SolutionManager from '../../../src/integrations/power-platform/solution-manager';
+import MicrosoftGraphClient from '../../../src/integrations/microsoft-graph/graph-client';
+import { PlannedProject, ProjectPlanner } from '../../../src/orchestration/project-planner';
+import { convertSProjectTemplate } from '../../../src/templates/s-project-converter';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createProject(): PlannedProject {
+  const template = convertSProjectTemplate('sample', {
+    projectTemplate: {
+      name: 'Sample',
+      description: 'Sample project',
+      version: '1.0.0',
+      environments: [
+        { name: 'Development', type: 'development', region: 'unitedstates' },
+        { name: 'Production', type: 'production', region: 'unitedstates' }
+      ],
+      solutions: [
+        { uniqueName: 'core', friendlyName: 'Core', version: '1.0.0.0' },
+        { uniqueName: 'reports', friendlyName: 'Reports', version: '1.0.0.0' }
+      ],
+      azureDevOps: { processTemplate: 'Agile' }
+    }
+  });
+  return { name: 'Contoso', description: template.metadata.description, template };
+}
+
+function createPlanner(): ProjectPlanner {
+  const project = createProject();
+  const publisher = project.template.powerPlatform.publisher;
+
+  return new ProjectPlanner({
+    azureDevOps: {
+      getProject: jest.fn(() => Promise.resolve({
+        success: true,
+        data: { id: 'ado-1', name: 'Contoso', description: 'Outdated', url: 'https://dev.azure.com/org/Contoso', state: 'wellFormed', visibility: 'private', lastUpdateTime: '' }
+      }))
+    } as unknown as AzureDevOpsClient,
+    environments: {
+      getEnvironmentDisplayName: (template: { displayName: string }, projectName: string) => `${projectName} ${template.displayName}`,
+      findProjectEnvironments: jest.fn(() => Promise.resolve({
+        success: true,
+        data: new Map([['Development', { environmentId: 'e1', environmentName: 'env-dev', displayName: 'Contoso Development', environmentUrl: 'https://dev.crm.dynamics.com', environmentType: 'development', sku: 'Sandbox', region: 'unitedstates', status: 'active' }]])
+      })),
+      findPublisher: jest.fn(() => Promise.resolve({
+        success: true,
+        data: { ...publisher, publisherId: 'pub-1', description: publisher.description ?? publisher.friendlyName }
+      }))
+    } as unknown as EnvironmentManager,
+    solutions: {
+      findSolution: jest.fn((_url: string, uniqueName: string) => Promise.resolve({
+        success: true,
+        data: uniqueName === 'core'
+          ? { solutionId: 'sol-1', uniqueName, friendlyName: 'Core', version: '1.0.0.0', publisherId: 'pub-other', isManaged: false, components: [] }
+          : undefined
+      }))
+    } as unknown as SolutionManager,
+    graph: {
+      findApplicationByDisplayName: jest.fn(() => Promise.resolve({ success: true, data: undefined }))
+    } as unknown as MicrosoftGraphClient
+  });
+}
+
+describe('ProjectPlanner', () => {
+  it('should list every resource as create, update, no-op or conflict', async () => {
+    const plan = await createPlanner().plan(createProject());
+
+    expect(plan.changes.map(change => [change.resourceType, change.name, change.action])).toEqual([
+      ['azure_devops_project', 'Contoso', 'update'],
+      ['environment', 'Contoso Development', 'no-op'],
+      ['environment', 'Contoso Production', 'create'],
+      ['publisher', 'sampl_publisher', 'no-op'],
+      ['solution', 'core', 'conflict'],
+      ['solution', 'reports', 'create'],
+      ['app_registration', 'Contoso Service Principal', 'create']
+    ]);
+    expect(plan.changes[0]?.differences).toEqual([
+      { field: 'description', current: 'Outdated', desired: 'Sample project' }
+    ]);
+    expect(plan.state.environments.get('Development')?.environmentName).toBe('env-dev');
+  });
+
+  it('should list skipped phases as no-op without looking them up', async () => {
+    const plan = await createPlanner().plan(createProject(), { skipPowerPlatform: true, skipAppRegistration: true });
+
+    expect(plan.changes.slice(1).every(change => change.action === 'no-op' && change.reason === 'Skipped by request options'))
+      .toBe(true);
+    expect(plan.state.environments.size).toBe(0);
+  });
+
+  it('should name the resources whose planned change differs', () => {
+    const planned = [
+      { resourceType: 'environment', name: 'Dev', action: 'create' as const },
+      { resourceType: 'publisher', name: 'pub', action: 'no-op' as const, existingId: 'p1' }
+    ];
+    const current = [
+      { resourceType: 'environment', name: 'Dev', action: 'no-op' as const, existingId: 'e1' },
+      { resourceType: 'publisher', name: 'pub', action: 'no-op' as const, existingId: 'p1' },
+      { resourceType: 'solution', name: 'core', action: 'create' as const }
+    ];
+
+    expect(ProjectPlanner.compareChanges(planned, current)).toEqual(['environment Dev', 'solution core']);
+    expect(ProjectPlanner.compareChanges(current, current)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { CompensableResourceType, CreatedResource } from '../../../src/orchestration/compensation';
+import { TeardownPlanner } from '../../../src/orchestration/teardown-planner';
+import { EnvironmentInfo } from '../../../src/types/data-models';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function resource(resourceType: CompensableResourceType, resourceId: string, environmentUrl?: string): CreatedResource {
+  return {
+    resourceType,
+    resourceId,
+    displayName: resourceId,
+    stepId: 'step',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    ...(environmentUrl !== undefined && { environmentUrl })
+  };
+}
+
+function environment(environmentName: string, environmentType: EnvironmentInfo['environmentType']): EnvironmentInfo {
+  return {
+    environmentId: environmentName,
+    environmentName,
+    displayName: environmentName,
+    environmentUrl: `https://${environmentName}.crm.dynamics.com`,
+    environmentType,
+    sku: 'Sandbox',
+    region: 'unitedstates',
+    status: 'active'
+  };
+}
+
+const RESOURCES = [
+  resource('azure_devops_project', 'ado-1'),
+  resource('environment', 'env-dev'),
+  resource('environment', 'env-prod'),
+  resource('publisher', 'pub-1', 'https://env-dev.crm.dynamics.com'),
+  resource('solution', 'sol-prod', 'https://env-prod.crm.dynamics.com'),
+  resource('app_registration', 'app-1'),
+  resource('service_principal', 'sp-1')
+];
+
+const ENVIRONMENTS = [environment('env-dev', 'development'), environment('env-prod', 'production')];
+
+describe('TeardownPlanner', () => {
+  it('should keep production environments and the Azure DevOps project unless included', () => {
+    const targets = TeardownPlanner.plan(RESOURCES, ENVIRONMENTS, {});
+
+    expect(targets.map(target => [target.resource.resourceId, target.action])).toEqual([
+      ['sp-1', 'delete'],
+      ['app-1', 'delete'],
+      ['env-dev', 'delete'],
+      ['env-prod', 'retain'],
+      ['pub-1', 'delete'],
+      ['sol-prod', 'retain'],
+      ['ado-1', 'retain']
+    ]);
+    expect(targets[4]?.removedWith?.resourceId).toBe('env-dev');
+  });
+
+  it('should delete everything when production and Azure DevOps are explicitly included', () => {
+    const targets = TeardownPlanner.plan(RESOURCES, ENVIRONMENTS, {
+      includeAzureDevOpsProject: true,
+      allowProductionEnvironments: true
+    });
+
+    expect(targets.every(target => target.action === 'delete')).toBe(true);
+  });
+
+  it('should change the confirmation token when the planned deletions change', () => {
+    const retained = TeardownPlanner.plan(RESOURCES, ENVIRONMENTS, {});
+    const included = TeardownPlanner.plan(RESOURCES, ENVIRONMENTS, { includeAzureDevOpsProject: true });
+
+    expect(TeardownPlanner.confirmationToken('proj_1', retained))
+      .toBe(TeardownPlanner.confirmationToken('proj_1', TeardownPlanner.plan(RESOURCES, ENVIRONMENTS, {})));
+    expect(TeardownPlanner.confirmationToken('proj_1', retained))
+      .not.toBe(TeardownPlanner.confirmationToken('proj_1', included));
+    expect(TeardownPlanner.confirmationToken('proj_2', retained))
+      .not.toBe(TeardownPlanner.confirmationToken('proj_1', retained));
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { TemplateComposer } from '../../../src/templates/template-composer';
+import { TemplateRegistry } from '../../../src/templates/template-registry';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const BASE_YAML = `
+projectTemplate:
+  name: "Base"
+  version: "1.0.0"
+  tags: ["base"]
+  environments:
+    - name: "Development"
+      type: "development"
+      region: "unitedstates"
+    - name: "Production"
+      type: "production"
+      region: "unitedstates"
+  azureDevOps:
+    processTemplate: "Agile"
+workItemTemplates:
+  epics:
+    - name: "Setup"
+      priority: 2
+`;
+
+const FRAGMENT_YAML = `
+projectTemplate:
+  environments:
+    - name: "Production"
+      region: "europe"
+workItemTemplates:
+  epics:
+    - name: "Compliance"
+      priority: 1
+`;
+
+const CHILD_YAML = `
+extends: "base"
+include:
+  - "fragments/compliance.yaml"
+projectTemplate:
+  name: "Child"
+  tags: ["child"]
+  environments:
+    - name: "Test"
+      type: "test"
+      region: "unitedstates"
+workItemTemplates:
+  epics:
+    - name: "Setup"
+      description: "Overridden by the child"
+`;
+
+describe('TemplateComposer', () => {
+  let directory: string;
+
+  async function writeTemplate(file: string, content: string): Promise<string> {
+    const filePath = path.join(directory, file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+
+  function createComposer(templateFiles: Record<string, string>): TemplateComposer {
+    return new TemplateComposer({
+      directory,
+      templateFiles: new Map(Object.entries(templateFiles)),
+      readDocument: async filePath => yaml.load(await fs.readFile(filePath, 'utf8'))
+    });
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'template-composer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should layer the base, fragments and the template itself, merging lists by key', async () => {
+    const base = await writeTemplate('base.yaml', BASE_YAML);
+    const fragment = await writeTemplate('fragments/compliance.yaml', FRAGMENT_YAML);
+    const child = await writeTemplate('child.yaml', CHILD_YAML);
+
+    const { document, sources } = await createComposer({ base, child }).compose(child);
+
+    expect(document).not.toHaveProperty('extends');
+    expect(document).not.toHaveProperty('include');
+    expect(document).toMatchObject({
+      projectTemplate: {
+        name: 'Child',
+        version: '1.0.0',
+        tags: ['child'],
+        environments: [
+          { name: 'Development', region: 'unitedstates' },
+          { name: 'Production', type: 'production', region: 'europe' },
+          { name: 'Test', region: 'unitedstates' }
+        ]
+      },
+      workItemTemplates: {
+        epics: [
+          { name: 'Setup', priority: 2, description: 'Overridden by the child' },
+          { name: 'Compliance', priority: 1 }
+        ]
+      }
+    });
+    expect(sources.get('projectTemplate.environments[Production].region')).toBe(fragment);
+    expect(sources.get('projectTemplate.environments[Production].type')).toBe(base);
+    expect(sources.get('projectTemplate.tags')).toBe(child);
+  });
+
+  it('should report circular extends chains', async () => {
+    const first = await writeTemplate('first.yaml', 'extends: "second"\n');
+    const second = await writeTemplate('second.yaml', 'extends: "first"\n');
+
+    await expect(createComposer({ first, second }).compose(first))
+      .rejects.toThrow('Circular template composition: first.yaml -> second.yaml -> first.yaml');
+  });
+
+  it('should refuse fragments outside the templates directory', async () => {
+    const child = await writeTemplate('child.yaml', 'include: ["../outside.yaml"]\n');
+
+    await expect(createComposer({ child }).compose(child)).rejects.toThrow('outside the templates directory');
+  });
+
+  it('should resolve field paths to the nearest recorded source', () => {
+    const sources = new Map([
+      ['projectTemplate.environments[Test].region', 'fragment.yaml'],
+      ['projectTemplate.name', 'child.yaml']
+    ]);
+
+    expect(TemplateComposer.sourceOf(sources, 'projectTemplate.environments[Test].region.code')).toBe('fragment.yaml');
+    expect(TemplateComposer.sourceOf(sources, 'projectTemplate.environments[Test]')).toBe('fragment.yaml');
+    expect(TemplateComposer.sourceOf(sources, 'projectTemplate.version')).toBeUndefined();
+  });
+
+  it('should attribute conversion errors to the file that contributed the bad value', async () => {
+    await writeTemplate('base.yaml', BASE_YAML);
+    const fragment = await writeTemplate('fragments/compliance.yaml', `
+projectTemplate:
+  environments:
+    - name: "Production"
+      type: "live"
+`);
+    await writeTemplate('child.yaml', CHILD_YAML);
+    const registry = new TemplateRegistry({ directory });
+
+    const errors = await registry.getLoadErrors();
+
+    expect(await registry.getTemplate('base')).toBeDefined();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ filePath: path.join(directory, 'child.yaml'), sourceFile: fragment });
+    expect(errors[0]?.error).toContain('projectTemplate.environments[Production].type');
+  });
+
+  it('should attribute validation errors in native templates to the file that contributed the bad value', async () => {
+    await writeTemplate('native-base.yaml', `
+metadata:
+  displayName: "Native base"
+  description: "Native ProjectTemplate document"
+  version: "1.0.0"
+azureDevOps: {}
+powerPlatform: {}
+parameters: []
+`);
+    const fragment = await writeTemplate('fragments/parameters.yaml', 'parameters: "projectName"');
+    await writeTemplate('native-child.yaml', `
+extends: "native-base"
+include:
+  - "fragments/parameters.yaml"
+metadata:
+  displayName: "Native child"
+`);
+    const registry = new TemplateRegistry({ directory });
+
+    const errors = await registry.getLoadErrors();
+
+    expect(await registry.getTemplate('native-base')).toBeDefined();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ filePath: path.join(directory, 'native-child.yaml'), sourceFile: fragment });
+    expect(errors[0]?.error).toContain(`parameters must be a list (parameters from ${fragment})`);
+  });
+});
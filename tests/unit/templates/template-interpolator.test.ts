@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { convertSProjectTemplate } from '../../../src/templates/s-project-converter';
+import { interpolateTemplate } from '../../../src/templates/template-interpolator';
+import { CompositeValidator } from '../../../src/validation';
+import { ProjectTemplate } from '../../../src/types/data-models';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createTemplate(): ProjectTemplate {
+  return convertSProjectTemplate('sample', {
+    projectTemplate: {
+      name: '${projectName} Project',
+      description: 'Costs $${budget} per month',
+      version: '1.0.0',
+      sprintCount: 1,
+      environments: [
+        { name: '${projectName}-dev', type: 'development', region: '${region}' },
+        { $if: 'includeStaging', name: '${projectName}-staging', type: 'staging', region: '${region}' },
+        { $each: 'regions', $as: 'geo', name: '${projectName}-${geo}', type: 'production', region: '${geo}' }
+      ],
+      azureDevOps: { processTemplate: 'Agile' },
+      parameters: [
+        { name: 'projectName', type: 'string', required: true },
+        { name: 'region', type: 'choice', defaultValue: 'unitedstates', allowedValues: ['unitedstates', 'europe'] },
+        { name: 'includeStaging', type: 'boolean' },
+        { name: 'regions', type: 'array', defaultValue: ['europe'] }
+      ]
+    }
+  });
+}
+
+describe('interpolateTemplate', () => {
+  it('should substitute references, evaluate conditionals and expand loops', () => {
+    const template = createTemplate();
+    const values = CompositeValidator.applyParameterDefaults(template, { projectName: 'Contoso', regions: ['europe', 'asia'] });
+
+    const result = interpolateTemplate(template, values);
+
+    expect(result.errors).toEqual([]);
+    expect(result.template.metadata.displayName).toBe('Contoso Project');
+    expect(result.template.metadata.description).toBe('Costs ${budget} per month');
+    expect(result.template.powerPlatform.environments.map(e => [e.displayName, e.region])).toEqual([
+      ['Contoso-dev', 'unitedstates'],
+      ['Contoso-europe', 'europe'],
+      ['Contoso-asia', 'asia']
+    ]);
+    expect(result.template.powerPlatform.environments[0]).not.toHaveProperty('$each');
+  });
+
+  it('should keep conditional items when the condition holds', () => {
+    const template = createTemplate();
+    const values = CompositeValidator.applyParameterDefaults(template, { projectName: 'Contoso', includeStaging: true, regions: [] });
+
+    const result = interpolateTemplate(template, values);
+
+    expect(result.template.powerPlatform.environments.map(e => e.displayName))
+      .toEqual(['Contoso-dev', 'Contoso-staging']);
+  });
+
+  it('should report unknown references and missing values with their field paths', () => {
+    const template = createTemplate();
+    const withTypo = {
+      ...template,
+      metadata: { ...template.metadata, author: '${owner}' }
+    };
+
+    const result = interpolateTemplate(withTypo, CompositeValidator.applyParameterDefaults(template, {}));
+
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'metadata.author', code: 'UNKNOWN_TEMPLATE_REFERENCE' }),
+      expect.objectContaining({ field: 'metadata.displayName', code: 'MISSING_PARAMETER_VALUE' })
+    ]));
+  });
+
+  it('should report loops over values that are not lists', () => {
+    const template = createTemplate();
+    const values = CompositeValidator.applyParameterDefaults(template, { projectName: 'Contoso', regions: 'europe' });
+
+    const result = interpolateTemplate(template, values);
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'powerPlatform.environments[2].$each', code: 'INVALID_TEMPLATE_LOOP' })
+    ]);
+  });
+});
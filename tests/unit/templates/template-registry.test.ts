@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateRegistry } from '../../../src/templates/template-registry';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const BUNDLED_TEMPLATES = path.join(__dirname, '../../../src/templates');
+
+const S_PROJECT_YAML = `
+projectTemplate:
+  name: "Sample Project"
+  description: "Sample S-Project template"
+  version: "1.2.0"
+  tags: ["sample"]
+  duration: 4
+  sprintDuration: 2
+  sprintCount: 2
+  environments:
+    - name: "Development"
+      type: "development"
+      region: "europe"
+    - name: "Production"
+      type: "production"
+      region: "europe"
+  azureDevOps:
+    processTemplate: "Scrum"
+workItemTemplates:
+  epics:
+    - name: "Setup"
+      features: ["Environments"]
+  features:
+    - epic: "Setup"
+      name: "Environments"
+      userStories: ["Create environments"]
+`;
+
+describe('TemplateRegistry', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'template-registry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load the bundled templates without errors', async () => {
+    const registry = new TemplateRegistry({ directory: BUNDLED_TEMPLATES });
+
+    const names = (await registry.listTemplates()).map(t => t.metadata.name);
+
+    expect(names).toEqual(expect.arrayContaining(['standard-project', 'enterprise-project', 'quickstart']));
+    expect(await registry.getLoadErrors()).toEqual([]);
+
+    const enterprise = await registry.getTemplate('enterprise-project');
+    expect(enterprise?.powerPlatform.environments.map(e => e.type))
+      .toEqual(['development', 'test', 'production', 'staging']);
+  });
+
+  it('should convert S-Project documents into project templates named after the file', async () => {
+    await fs.writeFile(path.join(directory, 'sample.yaml'), S_PROJECT_YAML);
+    const registry = new TemplateRegistry({ directory });
+
+    const template = await registry.getTemplate('sample');
+
+    expect(template?.metadata).toMatchObject({ name: 'sample', displayName: 'Sample Project', version: '1.2.0' });
+    expect(template?.azureDevOps.project.capabilities.processTemplate.templateName).toBe('Scrum');
+    expect(template?.azureDevOps.iterations.map(i => i.name)).toEqual(['Sprint 1', 'Sprint 2']);
+    expect(template?.azureDevOps.workItems.map(w => w.type)).toEqual(['Epic', 'Feature', 'User Story']);
+    expect(template?.powerPlatform.environments.map(e => e.sku)).toEqual(['Sandbox', 'Production']);
+    expect(template?.parameters.map(p => p.name)).toEqual(['projectName']);
+  });
+
+  it('should skip invalid files and report which file failed', async () => {
+    await fs.writeFile(path.join(directory, 'sample.yaml'), S_PROJECT_YAML);
+    await fs.writeFile(path.join(directory, 'broken.json'), '{ "projectTemplate": ');
+    await fs.writeFile(path.join(directory, 'unknown.yaml'), 'name: "Not a template"');
+    const registry = new TemplateRegistry({ directory });
+
+    const templates = await registry.listTemplates();
+    const errors = await registry.getLoadErrors();
+
+    expect(templates.map(t => t.metadata.name)).toEqual(['sample']);
+    expect(errors.map(e => path.basename(e.filePath))).toEqual(['broken.json', 'unknown.yaml']);
+    expect(errors[0]?.error).toContain('broken.json');
+  });
+
+  it('should cache templates until reloaded', async () => {
+    const registry = new TemplateRegistry({ directory });
+    expect(await registry.getTemplate('sample')).toBeUndefined();
+
+    await fs.writeFile(path.join(directory, 'sample.yaml'), S_PROJECT_YAML);
+    expect(await registry.getTemplate('sample')).toBeUndefined();
+
+    registry.reload();
+    expect(await registry.getTemplate('sample')).toBeDefined();
+  });
+});
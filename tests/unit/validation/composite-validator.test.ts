@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { convertSProjectTemplate } from '../../../src/templates/s-project-converter';
+import { ProjectTemplate } from '../../../src/types/data-models';
+import { CompositeValidator } from '../../../src/validation';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createTemplate(): ProjectTemplate {
+  return convertSProjectTemplate('sample', {
+    projectTemplate: {
+      name: 'Sample',
+      version: '1.0.0',
+      azureDevOps: { processTemplate: 'Agile' },
+      parameters: [
+        { name: 'projectName', type: 'string', required: true, validation: { minLength: 3, maxLength: 10, pattern: '^[A-Z]' } },
+        { name: 'region', type: 'choice', required: true, defaultValue: 'europe', allowedValues: ['europe', 'asia'] },
+        { name: 'environmentCount', type: 'number', defaultValue: 3, validation: { minValue: 1, maxValue: 5 } }
+      ]
+    }
+  });
+}
+
+describe('CompositeValidator', () => {
+  it('should accept values that satisfy every rule and fill in defaults', () => {
+    const template = createTemplate();
+
+    const result = CompositeValidator.validateTemplateWithParameters(template, { projectName: 'Contoso' });
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+    expect(CompositeValidator.applyParameterDefaults(template, { projectName: 'Contoso', unknown: true }))
+      .toEqual({ projectName: 'Contoso', region: 'europe', environmentCount: 3 });
+  });
+
+  it('should report length, pattern, range and choice violations by parameter path', () => {
+    const result = CompositeValidator.validateTemplateWithParameters(createTemplate(), {
+      projectName: 'contoso-project',
+      region: 'mars',
+      environmentCount: 0
+    });
+
+    expect(result.errors.map(e => [e.field, e.code])).toEqual([
+      ['parameters.projectName', 'PARAMETER_TOO_LONG'],
+      ['parameters.projectName', 'PARAMETER_PATTERN_MISMATCH'],
+      ['parameters.region', 'INVALID_PARAMETER_VALUE'],
+      ['parameters.environmentCount', 'PARAMETER_OUT_OF_RANGE']
+    ]);
+  });
+
+  it('should report missing required parameters and wrong types', () => {
+    const result = CompositeValidator.validateTemplateWithParameters(createTemplate(), { environmentCount: '3' });
+
+    expect(result.errors.map(e => [e.field, e.code])).toEqual([
+      ['parameters.projectName', 'MISSING_REQUIRED_PARAMETER'],
+      ['parameters.environmentCount', 'INVALID_PARAMETER_TYPE']
+    ]);
+  });
+
+  it('should report choice parameters that declare no allowed values', () => {
+    const template = createTemplate();
+    const broken = {
+      ...template,
+      parameters: [{ name: 'tier', displayName: 'Tier', description: '', type: 'choice' as const, required: true }]
+    };
+
+    const result = CompositeValidator.validateTemplateWithParameters(broken, { tier: 'gold' });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'parameters.tier', code: 'INVALID_PARAMETER_DEFINITION' })
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { contractDefinitions, contractObjectSchema, contractSchema } from '../../../src/schemas/contract-schemas';
+import { ApiContractValidator } from '../../../src/validation';
+import { MCP_TOOLS } from '../../../src/mcp/tool-definitions';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const GENERATOR_PATH = path.join(__dirname, '../../../scripts/generate-contract-schemas.js');
+
+function toolSchema(name: string): Record<string, any> {
+  const tool = MCP_TOOLS.find(candidate => candidate.name === name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  return tool.inputSchema;
+}
+
+describe('Contract schemas', () => {
+  it('should match the API contract types they are generated from', () => {
+    // Exits with an error when api-contracts.ts changed without regenerating the schemas
+    expect(() => execFileSync(process.execPath, [GENERATOR_PATH, '--check'], { stdio: 'pipe' })).not.toThrow();
+  });
+
+  it('should inline references and rewrite them for other documents', () => {
+    expect(JSON.stringify(contractSchema('CreateProjectApiResponse'))).not.toContain('$ref');
+    expect(contractDefinitions('#/components/schemas/')['CreateProjectApiResponse']).toMatchObject({
+      properties: { status: { $ref: '#/components/schemas/OperationStatus' } }
+    });
+  });
+
+  it('should build the MCP tool input schemas from the request contracts', () => {
+    const createProject = contractObjectSchema('CreateProjectApiRequest');
+
+    expect(toolSchema('create_project').properties).toMatchObject(createProject.properties);
+    expect(toolSchema('create_project').required).toEqual(['templateName', 'projectName']);
+    expect(toolSchema('destroy_project').properties).toMatchObject({
+      dryRun: { type: 'boolean', description: expect.any(String), default: false }
+    });
+    expect(toolSchema('cancel_operation').required).toEqual(['operationId']);
+  });
+});
+
+describe('ApiContractValidator.validateContract', () => {
+  it('should accept a request matching its contract', () => {
+    const result = ApiContractValidator.validateContract('CreateProjectApiRequest', {
+      templateName: 'standard-project',
+      projectName: 'Inspections',
+      customization: { region: 'europe' }
+    });
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should report each violation against the path of its field', () => {
+    const result = ApiContractValidator.validateContract('CreateProjectApiRequest', {
+      projectName: '',
+      customization: 'europe'
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      { field: 'templateName', code: 'REQUIRED_FIELD', message: 'templateName is required' },
+      expect.objectContaining({ field: 'projectName', code: 'INVALID_VALUE' }),
+      expect.objectContaining({ field: 'customization', code: 'INVALID_TYPE' })
+    ]));
+  });
+
+  it('should report a body that is not an object against the root field', () => {
+    const result = ApiContractValidator.validateContract('ValidateTemplateRequest', null);
+
+    expect(result.errors).toEqual([expect.objectContaining({ field: 'request', code: 'INVALID_TYPE' })]);
+  });
+});
@@ -0,0 +1,410 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { WorkflowApprovalRequiredError, WorkflowEngine, WorkflowStepHandler } from '../../../src/workflows/workflow-engine';
+import { WorkflowDefinition, WorkflowStep } from '../../../src/workflows/project-workflow';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createStep(id: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    id,
+    name: `Step ${id}`,
+    description: `Test step ${id}`,
+    type: 'validation',
+    phase: 'initialization',
+    dependencies: [],
+    parallel: false,
+    required: true,
+    timeoutMs: 1000,
+    retryAttempts: 1,
+    configuration: {},
+    ...overrides
+  };
+}
+
+function createWorkflow(steps: WorkflowStep[], overrides: Partial<WorkflowDefinition> = {}): WorkflowDefinition {
+  return {
+    id: 'test-workflow',
+    name: 'Test Workflow',
+    description: 'Workflow used by engine tests',
+    version: '1.0.0',
+    templateType: 'test',
+    phases: ['initialization'],
+    steps,
+    parallelGroups: [],
+    rollbackSteps: [],
+    ...overrides
+  };
+}
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WorkflowEngine', () => {
+  describe('Dependency Resolution', () => {
+    it('should execute steps in dependency order', async () => {
+      const order: string[] = [];
+      const handler: WorkflowStepHandler = async (step) => {
+        order.push(step.id);
+        return step.id;
+      };
+
+      const workflow = createWorkflow([
+        createStep('c', { dependencies: ['b'] }),
+        createStep('b', { dependencies: ['a'] }),
+        createStep('a')
+      ]);
+
+      const engine = new WorkflowEngine({ handlers: { validation: handler } });
+      const execution = await engine.execute(workflow, { executionId: 'exec-1' });
+
+      expect(execution.status).toBe('completed');
+      expect(order).toEqual(['a', 'b', 'c']);
+      expect(execution.steps.map(s => s.status)).toEqual(['completed', 'completed', 'completed']);
+    });
+
+    it('should expose outputs of earlier steps to later steps', async () => {
+      const workflow = createWorkflow([
+        createStep('env', { type: 'environment_creation' }),
+        createStep('pub', { type: 'publisher_creation', dependencies: ['env'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          environment_creation: async () => ['https://dev.crm.dynamics.com'],
+          publisher_creation: async (_step, context) => ({
+            environmentUrl: context.getOutputByType<string[]>('environment_creation')?.[0]
+          })
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-2' });
+
+      expect(execution.steps[1]?.output).toEqual({ environmentUrl: 'https://dev.crm.dynamics.com' });
+    });
+
+    it('should skip dependants of a failed optional step and continue', async () => {
+      const workflow = createWorkflow([
+        createStep('repo', { type: 'repository_setup', required: false }),
+        createStep('pipeline', { type: 'pipeline_creation', dependencies: ['repo'] }),
+        createStep('other')
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          repository_setup: async () => { throw new Error('repository unavailable'); },
+          pipeline_creation: async () => 'pipeline',
+          validation: async () => 'ok'
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-3' });
+
+      expect(execution.status).toBe('completed');
+      expect(execution.steps.map(s => s.status)).toEqual(['failed', 'skipped', 'completed']);
+      expect(execution.errors).toHaveLength(1);
+      expect(execution.errors[0]?.recoverable).toBe(true);
+    });
+
+    it('should reject a workflow whose dependencies can never be satisfied', async () => {
+      const run = jest.fn(async () => 'ran');
+      const engine = new WorkflowEngine({ handlers: { validation: run } });
+
+      const unknown = engine.execute(createWorkflow([createStep('a', { dependencies: ['missing'] })]), { executionId: 'exec-4b' });
+      const circular = engine.execute(createWorkflow([
+        createStep('a', { dependencies: ['b'] }),
+        createStep('b', { dependencies: ['a'] })
+      ]), { executionId: 'exec-4c' });
+
+      await expect(unknown).rejects.toThrow('Step a has invalid dependency: missing');
+      await expect(circular).rejects.toThrow('Circular dependencies detected in workflow');
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should fail the workflow when a required step fails', async () => {
+      const workflow = createWorkflow([
+        createStep('a'),
+        createStep('b', { dependencies: ['a'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: { validation: async () => { throw new Error('invalid template'); } }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-4' });
+
+      expect(execution.status).toBe('failed');
+      expect(execution.steps[0]?.error).toBe('invalid template');
+      expect(execution.steps[1]?.status).toBe('skipped');
+    });
+  });
+
+  describe('Retries and Timeouts', () => {
+    it('should retry a step up to its retryAttempts', async () => {
+      let calls = 0;
+      const workflow = createWorkflow([createStep('flaky', { retryAttempts: 3 })]);
+
+      const engine = new WorkflowEngine({
+        retryDelayMs: 0,
+        handlers: {
+          validation: async () => {
+            calls++;
+            if (calls < 3) throw new Error('transient');
+            return 'done';
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-5' });
+
+      expect(execution.status).toBe('completed');
+      expect(calls).toBe(3);
+      expect(execution.steps[0]?.attempt).toBe(3);
+    });
+
+    it('should fail a step that exceeds its timeout', async () => {
+      const workflow = createWorkflow([createStep('slow', { timeoutMs: 10 })]);
+
+      const engine = new WorkflowEngine({
+        handlers: { validation: async () => { await delay(100); return 'late'; } }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-6' });
+
+      expect(execution.status).toBe('failed');
+      expect(execution.steps[0]?.error).toContain('timed out after 10ms');
+    });
+
+    it('should abort a timed-out attempt and not start another while it may still be running', async () => {
+      const signals: AbortSignal[] = [];
+      const workflow = createWorkflow([createStep('slow', { timeoutMs: 10, retryAttempts: 3 })]);
+
+      const engine = new WorkflowEngine({
+        retryDelayMs: 0,
+        handlers: {
+          validation: async (_step, context) => {
+            if (context.signal) signals.push(context.signal);
+            await delay(50);
+            return 'late';
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-6b' });
+
+      expect(execution.status).toBe('failed');
+      expect(signals).toHaveLength(1);
+      expect(signals[0]?.aborted).toBe(true);
+    });
+  });
+
+  describe('Parallel Groups', () => {
+    it('should honour maxConcurrency within a parallel group', async () => {
+      let running = 0;
+      let peak = 0;
+      const handler: WorkflowStepHandler = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(10);
+        running--;
+      };
+
+      const workflow = createWorkflow(
+        [createStep('a'), createStep('b'), createStep('c')],
+        { parallelGroups: [{ groupId: 'group', stepIds: ['a', 'b', 'c'], maxConcurrency: 2, failFast: false }] }
+      );
+
+      const engine = new WorkflowEngine({ handlers: { validation: handler } });
+      await engine.execute(workflow, { executionId: 'exec-7' });
+
+      expect(peak).toBe(2);
+    });
+
+    it('should stop starting group members after a failure when failFast is set', async () => {
+      const started: string[] = [];
+      const workflow = createWorkflow(
+        [createStep('a', { required: false }), createStep('b'), createStep('c')],
+        { parallelGroups: [{ groupId: 'group', stepIds: ['a', 'b', 'c'], maxConcurrency: 1, failFast: true }] }
+      );
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          validation: async (step) => {
+            started.push(step.id);
+            if (step.id === 'a') throw new Error('boom');
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-8' });
+
+      expect(started).toEqual(['a']);
+      expect(execution.steps.map(s => s.status)).toEqual(['failed', 'skipped', 'skipped']);
+    });
+
+    it('should run group members one at a time when parallel execution is disabled', async () => {
+      let running = 0;
+      let peak = 0;
+      const workflow = createWorkflow(
+        [createStep('a'), createStep('b')],
+        { parallelGroups: [{ groupId: 'group', stepIds: ['a', 'b'], maxConcurrency: 2, failFast: false }] }
+      );
+
+      const engine = new WorkflowEngine({
+        enableParallelExecution: false,
+        handlers: {
+          validation: async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await delay(5);
+            running--;
+          }
+        }
+      });
+
+      await engine.execute(workflow, { executionId: 'exec-9' });
+
+      expect(peak).toBe(1);
+    });
+  });
+
+  describe('Resuming', () => {
+    it('should reuse completed steps and their outputs from an earlier run', async () => {
+      const executed: string[] = [];
+      const workflow = createWorkflow([
+        createStep('env', { type: 'environment_creation' }),
+        createStep('pub', { type: 'publisher_creation', dependencies: ['env'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          environment_creation: async (step) => { executed.push(step.id); return ['https://new.crm.dynamics.com']; },
+          publisher_creation: async (step, context) => {
+            executed.push(step.id);
+            return context.getOutputByType<string[]>('environment_creation')?.[0];
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, {
+        executionId: 'exec-resume',
+        completedSteps: [
+          { stepId: 'env', status: 'completed', attempt: 1, output: ['https://dev.crm.dynamics.com'] },
+          { stepId: 'pub', status: 'failed', attempt: 1, error: 'publisher unavailable' }
+        ]
+      });
+
+      expect(execution.status).toBe('completed');
+      expect(executed).toEqual(['pub']);
+      expect(execution.steps[1]?.output).toBe('https://dev.crm.dynamics.com');
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should let the running step finish and skip the rest once cancelled', async () => {
+      const controller = new AbortController();
+      const workflow = createWorkflow([
+        createStep('a'),
+        createStep('b', { dependencies: ['a'] }),
+        createStep('c', { dependencies: ['b'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          validation: async (step) => {
+            if (step.id === 'a') controller.abort();
+            return step.id;
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-cancel', signal: controller.signal });
+
+      expect(execution.status).toBe('cancelled');
+      expect(execution.steps.map(s => s.status)).toEqual(['completed', 'skipped', 'skipped']);
+      expect(execution.steps[1]?.error).toBe('Workflow cancelled');
+    });
+
+    it('should mark a step that stops on the signal as cancelled without retrying it', async () => {
+      const controller = new AbortController();
+      let attempts = 0;
+      const workflow = createWorkflow([createStep('a', { retryAttempts: 3 })]);
+
+      const engine = new WorkflowEngine({
+        retryDelayMs: 1,
+        handlers: {
+          validation: async (_step, context) => {
+            attempts++;
+            controller.abort();
+            context.signal?.throwIfAborted();
+            return 'unreachable';
+          }
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-cancel-2', signal: controller.signal });
+
+      expect(execution.status).toBe('cancelled');
+      expect(attempts).toBe(1);
+      expect(execution.steps[0]?.status).toBe('cancelled');
+      expect(execution.errors).toHaveLength(0);
+    });
+  });
+
+  describe('Approvals', () => {
+    it('should pause at an unapproved step and continue from it once approved', async () => {
+      let approved = false;
+      const workflow = createWorkflow([
+        createStep('check'),
+        createStep('gate', { type: 'approval', dependencies: ['check'] }),
+        createStep('env', { type: 'environment_creation', dependencies: ['gate'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        handlers: {
+          validation: async () => 'checked',
+          approval: async (step) => {
+            if (!approved) throw new WorkflowApprovalRequiredError(step.id);
+            return 'approved';
+          },
+          environment_creation: async () => 'env'
+        }
+      });
+
+      const paused = await engine.execute(workflow, { executionId: 'exec-approval' });
+
+      expect(paused.status).toBe('awaiting_approval');
+      expect(paused.completedAt).toBeUndefined();
+      expect(paused.steps.map(s => s.status)).toEqual(['completed', 'awaiting_approval', 'pending']);
+      expect(paused.errors).toHaveLength(0);
+
+      approved = true;
+      const resumed = await engine.execute(workflow, { executionId: 'exec-approval', completedSteps: paused.steps });
+
+      expect(resumed.status).toBe('completed');
+      expect(resumed.steps.map(s => s.output)).toEqual(['checked', 'approved', 'env']);
+    });
+  });
+
+  describe('Skipping', () => {
+    it('should treat skipped steps as satisfied dependencies', async () => {
+      const workflow = createWorkflow([
+        createStep('auth', { type: 'app_registration' }),
+        createStep('env', { type: 'environment_creation', dependencies: ['auth'] })
+      ]);
+
+      const engine = new WorkflowEngine({
+        shouldSkipStep: (step) => step.type === 'app_registration',
+        handlers: {
+          app_registration: async () => 'app',
+          environment_creation: async () => 'env'
+        }
+      });
+
+      const execution = await engine.execute(workflow, { executionId: 'exec-10' });
+
+      expect(execution.status).toBe('completed');
+      expect(execution.steps.map(s => s.status)).toEqual(['skipped', 'completed']);
+    });
+  });
+});